@@ -4,7 +4,7 @@
  */
 
 import TechnicalReferee from '../index';
-import { UserConstraints, TechnicalOption } from '../types';
+import { UserConstraints, TechnicalOption, InvalidOptionsError, InvalidConstraintsError } from '../types';
 
 describe('Project Setup', () => {
   let referee: TechnicalReferee;
@@ -65,6 +65,8 @@ describe('Project Setup', () => {
     
     await expect(referee.compareOptions(fourOptions, constraints))
       .rejects.toThrow('Must provide between 2 and 3 options');
+    await expect(referee.compareOptions(fourOptions, constraints))
+      .rejects.toBeInstanceOf(InvalidOptionsError);
 
     // Test with valid number of options
     const validOptions: TechnicalOption[] = [
@@ -74,6 +76,112 @@ describe('Project Setup', () => {
     
     const result = await referee.compareOptions(validOptions, constraints);
     expect(result).toBeDefined();
-    expect(result.options).toEqual(['AWS', 'GCP']);
+    expect(result.comparisonTable.rows.map(row => row.option.name).sort()).toEqual(['AWS', 'GCP']);
+    expect(result.prosAndCons).toHaveLength(2);
+    expect(['AWS', 'GCP']).toContain(result.finalRecommendation.recommendedOption.name);
+  });
+
+  test('should honor configured option limits and confidence threshold', async () => {
+    const constraints: UserConstraints = {
+      budget: 'medium',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: [] },
+      timeline: 'medium',
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    };
+    const fourOptions: TechnicalOption[] = [
+      { name: 'AWS', category: 'cloud', metadata: {} },
+      { name: 'GCP', category: 'cloud', metadata: {} },
+      { name: 'Azure', category: 'cloud', metadata: {} },
+      { name: 'DigitalOcean', category: 'cloud', metadata: {} },
+    ];
+
+    const wideReferee = new TechnicalReferee({ maxOptions: 4, confidenceThreshold: 1 });
+    const result = await wideReferee.compareOptions(fourOptions, constraints);
+
+    expect(result.comparisonTable.rows).toHaveLength(4);
+    expect(result.finalRecommendation.warnings.some(w => w.includes('below the configured threshold'))).toBe(true);
+  });
+
+  test('should surface typed errors for invalid constraints', async () => {
+    const invalidConstraints = {
+      budget: 'unlimited',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: [] },
+      timeline: 'medium',
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    } as unknown as UserConstraints;
+    const options: TechnicalOption[] = [
+      { name: 'AWS', category: 'cloud', metadata: {} },
+      { name: 'GCP', category: 'cloud', metadata: {} },
+    ];
+
+    const error = await referee.compareOptions(options, invalidConstraints).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidConstraintsError);
+    expect(error.errors.some((e: { code: string }) => e.code === 'BUDGET_INVALID')).toBe(true);
+  });
+
+  test('should report option validation warnings from the engine exactly once', async () => {
+    const constraints: UserConstraints = {
+      budget: 'medium',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: [] },
+      timeline: 'medium',
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    };
+    const options: TechnicalOption[] = [
+      { name: 'AWS', category: 'cloud', metadata: {} },
+      { name: 'Kubernetes', category: 'orchestration', metadata: {} },
+    ];
+
+    const { evaluation, warnings } = await referee.runComparison(options, constraints);
+    const isOrchestrationWarning = (w: string) => w.includes('Orchestration platforms run on top of cloud providers');
+
+    expect(evaluation.warnings?.filter(isOrchestrationWarning)).toHaveLength(1);
+    expect(warnings.filter(isOrchestrationWarning)).toHaveLength(1);
+  });
+
+  test('should rank with configured AHP judgments that cover custom criteria', async () => {
+    const options: TechnicalOption[] = ['Node.js', 'Django'].map(name => referee.getKnowledgeBase().findTechnology(name)!);
+    const judgments = (['cost', 'performance', 'easeOfUse', 'scalability', 'vendorLockIn'] as const)
+      .map(priority => ({ more: 'compliance', less: priority, intensity: 9 }));
+    const ahpReferee = new TechnicalReferee({ aggregationMethod: 'ahp', ahpJudgments: judgments });
+    const constraintsFavoring = (name: string): UserConstraints => ({
+      budget: 'medium',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: [] },
+      timeline: 'medium',
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+      customCriteria: [{ name: 'compliance', priority: 1, scores: { [name]: 100 } }],
+    });
+
+    const nodeFirst = await ahpReferee.runComparison(options, constraintsFavoring('Node.js'));
+    const djangoFirst = await ahpReferee.runComparison(options, constraintsFavoring('Django'));
+
+    expect(nodeFirst.evaluation.aggregationMethod).toBe('ahp');
+    expect(nodeFirst.evaluation.sensitivityNotApplicable).toMatch(/AHP judgments/);
+    expect(nodeFirst.evaluation.rankings[0]?.option.name).toBe('Node.js');
+    expect(djangoFirst.evaluation.rankings[0]?.option.name).toBe('Django');
+  });
+
+  test('should shortlist more candidates than the comparison limit', async () => {
+    const constraints: UserConstraints = {
+      budget: 'medium',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: [] },
+      timeline: 'medium',
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    };
+    const candidates = referee.getKnowledgeBase().getSampleTechnologies().backend!.concat(
+      ['Rails', 'Laravel', 'Phoenix'].map(name => ({ name, category: 'backend' as const, metadata: {} }))
+    );
+
+    const result = await new TechnicalReferee({ shortlistSize: 2 }).compareShortlist(candidates, constraints);
+
+    expect(result.shortlist?.candidateCount).toBe(6);
+    expect(result.shortlist?.finalists).toHaveLength(2);
+    expect(result.shortlist?.cut).toHaveLength(4);
+    expect(result.comparisonTable.rows).toHaveLength(2);
+    expect(result.finalRecommendation.reasoning).toContain('shortlisted from 6 candidates');
   });
 });
\ No newline at end of file
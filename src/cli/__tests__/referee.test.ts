@@ -0,0 +1,176 @@
+/**
+ * Tests for the referee CLI
+ * Validates argument parsing, the interactive walkthrough and non-interactive file runs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { RefereeCli, CLI_EXIT_CODES } from '../referee';
+
+describe('RefereeCli', () => {
+  const constraints = {
+    budget: 'medium',
+    scale: { users: 20000, traffic: 'medium' },
+    team: { skillLevel: 'mixed', experience: ['javascript'] },
+    timeline: 'medium',
+    priorities: { cost: 3, performance: 4, easeOfUse: 3, scalability: 4, vendorLockIn: 2 },
+  };
+
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'referee-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Run the CLI with the given arguments and answers, capturing stdout and stderr
+   */
+  const runCli = async (argv: string[], answers: string[] = []) => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const error = new PassThrough();
+    let stdout = '';
+    let stderr = '';
+    output.on('data', chunk => { stdout += chunk; });
+    error.on('data', chunk => { stderr += chunk; });
+    input.end(answers.map(answer => `${answer}\n`).join(''));
+
+    const code = await new RefereeCli(undefined, { input, output, error }).run(argv);
+    return { code, stdout, stderr };
+  };
+
+  const writeInput = (contents: unknown) => {
+    const file = path.join(directory, 'input.json');
+    fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+    return file;
+  };
+
+  describe('parseArguments', () => {
+    const cli = new RefereeCli();
+
+    it('should read short, long and inline flags', () => {
+      expect(cli.parseArguments(['-i', 'in.json', '--format=markdown', '--output', 'out.md'])).toEqual({
+        input: 'in.json',
+        format: 'markdown',
+        output: 'out.md',
+        help: false,
+      });
+      expect(cli.parseArguments([])).toEqual({ format: 'json', help: false });
+    });
+
+    it('should reject unknown flags, missing values and unsupported formats', () => {
+      expect(() => cli.parseArguments(['--verbose'])).toThrow("Unknown option '--verbose'");
+      expect(() => cli.parseArguments(['--input'])).toThrow('Option --input requires a value');
+      expect(() => cli.parseArguments(['-f', 'pdf'])).toThrow(expect.objectContaining({ code: 'CLI_USAGE' }));
+    });
+
+    it('should exit with the usage code and print help on bad arguments', async () => {
+      const { code, stderr } = await runCli(['--nope']);
+
+      expect(code).toBe(CLI_EXIT_CODES.usage);
+      expect(stderr).toContain('Usage: referee [options]');
+    });
+  });
+
+  describe('non-interactive mode', () => {
+    it('should write JSON output with the comparison and recommendation', async () => {
+      const file = writeInput({ constraints, options: ['PostgreSQL', 'MongoDB'] });
+      const outputFile = path.join(directory, 'result.json');
+
+      const { code, stderr } = await runCli(['--input', file, '--output', outputFile]);
+      const result = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(stderr).toContain(`Wrote json output to ${outputFile}`);
+      expect(result.constraints).toEqual(constraints);
+      expect(result.output.comparisonTable.rows.map((row: any) => row.option.name)).toEqual(['PostgreSQL', 'MongoDB']);
+      expect(['PostgreSQL', 'MongoDB']).toContain(result.output.finalRecommendation.recommendedOption.name);
+    });
+
+    it('should print a Markdown report to stdout', async () => {
+      const file = writeInput({
+        constraints,
+        options: ['PostgreSQL', { name: 'CockroachDB', category: 'database', metadata: { acidCompliance: true } }],
+      });
+
+      const { code, stdout } = await runCli(['-i', file, '-f', 'markdown']);
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(stdout.startsWith('# Technology Comparison Report')).toBe(true);
+      expect(stdout).toContain('| CockroachDB |');
+    });
+
+    it('should shortlist when more options than the maximum are given', async () => {
+      const file = writeInput({ constraints, options: ['PostgreSQL', 'MongoDB', 'MySQL', { name: 'SQLite', category: 'database' }] });
+
+      const { code, stdout } = await runCli(['-i', file]);
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(JSON.parse(stdout).output.shortlist.cut).toHaveLength(1);
+    });
+
+    it('should report unknown technologies and invalid files', async () => {
+      const unknown = await runCli(['-i', writeInput({ constraints, options: ['PostgreSQL', 'NotADatabase'] })]);
+      expect(unknown.code).toBe(CLI_EXIT_CODES.failure);
+      expect(unknown.stderr).toContain("options[1]: Unknown technology 'NotADatabase'");
+
+      const malformed = await runCli(['-i', writeInput('{ not json')]);
+      expect(malformed.code).toBe(CLI_EXIT_CODES.failure);
+      expect(malformed.stderr).toContain('is not valid JSON');
+
+      const incomplete = await runCli(['-i', writeInput({ options: [] })]);
+      expect(incomplete.stderr).toContain('must contain a "constraints" object and an "options" array');
+    });
+  });
+
+  describe('interactive mode', () => {
+    const answers = [
+      'huge', 'low',
+      '50000', 'high',
+      'senior', 'postgresql, go',
+      'short',
+      '', '5', '', '4', '2',
+      'database',
+      '1, mongodb, CockroachDB',
+      'CockroachDB', '{"acidCompliance": true}',
+      '',
+    ];
+
+    it('should walk through every step and print the comparison', async () => {
+      const reportPath = path.join(directory, 'report.md');
+
+      const { code, stdout } = await runCli([], [...answers, reportPath]);
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(stdout).toContain('Please answer one of: low, medium, high');
+      expect(stdout).toContain('Not in the knowledge base: CockroachDB');
+      expect(stdout).toMatch(/^Option\s+/m);
+      expect(stdout).toMatch(/^PostgreSQL\s+/m);
+      expect(stdout).toMatch(/^CockroachDB\s+/m);
+      expect(stdout).toMatch(/Recommendation: \S+ \(confidence \d+%\)/);
+      expect(stdout).not.toContain('**');
+      expect(fs.readFileSync(reportPath, 'utf8')).toContain('| Budget | Low |');
+    });
+
+    it('should repeat the option step until enough options are picked', async () => {
+      const picks = answers.slice(0, 13);
+      const { code, stdout } = await runCli([], [...picks, 'postgresql', '', 'postgresql, mysql', '', '']);
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(stdout).toContain('Pick at least 2 options to compare');
+    });
+
+    it('should fail cleanly when input ends early', async () => {
+      const { code, stderr } = await runCli([], ['medium']);
+
+      expect(code).toBe(CLI_EXIT_CODES.failure);
+      expect(stderr).toContain('Input ended before the comparison was complete');
+    });
+  });
+});
@@ -0,0 +1,544 @@
+#!/usr/bin/env node
+/**
+ * Referee command-line interface
+ * Walks through constraint collection and option selection in the terminal, or runs
+ * non-interactively from a constraints/options JSON file
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { TechnicalReferee, ComparisonRunResult } from '../index';
+import { CollectionStep, ConstraintCollectionInterface } from '../components/ConstraintCollectionInterface';
+import { ReportExporter } from '../components/ReportExporter';
+import {
+  UserConstraints,
+  TechnicalOption,
+  OptionSelection,
+  ComparisonOutput,
+  ComparisonTable,
+  PriorityName,
+  ReportFormat,
+  ValidationResult,
+  TechnicalRefereeError,
+  RefereeValidationError,
+  InvalidOptionsError,
+} from '../types';
+
+/** Output formats supported in non-interactive mode */
+export type CliOutputFormat = 'json' | ReportFormat;
+
+/**
+ * Parsed command-line arguments
+ */
+export interface CliArguments {
+  /** Constraints/options JSON file; runs non-interactively when set */
+  input?: string;
+  /** Output format for non-interactive runs */
+  format: CliOutputFormat;
+  /** File to write the output to instead of stdout */
+  output?: string;
+  /** Print usage and exit */
+  help: boolean;
+}
+
+/**
+ * Contents of a non-interactive input file
+ */
+export interface CliInputFile {
+  constraints: UserConstraints;
+  /** Known technology names or custom options with a category and metadata */
+  options: OptionSelection[];
+}
+
+/**
+ * Streams the CLI reads from and writes to
+ */
+export interface CliStreams {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+  error: NodeJS.WritableStream;
+}
+
+/** Exit codes returned by the CLI */
+export const CLI_EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+} as const;
+
+const OUTPUT_FORMATS: CliOutputFormat[] = ['json', 'markdown', 'html'];
+
+const PRIORITY_PROMPTS: Record<PriorityName, string> = {
+  cost: 'Cost',
+  performance: 'Performance',
+  easeOfUse: 'Ease of use',
+  scalability: 'Scalability',
+  vendorLockIn: 'Avoiding vendor lock-in',
+};
+
+const USAGE = `Usage: referee [options]
+
+Compare technical options against your constraints and priorities.
+Without --input, walks through the constraints and options interactively.
+
+Options:
+  -i, --input <file>     Read constraints and options from a JSON file
+  -f, --format <format>  Output format for --input: json, markdown or html (default: json)
+  -o, --output <file>    Write the output to a file instead of stdout
+  -h, --help             Show this help
+
+Input file:
+  { "constraints": { "budget": "medium", ... }, "options": ["PostgreSQL", { "name": "...", "category": "database", "metadata": {} }] }
+`;
+
+/**
+ * Command-line front end for the Technical Referee
+ * Interactive mode follows the same steps as the web interface; non-interactive mode
+ * reads everything from a file so comparisons can be scripted
+ */
+export class RefereeCli {
+  private referee: TechnicalReferee;
+  private streams: CliStreams;
+  private exporter: ReportExporter;
+  private lines: AsyncIterator<string> | null = null;
+
+  constructor(referee?: TechnicalReferee, streams?: Partial<CliStreams>) {
+    this.referee = referee || new TechnicalReferee();
+    this.streams = {
+      input: streams?.input || process.stdin,
+      output: streams?.output || process.stdout,
+      error: streams?.error || process.stderr,
+    };
+    this.exporter = new ReportExporter();
+  }
+
+  /**
+   * Run the CLI
+   * @param argv - Arguments after the executable and script name
+   * @returns Process exit code
+   */
+  async run(argv: string[]): Promise<number> {
+    let args: CliArguments;
+    try {
+      args = this.parseArguments(argv);
+    } catch (error) {
+      this.streams.error.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+      return CLI_EXIT_CODES.usage;
+    }
+
+    if (args.help) {
+      this.streams.output.write(USAGE);
+      return CLI_EXIT_CODES.success;
+    }
+
+    try {
+      if (args.input) {
+        await this.runNonInteractive(args.input, args.format, args.output);
+      } else {
+        await this.runInteractive();
+      }
+      return CLI_EXIT_CODES.success;
+    } catch (error) {
+      this.reportError(error);
+      return CLI_EXIT_CODES.failure;
+    }
+  }
+
+  /**
+   * Parse command-line arguments
+   * @throws TechnicalRefereeError for unknown flags, missing values or unsupported formats
+   */
+  parseArguments(argv: string[]): CliArguments {
+    const args: CliArguments = { format: 'json', help: false };
+    const queue = [...argv];
+
+    const valueFor = (flag: string): string => {
+      const value = queue.shift();
+      if (value === undefined || value.startsWith('-')) {
+        throw new TechnicalRefereeError(`Option ${flag} requires a value`, 'CLI_USAGE');
+      }
+      return value;
+    };
+
+    while (queue.length > 0) {
+      const arg = queue.shift()!;
+      const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+        ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+        : [arg, undefined];
+      const value = () => inlineValue ?? valueFor(flag);
+
+      switch (flag) {
+        case '-i':
+        case '--input':
+          args.input = value();
+          break;
+        case '-f':
+        case '--format': {
+          const format = value();
+          if (!OUTPUT_FORMATS.includes(format as CliOutputFormat)) {
+            throw new TechnicalRefereeError(
+              `Unsupported format '${format}' - use one of: ${OUTPUT_FORMATS.join(', ')}`,
+              'CLI_USAGE'
+            );
+          }
+          args.format = format as CliOutputFormat;
+          break;
+        }
+        case '-o':
+        case '--output':
+          args.output = value();
+          break;
+        case '-h':
+        case '--help':
+          args.help = true;
+          break;
+        default:
+          throw new TechnicalRefereeError(`Unknown option '${arg}'`, 'CLI_USAGE');
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Compare the options in an input file and write the result as JSON, Markdown or HTML
+   * @param inputPath - Constraints/options JSON file
+   * @param format - Output format
+   * @param outputPath - File to write to; stdout when omitted
+   * @throws TechnicalRefereeError if the input file cannot be read or parsed
+   * @throws RefereeValidationError if the constraints or options are invalid
+   */
+  async runNonInteractive(inputPath: string, format: CliOutputFormat, outputPath?: string): Promise<void> {
+    const input = this.readInputFile(inputPath);
+    const options = this.resolveSelections(input.options);
+    const result = await this.compare(options, input.constraints);
+
+    const rendered = format === 'json'
+      ? `${JSON.stringify({ constraints: input.constraints, output: result.output, warnings: result.warnings }, null, 2)}\n`
+      : this.exporter.export(result.output, input.constraints, format);
+
+    if (outputPath) {
+      fs.writeFileSync(outputPath, rendered, 'utf8');
+      this.streams.error.write(`Wrote ${format} output to ${outputPath}\n`);
+    } else {
+      this.streams.output.write(rendered);
+    }
+  }
+
+  /**
+   * Collect constraints and options at the prompt, then print the comparison
+   * @throws TechnicalRefereeError if input ends before the workflow is complete
+   */
+  async runInteractive(): Promise<void> {
+    const reader = readline.createInterface({ input: this.streams.input, crlfDelay: Infinity });
+    this.lines = reader[Symbol.asyncIterator]();
+
+    try {
+      this.print('Technical Referee - compare technical options against your constraints\n');
+
+      const constraints = await this.collectConstraints();
+      const options = await this.selectOptions();
+      const result = await this.compare(options, constraints);
+
+      this.print('');
+      this.print(this.formatComparison(result.output));
+      result.warnings.forEach(warning => this.print(`Note: ${warning}`));
+
+      const reportPath = await this.ask('Save a Markdown report to (leave empty to skip)');
+      if (reportPath) {
+        fs.writeFileSync(reportPath, this.exporter.export(result.output, constraints, 'markdown'), 'utf8');
+        this.print(`Report written to ${reportPath}`);
+      }
+    } finally {
+      this.lines = null;
+      reader.close();
+    }
+  }
+
+  /**
+   * Render the comparison table and recommendation for the terminal
+   */
+  formatComparison(output: ComparisonOutput): string {
+    const recommendation = output.finalRecommendation;
+    const lines = [
+      this.formatTable(output.comparisonTable),
+      '',
+      `Recommendation: ${recommendation.recommendedOption.name} ` +
+        `(confidence ${Math.round(recommendation.confidence * 100)}%)`,
+      '',
+      this.plainText(recommendation.reasoning),
+    ];
+
+    if (recommendation.keyFactors.length > 0) {
+      lines.push('', 'Key factors:', ...recommendation.keyFactors.map(factor => `  - ${this.plainText(factor)}`));
+    }
+    if (recommendation.warnings.length > 0) {
+      lines.push('', 'Warnings:', ...recommendation.warnings.map(warning => `  ! ${this.plainText(warning)}`));
+    }
+    if (output.tradeOffExplanation) {
+      lines.push('', 'Trade-offs:', this.plainText(output.tradeOffExplanation));
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Render a comparison table with padded columns
+   */
+  formatTable(table: ComparisonTable): string {
+    const rows = table.rows.map(row => table.headers.map(header => String(row.values[header] ?? 'N/A')));
+    const widths = table.headers.map((header, column) =>
+      Math.max(header.length, ...rows.map(row => row[column]!.length))
+    );
+    const renderRow = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd();
+
+    return [
+      renderRow(table.headers),
+      renderRow(widths.map(width => '-'.repeat(width))),
+      ...rows.map(renderRow),
+    ].join('\n');
+  }
+
+  /**
+   * Ask for each constraint in turn, repeating a step until it validates
+   */
+  private async collectConstraints(): Promise<UserConstraints> {
+    const collection = new ConstraintCollectionInterface();
+    const choices = collection.getFormOptions();
+    collection.startCollection();
+
+    while (collection.getCurrentStep() !== CollectionStep.COMPLETE) {
+      const step = collection.getCurrentStep();
+      let validation: ValidationResult;
+
+      switch (step) {
+        case CollectionStep.BUDGET:
+          validation = collection.collectBudget({
+            budget: await this.choose('Budget', choices.budget, 'medium'),
+          });
+          break;
+        case CollectionStep.SCALE:
+          validation = collection.collectScale({
+            users: Number(await this.ask('Expected number of users', '1000')),
+            traffic: await this.choose('Traffic volume', choices.traffic, 'medium'),
+          });
+          break;
+        case CollectionStep.TEAM:
+          validation = collection.collectTeam({
+            skillLevel: await this.choose('Team skill level', choices.skillLevel, 'mixed'),
+            experience: this.splitList(await this.ask('Technologies the team knows (comma-separated)')),
+          });
+          break;
+        case CollectionStep.TIMELINE:
+          validation = collection.collectTimeline({
+            timeline: await this.choose('Timeline', choices.timeline, 'medium'),
+          });
+          break;
+        default: {
+          const { min, max } = choices.priorityRange;
+          this.print(`\nRate each priority from ${min} (low) to ${max} (high)`);
+          const priorities = {} as Record<PriorityName, number>;
+          for (const [priority, label] of Object.entries(PRIORITY_PROMPTS) as Array<[PriorityName, string]>) {
+            priorities[priority] = Number(await this.ask(label, '3'));
+          }
+          validation = collection.collectPriorities(priorities);
+        }
+      }
+
+      this.printValidation(validation);
+    }
+
+    return collection.getCompleteConstraints()!;
+  }
+
+  /**
+   * Pick options from the knowledge base and add custom ones until there are enough to compare
+   */
+  private async selectOptions(): Promise<TechnicalOption[]> {
+    const samples = this.referee.getKnowledgeBase().getSampleTechnologies();
+    const category = await this.choose('\nCategory to compare', Object.keys(samples), 'database') as TechnicalOption['category'];
+    const known = samples[category] || [];
+    const { minOptions } = this.referee.getConfig();
+
+    for (;;) {
+      this.print(`\nKnown ${category} options:`);
+      known.forEach((option, index) => this.print(`  ${index + 1}. ${option.name}`));
+
+      const options: TechnicalOption[] = [];
+      const unknown: string[] = [];
+      this.splitList(await this.ask('Options to compare (numbers or names, comma-separated)')).forEach(entry => {
+        const option = /^\d+$/.test(entry)
+          ? known[parseInt(entry, 10) - 1]
+          : known.find(candidate => candidate.name.toLowerCase() === entry.toLowerCase());
+        if (option) {
+          options.push({ ...option, metadata: { ...option.metadata } });
+        } else {
+          unknown.push(entry);
+        }
+      });
+      if (unknown.length > 0) {
+        this.print(`Not in the knowledge base: ${unknown.join(', ')} - add them as custom options below`);
+      }
+
+      for (;;) {
+        const name = await this.ask('Custom option name (leave empty when done)');
+        if (!name) {
+          break;
+        }
+        const metadata = await this.askMetadata();
+        options.push({ name, category, metadata });
+      }
+
+      if (options.length >= minOptions) {
+        return options;
+      }
+      this.print(`Pick at least ${minOptions} options to compare`);
+    }
+  }
+
+  /**
+   * Ask for custom option metadata as a JSON object, repeating until it parses
+   */
+  private async askMetadata(): Promise<Record<string, any>> {
+    for (;;) {
+      const answer = await this.ask('Metadata as a JSON object (leave empty for none)');
+      if (!answer) {
+        return {};
+      }
+      try {
+        const metadata = JSON.parse(answer);
+        if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+          return metadata;
+        }
+      } catch {
+        // Fall through to the retry message
+      }
+      this.print('Metadata must be a JSON object, e.g. {"learningCurve": "low"}');
+    }
+  }
+
+  /**
+   * Run a direct comparison, or shortlist first when more options than the maximum were picked
+   */
+  private compare(options: TechnicalOption[], constraints: UserConstraints): Promise<ComparisonRunResult> {
+    return options.length > this.referee.getConfig().maxOptions
+      ? this.referee.runShortlistComparison(options, constraints)
+      : this.referee.runComparison(options, constraints);
+  }
+
+  /**
+   * Read and shape-check a non-interactive input file
+   */
+  private readInputFile(inputPath: string): CliInputFile {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(inputPath, 'utf8');
+    } catch (error) {
+      throw new TechnicalRefereeError(
+        `Cannot read input file ${inputPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'CLI_INPUT_INVALID'
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new TechnicalRefereeError(
+        `Input file ${inputPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        'CLI_INPUT_INVALID'
+      );
+    }
+
+    const input = parsed as Partial<CliInputFile> | null;
+    if (!input || typeof input !== 'object' || !input.constraints || typeof input.constraints !== 'object' ||
+        !Array.isArray(input.options)) {
+      throw new TechnicalRefereeError(
+        `Input file ${inputPath} must contain a "constraints" object and an "options" array`,
+        'CLI_INPUT_INVALID'
+      );
+    }
+
+    return input as CliInputFile;
+  }
+
+  /**
+   * Resolve option names against the knowledge base, keeping custom options as given
+   * @throws InvalidOptionsError if a name is unknown or a custom option has no category
+   */
+  private resolveSelections(selections: OptionSelection[]): TechnicalOption[] {
+    const { options, errors } = this.referee.getKnowledgeBase().resolveOptionSelections(selections);
+    if (errors.length > 0) {
+      throw new InvalidOptionsError(errors);
+    }
+    return options;
+  }
+
+  /**
+   * Prompt for a line of input
+   * @param question - Prompt text
+   * @param fallback - Value used when the answer is empty
+   * @throws TechnicalRefereeError if input ends first
+   */
+  private async ask(question: string, fallback?: string): Promise<string> {
+    this.streams.output.write(fallback !== undefined ? `${question} [${fallback}]: ` : `${question}: `);
+
+    const next = this.lines ? await this.lines.next() : { done: true as const, value: undefined };
+    if (next.done) {
+      throw new TechnicalRefereeError('Input ended before the comparison was complete', 'CLI_INPUT_CLOSED');
+    }
+
+    const answer = next.value.trim();
+    return answer || fallback || '';
+  }
+
+  /**
+   * Prompt until the answer is one of the allowed choices
+   */
+  private async choose<T extends string>(question: string, choices: readonly T[], fallback: T): Promise<T> {
+    for (;;) {
+      const answer = (await this.ask(`${question} (${choices.join('/')})`, fallback)).toLowerCase();
+      const match = choices.find(choice => choice.toLowerCase() === answer);
+      if (match) {
+        return match;
+      }
+      this.print(`Please answer one of: ${choices.join(', ')}`);
+    }
+  }
+
+  private printValidation(validation: ValidationResult): void {
+    validation.errors.forEach(error => this.print(`Error: ${error.message}`));
+    validation.warnings.forEach(warning => this.print(`Note: ${warning}`));
+  }
+
+  private reportError(error: unknown): void {
+    if (error instanceof RefereeValidationError) {
+      this.streams.error.write(`${error.message}\n`);
+      error.errors.forEach(detail => this.streams.error.write(`  ${detail.field}: ${detail.message}\n`));
+      return;
+    }
+    this.streams.error.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  }
+
+  private print(text: string): void {
+    this.streams.output.write(`${text}\n`);
+  }
+
+  private splitList(value: string): string[] {
+    return value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+  }
+
+  /**
+   * Strip the bold markers the output generator uses in narrative text
+   */
+  private plainText(text: string): string {
+    return text.replace(/\*\*(.+?)\*\*/g, '$1');
+  }
+}
+
+// Run when executed directly, e.g. via the "referee" bin
+if (require.main === module) {
+  new RefereeCli().run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,360 @@
+/**
+ * ADR Generator
+ * Turns an evaluation into an Architecture Decision Record in MADR or Nygard format,
+ * numbered so it can be written straight into a docs/adr folder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  UserConstraints,
+  EvaluationResult,
+  ComparisonOutput,
+  TechnicalOption,
+  AdrOptions,
+  AdrStatus,
+  ArchitectureDecisionRecord,
+  PriorityName,
+  TechnicalRefereeError,
+} from '../types';
+
+/** ADR file names start with a zero-padded sequence number, e.g. "0007-use-postgresql.md" */
+const ADR_FILE_PATTERN = /^(\d+)-.*\.md$/;
+
+/** How each category is named in decision titles and context */
+const CATEGORY_PHRASES: Partial<Record<TechnicalOption['category'], string>> = {
+  cloud: 'cloud hosting',
+  backend: 'the backend framework',
+  database: 'the database',
+  frontend: 'the frontend framework',
+  messaging: 'the messaging platform',
+  orchestration: 'container orchestration',
+  observability: 'the observability stack',
+  identity: 'the identity provider',
+  cache: 'the cache',
+};
+
+/** Display names of the five priorities */
+const PRIORITY_LABELS: Record<PriorityName, string> = {
+  cost: 'cost',
+  performance: 'performance',
+  easeOfUse: 'ease of use',
+  scalability: 'scalability',
+  vendorLockIn: 'avoiding vendor lock-in',
+};
+
+/**
+ * Generates Architecture Decision Records from evaluations
+ * Context comes from the constraints, considered options from the rankings, the decision
+ * from the recommendation, and consequences from the compromises and warnings
+ */
+export class AdrGenerator {
+  /**
+   * Generate an ADR
+   * @param constraints - Constraints the evaluation ran with
+   * @param result - Evaluation result
+   * @param output - Comparison output rendered from the result
+   * @param options - Format, number, title, status, date and deciders
+   * @returns ADR with its conventional file name
+   * @throws TechnicalRefereeError if the number is not a positive integer
+   */
+  generate(
+    constraints: UserConstraints,
+    result: EvaluationResult,
+    output: ComparisonOutput,
+    options: AdrOptions = {}
+  ): ArchitectureDecisionRecord {
+    const number = options.number ?? 1;
+    if (!Number.isInteger(number) || number < 1) {
+      throw new TechnicalRefereeError(`ADR number must be a positive integer, got ${number}`, 'ADR_NUMBER_INVALID');
+    }
+
+    const chosen = output.finalRecommendation.recommendedOption;
+    const format = options.format ?? 'madr';
+    const status = options.status ?? 'proposed';
+    const title = options.title || `Use ${chosen.name} for ${this.describeCategory(chosen.category)}`;
+    const date = this.formatDate(options.date ?? new Date());
+
+    const content = format === 'nygard'
+      ? this.renderNygard(number, title, status, date, constraints, result, output)
+      : this.renderMadr(title, status, date, options.deciders ?? [], constraints, result, output);
+
+    return {
+      number,
+      title,
+      status,
+      format,
+      filename: `${String(number).padStart(4, '0')}-${this.slugify(title)}.md`,
+      content,
+    };
+  }
+
+  /**
+   * Find the next free ADR number in a directory
+   * @param directory - ADR directory, e.g. docs/adr
+   * @returns One more than the highest existing number, or 1 for a missing or empty directory
+   */
+  getNextNumber(directory: string): number {
+    if (!fs.existsSync(directory)) {
+      return 1;
+    }
+
+    const numbers = fs.readdirSync(directory)
+      .map(file => ADR_FILE_PATTERN.exec(file)?.[1])
+      .filter((digits): digits is string => digits !== undefined)
+      .map(digits => parseInt(digits, 10));
+
+    return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+  }
+
+  /**
+   * Generate an ADR and write it into an ADR directory
+   * Uses the next free number unless one is given
+   * @param directory - ADR directory, created if missing
+   * @param constraints - Constraints the evaluation ran with
+   * @param result - Evaluation result
+   * @param output - Comparison output rendered from the result
+   * @param options - Format, number, title, status, date and deciders
+   * @returns Written ADR and the path it was written to
+   * @throws TechnicalRefereeError if an ADR file with the same name already exists
+   */
+  write(
+    directory: string,
+    constraints: UserConstraints,
+    result: EvaluationResult,
+    output: ComparisonOutput,
+    options: AdrOptions = {}
+  ): ArchitectureDecisionRecord & { path: string } {
+    const record = this.generate(constraints, result, output, {
+      ...options,
+      number: options.number ?? this.getNextNumber(directory),
+    });
+    const filePath = path.join(directory, record.filename);
+
+    fs.mkdirSync(directory, { recursive: true });
+    try {
+      fs.writeFileSync(filePath, record.content, { encoding: 'utf8', flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new TechnicalRefereeError(`ADR file already exists: ${filePath}`, 'ADR_FILE_EXISTS');
+      }
+      throw error;
+    }
+
+    return { ...record, path: filePath };
+  }
+
+  /**
+   * Render a MADR document
+   */
+  private renderMadr(
+    title: string,
+    status: AdrStatus,
+    date: string,
+    deciders: string[],
+    constraints: UserConstraints,
+    result: EvaluationResult,
+    output: ComparisonOutput
+  ): string {
+    const recommendation = output.finalRecommendation;
+    const chosen = recommendation.recommendedOption;
+    const names = result.scores.map(score => score.option.name);
+    const because = (text: string) => this.lowerFirst(text, names);
+    const lines = [
+      '---',
+      `status: ${status}`,
+      `date: ${date}`,
+      ...(deciders.length > 0 ? [`deciders: ${deciders.join(', ')}`] : []),
+      '---',
+      '',
+      `# ${title}`,
+      '',
+      '## Context and Problem Statement',
+      '',
+      this.describeContext(constraints, chosen),
+      '',
+      '## Decision Drivers',
+      '',
+      ...this.describeDrivers(constraints).map(driver => `* ${driver}`),
+      '',
+      '## Considered Options',
+      '',
+      ...this.describeConsideredOptions(result).map(option => `* ${option}`),
+      '',
+      '## Decision Outcome',
+      '',
+      `Chosen option: "${chosen.name}", because it ranked first with a confidence of ` +
+        `${Math.round(recommendation.confidence * 100)}%.`,
+      '',
+      recommendation.reasoning,
+      '',
+      '### Consequences',
+      '',
+      ...recommendation.keyFactors.map(factor => `* Good, because ${because(factor)}`),
+      ...this.describeCompromises(result, chosen).map(compromise => `* Bad, because ${because(compromise)}`),
+      ...recommendation.warnings.map(warning => `* Bad, because ${because(warning)}`),
+    ];
+
+    lines.push('', '## Pros and Cons of the Options');
+    output.prosAndCons.forEach(({ option, pros, cons }) => {
+      lines.push('', `### ${option.name}`, '');
+      lines.push(...pros.map(pro => `* Good, because ${because(pro)}`));
+      lines.push(...cons.map(con => `* Bad, because ${because(con)}`));
+    });
+
+    if (result.eliminated && result.eliminated.length > 0) {
+      lines.push('', '## More Information', '', 'Options ruled out by hard constraints before ranking:', '');
+      lines.push(...result.eliminated.map(({ option, reasons }) =>
+        `* ${option.name}: ${reasons.map(reason => reason.message).join('; ')}`
+      ));
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Render a Nygard-style document
+   */
+  private renderNygard(
+    number: number,
+    title: string,
+    status: AdrStatus,
+    date: string,
+    constraints: UserConstraints,
+    result: EvaluationResult,
+    output: ComparisonOutput
+  ): string {
+    const recommendation = output.finalRecommendation;
+    const chosen = recommendation.recommendedOption;
+    const lines = [
+      `# ${number}. ${title}`,
+      '',
+      `Date: ${date}`,
+      '',
+      '## Status',
+      '',
+      this.capitalize(status),
+      '',
+      '## Context',
+      '',
+      this.describeContext(constraints, chosen),
+      '',
+      'What matters most, in order:',
+      '',
+      ...this.describeDrivers(constraints).map(driver => `- ${driver}`),
+      '',
+      'We considered:',
+      '',
+      ...this.describeConsideredOptions(result).map(option => `- ${option}`),
+    ];
+
+    if (result.eliminated && result.eliminated.length > 0) {
+      lines.push('', 'Ruled out by hard constraints:', '');
+      lines.push(...result.eliminated.map(({ option, reasons }) =>
+        `- ${option.name}: ${reasons.map(reason => reason.message).join('; ')}`
+      ));
+    }
+
+    lines.push(
+      '',
+      '## Decision',
+      '',
+      `We will use ${chosen.name}. ${recommendation.reasoning}`,
+      '',
+      '## Consequences',
+      ''
+    );
+
+    const consequences = [
+      ...recommendation.keyFactors,
+      ...this.describeCompromises(result, chosen),
+      ...recommendation.warnings,
+    ];
+    lines.push(...(consequences.length > 0 ? consequences.map(consequence => `- ${consequence}`) : ['- No notable compromises']));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * One-paragraph problem statement built from the constraints
+   */
+  private describeContext(constraints: UserConstraints, chosen: TechnicalOption): string {
+    const team = constraints.team.experience.length > 0
+      ? `a ${constraints.team.skillLevel}-level team experienced with ${constraints.team.experience.join(', ')}`
+      : `a ${constraints.team.skillLevel}-level team`;
+
+    return `We need to choose ${this.describeCategory(chosen.category)} for a project with a ${constraints.budget} budget ` +
+      `and a ${constraints.timeline} timeline, built by ${team}. ` +
+      `We expect about ${constraints.scale.users.toLocaleString('en-US')} users with ${constraints.scale.traffic} traffic.`;
+  }
+
+  /**
+   * Priorities (highest first), hard constraints and custom criteria as decision drivers
+   */
+  private describeDrivers(constraints: UserConstraints): string[] {
+    const drivers = (Object.entries(constraints.priorities) as Array<[PriorityName, number]>)
+      .sort(([, a], [, b]) => b - a)
+      .map(([priority, value]) => `${this.capitalize(PRIORITY_LABELS[priority])} (priority ${value}/5)`);
+
+    (constraints.customCriteria || []).forEach(criterion => {
+      drivers.push(`${criterion.label || criterion.name} (priority ${criterion.priority}/5)`);
+    });
+
+    (constraints.hardConstraints?.mustHave || []).forEach(requirement => {
+      drivers.push(`Must have: ${requirement.description || `${requirement.field} ${requirement.operator} ${JSON.stringify(requirement.value)}`}`);
+    });
+
+    Object.entries(constraints.hardConstraints?.minimumScores || {}).forEach(([criterion, score]) => {
+      drivers.push(`Minimum ${criterion} score of ${score}`);
+    });
+
+    return drivers;
+  }
+
+  /**
+   * Ranked options with their overall scores
+   */
+  private describeConsideredOptions(result: EvaluationResult): string[] {
+    return result.rankings.map(ranking => {
+      const score = result.scores.find(candidate => candidate.option.name === ranking.option.name)?.normalizedScore
+        ?? Math.round(ranking.score);
+      return `${ranking.option.name} (ranked ${ranking.rank} of ${result.rankings.length}, ${score}/100)`;
+    });
+  }
+
+  /**
+   * Compromises entailed by choosing the option, with their impact
+   */
+  private describeCompromises(result: EvaluationResult, chosen: TechnicalOption): string[] {
+    return result.tradeOffs.compromises
+      .filter(compromise => compromise.option?.name === chosen.name)
+      .map(compromise => `${compromise.description} (${compromise.impact} impact)`);
+  }
+
+  private describeCategory(category: string): string {
+    return CATEGORY_PHRASES[category as TechnicalOption['category']] || `the ${category} layer`;
+  }
+
+  private slugify(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  /**
+   * Lower-case the first letter so a sentence reads on after "because"
+   * Leaves option names and acronyms such as "AWS" alone
+   */
+  private lowerFirst(value: string, names: string[]): string {
+    if (!/^[A-Z][a-z]/.test(value) || names.some(name => value.startsWith(name))) {
+      return value;
+    }
+    return value.charAt(0).toLowerCase() + value.slice(1);
+  }
+}
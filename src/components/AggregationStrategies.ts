@@ -0,0 +1,400 @@
+/**
+ * Aggregation Strategies
+ * Multi-criteria decision analysis (MCDA) methods for turning criterion scores into rankings
+ * Supports Requirements 2.4, 5.1, 5.2, 5.3, 5.4, 5.5
+ */
+
+import {
+  UserConstraints,
+  AggregationMethod,
+  AggregationStrategy,
+  PairwiseComparison,
+  RefereeValidationError,
+  ValidationError,
+} from '../types';
+import { STANDARD_CRITERIA } from '../types/knowledge';
+import { PRIORITY_NAMES } from './SensitivityAnalyzer';
+
+/**
+ * Map priority weights onto the standard criteria
+ * Maintainability has no priority of its own and takes a composite of cost and performance
+ * @param weights - Weight of each priority
+ * @returns Weight of each criterion
+ */
+export function mapPriorityWeightsToCriteria(weights: UserConstraints['priorities']): Record<string, number> {
+  return {
+    [STANDARD_CRITERIA.COST]: weights.cost,
+    [STANDARD_CRITERIA.PERFORMANCE]: weights.performance,
+    [STANDARD_CRITERIA.SCALABILITY]: weights.scalability,
+    [STANDARD_CRITERIA.LEARNING_CURVE]: weights.easeOfUse,
+    [STANDARD_CRITERIA.VENDOR_LOCK_IN]: weights.vendorLockIn,
+    [STANDARD_CRITERIA.MAINTAINABILITY]: weights.cost * 0.3 + weights.performance * 0.2, // Composite weight
+  };
+}
+
+/**
+ * Criteria scored for every option, with their weights normalized to sum to 1
+ * Methods that compare options against each other need a complete decision matrix
+ * @param criteriaScores - Criterion scores for each option
+ * @param weights - Weight of each criterion
+ * @returns Shared criteria and their normalized weights
+ */
+function getSharedCriteria(
+  criteriaScores: Record<string, number>[],
+  weights: Record<string, number>
+): Array<{ criterion: string; weight: number }> {
+  const shared = Object.entries(weights).filter(([criterion, weight]) =>
+    weight > 0 && criteriaScores.every(scores => scores[criterion] !== undefined)
+  );
+  const total = shared.reduce((sum, [, weight]) => sum + weight, 0);
+
+  return shared.map(([criterion, weight]) => ({ criterion, weight: total > 0 ? weight / total : 0 }));
+}
+
+/**
+ * Weighted sum (weighted average) of criterion scores
+ * Each option is scored independently; criteria missing for an option are skipped
+ */
+export class WeightedSumStrategy implements AggregationStrategy {
+  readonly method: AggregationMethod = 'weighted-sum';
+
+  aggregate(criteriaScores: Record<string, number>[], weights: Record<string, number>): number[] {
+    return criteriaScores.map(scores => {
+      let weightedSum = 0;
+      let totalWeight = 0;
+
+      for (const [criterion, weight] of Object.entries(weights)) {
+        if (scores[criterion] !== undefined) {
+          weightedSum += scores[criterion] * weight;
+          totalWeight += weight;
+        }
+      }
+
+      // Return weighted average, or 50 if no criteria matched
+      return totalWeight > 0 ? weightedSum / totalWeight : 50;
+    });
+  }
+}
+
+/**
+ * TOPSIS (Technique for Order of Preference by Similarity to Ideal Solution)
+ * Scores each option by its relative closeness to the ideal option and distance from the anti-ideal
+ */
+export class TopsisStrategy implements AggregationStrategy {
+  readonly method: AggregationMethod = 'topsis';
+
+  aggregate(criteriaScores: Record<string, number>[], weights: Record<string, number>): number[] {
+    const criteria = getSharedCriteria(criteriaScores, weights);
+    const distancesToIdeal = criteriaScores.map(() => 0);
+    const distancesToAntiIdeal = criteriaScores.map(() => 0);
+
+    for (const { criterion, weight } of criteria) {
+      // Vector-normalize the column, then weight it
+      const column = criteriaScores.map(scores => scores[criterion]!);
+      const norm = Math.sqrt(column.reduce((sum, value) => sum + value * value, 0));
+      const weighted = column.map(value => (norm > 0 ? value / norm : 0) * weight);
+      const ideal = Math.max(...weighted);
+      const antiIdeal = Math.min(...weighted);
+
+      weighted.forEach((value, index) => {
+        distancesToIdeal[index]! += Math.pow(value - ideal, 2);
+        distancesToAntiIdeal[index]! += Math.pow(value - antiIdeal, 2);
+      });
+    }
+
+    return criteriaScores.map((_, index) => {
+      const toIdeal = Math.sqrt(distancesToIdeal[index]!);
+      const toAntiIdeal = Math.sqrt(distancesToAntiIdeal[index]!);
+      const total = toIdeal + toAntiIdeal;
+      // Options indistinguishable on every criterion sit halfway
+      return total > 0 ? (toAntiIdeal / total) * 100 : 50;
+    });
+  }
+}
+
+/**
+ * Random consistency index for AHP matrices of size n (index n - 1)
+ */
+const RANDOM_CONSISTENCY_INDEX = [0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+/** Largest acceptable AHP consistency ratio */
+const MAX_CONSISTENCY_RATIO = 0.1;
+
+/**
+ * Principal eigenvector and eigenvalue of a positive reciprocal matrix (power iteration)
+ * @param matrix - Square pairwise comparison matrix
+ * @returns Priority vector (sums to 1) and principal eigenvalue
+ */
+function principalEigenvector(matrix: number[][]): { vector: number[]; eigenvalue: number } {
+  const size = matrix.length;
+  let vector = matrix.map(() => 1 / size);
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j]!, 0));
+    const total = product.reduce((sum, value) => sum + value, 0);
+    const next = product.map(value => value / total);
+    const change = next.reduce((sum, value, i) => sum + Math.abs(value - vector[i]!), 0);
+    vector = next;
+    if (change < 1e-12) break;
+  }
+
+  const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j]!, 0));
+  const eigenvalue = product.reduce((sum, value, i) => sum + value / vector[i]!, 0) / size;
+
+  return { vector, eigenvalue };
+}
+
+/**
+ * Analytic Hierarchy Process with pairwise comparisons
+ * Options are compared pairwise on each criterion using score ratios on Saaty's 1-9 scale.
+ * Criterion weights come from explicit judgments between priorities and custom criteria when
+ * supplied; otherwise from the engine's weights (equivalent to a perfectly consistent judgment
+ * matrix built from their ratios). Scores are each option's share of the overall priority, scaled to 0-100
+ */
+export class AhpStrategy implements AggregationStrategy {
+  readonly method: AggregationMethod = 'ahp';
+  readonly ignoresPriorities: boolean;
+  private comparisons: PairwiseComparison[];
+  private consistencyRatio: number;
+  /** Judged criterion weights per set of custom criteria, since each evaluation may define its own */
+  private judgedWeights = new Map<string, Record<string, number>>();
+
+  /**
+   * @param comparisons - Optional pairwise judgments between priorities or custom criteria; unspecified pairs count as equal
+   * @throws RefereeValidationError if a judgment is malformed or the judgments are inconsistent
+   */
+  constructor(comparisons: PairwiseComparison[] = []) {
+    this.comparisons = comparisons;
+    this.ignoresPriorities = comparisons.length > 0;
+    if (comparisons.length === 0) {
+      this.consistencyRatio = 0;
+      return;
+    }
+
+    this.validateComparisons(comparisons);
+
+    // Judgments naming anything but a priority refer to custom criteria
+    const judgedCustomCriteria = [...new Set(comparisons.flatMap(comparison => [comparison.more, comparison.less]))]
+      .filter(name => !(PRIORITY_NAMES as readonly string[]).includes(name));
+    const matrix = this.buildJudgmentMatrix([...PRIORITY_NAMES, ...judgedCustomCriteria]);
+    const { eigenvalue } = principalEigenvector(matrix);
+    const size = matrix.length;
+    const randomIndex = RANDOM_CONSISTENCY_INDEX[Math.min(size, RANDOM_CONSISTENCY_INDEX.length) - 1]!;
+    this.consistencyRatio = ((eigenvalue - size) / (size - 1)) / randomIndex;
+
+    if (this.consistencyRatio > MAX_CONSISTENCY_RATIO) {
+      throw new RefereeValidationError(
+        `AHP judgments are inconsistent (consistency ratio ${this.consistencyRatio.toFixed(2)} exceeds ${MAX_CONSISTENCY_RATIO})`,
+        'AHP_INCONSISTENT',
+        [{
+          field: 'comparisons',
+          message: 'Revise the pairwise judgments so they do not contradict each other',
+          code: 'AHP_INCONSISTENT',
+        }]
+      );
+    }
+  }
+
+  /**
+   * Get the consistency ratio of the supplied judgments (0 when none were supplied)
+   */
+  getConsistencyRatio(): number {
+    return this.consistencyRatio;
+  }
+
+  /**
+   * @throws RefereeValidationError if a judgment names a custom criterion the weights do not include
+   */
+  aggregate(criteriaScores: Record<string, number>[], weights: Record<string, number>): number[] {
+    const criteria = getSharedCriteria(
+      criteriaScores,
+      this.comparisons.length > 0 ? this.getJudgedWeights(weights) : weights
+    );
+    const totals = criteriaScores.map(() => 0);
+
+    for (const { criterion, weight } of criteria) {
+      // Pairwise ratio of scores, offset to avoid division by zero and capped at Saaty's scale
+      const column = criteriaScores.map(scores => scores[criterion]! + 1);
+      const matrix = column.map(a => column.map(b => Math.min(9, Math.max(1 / 9, a / b))));
+      const { vector } = principalEigenvector(matrix);
+
+      vector.forEach((localPriority, index) => {
+        totals[index]! += localPriority * weight;
+      });
+    }
+
+    return totals.map(total => (criteria.length > 0 ? total * 100 : 100 / criteriaScores.length));
+  }
+
+  /**
+   * Derive criterion weights from the judgments, over the five priorities and every custom criterion
+   * Custom criteria no judgment mentions count as equal to every other criterion
+   * @param weights - Engine weights; any key that is not a standard criterion is a custom criterion
+   * @returns Judged weight of each standard and custom criterion
+   */
+  private getJudgedWeights(weights: Record<string, number>): Record<string, number> {
+    const standardCriteria: string[] = Object.values(STANDARD_CRITERIA);
+    const customCriteria = Object.keys(weights).filter(criterion => !standardCriteria.includes(criterion));
+    const key = customCriteria.join('\n');
+
+    const cached = this.judgedWeights.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const names = [...PRIORITY_NAMES, ...customCriteria];
+    const unknown = this.comparisons.flatMap((comparison, index) =>
+      [comparison.more, comparison.less]
+        .filter(name => !names.includes(name))
+        .map(name => ({
+          field: `comparisons[${index}]`,
+          message: `'${name}' is neither a priority nor a custom criterion of this evaluation`,
+          code: 'AHP_COMPARISON_INVALID',
+        }))
+    );
+    if (unknown.length > 0) {
+      throw new RefereeValidationError(
+        `Invalid AHP comparisons: ${unknown.map(e => e.message).join(', ')}`,
+        'AHP_COMPARISON_INVALID',
+        unknown
+      );
+    }
+
+    const { vector } = principalEigenvector(this.buildJudgmentMatrix(names));
+    const priorityWeights = Object.fromEntries(
+      PRIORITY_NAMES.map((priority, index) => [priority, vector[index]!])
+    ) as UserConstraints['priorities'];
+    const judged = mapPriorityWeightsToCriteria(priorityWeights);
+    customCriteria.forEach((criterion, index) => {
+      judged[criterion] = vector[PRIORITY_NAMES.length + index]!;
+    });
+
+    this.judgedWeights.set(key, judged);
+    return judged;
+  }
+
+  /**
+   * Check that every judgment names two different criteria with an intensity on Saaty's scale
+   * @param comparisons - Pairwise judgments
+   * @throws RefereeValidationError listing every malformed judgment
+   */
+  private validateComparisons(comparisons: PairwiseComparison[]): void {
+    const errors: ValidationError[] = [];
+    const isName = (name: unknown) => typeof name === 'string' && name.trim().length > 0;
+
+    comparisons.forEach((comparison, index) => {
+      if (!isName(comparison.more) || !isName(comparison.less) || comparison.more === comparison.less) {
+        errors.push({
+          field: `comparisons[${index}]`,
+          message: 'Comparison must name two different priorities or custom criteria',
+          code: 'AHP_COMPARISON_INVALID',
+        });
+      } else if (!Number.isFinite(comparison.intensity) || comparison.intensity < 1 || comparison.intensity > 9) {
+        errors.push({
+          field: `comparisons[${index}].intensity`,
+          message: 'Intensity must be between 1 and 9',
+          code: 'AHP_COMPARISON_INVALID',
+        });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new RefereeValidationError(
+        `Invalid AHP comparisons: ${errors.map(e => e.message).join(', ')}`,
+        'AHP_COMPARISON_INVALID',
+        errors
+      );
+    }
+  }
+
+  /**
+   * Build the judgment matrix from the validated pairwise comparisons
+   * @param names - Criteria spanned by the matrix, priorities first
+   * @returns Reciprocal matrix over the criteria
+   */
+  private buildJudgmentMatrix(names: string[]): number[][] {
+    const matrix = names.map(() => names.map(() => 1));
+
+    for (const comparison of this.comparisons) {
+      const more = names.indexOf(comparison.more);
+      const less = names.indexOf(comparison.less);
+      if (more !== -1 && less !== -1) {
+        matrix[more]![less] = comparison.intensity;
+        matrix[less]![more] = 1 / comparison.intensity;
+      }
+    }
+
+    return matrix;
+  }
+}
+
+/**
+ * PROMETHEE II outranking
+ * Options are compared pairwise on every criterion with a linear preference function;
+ * the net outranking flow (-1 to 1) is rescaled to 0-100
+ */
+export class PrometheeStrategy implements AggregationStrategy {
+  readonly method: AggregationMethod = 'promethee-ii';
+  private preferenceThreshold: number;
+
+  /**
+   * @param preferenceThreshold - Score difference at which one option is fully preferred on a criterion
+   */
+  constructor(preferenceThreshold: number = 20) {
+    this.preferenceThreshold = preferenceThreshold;
+  }
+
+  aggregate(criteriaScores: Record<string, number>[], weights: Record<string, number>): number[] {
+    const count = criteriaScores.length;
+    if (count < 2) {
+      return criteriaScores.map(() => 50);
+    }
+
+    const criteria = getSharedCriteria(criteriaScores, weights);
+    const netFlows = criteriaScores.map(() => 0);
+
+    for (let a = 0; a < count; a++) {
+      for (let b = 0; b < count; b++) {
+        if (a === b) continue;
+        const preference = criteria.reduce((sum, { criterion, weight }) => {
+          const difference = criteriaScores[a]![criterion]! - criteriaScores[b]![criterion]!;
+          return sum + weight * Math.min(1, Math.max(0, difference / this.preferenceThreshold));
+        }, 0);
+        netFlows[a]! += preference / (count - 1);
+        netFlows[b]! -= preference / (count - 1);
+      }
+    }
+
+    return netFlows.map(flow => (flow + 1) * 50);
+  }
+}
+
+/**
+ * Create the strategy for an aggregation method
+ * @param method - Aggregation method
+ * @param ahpJudgments - Pairwise judgments that set the AHP criterion weights (ignored by other methods)
+ * @returns Strategy instance with default settings
+ * @throws RefereeValidationError if the AHP judgments are malformed or inconsistent
+ */
+export function createAggregationStrategy(
+  method: AggregationMethod,
+  ahpJudgments: PairwiseComparison[] = []
+): AggregationStrategy {
+  switch (method) {
+    case 'weighted-sum':
+      return new WeightedSumStrategy();
+    case 'topsis':
+      return new TopsisStrategy();
+    case 'ahp':
+      return new AhpStrategy(ahpJudgments);
+    case 'promethee-ii':
+      return new PrometheeStrategy();
+  }
+}
+
+/**
+ * Default strategies for every supported method, in display order
+ */
+export function createAllAggregationStrategies(): AggregationStrategy[] {
+  return (['weighted-sum', 'topsis', 'ahp', 'promethee-ii'] as const).map(method => createAggregationStrategy(method));
+}
@@ -7,6 +7,9 @@
 import { 
   UserConstraints, 
   TechnicalOption, 
+  CustomCriterion,
+  CriterionProvenance,
+  ScoreAdjustment,
   EvaluationResult,
   OptionScore,
   RankedOption,
@@ -14,24 +17,144 @@ import {
   Compromise,
   ComparisonEngine as IComparisonEngine,
   ValidationResult,
-  ValidationError 
+  ValidationError,
+  TechnicalRefereeConfig,
+  SensitivityAnalysis,
+  SimulationOptions,
+  AggregationMethod,
+  AggregationStrategy,
+  AggregationComparison,
+  AggregationComparisonRow,
+  MethodRanking,
+  EliminatedOption,
+  Shortlist,
+  RefereeValidationError,
+  InvalidOptionsError,
+  AllOptionsEliminatedError
 } from '../types';
 import { KnowledgeBase } from './KnowledgeBase';
+import { SensitivityAnalyzer, ScoreAggregator, WeightedSumModel, PRIORITY_NAMES } from './SensitivityAnalyzer';
+import { MonteCarloSimulator } from './MonteCarloSimulator';
+import { HardConstraintFilter } from './HardConstraintFilter';
+import { ShortlistBuilder } from './ShortlistBuilder';
+import {
+  WeightedSumStrategy,
+  createAllAggregationStrategies,
+  mapPriorityWeightsToCriteria,
+} from './AggregationStrategies';
 import { STANDARD_CRITERIA } from '../types/knowledge';
 
+/**
+ * Bounds on how many options may be compared at once
+ */
+export type OptionLimits = Pick<TechnicalRefereeConfig, 'minOptions' | 'maxOptions'>;
+
+/**
+ * Default option limits (Requirement 2.1)
+ */
+export const DEFAULT_OPTION_LIMITS: OptionLimits = {
+  minOptions: 2,
+  maxOptions: 3,
+};
+
+/** Weighted-sum aggregation used for per-option scores before ranking */
+const WEIGHTED_SUM = new WeightedSumStrategy();
+
+/** Score given to an option a custom criterion cannot score */
+const NEUTRAL_CUSTOM_SCORE = 50;
+
 /**
  * Implementation of the Comparison Engine interface
  * Handles option validation, scoring, and ranking
  */
 export class ComparisonEngine implements IComparisonEngine {
   private knowledgeBase: KnowledgeBase;
-
-  constructor(knowledgeBase?: KnowledgeBase) {
+  private optionLimits: OptionLimits;
+  private aggregationStrategy: AggregationStrategy;
+  private simulator: MonteCarloSimulator;
+  private hardConstraintFilter: HardConstraintFilter;
+  private shortlistBuilder: ShortlistBuilder;
+
+  constructor(
+    knowledgeBase?: KnowledgeBase,
+    optionLimits: OptionLimits = DEFAULT_OPTION_LIMITS,
+    simulationOptions: Partial<SimulationOptions> = {}
+  ) {
     this.knowledgeBase = knowledgeBase || new KnowledgeBase();
+    this.optionLimits = { ...optionLimits };
+    this.aggregationStrategy = new WeightedSumStrategy();
+
+    this.simulator = new MonteCarloSimulator(this.createAggregator([]), simulationOptions);
+    this.hardConstraintFilter = new HardConstraintFilter();
+    this.shortlistBuilder = new ShortlistBuilder();
+  }
+
+  /**
+   * Select the aggregation strategy used to rank options
+   * Sensitivity analysis and uncertainty simulation follow the selected strategy
+   * @param strategy - MCDA aggregation strategy
+   */
+  setAggregationStrategy(strategy: AggregationStrategy): void {
+    this.aggregationStrategy = strategy;
+  }
+
+  /**
+   * Build an aggregator that weights scores the way this engine ranks them
+   * Custom criteria are bound per evaluation, so an engine shared between sessions carries no criteria over
+   * @param customCriteria - Custom criteria of the evaluation, weighted alongside the standard criteria
+   */
+  private createAggregator(customCriteria: CustomCriterion[]): ScoreAggregator {
+    return (criteriaScores, priorities) =>
+      this.aggregationStrategy.aggregate(criteriaScores, this.calculateCriteriaWeights(priorities, customCriteria));
+  }
+
+  /**
+   * Build the closed form of the weighted-sum weighting, so sensitivity thresholds can be solved exactly
+   * Criterion weights are linear in the emphasized priority weights up to a common scale, which the
+   * weighted average divides out
+   * @param customCriteria - Custom criteria of the evaluation, weighted alongside the standard criteria
+   */
+  private createWeightedSumModel(customCriteria: CustomCriterion[]): WeightedSumModel {
+    return {
+      weightOf: value => this.emphasizePriority(value),
+      valueOf: weight => this.priorityForWeight(weight),
+      linearize: (criteriaScores, priorities, priority) => {
+        const emphasized = { ...priorities };
+        const unit = { ...priorities };
+        for (const name of PRIORITY_NAMES) {
+          emphasized[name] = name === priority ? 0 : this.emphasizePriority(priorities[name]);
+          unit[name] = name === priority ? 1 : 0;
+        }
+
+        const fixedWeights = mapPriorityWeightsToCriteria(emphasized);
+        for (const criterion of customCriteria) {
+          fixedWeights[criterion.name] = this.emphasizePriority(criterion.priority);
+        }
+        const unitWeights = mapPriorityWeightsToCriteria(unit);
+
+        const linearized = { scoreSlope: 0, scoreIntercept: 0, weightSlope: 0, weightIntercept: 0 };
+        for (const [criterion, score] of Object.entries(criteriaScores)) {
+          const slope = unitWeights[criterion] ?? 0;
+          const intercept = fixedWeights[criterion] ?? 0;
+          linearized.scoreSlope += slope * score;
+          linearized.scoreIntercept += intercept * score;
+          linearized.weightSlope += slope;
+          linearized.weightIntercept += intercept;
+        }
+        return linearized;
+      },
+    };
   }
 
   /**
-   * Validate that the number of options is within acceptable range (2-3)
+   * Get the aggregation method currently used to rank options
+   */
+  getAggregationMethod(): AggregationMethod {
+    return this.aggregationStrategy.method;
+  }
+
+  /**
+   * Validate that the number of options is within acceptable range (2-3 by default)
    * Requirement 2.1: Accept 2-3 technical options for evaluation
    * @param options - Options to validate
    * @returns Validation result
@@ -49,16 +172,18 @@ export class ComparisonEngine implements IComparisonEngine {
       return { isValid: false, errors, warnings };
     }
 
-    if (options.length < 2) {
+    const { minOptions, maxOptions } = this.optionLimits;
+
+    if (options.length < minOptions) {
       errors.push({
         field: 'options',
-        message: 'At least 2 options are required for comparison',
+        message: `At least ${minOptions} options are required for comparison`,
         code: 'OPTIONS_TOO_FEW',
       });
-    } else if (options.length > 3) {
+    } else if (options.length > maxOptions) {
       errors.push({
         field: 'options',
-        message: 'Maximum 3 options allowed for comparison',
+        message: `Maximum ${maxOptions} options allowed for comparison`,
         code: 'OPTIONS_TOO_MANY',
       });
     }
@@ -114,6 +239,60 @@ export class ComparisonEngine implements IComparisonEngine {
     };
   }
 
+  /**
+   * Validate candidates for shortlist mode
+   * Any number of options (at least the minimum) may be given, but they must share a category
+   * @param options - Candidate options to validate
+   * @returns Validation result with detailed errors
+   */
+  validateShortlistOptions(options: TechnicalOption[]): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: string[] = [];
+
+    if (!Array.isArray(options)) {
+      errors.push({
+        field: 'options',
+        message: 'Options must be an array',
+        code: 'OPTIONS_INVALID_TYPE',
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    if (options.length < this.optionLimits.minOptions) {
+      errors.push({
+        field: 'options',
+        message: `At least ${this.optionLimits.minOptions} options are required for comparison`,
+        code: 'OPTIONS_TOO_FEW',
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    options.forEach((option, index) => {
+      const optionValidation = this.validateSingleOption(option, index);
+      errors.push(...optionValidation.errors);
+      warnings.push(...optionValidation.warnings);
+    });
+
+    const duplicateValidation = this.validateNoDuplicates(options);
+    errors.push(...duplicateValidation.errors);
+
+    // Dominance between options only makes sense on the same criteria
+    const categories = new Set(options.map(option => option?.category).filter(Boolean));
+    if (categories.size > 1) {
+      errors.push({
+        field: 'options',
+        message: `Shortlist candidates must share a category, found: ${Array.from(categories).join(', ')}`,
+        code: 'OPTIONS_MIXED_CATEGORIES',
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
   /**
    * Validate a single technical option
    * @param option - Option to validate
@@ -156,12 +335,19 @@ export class ComparisonEngine implements IComparisonEngine {
         code: 'OPTION_CATEGORY_INVALID',
       });
     } else {
-      const validCategories = ['cloud', 'backend', 'database', 'frontend'];
+      const validCategories = ['cloud', 'backend', 'database', 'frontend', 'messaging', 'orchestration', 'observability', 'identity', 'cache'];
       if (!validCategories.includes(option.category)) {
         warnings.push(`Option ${option.name} has unknown category '${option.category}' - will use generic evaluation`);
       }
     }
 
+    // Validate uncertainty ranges, if any
+    const uncertaintyValidation = this.simulator.validateUncertainty(
+      option.uncertainty,
+      `options[${index}].uncertainty`
+    );
+    errors.push(...uncertaintyValidation.errors);
+
     // Validate metadata
     if (!option.metadata || typeof option.metadata !== 'object') {
       warnings.push(`Option ${option.name} has no metadata - will use fallback values`);
@@ -234,6 +420,22 @@ export class ComparisonEngine implements IComparisonEngine {
       );
     }
 
+    // Orchestration platforms are deployed onto a cloud provider rather than replacing one
+    if (categories.has('orchestration') && categories.has('cloud')) {
+      warnings.push(
+        'Orchestration platforms run on top of cloud providers. ' +
+        'Choose the cloud provider first, then compare the orchestration platforms available on it.'
+      );
+    }
+
+    // Caches sit in front of a system of record and are scored on different terms
+    if (categories.has('cache') && categories.has('database')) {
+      warnings.push(
+        'Caches sit in front of a primary database rather than replacing it. ' +
+        'Compare caches with caches and databases with databases.'
+      );
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -280,23 +482,125 @@ export class ComparisonEngine implements IComparisonEngine {
    * Main entry point for the comparison engine
    * @param options - Technical options to evaluate (2-3 options)
    * @param constraints - User constraints and priorities
-   * @returns Complete evaluation result
+   * @returns Complete evaluation result; options vetoed by hard constraints are listed in `eliminated`,
+   * non-blocking validation warnings in `warnings`
+   * @throws InvalidOptionsError if the options fail validation
+   * @throws AllOptionsEliminatedError if hard constraints eliminate every option
    */
   evaluate(options: TechnicalOption[], constraints: UserConstraints): EvaluationResult {
     // Validate inputs
     const optionValidation = this.validateTechnicalOptions(options);
     if (!optionValidation.isValid) {
-      throw new Error(`Invalid options: ${optionValidation.errors.map(e => e.message).join(', ')}`);
+      throw new InvalidOptionsError(optionValidation.errors, optionValidation.warnings);
     }
 
-    // Process options to ensure complete metadata
-    const processedOptions = this.processOptions(options);
+    return {
+      ...this.evaluateOptions(options, constraints),
+      ...(optionValidation.warnings.length > 0 && { warnings: optionValidation.warnings }),
+    };
+  }
 
-    // Calculate base scores for each option
-    let scores = this.calculateScores(processedOptions, constraints);
+  /**
+   * Narrow any number of candidates in one category down to a few finalists
+   * Applies hard constraints, prunes Pareto-dominated candidates, then keeps the best-scoring rest
+   * @param options - Candidate options
+   * @param constraints - User constraints and priorities
+   * @param size - Number of finalists to keep (defaults to the maximum option count)
+   * @returns Finalists and the reason every other candidate was cut
+   * @throws InvalidOptionsError if the candidates fail validation
+   * @throws RefereeValidationError if the shortlist size is outside the option limits
+   * @throws AllOptionsEliminatedError if hard constraints eliminate every candidate
+   */
+  shortlistOptions(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    size: number = this.optionLimits.maxOptions
+  ): Shortlist {
+    return this.buildShortlist(options, constraints, size).shortlist;
+  }
 
-    // Apply contextual adjustments based on user constraints
-    scores = this.applyContextualAdjustments(scores, constraints);
+  /**
+   * Shortlist the candidates and evaluate the finalists in detail
+   * @param options - Candidate options
+   * @param constraints - User constraints and priorities
+   * @param size - Number of finalists to keep (defaults to the maximum option count)
+   * @returns Evaluation of the finalists, with the shortlist and any hard-constraint eliminations attached
+   * @throws InvalidOptionsError if the candidates fail validation
+   * @throws RefereeValidationError if the shortlist size is outside the option limits
+   * @throws AllOptionsEliminatedError if hard constraints eliminate every candidate
+   */
+  evaluateShortlist(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    size: number = this.optionLimits.maxOptions
+  ): EvaluationResult {
+    const { shortlist, eliminated, warnings } = this.buildShortlist(options, constraints, size);
+
+    // A single surviving candidate is still evaluated, so skip the option count check
+    const result = this.evaluateOptions(shortlist.finalists, constraints);
+
+    return {
+      ...result,
+      ...(eliminated.length > 0 && { eliminated }),
+      ...(warnings.length > 0 && { warnings }),
+      shortlist,
+    };
+  }
+
+  /**
+   * Validate, score and shortlist candidates
+   * @param options - Candidate options
+   * @param constraints - User constraints and priorities
+   * @param size - Number of finalists to keep
+   * @returns The shortlist, the candidates eliminated by hard constraints and any validation warnings
+   */
+  private buildShortlist(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    size: number
+  ): { shortlist: Shortlist; eliminated: EliminatedOption[]; warnings: string[] } {
+    const { minOptions, maxOptions } = this.optionLimits;
+    if (!Number.isInteger(size) || size < minOptions || size > maxOptions) {
+      throw new RefereeValidationError(
+        `Shortlist size must be a whole number between ${minOptions} and ${maxOptions}`,
+        'SHORTLIST_SIZE_INVALID',
+        [{
+          field: 'shortlistSize',
+          message: `Shortlist size must be a whole number between ${minOptions} and ${maxOptions}`,
+          code: 'SHORTLIST_SIZE_INVALID',
+        }]
+      );
+    }
+
+    const optionValidation = this.validateShortlistOptions(options);
+    if (!optionValidation.isValid) {
+      throw new InvalidOptionsError(optionValidation.errors, optionValidation.warnings);
+    }
+
+    const { scores, eliminated } = this.scoreOptions(options, constraints, this.aggregationStrategy);
+    const shortlist = this.shortlistBuilder.build(scores, eliminated, size, minOptions);
+
+    // Hand back the options as supplied, not with fallback metadata merged in
+    const originals = new Map(options.map(option => [option.name, option]));
+    return {
+      shortlist: {
+        ...shortlist,
+        finalists: shortlist.finalists.map(option => originals.get(option.name) ?? option),
+      },
+      eliminated,
+      warnings: optionValidation.warnings,
+    };
+  }
+
+  /**
+   * Evaluate validated options
+   * @param options - Validated technical options
+   * @param constraints - User constraints and priorities
+   * @returns Complete evaluation result
+   */
+  private evaluateOptions(options: TechnicalOption[], constraints: UserConstraints): EvaluationResult {
+    // Score and aggregate the options that survive hard constraints
+    const { scores, eliminated } = this.scoreOptions(options, constraints, this.aggregationStrategy);
 
     // Rank options by weighted score
     const rankings = this.rankOptions(scores);
@@ -304,13 +608,165 @@ export class ComparisonEngine implements IComparisonEngine {
     // Generate trade-off analysis
     const tradeOffs = this.generateTradeOffAnalysis(scores, constraints);
 
+    // Determine how far each priority can move before the winner changes - unless priorities play no part
+    const customCriteria = constraints.customCriteria ?? [];
+    const ignoresPriorities = this.aggregationStrategy.ignoresPriorities === true;
+    const sensitivity = ignoresPriorities ? null : this.analyzeSensitivity(scores, constraints.priorities, customCriteria);
+
+    // Propagate score uncertainty into ranking probabilities
+    const uncertainty = new MonteCarloSimulator(this.createAggregator(customCriteria), this.simulator.getOptions())
+      .simulate(scores, constraints.priorities);
+
     return {
       scores,
       rankings,
       tradeOffs,
+      aggregationMethod: this.aggregationStrategy.method,
+      ...(sensitivity && { sensitivity }),
+      ...(ignoresPriorities && {
+        sensitivityNotApplicable: `The ${this.aggregationStrategy.method.toUpperCase()} judgments set the criterion weights, ` +
+          'so changing priorities cannot change the ranking',
+      }),
+      ...(uncertainty && { uncertainty }),
+      ...(eliminated.length > 0 && { eliminated }),
+      ...(customCriteria.length > 0 && { criterionLabels: this.getCriterionLabels(customCriteria) }),
+    };
+  }
+
+  /**
+   * Rank the same options with several aggregation methods for side-by-side comparison
+   * Criterion scores and contextual adjustments are shared; only the aggregation differs
+   * @param options - Technical options to evaluate
+   * @param constraints - User constraints and priorities
+   * @param strategies - Strategies to compare (defaults to every supported method)
+   * @returns Rankings per method and per option that survived hard constraints
+   * @throws InvalidOptionsError if the options fail validation
+   * @throws AllOptionsEliminatedError if hard constraints eliminate every option
+   */
+  compareAggregationMethods(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    strategies: AggregationStrategy[] = createAllAggregationStrategies()
+  ): AggregationComparison {
+    const optionValidation = this.validateTechnicalOptions(options);
+    if (!optionValidation.isValid) {
+      throw new InvalidOptionsError(optionValidation.errors, optionValidation.warnings);
+    }
+
+    const methods: MethodRanking[] = strategies.map(strategy => ({
+      method: strategy.method,
+      rankings: this.rankOptions(this.scoreOptions(options, constraints, strategy).scores),
+    }));
+
+    // Options eliminated by hard constraints are ranked by no method and get no row
+    const rankedNames = new Set(methods[0]?.rankings.map(r => r.option.name));
+    const rows: AggregationComparisonRow[] = options.filter(option => rankedNames.has(option.name)).map(option => {
+      const row: AggregationComparisonRow = { option, ranks: {}, scores: {} };
+      for (const { method, rankings } of methods) {
+        const ranked = rankings.find(r => r.option.name === option.name);
+        if (ranked) {
+          row.ranks[method] = ranked.rank;
+          row.scores[method] = ranked.score;
+        }
+      }
+      return row;
+    });
+
+    const winners = new Set(methods.map(m => m.rankings[0]?.option.name));
+
+    return {
+      methods,
+      rows,
+      consensus: winners.size === 1,
+    };
+  }
+
+  /**
+   * Score options and aggregate them with a strategy
+   * Must-have requirements are checked before scoring and minimum scores after contextual
+   * adjustments; vetoed options take no part in aggregation
+   * @param options - Validated technical options
+   * @param constraints - User constraints and priorities
+   * @param strategy - Aggregation strategy producing the weighted scores
+   * @returns Scores of the surviving options and the eliminated options with reasons
+   * @throws AllOptionsEliminatedError if no option survives
+   */
+  private scoreOptions(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    strategy: AggregationStrategy
+  ): { scores: OptionScore[]; eliminated: EliminatedOption[] } {
+    const { mustHave, minimumScores } = constraints.hardConstraints ?? {};
+    const eliminated: EliminatedOption[] = [];
+
+    // Check must-haves against the metadata the options were supplied with
+    const eligible = options.filter(option => {
+      const reasons = this.hardConstraintFilter.checkRequirements(option, mustHave);
+      if (reasons.length > 0) {
+        eliminated.push({ option, reasons });
+      }
+      return reasons.length === 0;
+    });
+
+    // Process options to ensure complete metadata
+    const processedOptions = this.processOptions(eligible);
+
+    // Calculate base scores for each option
+    let scores = this.calculateScores(processedOptions, constraints);
+
+    // Apply contextual adjustments based on user constraints
+    scores = this.applyContextualAdjustments(scores, constraints);
+
+    // Veto options below any minimum criterion score
+    scores = scores.filter(score => {
+      const reasons = this.hardConstraintFilter.checkMinimumScores(score, minimumScores);
+      if (reasons.length > 0) {
+        eliminated.push({ option: score.option, reasons });
+      }
+      return reasons.length === 0;
+    });
+
+    if (scores.length === 0) {
+      throw new AllOptionsEliminatedError(eliminated);
+    }
+
+    // Aggregate adjusted criterion scores with the strategy
+    const aggregated = strategy.aggregate(
+      scores.map(score => score.criteriaScores),
+      this.calculateCriteriaWeights(constraints.priorities, constraints.customCriteria)
+    );
+
+    return {
+      scores: scores.map((score, index) => ({
+        ...score,
+        weightedScore: aggregated[index]!,
+        normalizedScore: Math.round(aggregated[index]!),
+      })),
+      eliminated,
     };
   }
 
+  /**
+   * Run weight sensitivity analysis over scored options
+   * Uses the engine's own weighting so thresholds match the rankings it produces. Weighted-sum
+   * thresholds are solved exactly; other strategies are scanned in steps of the reported scanStep,
+   * so shorter-lived flips are missed
+   * @param scores - Option scores after contextual adjustments
+   * @param priorities - Current user priorities
+   * @param customCriteria - Custom criteria the options were scored against
+   * @returns Sensitivity analysis, or null when fewer than two options were scored
+   */
+  analyzeSensitivity(
+    scores: OptionScore[],
+    priorities: UserConstraints['priorities'],
+    customCriteria: CustomCriterion[] = []
+  ): SensitivityAnalysis | null {
+    const model = this.aggregationStrategy instanceof WeightedSumStrategy
+      ? this.createWeightedSumModel(customCriteria)
+      : undefined;
+    return new SensitivityAnalyzer(this.createAggregator(customCriteria), model).analyze(scores, priorities);
+  }
+
   /**
    * Calculate scores for all options
    * Requirement 2.2: Evaluate each option against all standard criteria
@@ -328,14 +784,20 @@ export class ComparisonEngine implements IComparisonEngine {
    * Calculate score for a single option
    * @param option - Technical option to score
    * @param constraints - User constraints and priorities
-   * @returns Option score with criteria breakdown
+   * @returns Option score with criteria breakdown and how each criterion score was reached
    */
   private calculateOptionScore(option: TechnicalOption, constraints: UserConstraints): OptionScore {
-    // Get base scores from knowledge base
-    const baseScores = this.knowledgeBase.getComprehensiveEvaluation(option);
+    // Get base scores from knowledge base, then score any custom criteria
+    const provenance = {
+      ...this.knowledgeBase.explainEvaluation(option),
+      ...this.calculateCustomScores(option, constraints.customCriteria ?? []),
+    };
+    const baseScores = Object.fromEntries(
+      Object.entries(provenance).map(([criterion, entry]) => [criterion, entry.finalScore])
+    );
     
     // Apply priority-based weighting
-    const weightedScore = this.calculateWeightedScore(baseScores, constraints.priorities);
+    const weightedScore = this.calculateWeightedScore(baseScores, constraints.priorities, constraints.customCriteria);
     
     // Normalize score to 0-100 scale
     const normalizedScore = Math.round(weightedScore);
@@ -345,9 +807,59 @@ export class ComparisonEngine implements IComparisonEngine {
       criteriaScores: baseScores,
       weightedScore,
       normalizedScore,
+      provenance,
     };
   }
 
+  /**
+   * Score an option against custom criteria
+   * A manual score for the option takes precedence over the scoring function; options
+   * neither can score get a neutral score
+   * @param option - Technical option to score
+   * @param customCriteria - Custom criteria to score
+   * @returns Score (0-100) of each custom criterion and where it came from
+   */
+  private calculateCustomScores(option: TechnicalOption, customCriteria: CustomCriterion[]): Record<string, CriterionProvenance> {
+    const scores: Record<string, CriterionProvenance> = {};
+
+    for (const criterion of customCriteria) {
+      let score = Object.entries(criterion.scores ?? {})
+        .find(([name]) => name.toLowerCase() === option.name.toLowerCase())?.[1];
+      let reason = 'Scored manually';
+
+      if (score === undefined && criterion.scoringFunction) {
+        reason = 'Scored by the custom scoring function';
+        try {
+          score = criterion.scoringFunction(option);
+        } catch (error) {
+          console.warn(`Custom criterion ${criterion.name} could not score ${option.name}:`, error);
+        }
+      }
+
+      const valid = typeof score === 'number' && Number.isFinite(score);
+      const baseScore = valid ? Math.min(100, Math.max(0, score!)) : NEUTRAL_CUSTOM_SCORE;
+      scores[criterion.name] = {
+        baseScore,
+        contributions: [{ points: baseScore, reason: valid ? reason : 'Neutral score - no score available' }],
+        adjustments: [],
+        finalScore: baseScore,
+      };
+    }
+
+    return scores;
+  }
+
+  /**
+   * Display names of custom criteria
+   * @param customCriteria - Custom criteria of the evaluation
+   * @returns Label of each custom criterion, keyed by criterion name
+   */
+  private getCriterionLabels(customCriteria: CustomCriterion[]): Record<string, string> {
+    return Object.fromEntries(
+      customCriteria.map(criterion => [criterion.name, criterion.label ?? criterion.name])
+    );
+  }
+
   /**
    * Calculate weighted score based on user priorities with emphasis logic
    * Requirement 5.1: Cost priority emphasizes pricing, operational costs, and resource efficiency
@@ -357,40 +869,59 @@ export class ComparisonEngine implements IComparisonEngine {
    * Requirement 5.5: Vendor lock-in avoidance priority emphasizes portability, standards compliance, and migration paths
    * @param criteriaScores - Raw scores for each criterion
    * @param priorities - User priority weights
+   * @param customCriteria - Custom criteria weighted alongside the standard criteria
    * @returns Weighted total score with priority emphasis
    */
   private calculateWeightedScore(
     criteriaScores: Record<string, number>, 
-    priorities: UserConstraints['priorities']
+    priorities: UserConstraints['priorities'],
+    customCriteria: CustomCriterion[] = []
   ): number {
+    return WEIGHTED_SUM.aggregate([criteriaScores], this.calculateCriteriaWeights(priorities, customCriteria))[0]!;
+  }
+
+  /**
+   * Derive criterion weights from user priorities
+   * Priorities are normalized, emphasized, then mapped onto the standard criteria.
+   * Custom criteria are emphasized the same way and share the weight with the standard
+   * priorities in proportion to their emphasized priorities
+   * @param priorities - User priority weights
+   * @param customCriteria - Custom criteria weighted alongside the standard criteria
+   * @returns Weight of each criterion
+   */
+  private calculateCriteriaWeights(
+    priorities: UserConstraints['priorities'],
+    customCriteria: CustomCriterion[] = []
+  ): Record<string, number> {
     // Normalize priorities to ensure they sum to 1
     const normalizedPriorities = this.normalizePriorities(priorities);
     
     // Apply priority emphasis to adjust weights
     const emphasizedWeights = this.applyPriorityEmphasis(normalizedPriorities, priorities);
-    
-    let weightedSum = 0;
-    let totalWeight = 0;
-
-    // Apply emphasized weights for each standard criterion
-    const criteriaMapping = {
-      [STANDARD_CRITERIA.COST]: emphasizedWeights.cost,
-      [STANDARD_CRITERIA.PERFORMANCE]: emphasizedWeights.performance,
-      [STANDARD_CRITERIA.SCALABILITY]: emphasizedWeights.scalability,
-      [STANDARD_CRITERIA.LEARNING_CURVE]: emphasizedWeights.easeOfUse,
-      [STANDARD_CRITERIA.VENDOR_LOCK_IN]: emphasizedWeights.vendorLockIn,
-      [STANDARD_CRITERIA.MAINTAINABILITY]: emphasizedWeights.cost * 0.3 + emphasizedWeights.performance * 0.2, // Composite weight
-    };
 
-    for (const [criterion, weight] of Object.entries(criteriaMapping)) {
-      if (criteriaScores[criterion] !== undefined) {
-        weightedSum += criteriaScores[criterion] * weight;
-        totalWeight += weight;
-      }
+    const weights = mapPriorityWeightsToCriteria(emphasizedWeights);
+    if (customCriteria.length === 0) {
+      return weights;
+    }
+
+    const emphasize = (priority: number) => this.emphasizePriority(priority);
+    const standardTotal = emphasize(priorities.cost) + emphasize(priorities.performance) +
+      emphasize(priorities.easeOfUse) + emphasize(priorities.scalability) + emphasize(priorities.vendorLockIn);
+    const customTotal = customCriteria.reduce((sum, criterion) => sum + emphasize(criterion.priority), 0);
+    const total = standardTotal + customTotal;
+
+    if (total <= 0) {
+      return weights;
     }
 
-    // Return weighted average, or 50 if no criteria matched
-    return totalWeight > 0 ? weightedSum / totalWeight : 50;
+    for (const criterion of Object.keys(weights)) {
+      weights[criterion] = weights[criterion]! * standardTotal / total;
+    }
+    for (const criterion of customCriteria) {
+      weights[criterion.name] = emphasize(criterion.priority) / total;
+    }
+
+    return weights;
   }
 
   /**
@@ -443,12 +974,52 @@ export class ComparisonEngine implements IComparisonEngine {
     return emphasized;
   }
 
+  /**
+   * Weight a priority level carries before normalization
+   * @param priority - Priority level (1-5)
+   * @returns The priority scaled by its emphasis factor
+   */
+  private emphasizePriority(priority: number): number {
+    return priority * this.getEmphasisFactor(priority);
+  }
+
+  /**
+   * Find the priority level that carries a given weight before normalization (inverse of emphasizePriority)
+   * Between integer levels the emphasis factor is linear in the priority, so the weight is a quadratic
+   * in the priority that is solved directly
+   * @param weight - Emphasized weight
+   * @returns Priority level, clamped to the 1-5 scale
+   */
+  private priorityForWeight(weight: number): number {
+    let lower = 1;
+    while (lower < 4 && weight > this.emphasizePriority(lower + 1)) {
+      lower++;
+    }
+
+    // weight = slope * priority^2 + intercept * priority on [lower, lower + 1]
+    const slope = this.getEmphasisFactor(lower + 1) - this.getEmphasisFactor(lower);
+    const intercept = this.getEmphasisFactor(lower) - slope * lower;
+    const priority = slope === 0
+      ? weight / intercept
+      : (-intercept + Math.sqrt(intercept * intercept + 4 * slope * weight)) / (2 * slope);
+
+    return Math.min(5, Math.max(1, priority));
+  }
+
   /**
    * Get emphasis factor based on priority level
+   * Fractional levels interpolate between the neighboring integer levels so weights
+   * change continuously with priority (needed for sensitivity thresholds)
    * @param priority - Priority level (1-5)
    * @returns Emphasis factor to multiply weight by
    */
   private getEmphasisFactor(priority: number): number {
+    if (!Number.isInteger(priority) && priority > 1 && priority < 5) {
+      const lower = Math.floor(priority);
+      const fraction = priority - lower;
+      return this.getEmphasisFactor(lower) * (1 - fraction) + this.getEmphasisFactor(lower + 1) * fraction;
+    }
+
     switch (priority) {
       case 5: return 1.5; // High priority - amplify
       case 4: return 1.2; // Above average - slight amplification
@@ -468,22 +1039,36 @@ export class ComparisonEngine implements IComparisonEngine {
    */
   applyContextualAdjustments(scores: OptionScore[], constraints: UserConstraints): OptionScore[] {
     return scores.map(score => {
-      const adjustedScore = { ...score };
+      const adjustedScore = { ...score, criteriaScores: { ...score.criteriaScores } };
+      const provenance = score.provenance && { ...score.provenance };
       const adjustments = this.calculateContextualAdjustments(score.option, constraints);
       
-      // Apply adjustments to criteria scores
+      // Apply adjustments to criteria scores, recording the points actually applied
       for (const [criterion, adjustment] of Object.entries(adjustments)) {
-        if (adjustedScore.criteriaScores[criterion] !== undefined) {
-          adjustedScore.criteriaScores[criterion] = Math.min(100, Math.max(0, 
-            adjustedScore.criteriaScores[criterion] + adjustment
-          ));
+        const current = adjustedScore.criteriaScores[criterion];
+        if (current !== undefined) {
+          const adjusted = Math.min(100, Math.max(0, current + adjustment.points));
+          adjustedScore.criteriaScores[criterion] = adjusted;
+
+          const entry = provenance?.[criterion];
+          if (provenance && entry) {
+            provenance[criterion] = {
+              ...entry,
+              adjustments: [...entry.adjustments, { ...adjustment, points: adjusted - current }],
+              finalScore: adjusted,
+            };
+          }
         }
       }
+      if (provenance) {
+        adjustedScore.provenance = provenance;
+      }
 
       // Recalculate weighted score with adjusted criteria scores
       adjustedScore.weightedScore = this.calculateWeightedScore(
         adjustedScore.criteriaScores, 
-        constraints.priorities
+        constraints.priorities,
+        constraints.customCriteria
       );
       adjustedScore.normalizedScore = Math.round(adjustedScore.weightedScore);
 
@@ -493,50 +1078,54 @@ export class ComparisonEngine implements IComparisonEngine {
 
   /**
    * Calculate contextual adjustments for a specific option
+   * A later adjustment to the same criterion replaces an earlier one
    * @param option - Technical option to adjust
    * @param constraints - User constraints
-   * @returns Adjustment values for each criterion
+   * @returns Adjustment for each criterion, with the constraint behind it
    */
   private calculateContextualAdjustments(
     option: TechnicalOption, 
     constraints: UserConstraints
-  ): Record<string, number> {
-    const adjustments: Record<string, number> = {};
+  ): Record<string, ScoreAdjustment> {
+    const adjustments: Record<string, ScoreAdjustment> = {};
+    const adjust = (criterion: string, name: string, points: number, reason: string) => {
+      adjustments[criterion] = { source: 'context', name, points, reason };
+    };
 
     // Budget-based adjustments
     if (constraints.budget === 'low') {
-      adjustments[STANDARD_CRITERIA.COST] = 10; // Boost cost-effective options
+      adjust(STANDARD_CRITERIA.COST, 'budget', 10, 'Low budget favors cost-effective options');
     } else if (constraints.budget === 'high') {
-      adjustments[STANDARD_CRITERIA.PERFORMANCE] = 5; // Slight performance boost for high budget
+      adjust(STANDARD_CRITERIA.PERFORMANCE, 'budget', 5, 'High budget allows paying for performance');
     }
 
     // Timeline-based adjustments
     if (constraints.timeline === 'immediate') {
-      adjustments[STANDARD_CRITERIA.LEARNING_CURVE] = 15; // Heavily favor easy-to-use options
+      adjust(STANDARD_CRITERIA.LEARNING_CURVE, 'timeline', 15, 'Immediate timeline heavily favors easy-to-use options');
     } else if (constraints.timeline === 'long') {
-      adjustments[STANDARD_CRITERIA.SCALABILITY] = 10; // Favor scalable options for long-term projects
+      adjust(STANDARD_CRITERIA.SCALABILITY, 'timeline', 10, 'Long-term project favors scalable options');
     }
 
     // Team experience adjustments
     if (constraints.team.skillLevel === 'junior') {
-      adjustments[STANDARD_CRITERIA.LEARNING_CURVE] = 10; // Favor easier options for junior teams
-      adjustments[STANDARD_CRITERIA.MAINTAINABILITY] = 5; // Favor maintainable options
+      adjust(STANDARD_CRITERIA.LEARNING_CURVE, 'team', 10, 'Junior team favors easier options');
+      adjust(STANDARD_CRITERIA.MAINTAINABILITY, 'team', 5, 'Junior team favors maintainable options');
     } else if (constraints.team.skillLevel === 'senior') {
-      adjustments[STANDARD_CRITERIA.PERFORMANCE] = 5; // Senior teams can handle complex but performant options
+      adjust(STANDARD_CRITERIA.PERFORMANCE, 'team', 5, 'Senior team can handle complex but performant options');
     }
 
     // Experience-based adjustments
     if (constraints.team.experience.some(exp => 
       exp.toLowerCase().includes(option.name.toLowerCase())
     )) {
-      adjustments[STANDARD_CRITERIA.LEARNING_CURVE] = 20; // Big boost for familiar technologies
-      adjustments[STANDARD_CRITERIA.MAINTAINABILITY] = 10; // Easier to maintain familiar tech
+      adjust(STANDARD_CRITERIA.LEARNING_CURVE, 'experience', 20, `Team already knows ${option.name}`);
+      adjust(STANDARD_CRITERIA.MAINTAINABILITY, 'experience', 10, `Team can maintain familiar ${option.name} code`);
     }
 
     // Scale-based adjustments
     if (constraints.scale.users > 100000 || constraints.scale.traffic === 'high') {
-      adjustments[STANDARD_CRITERIA.SCALABILITY] = 15; // Heavily favor scalable options
-      adjustments[STANDARD_CRITERIA.PERFORMANCE] = 10; // Performance is critical at scale
+      adjust(STANDARD_CRITERIA.SCALABILITY, 'scale', 15, 'High scale heavily favors scalable options');
+      adjust(STANDARD_CRITERIA.PERFORMANCE, 'scale', 10, 'Performance is critical at high scale');
     }
 
     return adjustments;
@@ -657,6 +1246,7 @@ export class ComparisonEngine implements IComparisonEngine {
   ): Compromise[] {
     const compromises: Compromise[] = [];
     const priorities = constraints.priorities;
+    const customCriteria = constraints.customCriteria ?? [];
 
     // Find criteria where this option is significantly weaker than others
     for (const [criterion, score] of Object.entries(optionScore.criteriaScores)) {
@@ -669,13 +1259,15 @@ export class ComparisonEngine implements IComparisonEngine {
 
       // If this option is significantly weaker (>20 points) in a criterion
       if (scoreDifference > 20) {
-        const priority = this.getCriterionPriority(criterion, priorities);
+        const priority = this.getCriterionPriority(criterion, priorities, customCriteria);
         const impact = this.determineImpact(scoreDifference, priority);
 
+        const label = customCriteria.find(custom => custom.name === criterion)?.label ?? criterion;
         compromises.push({
-          description: `Choosing ${optionScore.option.name} means accepting weaker ${criterion} performance`,
+          description: `Choosing ${optionScore.option.name} means accepting weaker ${label} performance`,
           impact,
           affectedCriteria: [criterion],
+          option: optionScore.option,
         });
       }
     }
@@ -687,9 +1279,14 @@ export class ComparisonEngine implements IComparisonEngine {
    * Get priority level for a specific criterion
    * @param criterion - Criterion name
    * @param priorities - User priorities
+   * @param customCriteria - Custom criteria, which carry their own priorities
    * @returns Priority level (1-5)
    */
-  private getCriterionPriority(criterion: string, priorities: UserConstraints['priorities']): number {
+  private getCriterionPriority(
+    criterion: string,
+    priorities: UserConstraints['priorities'],
+    customCriteria: CustomCriterion[]
+  ): number {
     switch (criterion) {
       case STANDARD_CRITERIA.COST:
         return priorities.cost;
@@ -704,7 +1301,8 @@ export class ComparisonEngine implements IComparisonEngine {
       case STANDARD_CRITERIA.MAINTAINABILITY:
         return Math.max(priorities.cost, priorities.performance); // Composite priority
       default:
-        return 3; // Default medium priority
+        return customCriteria.find(custom => custom.name === criterion)?.priority
+          ?? 3; // Default medium priority
     }
   }
 
@@ -4,7 +4,7 @@
  * Implements Requirements 1.1, 1.2, 1.3, 1.4, 1.5
  */
 
-import { UserConstraints, ValidationResult } from '../types';
+import { UserConstraints, CollectionState, ValidationResult } from '../types';
 import { ConstraintCollector } from './ConstraintCollector';
 
 /**
@@ -316,6 +316,31 @@ export class ConstraintCollectionInterface {
     return { ...this.partialConstraints };
   }
 
+  /**
+   * Get the collection progress so it can be saved with the session
+   */
+  getState(): CollectionState {
+    return {
+      step: this.currentStep,
+      partialConstraints: { ...this.partialConstraints }
+    };
+  }
+
+  /**
+   * Resume collection from saved progress
+   * Unknown steps restart the collection
+   */
+  restoreState(state: CollectionState): void {
+    const steps: string[] = Object.values(CollectionStep);
+    if (!steps.includes(state.step)) {
+      this.startCollection();
+      return;
+    }
+
+    this.partialConstraints = { ...state.partialConstraints };
+    this.currentStep = state.step as CollectionStep;
+  }
+
   /**
    * Validate the complete constraints
    */
@@ -10,13 +10,16 @@ import {
   ValidationResult,
   ValidationError 
 } from '../types';
+import { STANDARD_CRITERIA } from '../types/knowledge';
+import { HardConstraintFilter } from './HardConstraintFilter';
 
 /**
  * Implementation of the Constraint Collector interface
  * Handles all aspects of user constraint processing
  */
 export class ConstraintCollector implements IConstraintCollector {
-  
+  private hardConstraintFilter = new HardConstraintFilter();
+
   /**
    * Validate complete user constraints
    * Ensures all required fields are present and valid
@@ -52,6 +55,19 @@ export class ConstraintCollector implements IConstraintCollector {
     errors.push(...prioritiesValidation.errors);
     warnings.push(...prioritiesValidation.warnings);
 
+    // Validate hard constraints, if any
+    const hardConstraintsValidation = this.hardConstraintFilter.validateHardConstraints(
+      constraints.hardConstraints,
+      constraints.customCriteria
+    );
+    errors.push(...hardConstraintsValidation.errors);
+    warnings.push(...hardConstraintsValidation.warnings);
+
+    // Validate custom criteria, if any
+    const customCriteriaValidation = this.validateCustomCriteria(constraints.customCriteria);
+    errors.push(...customCriteriaValidation.errors);
+    warnings.push(...customCriteriaValidation.warnings);
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -279,6 +295,121 @@ export class ConstraintCollector implements IConstraintCollector {
     return { isValid: errors.length === 0, errors, warnings };
   }
 
+  /**
+   * Validate user-defined criteria
+   * Each needs a unique name that does not shadow a standard criterion, a 1-5 priority,
+   * and a scoring function or manual scores
+   */
+  private validateCustomCriteria(customCriteria: UserConstraints['customCriteria']): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: string[] = [];
+
+    if (customCriteria === undefined) {
+      return { isValid: true, errors, warnings };
+    }
+
+    if (!Array.isArray(customCriteria)) {
+      errors.push({
+        field: 'customCriteria',
+        message: 'Custom criteria must be an array',
+        code: 'CUSTOM_CRITERIA_INVALID_TYPE',
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const standardCriteria = new Set<string>(Object.values(STANDARD_CRITERIA));
+    const seen = new Set<string>();
+
+    customCriteria.forEach((criterion, index) => {
+      const field = `customCriteria[${index}]`;
+
+      if (!criterion || typeof criterion !== 'object') {
+        errors.push({
+          field,
+          message: 'Custom criterion must be an object',
+          code: 'CUSTOM_CRITERION_INVALID',
+        });
+        return;
+      }
+
+      if (typeof criterion.name !== 'string' || criterion.name.trim().length === 0) {
+        errors.push({
+          field: `${field}.name`,
+          message: 'Custom criterion name is required',
+          code: 'CUSTOM_CRITERION_NAME_REQUIRED',
+        });
+      } else if (standardCriteria.has(criterion.name)) {
+        errors.push({
+          field: `${field}.name`,
+          message: `Custom criterion "${criterion.name}" clashes with a standard criterion`,
+          code: 'CUSTOM_CRITERION_NAME_RESERVED',
+        });
+      } else if (seen.has(criterion.name)) {
+        errors.push({
+          field: `${field}.name`,
+          message: `Custom criterion "${criterion.name}" is defined more than once`,
+          code: 'CUSTOM_CRITERION_DUPLICATE',
+        });
+      } else {
+        seen.add(criterion.name);
+      }
+
+      if (typeof criterion.priority !== 'number') {
+        errors.push({
+          field: `${field}.priority`,
+          message: 'Custom criterion priority must be a number',
+          code: 'PRIORITY_INVALID_TYPE',
+        });
+      } else if (criterion.priority < 1 || criterion.priority > 5) {
+        errors.push({
+          field: `${field}.priority`,
+          message: 'Custom criterion priority must be between 1 and 5',
+          code: 'PRIORITY_OUT_OF_RANGE',
+        });
+      }
+
+      if (criterion.scoringFunction !== undefined && typeof criterion.scoringFunction !== 'function') {
+        errors.push({
+          field: `${field}.scoringFunction`,
+          message: 'Custom criterion scoring function must be a function',
+          code: 'CUSTOM_CRITERION_INVALID',
+        });
+      }
+
+      if (criterion.scores !== undefined) {
+        if (!criterion.scores || typeof criterion.scores !== 'object' || Array.isArray(criterion.scores)) {
+          errors.push({
+            field: `${field}.scores`,
+            message: 'Custom criterion scores must map option names to scores',
+            code: 'CUSTOM_CRITERION_INVALID',
+          });
+        } else {
+          for (const [option, score] of Object.entries(criterion.scores)) {
+            if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+              errors.push({
+                field: `${field}.scores.${option}`,
+                message: 'Custom criterion scores must be numbers between 0 and 100',
+                code: 'CUSTOM_CRITERION_SCORE_OUT_OF_RANGE',
+              });
+            }
+          }
+        }
+      }
+
+      if (criterion.scoringFunction === undefined && criterion.scores === undefined) {
+        errors.push({
+          field,
+          message: 'Custom criterion needs a scoring function or manual scores',
+          code: 'CUSTOM_CRITERION_UNSCORED',
+        });
+      } else if (criterion.scoringFunction === undefined && Object.keys(criterion.scores ?? {}).length === 0) {
+        warnings.push(`Custom criterion ${criterion.name} has no scores - every option will score 50`);
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
   /**
    * Normalize priority weights to ensure consistent scaling
    * Converts 1-5 scale to proportional weights that sum to 1
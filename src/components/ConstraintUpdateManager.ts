@@ -11,11 +11,13 @@ import {
   EvaluationResult,
   UserSession,
   ValidationResult,
-  ValidationError 
+  ValidationError,
+  ConstraintModificationOperation
 } from '../types';
 import { ConstraintCollector } from './ConstraintCollector';
 import { ComparisonEngine } from './ComparisonEngine';
 import { KnowledgeBase } from './KnowledgeBase';
+import { SessionManager } from './SessionManager';
 
 /**
  * Interface for constraint update operations
@@ -44,6 +46,28 @@ export interface ConstraintUpdateManager {
    */
   getModificationHistory(sessionId: string): ConstraintModification[];
 
+  /**
+   * Revert the most recent change that has not been undone and re-evaluate
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  undo(sessionId: string): Promise<ConstraintUpdateResult>;
+
+  /**
+   * Re-apply the most recently undone change and re-evaluate
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  redo(sessionId: string): Promise<ConstraintUpdateResult>;
+
+  /**
+   * Return the constraints to how they were at a point in the modification history and re-evaluate
+   * @param sessionId - Session to update
+   * @param target - History index to restore the state right after, or a moment in time
+   * @returns Updated evaluation result
+   */
+  restoreTo(sessionId: string, target: number | Date): Promise<ConstraintUpdateResult>;
+
   /**
    * Validate constraint updates before applying
    * @param currentConstraints - Current constraint values
@@ -85,38 +109,52 @@ export interface ConstraintModification {
   newValues: UserConstraintUpdates;
   /** Reason for the modification (if provided) */
   reason?: string;
+  /** How the modification was made (defaults to update) */
+  operation?: ConstraintModificationOperation;
+  /** History index of the modification an undo or redo reverted or re-applied */
+  targetIndex?: number;
 }
 
+/**
+ * How a modification entered the history, beyond the values it changed
+ */
+type ModificationDetails = Pick<ConstraintModification, 'operation' | 'targetIndex' | 'reason'>;
+
 /**
  * Implementation of constraint update management
  */
 export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
   private constraintCollector: ConstraintCollector;
   private comparisonEngine: ComparisonEngine;
-  private sessions: Map<string, UserSession> = new Map();
-  private modificationHistory: Map<string, ConstraintModification[]> = new Map();
+  private sessionManager: SessionManager;
 
-  constructor(knowledgeBase?: KnowledgeBase) {
+  /**
+   * @param knowledgeBase - Knowledge base used for re-evaluation
+   * @param sessionManager - Session manager shared with the rest of the application (defaults to in-memory)
+   * @param comparisonEngine - Configured engine used for re-evaluation (defaults to one with default settings)
+   */
+  constructor(knowledgeBase?: KnowledgeBase, sessionManager?: SessionManager, comparisonEngine?: ComparisonEngine) {
     this.constraintCollector = new ConstraintCollector();
-    this.comparisonEngine = new ComparisonEngine(knowledgeBase);
+    this.comparisonEngine = comparisonEngine || new ComparisonEngine(knowledgeBase);
+    this.sessionManager = sessionManager || new SessionManager();
   }
 
   /**
-   * Set session data (for integration with existing session management)
+   * Save session data to the session manager
    * @param sessionId - Session ID
    * @param session - Session data
    */
   setSession(sessionId: string, session: UserSession): void {
-    this.sessions.set(sessionId, session);
+    this.sessionManager.saveSession(session.id === sessionId ? session : { ...session, id: sessionId });
   }
 
   /**
    * Get session data
    * @param sessionId - Session ID
-   * @returns Session data or null if not found
+   * @returns Session data or null if not found or expired
    */
   getSession(sessionId: string): UserSession | null {
-    return this.sessions.get(sessionId) || null;
+    return this.sessionManager.getSession(sessionId);
   }
 
   /**
@@ -129,20 +167,148 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
   async updateConstraints(sessionId: string, constraintUpdates: UserConstraintUpdates): Promise<ConstraintUpdateResult> {
     const session = this.getSession(sessionId);
     if (!session) {
-      return {
-        success: false,
-        updatedConstraints: {} as UserConstraints,
-        evaluationResult: null,
-        errors: [{
-          field: 'sessionId',
-          message: 'Session not found',
-          code: 'SESSION_NOT_FOUND'
-        }],
-        warnings: [],
-        changesSummary: []
-      };
+      return this.sessionNotFound();
+    }
+
+    return this.applyUpdates(session, constraintUpdates, { operation: 'update' });
+  }
+
+  /**
+   * Update priorities and trigger re-evaluation
+   * @param sessionId - Session to update
+   * @param newPriorities - New priority weights
+   * @returns Updated evaluation result
+   */
+  async updatePriorities(sessionId: string, newPriorities: UserConstraints['priorities']): Promise<ConstraintUpdateResult> {
+    return this.updateConstraints(sessionId, { priorities: newPriorities });
+  }
+
+  /**
+   * Revert the most recent change that has not been undone and re-evaluate
+   * The revert is recorded in the history, so it can itself be redone
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  async undo(sessionId: string): Promise<ConstraintUpdateResult> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      return this.sessionNotFound();
+    }
+
+    const history = session.modificationHistory || [];
+    const targetIndex = this.getUndoRedoStacks(history).undo.pop();
+    if (targetIndex === undefined) {
+      return this.operationFailed(session, 'history', 'There are no changes to undo', 'NOTHING_TO_UNDO');
+    }
+
+    return this.applyUpdates(session, history[targetIndex]!.previousValues, {
+      operation: 'undo',
+      targetIndex,
+      reason: `Undo change #${targetIndex + 1}`
+    });
+  }
+
+  /**
+   * Re-apply the most recently undone change and re-evaluate
+   * Any other change made after an undo clears what can be redone
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  async redo(sessionId: string): Promise<ConstraintUpdateResult> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      return this.sessionNotFound();
+    }
+
+    const history = session.modificationHistory || [];
+    const targetIndex = this.getUndoRedoStacks(history).redo.pop();
+    if (targetIndex === undefined) {
+      return this.operationFailed(session, 'history', 'There are no undone changes to redo', 'NOTHING_TO_REDO');
+    }
+
+    return this.applyUpdates(session, history[targetIndex]!.newValues, {
+      operation: 'redo',
+      targetIndex,
+      reason: `Redo change #${targetIndex + 1}`
+    });
+  }
+
+  /**
+   * Return the constraints to how they were at a point in the modification history and re-evaluate
+   * The restore is recorded as a single new change, so nothing after the restore point is lost
+   * @param sessionId - Session to update
+   * @param target - History index to restore the state right after, or a moment in time
+   *   (a moment before the first change restores the original constraints)
+   * @returns Updated evaluation result
+   */
+  async restoreTo(sessionId: string, target: number | Date): Promise<ConstraintUpdateResult> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      return this.sessionNotFound();
     }
 
+    const history = session.modificationHistory || [];
+    let keep: number;
+    if (target instanceof Date) {
+      // Timestamps read back from a session store may not have been revived as Dates
+      const moment = new Date(target).getTime();
+      if (isNaN(moment)) {
+        return this.operationFailed(session, 'timestamp', 'Restore timestamp is not a valid date', 'RESTORE_POINT_INVALID');
+      }
+      keep = history.filter(modification => new Date(modification.timestamp).getTime() <= moment).length;
+    } else {
+      if (!Number.isInteger(target) || target < 0 || target >= history.length) {
+        return this.operationFailed(
+          session,
+          'index',
+          `Restore index must be between 0 and ${history.length - 1}`,
+          'RESTORE_POINT_INVALID'
+        );
+      }
+      keep = target + 1;
+    }
+
+    const restored = this.getConstraintsAt(session.constraints, history, keep);
+    const updates = this.diffConstraints(session.constraints, restored);
+    if (Object.keys(updates).length === 0) {
+      return this.operationFailed(
+        session,
+        'history',
+        'The constraints already match that point in the history',
+        'NOTHING_TO_RESTORE'
+      );
+    }
+
+    const label = keep === 0 ? 'the original constraints' : `change #${keep}`;
+    return this.applyUpdates(session, updates, { operation: 'restore', reason: `Restore ${label}` });
+  }
+
+  /**
+   * Check whether undo and redo are currently possible
+   * @param sessionId - Session to check
+   * @returns Availability of undo and redo (both false for unknown sessions)
+   */
+  getUndoRedoAvailability(sessionId: string): { canUndo: boolean; canRedo: boolean } {
+    const stacks = this.getUndoRedoStacks(this.getModificationHistory(sessionId));
+    return { canUndo: stacks.undo.length > 0, canRedo: stacks.redo.length > 0 };
+  }
+
+  /**
+   * Validate and apply constraint updates, re-evaluate, then record them
+   * Nothing is saved unless the re-evaluation succeeds, so a failed update leaves the
+   * constraints and the modification history as they were
+   * @param session - Session to update
+   * @param constraintUpdates - Partial constraint updates
+   * @param details - How the modification is recorded in the history
+   * @returns Updated evaluation result
+   */
+  private async applyUpdates(
+    session: UserSession,
+    constraintUpdates: UserConstraintUpdates,
+    details: ModificationDetails
+  ): Promise<ConstraintUpdateResult> {
+    const sessionId = session.id;
+
     // Validate the proposed updates
     const validation = this.validateConstraintUpdates(session.constraints, constraintUpdates);
     if (!validation.isValid) {
@@ -156,29 +322,18 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
       };
     }
 
-    // Record the modification before applying changes
-    const modification = this.recordModification(sessionId, session.constraints, constraintUpdates);
-
-    // Apply the updates
+    const modification = this.createModification(session, constraintUpdates, details);
     const updatedConstraints = this.mergeConstraints(session.constraints, constraintUpdates);
-    
-    // Update the session
-    session.constraints = updatedConstraints;
-    this.setSession(sessionId, session);
 
-    // Trigger re-evaluation if options are available
+    // Re-evaluate if options are available, before anything is committed
     let evaluationResult: EvaluationResult | null = null;
     if (session.selectedOptions && session.selectedOptions.length >= 2) {
       try {
         evaluationResult = this.comparisonEngine.evaluate(session.selectedOptions, updatedConstraints);
-        
-        // Add to evaluation history
-        session.evaluationHistory.push(evaluationResult);
-        this.setSession(sessionId, session);
       } catch (error) {
         return {
           success: false,
-          updatedConstraints,
+          updatedConstraints: session.constraints,
           evaluationResult: null,
           errors: [{
             field: 'evaluation',
@@ -186,11 +341,19 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
             code: 'EVALUATION_FAILED'
           }],
           warnings: validation.warnings,
-          changesSummary: modification.modifiedFields.map(field => `Updated ${field}`)
+          changesSummary: []
         };
       }
     }
 
+    // Commit the constraints, the modification and the evaluation together
+    session.constraints = updatedConstraints;
+    session.modificationHistory = [...(session.modificationHistory || []), modification];
+    if (evaluationResult) {
+      session.evaluationHistory.push(evaluationResult);
+    }
+    this.setSession(sessionId, session);
+
     return {
       success: true,
       updatedConstraints,
@@ -201,16 +364,6 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
     };
   }
 
-  /**
-   * Update priorities and trigger re-evaluation
-   * @param sessionId - Session to update
-   * @param newPriorities - New priority weights
-   * @returns Updated evaluation result
-   */
-  async updatePriorities(sessionId: string, newPriorities: UserConstraints['priorities']): Promise<ConstraintUpdateResult> {
-    return this.updateConstraints(sessionId, { priorities: newPriorities });
-  }
-
   /**
    * Validate constraint updates before applying
    * @param currentConstraints - Current constraint values
@@ -256,16 +409,17 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
    * @returns Array of constraint modifications
    */
   getModificationHistory(sessionId: string): ConstraintModification[] {
-    return this.modificationHistory.get(sessionId) || [];
+    return this.getSession(sessionId)?.modificationHistory || [];
   }
 
   /**
    * Merge current constraints with updates
+   * Nested scale, team and priority updates are merged field by field
    * @param current - Current constraints
    * @param updates - Partial updates
    * @returns Merged constraints
    */
-  private mergeConstraints(current: UserConstraints, updates: UserConstraintUpdates): UserConstraints {
+  mergeConstraints(current: UserConstraints, updates: UserConstraintUpdates): UserConstraints {
     const merged = { ...current };
 
     // Handle nested objects properly
@@ -290,39 +444,149 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
       merged.timeline = updates.timeline;
     }
 
+    if (updates.hardConstraints !== undefined) {
+      merged.hardConstraints = updates.hardConstraints;
+    }
+
+    if (updates.customCriteria !== undefined) {
+      merged.customCriteria = updates.customCriteria;
+    }
+
     return merged;
   }
 
   /**
-   * Record a constraint modification for history tracking
-   * @param sessionId - Session ID
-   * @param previousConstraints - Previous constraint values
-   * @param updates - Applied updates
+   * Describe a constraint modification for the session history
+   * The caller adds it to the history once the updates are applied
+   * @param session - Session being modified, holding the previous constraint values
+   * @param updates - Updates to apply
+   * @param details - How the modification was made
    * @returns Modification record
    */
-  private recordModification(
-    sessionId: string, 
-    previousConstraints: UserConstraints, 
-    updates: UserConstraintUpdates
+  private createModification(
+    session: UserSession,
+    updates: UserConstraintUpdates,
+    details: ModificationDetails = {}
   ): ConstraintModification {
     const modifiedFields = this.getModifiedFields(updates);
-    const previousValues = this.extractPreviousValues(previousConstraints, modifiedFields);
+    const previousValues = this.extractPreviousValues(session.constraints, modifiedFields);
 
     const modification: ConstraintModification = {
       timestamp: new Date(),
       modifiedFields,
       previousValues,
-      newValues: updates
+      newValues: updates,
+      ...details
     };
 
-    // Add to history
-    const history = this.modificationHistory.get(sessionId) || [];
-    history.push(modification);
-    this.modificationHistory.set(sessionId, history);
-
     return modification;
   }
 
+  /**
+   * Work out which changes can currently be undone and redone by replaying the history
+   * Updates and restores can be undone and clear the redo stack; undo and redo move a change between the stacks
+   * @param history - Modification history, oldest first
+   * @returns History indices of undoable and redoable changes, most recent last
+   */
+  private getUndoRedoStacks(history: ConstraintModification[]): { undo: number[]; redo: number[] } {
+    const undo: number[] = [];
+    let redo: number[] = [];
+
+    history.forEach((modification, index) => {
+      switch (modification.operation) {
+        case 'undo':
+          undo.pop();
+          redo.push(modification.targetIndex!);
+          break;
+        case 'redo':
+          redo.pop();
+          undo.push(modification.targetIndex!);
+          break;
+        default:
+          undo.push(index);
+          redo = [];
+      }
+    });
+
+    return { undo, redo };
+  }
+
+  /**
+   * Reconstruct the constraints as they were after the first few modifications
+   * Walks back from the current constraints, putting back the previous values of each later change
+   * @param current - Current constraints
+   * @param history - Modification history, oldest first
+   * @param keep - Number of modifications to keep applied
+   * @returns Constraints at that point in the history
+   */
+  private getConstraintsAt(current: UserConstraints, history: ConstraintModification[], keep: number): UserConstraints {
+    let constraints = current;
+    for (let index = history.length - 1; index >= keep; index--) {
+      constraints = this.mergeConstraints(constraints, history[index]!.previousValues);
+    }
+    return constraints;
+  }
+
+  /**
+   * Updates that turn one set of constraints into another
+   * Only the top-level fields that differ are included
+   * @param current - Constraints to change
+   * @param target - Constraints to arrive at
+   * @returns Updates covering every differing field
+   */
+  private diffConstraints(current: UserConstraints, target: UserConstraints): UserConstraintUpdates {
+    const updates: UserConstraintUpdates = {};
+    const normalized = (constraints: UserConstraints) => ({
+      ...constraints,
+      hardConstraints: constraints.hardConstraints ?? {},
+      customCriteria: constraints.customCriteria ?? []
+    });
+    const [from, to] = [normalized(current), normalized(target)];
+    const differs = (field: keyof UserConstraints) => JSON.stringify(from[field]) !== JSON.stringify(to[field]);
+
+    if (differs('budget')) updates.budget = target.budget;
+    if (differs('timeline')) updates.timeline = target.timeline;
+    if (differs('scale')) updates.scale = { ...target.scale };
+    if (differs('team')) updates.team = { ...target.team, experience: [...target.team.experience] };
+    if (differs('priorities')) updates.priorities = { ...target.priorities };
+    if (differs('hardConstraints')) updates.hardConstraints = to.hardConstraints;
+    if (differs('customCriteria')) updates.customCriteria = to.customCriteria;
+
+    return updates;
+  }
+
+  /**
+   * Result for an operation on a session that does not exist
+   */
+  private sessionNotFound(): ConstraintUpdateResult {
+    return {
+      success: false,
+      updatedConstraints: {} as UserConstraints,
+      evaluationResult: null,
+      errors: [{
+        field: 'sessionId',
+        message: 'Session not found',
+        code: 'SESSION_NOT_FOUND'
+      }],
+      warnings: [],
+      changesSummary: []
+    };
+  }
+
+  /**
+   * Result for an undo, redo or restore that cannot be carried out
+   */
+  private operationFailed(session: UserSession, field: string, message: string, code: string): ConstraintUpdateResult {
+    return {
+      success: false,
+      updatedConstraints: session.constraints,
+      evaluationResult: null,
+      errors: [{ field, message, code }],
+      warnings: [],
+      changesSummary: []
+    };
+  }
+
   /**
    * Get list of modified field names from updates
    * @param updates - Constraint updates
@@ -333,6 +597,8 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
 
     if (updates.budget !== undefined) fields.push('budget');
     if (updates.timeline !== undefined) fields.push('timeline');
+    if (updates.hardConstraints !== undefined) fields.push('hardConstraints');
+    if (updates.customCriteria !== undefined) fields.push('customCriteria');
     
     if (updates.scale) {
       if (updates.scale.users !== undefined) fields.push('scale.users');
@@ -369,6 +635,10 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
         previous.budget = constraints.budget;
       } else if (field === 'timeline') {
         previous.timeline = constraints.timeline;
+      } else if (field === 'hardConstraints') {
+        previous.hardConstraints = constraints.hardConstraints ?? {};
+      } else if (field === 'customCriteria') {
+        previous.customCriteria = constraints.customCriteria ?? [];
       } else if (field.startsWith('scale.')) {
         if (!previous.scale) previous.scale = {};
         if (field === 'scale.users') previous.scale!.users = constraints.scale.users;
@@ -411,6 +681,10 @@ export class ConstraintUpdateManagerImpl implements ConstraintUpdateManager {
         summary.push(`Team skill level changed from ${oldValue} to ${newValue}`);
       } else if (field === 'team.experience') {
         summary.push(`Team experience updated`);
+      } else if (field === 'hardConstraints') {
+        summary.push('Hard constraints updated');
+      } else if (field === 'customCriteria') {
+        summary.push('Custom criteria updated');
       } else if (field.startsWith('priorities.')) {
         const priorityName = field.split('.')[1];
         summary.push(`${priorityName} priority changed from ${oldValue} to ${newValue}`);
@@ -0,0 +1,294 @@
+/**
+ * Hard Constraint Filter Component
+ * Eliminates options that violate must-have requirements or minimum criterion scores
+ * Supports Requirements 2.2, 3.4
+ */
+
+import {
+  HardConstraints,
+  MustHaveConstraint,
+  MustHaveOperator,
+  TechnicalOption,
+  OptionScore,
+  EliminationReason,
+  ValidationResult,
+  ValidationError,
+  UserConstraints,
+} from '../types';
+import { STANDARD_CRITERIA } from '../types/knowledge';
+
+/**
+ * Operators supported by must-have constraints
+ */
+export const MUST_HAVE_OPERATORS: readonly MustHaveOperator[] = ['equals', 'includes', 'oneOf', 'atLeast', 'atMost'];
+
+type ConstraintValue = string | number | boolean;
+
+/**
+ * Applies hard constraints to technical options
+ * Must-haves are checked against the metadata supplied with each option, so fallback
+ * metadata for unknown technologies can never satisfy a requirement
+ */
+export class HardConstraintFilter {
+
+  /**
+   * Check an option against must-have requirements
+   * @param option - Option as supplied by the user (before fallback metadata is merged)
+   * @param mustHave - Requirements to check
+   * @returns Reasons for every requirement the option fails
+   */
+  checkRequirements(option: TechnicalOption, mustHave: MustHaveConstraint[] = []): EliminationReason[] {
+    return mustHave
+      .filter(requirement => !requirement.categories || requirement.categories.includes(option.category))
+      .filter(requirement => !this.satisfies(option.metadata?.[requirement.field], requirement))
+      .map(requirement => ({
+        constraint: 'mustHave' as const,
+        field: requirement.field,
+        message: this.describeViolation(option, requirement),
+      }));
+  }
+
+  /**
+   * Check an option's criterion scores against minimum thresholds
+   * Like an undeclared must-have field, a criterion the option was not scored on cannot meet
+   * its minimum, so it vetoes the option
+   * @param score - Option score after contextual adjustments
+   * @param minimumScores - Minimum acceptable score per criterion
+   * @returns Reasons for every threshold the option falls below or cannot be checked against
+   */
+  checkMinimumScores(score: OptionScore, minimumScores: Record<string, number> = {}): EliminationReason[] {
+    const reasons: EliminationReason[] = [];
+
+    for (const [criterion, minimum] of Object.entries(minimumScores)) {
+      const value = score.criteriaScores[criterion];
+      if (value === undefined) {
+        reasons.push({
+          constraint: 'minimumScore',
+          field: criterion,
+          message: `has no ${criterion} score to check against the required minimum of ${minimum}`,
+        });
+      } else if (value < minimum) {
+        reasons.push({
+          constraint: 'minimumScore',
+          field: criterion,
+          message: `${criterion} score ${Math.round(value)}/100 is below the required minimum of ${minimum}`,
+        });
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Validate a hard constraint specification
+   * Minimum scores may only name standard criteria or the custom criteria of the same constraints
+   * @param hardConstraints - Hard constraints to validate
+   * @param customCriteria - Custom criteria defined alongside the hard constraints
+   * @param fieldPrefix - Field path used in error reports
+   * @returns Validation result
+   */
+  validateHardConstraints(
+    hardConstraints: unknown,
+    customCriteria: UserConstraints['customCriteria'] = [],
+    fieldPrefix = 'hardConstraints'
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: string[] = [];
+
+    if (hardConstraints === undefined) {
+      return { isValid: true, errors, warnings };
+    }
+
+    if (!hardConstraints || typeof hardConstraints !== 'object' || Array.isArray(hardConstraints)) {
+      errors.push({
+        field: fieldPrefix,
+        message: 'Hard constraints must be an object',
+        code: 'HARD_CONSTRAINTS_INVALID_TYPE',
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const { mustHave, minimumScores } = hardConstraints as HardConstraints;
+
+    if (mustHave !== undefined) {
+      errors.push(...this.validateRequirements(mustHave, `${fieldPrefix}.mustHave`));
+    }
+
+    if (minimumScores !== undefined) {
+      if (!minimumScores || typeof minimumScores !== 'object' || Array.isArray(minimumScores)) {
+        errors.push({
+          field: `${fieldPrefix}.minimumScores`,
+          message: 'Minimum scores must be an object keyed by criterion name',
+          code: 'MINIMUM_SCORES_INVALID_TYPE',
+        });
+      } else {
+        const standardCriteria: string[] = Object.values(STANDARD_CRITERIA);
+        const customNames = Array.isArray(customCriteria) ? customCriteria.map(criterion => criterion?.name) : [];
+
+        for (const [criterion, minimum] of Object.entries(minimumScores)) {
+          if (!standardCriteria.includes(criterion) && !customNames.includes(criterion)) {
+            errors.push({
+              field: `${fieldPrefix}.minimumScores.${criterion}`,
+              message: `Unknown criterion '${criterion}' - use one of ${standardCriteria.join(', ')} or a custom criterion`,
+              code: 'MINIMUM_SCORE_UNKNOWN_CRITERION',
+            });
+          } else if (typeof minimum !== 'number' || !Number.isFinite(minimum) || minimum < 0 || minimum > 100) {
+            errors.push({
+              field: `${fieldPrefix}.minimumScores.${criterion}`,
+              message: `Minimum ${criterion} score must be a number between 0 and 100`,
+              code: 'MINIMUM_SCORE_OUT_OF_RANGE',
+            });
+          } else if (minimum >= 90) {
+            warnings.push(`Minimum ${criterion} score of ${minimum} is very strict and may eliminate every option`);
+          }
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate a list of requirements
+   * Shared by must-have constraints and the conditions of declarative scoring rules
+   * @param requirements - Requirements to validate
+   * @param field - Field path used in error reports
+   * @returns Validation errors, empty when every requirement is well-formed
+   */
+  validateRequirements(requirements: unknown, field: string): ValidationError[] {
+    if (!Array.isArray(requirements)) {
+      return [{
+        field,
+        message: 'Must-have constraints must be an array',
+        code: 'MUST_HAVE_INVALID_TYPE',
+      }];
+    }
+
+    const errors: ValidationError[] = [];
+    requirements.forEach((requirement, index) => {
+      const message = this.describeInvalidRequirement(requirement);
+      if (message) {
+        errors.push({
+          field: `${field}[${index}]`,
+          message,
+          code: 'MUST_HAVE_INVALID',
+        });
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Check whether a metadata value satisfies a requirement
+   * @param actual - Value from the option's metadata
+   * @param requirement - Requirement to check
+   * @returns True when the requirement is met
+   */
+  private satisfies(actual: unknown, requirement: MustHaveConstraint): boolean {
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+
+    const expected = requirement.value;
+
+    switch (requirement.operator) {
+      case 'equals':
+        return this.valuesMatch(actual, expected);
+      case 'includes': {
+        const available = Array.isArray(actual) ? actual : [actual];
+        const wanted = Array.isArray(expected) ? expected : [expected];
+        return wanted.every(value => available.some(item => this.valuesMatch(item, value)));
+      }
+      case 'oneOf':
+        return (Array.isArray(expected) ? expected : [expected]).some(value => this.valuesMatch(actual, value));
+      case 'atLeast':
+        return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+      case 'atMost':
+        return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    }
+  }
+
+  /**
+   * Compare two scalar values, ignoring case for strings
+   */
+  private valuesMatch(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+      return actual.toLowerCase() === expected.toLowerCase();
+    }
+    return actual === expected;
+  }
+
+  /**
+   * Explain why an option fails a requirement
+   * @param option - Option that failed
+   * @param requirement - Requirement that was not met
+   * @returns Human-readable reason
+   */
+  private describeViolation(option: TechnicalOption, requirement: MustHaveConstraint): string {
+    const actual = option.metadata?.[requirement.field];
+    const label = requirement.description || this.describeRequirement(requirement);
+
+    if (actual === undefined || actual === null) {
+      return `does not declare ${requirement.field} (required: ${label})`;
+    }
+    return `fails requirement "${label}" (${requirement.field} is ${this.formatValue(actual)})`;
+  }
+
+  /**
+   * Describe a requirement in plain words
+   */
+  private describeRequirement(requirement: MustHaveConstraint): string {
+    const value = this.formatValue(requirement.value);
+
+    switch (requirement.operator) {
+      case 'equals': return `${requirement.field} must be ${value}`;
+      case 'includes': return `${requirement.field} must include ${value}`;
+      case 'oneOf': return `${requirement.field} must be one of ${value}`;
+      case 'atLeast': return `${requirement.field} must be at least ${value}`;
+      case 'atMost': return `${requirement.field} must be at most ${value}`;
+    }
+  }
+
+  /**
+   * Format a metadata or requirement value for messages
+   */
+  private formatValue(value: unknown): string {
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+
+  /**
+   * Explain why a must-have specification is malformed
+   * @param requirement - Specification to check
+   * @returns Error message, or null when the specification is valid
+   */
+  private describeInvalidRequirement(requirement: MustHaveConstraint): string | null {
+    if (!requirement || typeof requirement !== 'object') {
+      return 'Must-have constraint must be an object';
+    }
+    if (typeof requirement.field !== 'string' || requirement.field.trim().length === 0) {
+      return 'Must-have constraint needs a metadata field name';
+    }
+    if (!MUST_HAVE_OPERATORS.includes(requirement.operator)) {
+      return `Operator must be one of: ${MUST_HAVE_OPERATORS.join(', ')}`;
+    }
+
+    const values: unknown[] = Array.isArray(requirement.value) ? requirement.value : [requirement.value];
+    const isScalar = (value: unknown): value is ConstraintValue =>
+      typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+    if (values.length === 0 || !values.every(isScalar)) {
+      return 'Must-have value must be a string, number, boolean or a non-empty list of them';
+    }
+    if ((requirement.operator === 'atLeast' || requirement.operator === 'atMost') &&
+        (typeof requirement.value !== 'number' || !Number.isFinite(requirement.value))) {
+      return `${requirement.operator} requires a numeric value`;
+    }
+    if (requirement.operator === 'equals' && Array.isArray(requirement.value)) {
+      return 'equals requires a single value - use oneOf for alternatives';
+    }
+    if (requirement.categories !== undefined && !Array.isArray(requirement.categories)) {
+      return 'Categories must be an array';
+    }
+    return null;
+  }
+}
@@ -10,18 +10,73 @@ import {
   CloudProviderData, 
   BackendFrameworkData, 
   DatabaseData,
+  FrontendFrameworkData,
+  MessagingPlatformData,
+  OrchestrationPlatformData,
+  ObservabilityStackData,
+  IdentityProviderData,
+  CacheStoreData,
+  DeclarativeScoringRule,
+  MergedKnowledgePack,
+  MetadataSchema,
   STANDARD_CRITERIA,
   StandardCriterion 
 } from '../types/knowledge';
-import { TechnicalOption } from '../types/core';
-import { KnowledgeBase as IKnowledgeBase } from '../types/interfaces';
+import { TechnicalOption, OptionSelection, CriterionProvenance, ScoreContribution } from '../types/core';
+import { KnowledgeBase as IKnowledgeBase, ValidationError } from '../types/interfaces';
+import { RefereeValidationError } from '../types/errors';
+import { HardConstraintFilter } from './HardConstraintFilter';
+import { RuleExpressionEngine } from './RuleExpressionEngine';
+
+/**
+ * Running criterion score that records the points each metadata field contributed
+ */
+class ScoreTally {
+  private score: number;
+
+  constructor(baseline: number, private contributions: ScoreContribution[] = []) {
+    this.score = baseline;
+    this.contributions.push({ points: baseline, reason: 'Baseline score' });
+  }
+
+  /**
+   * Add points to the score
+   * @param points - Points to add (negative to take away)
+   * @param reason - Plain-language reason
+   * @param field - Metadata field the points came from
+   */
+  add(points: number, reason: string, field?: string): void {
+    if (points === 0) return;
+    this.score += points;
+    this.contributions.push({ ...(field && { field }), points, reason });
+  }
+
+  /**
+   * Final score, kept within 0-100
+   */
+  total(): number {
+    const clamped = Math.min(100, Math.max(0, this.score));
+    if (clamped !== this.score) {
+      this.contributions.push({
+        points: clamped - this.score,
+        reason: clamped === 100 ? 'Capped at the maximum score of 100' : 'Raised to the minimum score of 0',
+      });
+    }
+    return clamped;
+  }
+}
 
 /**
  * Implementation of the Knowledge Base interface
- * Contains domain-specific evaluation logic for cloud providers, backend frameworks, and databases
+ * Contains domain-specific evaluation logic for cloud providers, backend frameworks, databases, frontend frameworks,
+ * messaging platforms, container orchestration platforms, observability stacks, identity providers, and caches
  */
 export class KnowledgeBase implements IKnowledgeBase {
   private domainKnowledge: Map<string, DomainKnowledge> = new Map();
+  private packKnowledge: MergedKnowledgePack | null = null;
+  private customRules: DeclarativeScoringRule[] = [];
+  private hardConstraintFilter = new HardConstraintFilter();
+  private ruleExpressionEngine = new RuleExpressionEngine();
 
   constructor() {
     this.initializeKnowledgeBase();
@@ -34,6 +89,12 @@ export class KnowledgeBase implements IKnowledgeBase {
     this.domainKnowledge.set('cloud', this.createCloudProviderKnowledge());
     this.domainKnowledge.set('backend', this.createBackendFrameworkKnowledge());
     this.domainKnowledge.set('database', this.createDatabaseKnowledge());
+    this.domainKnowledge.set('frontend', this.createFrontendFrameworkKnowledge());
+    this.domainKnowledge.set('messaging', this.createMessagingPlatformKnowledge());
+    this.domainKnowledge.set('orchestration', this.createOrchestrationPlatformKnowledge());
+    this.domainKnowledge.set('observability', this.createObservabilityStackKnowledge());
+    this.domainKnowledge.set('identity', this.createIdentityProviderKnowledge());
+    this.domainKnowledge.set('cache', this.createCacheStoreKnowledge());
   }
 
   /**
@@ -80,9 +141,27 @@ export class KnowledgeBase implements IKnowledgeBase {
   }
 
   /**
-   * Get list of known technologies for a category
+   * Get list of known technologies for a category, including those added by knowledge packs
    */
   private getKnownTechnologiesForCategory(category: string): string[] {
+    if (!this.packKnowledge) {
+      return this.getBuiltInKnownTechnologies(category);
+    }
+
+    const packCategory = category as TechnicalOption['category'];
+    return Array.from(new Set([
+      ...this.getBuiltInKnownTechnologies(category),
+      ...(this.packKnowledge.knownTechnologies[packCategory] || []),
+      ...this.packKnowledge.technologies
+        .filter(option => option.category === category)
+        .map(option => option.name.toLowerCase()),
+    ]));
+  }
+
+  /**
+   * Get the built-in list of known technologies for a category
+   */
+  private getBuiltInKnownTechnologies(category: string): string[] {
     switch (category) {
       case 'cloud':
         return ['aws', 'gcp', 'azure', 'digitalocean', 'linode', 'vultr'];
@@ -90,6 +169,18 @@ export class KnowledgeBase implements IKnowledgeBase {
         return ['node.js', 'django', 'spring boot', 'express', 'fastapi', 'rails', 'laravel'];
       case 'database':
         return ['postgresql', 'mysql', 'mongodb', 'redis', 'cassandra', 'dynamodb'];
+      case 'frontend':
+        return ['react', 'vue', 'angular', 'svelte', 'solidjs'];
+      case 'messaging':
+        return ['kafka', 'rabbitmq', 'sqs', 'nats', 'pulsar', 'kinesis', 'google pub/sub'];
+      case 'orchestration':
+        return ['kubernetes', 'ecs', 'nomad', 'cloud run', 'virtual machines', 'docker swarm', 'openshift', 'azure container apps'];
+      case 'observability':
+        return ['prometheus + grafana', 'datadog', 'new relic', 'opentelemetry + signoz', 'elastic', 'splunk', 'honeycomb', 'dynatrace'];
+      case 'identity':
+        return ['auth0', 'cognito', 'keycloak', 'firebase auth', 'okta', 'azure ad b2c', 'clerk', 'zitadel'];
+      case 'cache':
+        return ['redis', 'valkey', 'memcached', 'dragonfly', 'hazelcast', 'keydb', 'aerospike'];
       default:
         return [];
     }
@@ -104,37 +195,37 @@ export class KnowledgeBase implements IKnowledgeBase {
         name: STANDARD_CRITERIA.COST,
         weight: 1.0,
         description: 'Pricing models, operational costs, and resource efficiency',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudCost(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudCost(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.PERFORMANCE,
         weight: 1.0,
         description: 'Compute performance, network speed, and global infrastructure',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudPerformance(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudPerformance(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.SCALABILITY,
         weight: 1.0,
         description: 'Auto-scaling capabilities and global reach',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudScalability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudScalability(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.LEARNING_CURVE,
         weight: 1.0,
         description: 'Ease of getting started and documentation quality',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudLearningCurve(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudLearningCurve(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
         weight: 1.0,
         description: 'Portability and standards compliance',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudVendorLockIn(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudVendorLockIn(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.MAINTAINABILITY,
         weight: 1.0,
         description: 'Service reliability and enterprise support',
-        scoringFunction: (option: TechnicalOption) => this.scoreCloudMaintainability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCloudMaintainability(option, contributions)
       }
     ];
 
@@ -174,37 +265,37 @@ export class KnowledgeBase implements IKnowledgeBase {
         name: STANDARD_CRITERIA.COST,
         weight: 1.0,
         description: 'Development costs, hosting requirements, and licensing',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendCost(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendCost(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.PERFORMANCE,
         weight: 1.0,
         description: 'Runtime performance and throughput capabilities',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendPerformance(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendPerformance(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.SCALABILITY,
         weight: 1.0,
         description: 'Horizontal scaling and load handling capabilities',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendScalability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendScalability(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.LEARNING_CURVE,
         weight: 1.0,
         description: 'Development speed and ease of learning',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendLearningCurve(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendLearningCurve(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
         weight: 1.0,
         description: 'Framework independence and portability',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendVendorLockIn(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendVendorLockIn(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.MAINTAINABILITY,
         weight: 1.0,
         description: 'Code structure, testing support, and community',
-        scoringFunction: (option: TechnicalOption) => this.scoreBackendMaintainability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreBackendMaintainability(option, contributions)
       }
     ];
 
@@ -245,37 +336,37 @@ export class KnowledgeBase implements IKnowledgeBase {
         name: STANDARD_CRITERIA.COST,
         weight: 1.0,
         description: 'Licensing costs, hosting requirements, and operational expenses',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabaseCost(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabaseCost(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.PERFORMANCE,
         weight: 1.0,
         description: 'Query performance and throughput capabilities',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabasePerformance(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabasePerformance(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.SCALABILITY,
         weight: 1.0,
         description: 'Horizontal scaling and data distribution capabilities',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabaseScalability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabaseScalability(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.LEARNING_CURVE,
         weight: 1.0,
         description: 'Query language complexity and ease of use',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabaseLearningCurve(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabaseLearningCurve(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
         weight: 1.0,
         description: 'Standards compliance and data portability',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabaseVendorLockIn(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabaseVendorLockIn(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.MAINTAINABILITY,
         weight: 1.0,
         description: 'ACID compliance, backup capabilities, and tooling',
-        scoringFunction: (option: TechnicalOption) => this.scoreDatabaseMaintainability(option)
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreDatabaseMaintainability(option, contributions)
       }
     ];
 
@@ -308,462 +399,1904 @@ export class KnowledgeBase implements IKnowledgeBase {
   }
 
   /**
-   * Get generic criteria for unknown categories
+   * Create frontend framework domain knowledge
    */
-  private getGenericCriteria(): EvaluationCriteria[] {
-    return [
+  private createFrontendFrameworkKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
       {
         name: STANDARD_CRITERIA.COST,
         weight: 1.0,
-        description: 'Overall cost considerations',
-        scoringFunction: () => 50 // Default neutral score
+        description: 'Development effort, hiring pool, and reuse of existing components',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendCost(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.PERFORMANCE,
         weight: 1.0,
-        description: 'Performance characteristics',
-        scoringFunction: () => 50
+        description: 'Runtime speed, bundle size, and time to first paint',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendPerformance(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.SCALABILITY,
         weight: 1.0,
-        description: 'Scaling capabilities',
-        scoringFunction: () => 50
+        description: 'Rendering options for high traffic and support for large codebases',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendScalability(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.LEARNING_CURVE,
         weight: 1.0,
-        description: 'Ease of adoption',
-        scoringFunction: () => 50
+        description: 'Concepts to learn, documentation, and community help',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendLearningCurve(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
         weight: 1.0,
-        description: 'Vendor independence',
-        scoringFunction: () => 50
+        description: 'Project governance and portability of components',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendVendorLockIn(option, contributions)
       },
       {
         name: STANDARD_CRITERIA.MAINTAINABILITY,
         weight: 1.0,
-        description: 'Long-term maintainability',
-        scoringFunction: () => 50
+        description: 'Type safety, long-term support, and community',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreFrontendMaintainability(option, contributions)
       }
     ];
-  }
-  // Cloud Provider Scoring Functions
-  private scoreCloudCost(option: TechnicalOption): number {
-    const data = option.metadata as CloudProviderData;
-    if (!data) return 50;
 
-    let score = 50;
-    
-    // Pay-as-you-go is generally more cost-effective for startups
-    if (data.pricingModel === 'pay-as-you-go') score += 15;
-    else if (data.pricingModel === 'hybrid') score += 10;
-    else if (data.pricingModel === 'reserved') score += 5; // reserved instances
-
-    // Market leaders often have competitive pricing
-    if (data.marketShare && data.marketShare > 30) score += 10;
-    else if (data.marketShare && data.marketShare > 15) score += 5;
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'Small Bundle Bonus',
+        condition: (option) => this.hasSmallBundle(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.PERFORMANCE]
+      },
+      {
+        name: 'Server-Side Rendering Bonus',
+        condition: (option) => this.supportsServerRendering(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.PERFORMANCE, STANDARD_CRITERIA.SCALABILITY]
+      },
+      {
+        name: 'Large Ecosystem Bonus',
+        condition: (option) => this.hasLargeFrontendEcosystem(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY, STANDARD_CRITERIA.LEARNING_CURVE]
+      }
+    ];
 
-    return Math.min(100, Math.max(0, score));
+    return {
+      category: 'frontend',
+      criteria,
+      scoringRules
+    };
   }
 
-  private scoreCloudPerformance(option: TechnicalOption): number {
-    const data = option.metadata as CloudProviderData;
-    if (!data) return 50;
-
-    let score = 50;
-
-    // More regions generally mean better performance
-    if (data.regions && data.regions > 20) score += 20;
-    else if (data.regions && data.regions > 10) score += 15;
-    else if (data.regions && data.regions > 5) score += 10;
+  /**
+   * Create messaging platform domain knowledge
+   */
+  private createMessagingPlatformKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Licensing, broker operations, and specialist skills',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingCost(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Message throughput and delivery overhead',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingPerformance(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Throughput headroom and parallel consumption',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingScalability(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'Concepts to learn, documentation, and community help',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingLearningCurve(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'Open protocols and choice of where to run the brokers',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingVendorLockIn(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Operational burden, message replay, and community',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreMessagingMaintainability(option, contributions)
+      }
+    ];
 
-    // Market leaders typically have better infrastructure
-    if (data.marketShare && data.marketShare > 30) score += 15;
-    else if (data.marketShare && data.marketShare > 15) score += 10;
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'Exactly-Once Delivery Bonus',
+        condition: (option) => this.hasExactlyOnceDelivery(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY]
+      },
+      {
+        name: 'Replayable Log Bonus',
+        condition: (option) => this.hasReplayableLog(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.SCALABILITY, STANDARD_CRITERIA.MAINTAINABILITY]
+      },
+      {
+        name: 'Fully Managed Service Bonus',
+        condition: (option) => this.isFullyManaged(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY]
+      }
+    ];
 
-    return Math.min(100, Math.max(0, score));
+    return {
+      category: 'messaging',
+      criteria,
+      scoringRules
+    };
   }
 
-  private scoreCloudScalability(option: TechnicalOption): number {
-    const data = option.metadata as CloudProviderData;
-    if (!data) return 50;
-
-    let score = 50;
-
-    // More services mean better scaling options
-    if (data.serviceCount && data.serviceCount > 200) score += 20;
-    else if (data.serviceCount && data.serviceCount > 100) score += 15;
-    else if (data.serviceCount && data.serviceCount > 50) score += 10;
+  /**
+   * Create container orchestration platform domain knowledge
+   */
+  private createOrchestrationPlatformKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Platform team effort and paying for idle capacity',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationCost(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Responsiveness to load and cold-start latency',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationPerformance(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Autoscaling model and reach across regions and clouds',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationScalability(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'Concepts to learn and available tooling and tutorials',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationLearningCurve(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'Portability of workloads across clouds and on-premises',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationVendorLockIn(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Operational overhead, managed control planes, and ecosystem',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreOrchestrationMaintainability(option, contributions)
+      }
+    ];
 
-    // Global presence improves scalability
-    if (data.regions && data.regions > 15) score += 15;
-    else if (data.regions && data.regions > 8) score += 10;
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'Scale-to-Zero Cost Advantage',
+        condition: (option) => this.scalesToZero(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.COST]
+      },
+      {
+        name: 'Runs Anywhere Bonus',
+        condition: (option) => this.runsAnywhere(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.VENDOR_LOCK_IN]
+      },
+      {
+        name: 'Broad Managed Availability Bonus',
+        condition: (option) => this.hasBroadManagedAvailability(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY, STANDARD_CRITERIA.VENDOR_LOCK_IN]
+      }
+    ];
 
-    return Math.min(100, Math.max(0, score));
+    return {
+      category: 'orchestration',
+      criteria,
+      scoringRules
+    };
   }
 
-  private scoreCloudLearningCurve(option: TechnicalOption): number {
-    const data = option.metadata as CloudProviderData;
-    if (!data) return 50;
-
-    let score = 50;
-
-    // Lower learning curve is better (inverse scoring)
-    if (data.learningCurve === 'low') score += 20;
-    else if (data.learningCurve === 'medium') score += 10;
-    // high learning curve gets no bonus
+  /**
+   * Create observability stack domain knowledge
+   */
+  private createObservabilityStackKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Usage-based pricing and the engineering time to run the stack',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityCost(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Query speed and depth of diagnosis',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityPerformance(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Handling growing telemetry volume and history',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityScalability(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'Instrumentation effort and query languages to learn',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityLearningCurve(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'Portability of instrumentation and data between backends',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityVendorLockIn(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Self-hosting burden and signal coverage',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreObservabilityMaintainability(option, contributions)
+      }
+    ];
 
-    // Market leaders have better documentation and community
-    if (data.marketShare && data.marketShare > 30) score += 15;
-    else if (data.marketShare && data.marketShare > 15) score += 10;
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'OpenTelemetry Native Bonus',
+        condition: (option) => this.isOpenTelemetryNative(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.VENDOR_LOCK_IN, STANDARD_CRITERIA.MAINTAINABILITY]
+      },
+      {
+        name: 'Proprietary Agent Lock-in Penalty',
+        condition: (option) => this.requiresProprietaryAgent(option),
+        scoreAdjustment: -8,
+        affectedCriteria: [STANDARD_CRITERIA.VENDOR_LOCK_IN]
+      },
+      {
+        name: 'Short Retention Penalty',
+        condition: (option) => this.hasShortRetention(option),
+        scoreAdjustment: -6,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY]
+      }
+    ];
 
-    return Math.min(100, Math.max(0, score));
+    return {
+      category: 'observability',
+      criteria,
+      scoringRules
+    };
   }
 
-  private scoreCloudVendorLockIn(option: TechnicalOption): number {
-    const data = option.metadata as CloudProviderData;
-    if (!data) return 50;
-
-    let score = 50;
-
-    // Fewer proprietary services mean less lock-in
-    if (data.serviceCount && data.serviceCount < 50) score += 20;
-    else if (data.serviceCount && data.serviceCount < 100) score += 10;
-    // More services typically mean more proprietary offerings
+  /**
+   * Create identity provider domain knowledge
+   */
+  private createIdentityProviderKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Free tier size, per-user pricing, and hosting effort',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityCost(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Login latency and availability of the login endpoints',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityPerformance(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Login capacity and how pricing grows with the user base',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityScalability(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'Integration effort with standard libraries',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityLearningCurve(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'Standard protocols, self-hosting, and moving users out',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityVendorLockIn(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Compliance, security patching, and user provisioning',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreIdentityMaintainability(option, contributions)
+      }
+    ];
 
-    // Smaller providers often have less lock-in
-    if (data.marketShare && data.marketShare < 10) score += 15;
-    else if (data.marketShare && data.marketShare < 25) score += 10;
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'Enterprise Federation Bonus',
+        condition: (option) => this.supportsEnterpriseFederation(option),
+        scoreAdjustment: 8,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY]
+      },
+      {
+        name: 'Self-Hostable Exit Path Bonus',
+        condition: (option) => this.isSelfHostableIdentity(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.VENDOR_LOCK_IN]
+      },
+      {
+        name: 'No Password Hash Export Penalty',
+        condition: (option) => this.lacksPasswordHashExport(option),
+        scoreAdjustment: -8,
+        affectedCriteria: [STANDARD_CRITERIA.VENDOR_LOCK_IN]
+      }
+    ];
 
-    return Math.min(100, Math.max(0, score));
+    return {
+      category: 'identity',
+      criteria,
+      scoringRules
+    };
+  }
+
+  /**
+   * Create cache and in-memory data store domain knowledge
+   */
+  private createCacheStoreKnowledge(): DomainKnowledge {
+    const criteria: EvaluationCriteria[] = [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Memory footprint, licensing, and managed pricing',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCacheCost(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Read latency and use of every core on a node',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCachePerformance(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Clustering model and keys held per node',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCacheScalability(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'API surface and operational concepts',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCacheLearningCurve(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'License terms, license stability, and choice of hosts',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCacheVendorLockIn(option, contributions)
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Warm restarts, failover, and eviction control',
+        scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => this.scoreCacheMaintainability(option, contributions)
+      }
+    ];
+
+    const scoringRules: ScoringRule[] = [
+      {
+        name: 'Sub-Millisecond Latency Bonus',
+        condition: (option) => this.hasSubMillisecondLatency(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.PERFORMANCE]
+      },
+      {
+        name: 'Memory Efficiency Bonus',
+        condition: (option) => this.isMemoryEfficient(option),
+        scoreAdjustment: 6,
+        affectedCriteria: [STANDARD_CRITERIA.COST, STANDARD_CRITERIA.SCALABILITY]
+      },
+      {
+        name: 'License Change Risk Penalty',
+        condition: (option) => this.hasRecentLicenseChange(option),
+        scoreAdjustment: -6,
+        affectedCriteria: [STANDARD_CRITERIA.MAINTAINABILITY]
+      }
+    ];
+
+    return {
+      category: 'cache',
+      criteria,
+      scoringRules
+    };
+  }
+
+  /**
+   * Get generic criteria for unknown categories
+   */
+  private getGenericCriteria(): EvaluationCriteria[] {
+    return [
+      {
+        name: STANDARD_CRITERIA.COST,
+        weight: 1.0,
+        description: 'Overall cost considerations',
+        scoringFunction: () => 50 // Default neutral score
+      },
+      {
+        name: STANDARD_CRITERIA.PERFORMANCE,
+        weight: 1.0,
+        description: 'Performance characteristics',
+        scoringFunction: () => 50
+      },
+      {
+        name: STANDARD_CRITERIA.SCALABILITY,
+        weight: 1.0,
+        description: 'Scaling capabilities',
+        scoringFunction: () => 50
+      },
+      {
+        name: STANDARD_CRITERIA.LEARNING_CURVE,
+        weight: 1.0,
+        description: 'Ease of adoption',
+        scoringFunction: () => 50
+      },
+      {
+        name: STANDARD_CRITERIA.VENDOR_LOCK_IN,
+        weight: 1.0,
+        description: 'Vendor independence',
+        scoringFunction: () => 50
+      },
+      {
+        name: STANDARD_CRITERIA.MAINTAINABILITY,
+        weight: 1.0,
+        description: 'Long-term maintainability',
+        scoringFunction: () => 50
+      }
+    ];
+  }
+  // Cloud Provider Scoring Functions
+  private scoreCloudCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CloudProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+    
+    // Pay-as-you-go is generally more cost-effective for startups
+    if (data.pricingModel === 'pay-as-you-go') score.add(15, 'Pay-as-you-go pricing', 'pricingModel');
+    else if (data.pricingModel === 'hybrid') score.add(10, 'Hybrid pricing', 'pricingModel');
+    else if (data.pricingModel === 'reserved') score.add(5, 'Reserved-instance pricing', 'pricingModel');
+
+    // Market leaders often have competitive pricing
+    if (data.marketShare && data.marketShare > 30) score.add(10, `Market leader (${data.marketShare}% share) with competitive pricing`, 'marketShare');
+    else if (data.marketShare && data.marketShare > 15) score.add(5, `Major provider (${data.marketShare}% share)`, 'marketShare');
+
+    return score.total();
+  }
+
+  private scoreCloudPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CloudProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // More regions generally mean better performance
+    if (data.regions && data.regions > 20) score.add(20, `${data.regions} regions keep workloads close to users`, 'regions');
+    else if (data.regions && data.regions > 10) score.add(15, `${data.regions} regions`, 'regions');
+    else if (data.regions && data.regions > 5) score.add(10, `${data.regions} regions`, 'regions');
+
+    // Market leaders typically have better infrastructure
+    if (data.marketShare && data.marketShare > 30) score.add(15, `Market leader (${data.marketShare}% share) infrastructure`, 'marketShare');
+    else if (data.marketShare && data.marketShare > 15) score.add(10, `Major provider (${data.marketShare}% share) infrastructure`, 'marketShare');
+
+    return score.total();
+  }
+
+  private scoreCloudScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CloudProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // More services mean better scaling options
+    if (data.serviceCount && data.serviceCount > 200) score.add(20, `${data.serviceCount} managed services to scale with`, 'serviceCount');
+    else if (data.serviceCount && data.serviceCount > 100) score.add(15, `${data.serviceCount} managed services`, 'serviceCount');
+    else if (data.serviceCount && data.serviceCount > 50) score.add(10, `${data.serviceCount} managed services`, 'serviceCount');
+
+    // Global presence improves scalability
+    if (data.regions && data.regions > 15) score.add(15, `Global presence in ${data.regions} regions`, 'regions');
+    else if (data.regions && data.regions > 8) score.add(10, `Presence in ${data.regions} regions`, 'regions');
+
+    return score.total();
+  }
+
+  private scoreCloudLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CloudProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Lower learning curve is better (inverse scoring)
+    if (data.learningCurve === 'low') score.add(20, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(10, 'Moderate learning curve', 'learningCurve');
+    // high learning curve gets no bonus
+
+    // Market leaders have better documentation and community
+    if (data.marketShare && data.marketShare > 30) score.add(15, 'Market leader with extensive documentation and community', 'marketShare');
+    else if (data.marketShare && data.marketShare > 15) score.add(10, 'Major provider with good documentation', 'marketShare');
+
+    return score.total();
+  }
+
+  private scoreCloudVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CloudProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Fewer proprietary services mean less lock-in
+    if (data.serviceCount && data.serviceCount < 50) score.add(20, `Few proprietary services (${data.serviceCount})`, 'serviceCount');
+    else if (data.serviceCount && data.serviceCount < 100) score.add(10, `Moderate number of proprietary services (${data.serviceCount})`, 'serviceCount');
+    // More services typically mean more proprietary offerings
+
+    // Smaller providers often have less lock-in
+    if (data.marketShare && data.marketShare < 10) score.add(15, `Smaller provider (${data.marketShare}% share) with less lock-in`, 'marketShare');
+    else if (data.marketShare && data.marketShare < 25) score.add(10, `Mid-sized provider (${data.marketShare}% share)`, 'marketShare');
+
+    return score.total();
   }
 
-  private scoreCloudMaintainability(option: TechnicalOption): number {
+  private scoreCloudMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as CloudProviderData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Enterprise features improve maintainability
     const enterpriseFeatures = data.enterpriseFeatures || [];
-    score += Math.min(20, enterpriseFeatures.length * 2);
+    score.add(Math.min(20, enterpriseFeatures.length * 2), `${enterpriseFeatures.length} enterprise features`, 'enterpriseFeatures');
 
     // Compliance certifications help with maintainability
     const certifications = data.certifications || [];
-    score += Math.min(15, certifications.length * 3);
+    score.add(Math.min(15, certifications.length * 3), `${certifications.length} compliance certifications`, 'certifications');
 
     // Market leaders typically have better support
-    if (data.marketShare && data.marketShare > 30) score += 10;
-    else if (data.marketShare && data.marketShare > 15) score += 5;
+    if (data.marketShare && data.marketShare > 30) score.add(10, 'Market leader with mature support', 'marketShare');
+    else if (data.marketShare && data.marketShare > 15) score.add(5, 'Major provider with good support', 'marketShare');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
   // Backend Framework Scoring Functions
-  private scoreBackendCost(option: TechnicalOption): number {
+  private scoreBackendCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Open source frameworks are generally more cost-effective
     // Assume all frameworks in our knowledge base are open source
-    score += 15;
+    score.add(15, 'Open source framework');
 
     // Languages with lower hosting requirements
-    if (data.language === 'javascript' || data.language === 'python') score += 10;
-    else if (data.language === 'java' || data.language === 'c#') score += 5;
+    if (data.language === 'javascript' || data.language === 'python') score.add(10, `Inexpensive ${data.language} hosting`, 'language');
+    else if (data.language === 'java' || data.language === 'c#') score.add(5, `Widely hosted ${data.language} runtime`, 'language');
 
     // High development speed reduces development costs
-    if (data.developmentSpeed && data.developmentSpeed >= 8) score += 15;
-    else if (data.developmentSpeed && data.developmentSpeed >= 6) score += 10;
+    if (data.developmentSpeed && data.developmentSpeed >= 8) score.add(15, `Fast development (${data.developmentSpeed}/10) lowers development costs`, 'developmentSpeed');
+    else if (data.developmentSpeed && data.developmentSpeed >= 6) score.add(10, `Good development speed (${data.developmentSpeed}/10)`, 'developmentSpeed');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreBackendPerformance(option: TechnicalOption): number {
+  private scoreBackendPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 30; // Base score
+    const score = new ScoreTally(30, contributions); // Base score
     
     // Direct performance rating mapping
     if (data.performanceRating) {
-      score += data.performanceRating * 7; // Scale 1-10 to contribute up to 70 points
+      score.add(data.performanceRating * 7, `Performance rating of ${data.performanceRating}/10`, 'performanceRating'); // Scale 1-10 to contribute up to 70 points
     }
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreBackendScalability(option: TechnicalOption): number {
+  private scoreBackendScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Performance rating correlates with scalability
-    if (data.performanceRating && data.performanceRating >= 8) score += 20;
-    else if (data.performanceRating && data.performanceRating >= 6) score += 15;
-    else if (data.performanceRating && data.performanceRating >= 4) score += 10;
+    if (data.performanceRating && data.performanceRating >= 8) score.add(20, `High performance rating (${data.performanceRating}/10)`, 'performanceRating');
+    else if (data.performanceRating && data.performanceRating >= 6) score.add(15, `Good performance rating (${data.performanceRating}/10)`, 'performanceRating');
+    else if (data.performanceRating && data.performanceRating >= 4) score.add(10, `Moderate performance rating (${data.performanceRating}/10)`, 'performanceRating');
 
     // Enterprise adoption suggests good scalability
-    if (data.enterpriseAdoption && data.enterpriseAdoption >= 8) score += 15;
-    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 6) score += 10;
+    if (data.enterpriseAdoption && data.enterpriseAdoption >= 8) score.add(15, `Proven at enterprise scale (adoption ${data.enterpriseAdoption}/10)`, 'enterpriseAdoption');
+    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 6) score.add(10, `Solid enterprise adoption (${data.enterpriseAdoption}/10)`, 'enterpriseAdoption');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreBackendLearningCurve(option: TechnicalOption): number {
+  private scoreBackendLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 30;
+    const score = new ScoreTally(30, contributions);
 
     // Development speed indicates ease of use
     if (data.developmentSpeed) {
-      score += data.developmentSpeed * 5; // Scale 1-10 to contribute up to 50 points
+      score.add(data.developmentSpeed * 5, `Development speed of ${data.developmentSpeed}/10`, 'developmentSpeed'); // Scale 1-10 to contribute up to 50 points
     }
 
     // Learning curve (inverse scoring - lower is better)
-    if (data.learningCurve === 'low') score += 20;
-    else if (data.learningCurve === 'medium') score += 10;
+    if (data.learningCurve === 'low') score.add(20, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(10, 'Moderate learning curve', 'learningCurve');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreBackendVendorLockIn(option: TechnicalOption): number {
+  private scoreBackendVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 70; // Most backend frameworks have low vendor lock-in
+    const score = new ScoreTally(70, contributions); // Most backend frameworks have low vendor lock-in
 
     // Popular languages have better portability
     if (data.language === 'javascript' || data.language === 'python' || data.language === 'java') {
-      score += 15;
+      score.add(15, `Portable ${data.language} code`, 'language');
     }
 
     // Large package ecosystem suggests good portability
-    if (data.packageEcosystem && data.packageEcosystem > 100000) score += 15;
-    else if (data.packageEcosystem && data.packageEcosystem > 50000) score += 10;
+    if (data.packageEcosystem && data.packageEcosystem > 100000) score.add(15, 'Very large package ecosystem', 'packageEcosystem');
+    else if (data.packageEcosystem && data.packageEcosystem > 50000) score.add(10, 'Large package ecosystem', 'packageEcosystem');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreBackendMaintainability(option: TechnicalOption): number {
+  private scoreBackendMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as BackendFrameworkData;
     if (!data) return 50;
 
-    let score = 30;
+    const score = new ScoreTally(30, contributions);
 
     // Community size helps with maintainability
-    if (data.communitySize && data.communitySize > 100000) score += 25;
-    else if (data.communitySize && data.communitySize > 50000) score += 20;
-    else if (data.communitySize && data.communitySize > 10000) score += 15;
+    if (data.communitySize && data.communitySize > 100000) score.add(25, 'Very large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 50000) score.add(20, 'Large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 10000) score.add(15, 'Established community', 'communitySize');
 
     // Enterprise adoption suggests good maintainability
-    if (data.enterpriseAdoption && data.enterpriseAdoption >= 8) score += 20;
-    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 6) score += 15;
-    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 4) score += 10;
+    if (data.enterpriseAdoption && data.enterpriseAdoption >= 8) score.add(20, `High enterprise adoption (${data.enterpriseAdoption}/10)`, 'enterpriseAdoption');
+    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 6) score.add(15, `Solid enterprise adoption (${data.enterpriseAdoption}/10)`, 'enterpriseAdoption');
+    else if (data.enterpriseAdoption && data.enterpriseAdoption >= 4) score.add(10, `Some enterprise adoption (${data.enterpriseAdoption}/10)`, 'enterpriseAdoption');
 
     // Package ecosystem helps with maintainability
-    if (data.packageEcosystem && data.packageEcosystem > 100000) score += 15;
-    else if (data.packageEcosystem && data.packageEcosystem > 50000) score += 10;
+    if (data.packageEcosystem && data.packageEcosystem > 100000) score.add(15, 'Very large package ecosystem', 'packageEcosystem');
+    else if (data.packageEcosystem && data.packageEcosystem > 50000) score.add(10, 'Large package ecosystem', 'packageEcosystem');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
   // Database Scoring Functions
-  private scoreDatabaseCost(option: TechnicalOption): number {
+  private scoreDatabaseCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Open source databases are generally more cost-effective
     // PostgreSQL, MySQL, MongoDB are open source
     const openSourceDatabases = ['postgresql', 'mysql', 'mongodb', 'redis', 'cassandra'];
     if (openSourceDatabases.includes(option.name.toLowerCase())) {
-      score += 20;
+      score.add(20, 'Open source database', 'name');
     }
 
     // Simpler databases have lower operational costs
-    if (data.queryComplexity === 'simple') score += 15;
-    else if (data.queryComplexity === 'moderate') score += 10;
+    if (data.queryComplexity === 'simple') score.add(15, 'Simple queries keep operational costs low', 'queryComplexity');
+    else if (data.queryComplexity === 'moderate') score.add(10, 'Moderate query complexity', 'queryComplexity');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreDatabasePerformance(option: TechnicalOption): number {
+  private scoreDatabasePerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 30; // Base score
+    const score = new ScoreTally(30, contributions); // Base score
     
     // Direct performance rating mapping
     if (data.performanceRating) {
-      score += data.performanceRating * 7; // Scale 1-10 to contribute up to 70 points
+      score.add(data.performanceRating * 7, `Performance rating of ${data.performanceRating}/10`, 'performanceRating'); // Scale 1-10 to contribute up to 70 points
     }
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreDatabaseScalability(option: TechnicalOption): number {
+  private scoreDatabaseScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Horizontal scaling capability
-    if (data.horizontalScaling === 'excellent') score += 25;
-    else if (data.horizontalScaling === 'good') score += 15;
-    else if (data.horizontalScaling === 'poor') score -= 10;
+    if (data.horizontalScaling === 'excellent') score.add(25, 'Excellent horizontal scaling', 'horizontalScaling');
+    else if (data.horizontalScaling === 'good') score.add(15, 'Good horizontal scaling', 'horizontalScaling');
+    else if (data.horizontalScaling === 'poor') score.add(-10, 'Poor horizontal scaling', 'horizontalScaling');
 
     // Schema flexibility helps with scaling
-    if (data.schemaFlexibility === 'schemaless') score += 15;
-    else if (data.schemaFlexibility === 'flexible') score += 10;
+    if (data.schemaFlexibility === 'schemaless') score.add(15, 'Schemaless data model', 'schemaFlexibility');
+    else if (data.schemaFlexibility === 'flexible') score.add(10, 'Flexible schema', 'schemaFlexibility');
 
     // NoSQL databases often scale better
-    if (data.type !== 'relational') score += 10;
+    if (data.type !== 'relational') score.add(10, `Non-relational (${data.type}) data model`, 'type');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreDatabaseLearningCurve(option: TechnicalOption): number {
+  private scoreDatabaseLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // Query complexity (inverse scoring - simpler is better)
-    if (data.queryComplexity === 'simple') score += 20;
-    else if (data.queryComplexity === 'moderate') score += 10;
+    if (data.queryComplexity === 'simple') score.add(20, 'Simple queries', 'queryComplexity');
+    else if (data.queryComplexity === 'moderate') score.add(10, 'Moderate query complexity', 'queryComplexity');
     // complex gets no bonus
 
     // SQL databases are generally more familiar
-    if (data.type === 'relational') score += 15;
+    if (data.type === 'relational') score.add(15, 'Familiar SQL', 'type');
 
     // Rigid schema is more familiar to most developers
-    if (data.schemaFlexibility === 'rigid') score += 10;
+    if (data.schemaFlexibility === 'rigid') score.add(10, 'Familiar fixed schema', 'schemaFlexibility');
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreDatabaseVendorLockIn(option: TechnicalOption): number {
+  private scoreDatabaseVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // SQL databases have better portability
-    if (data.type === 'relational') score += 20;
+    if (data.type === 'relational') score.add(20, 'Portable relational data model', 'type');
 
     // Open source databases have less lock-in
     const openSourceDatabases = ['postgresql', 'mysql', 'mongodb', 'redis', 'cassandra'];
     if (openSourceDatabases.includes(option.name.toLowerCase())) {
-      score += 25;
+      score.add(25, 'Open source database', 'name');
     }
 
     // Standard query languages reduce lock-in
-    if (data.type === 'relational') score += 10; // SQL is standard
+    if (data.type === 'relational') score.add(10, 'Standard SQL query language', 'type'); // SQL is standard
 
-    return Math.min(100, Math.max(0, score));
+    return score.total();
   }
 
-  private scoreDatabaseMaintainability(option: TechnicalOption): number {
+  private scoreDatabaseMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
     const data = option.metadata as DatabaseData;
     if (!data) return 50;
 
-    let score = 50;
+    const score = new ScoreTally(50, contributions);
 
     // ACID compliance improves maintainability
-    if (data.acidCompliance) score += 20;
+    if (data.acidCompliance) score.add(20, 'ACID transactions', 'acidCompliance');
 
     // Strong consistency is easier to reason about
-    if (data.consistencyModel === 'strong') score += 15;
-    else if (data.consistencyModel === 'configurable') score += 10;
+    if (data.consistencyModel === 'strong') score.add(15, 'Strong consistency is easy to reason about', 'consistencyModel');
+    else if (data.consistencyModel === 'configurable') score.add(10, 'Configurable consistency', 'consistencyModel');
 
     // Mature relational databases are well-understood
-    if (data.type === 'relational') score += 10;
+    if (data.type === 'relational') score.add(10, 'Well-understood relational model', 'type');
 
-    return Math.min(100, Math.max(0, score));
-  }
-  // Helper functions for scoring rules
-  private hasEnterpriseFeatures(option: TechnicalOption): boolean {
-    const data = option.metadata as CloudProviderData;
-    return data && data.enterpriseFeatures && data.enterpriseFeatures.length > 5;
+    return score.total();
   }
+  // Frontend Framework Scoring Functions
+  private scoreFrontendCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
 
-  private hasHighMarketShare(option: TechnicalOption): boolean {
-    const data = option.metadata as CloudProviderData;
-    return data && data.marketShare > 25;
-  }
+    const score = new ScoreTally(50, contributions);
 
-  private hasPayAsYouGoPricing(option: TechnicalOption): boolean {
-    const data = option.metadata as CloudProviderData;
-    return data && data.pricingModel === 'pay-as-you-go';
+    // All frameworks in our knowledge base are open source
+    score.add(10, 'Open source framework');
+
+    // Easier frameworks are cheaper to hire and onboard for
+    if (data.learningCurve === 'low') score.add(15, 'Low learning curve makes hiring and onboarding cheaper', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(10, 'Moderate learning curve', 'learningCurve');
+
+    // A large ecosystem means fewer components built in-house
+    if (data.ecosystemSize && data.ecosystemSize > 50000) score.add(15, 'Very large component ecosystem', 'ecosystemSize');
+    else if (data.ecosystemSize && data.ecosystemSize > 10000) score.add(10, 'Large component ecosystem', 'ecosystemSize');
+
+    return score.total();
   }
 
-  private hasHighDevelopmentSpeed(option: TechnicalOption): boolean {
-    const data = option.metadata as BackendFrameworkData;
-    return data && data.developmentSpeed >= 8;
+  private scoreFrontendPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions); // Base score
+
+    // Runtime performance rating
+    if (data.performanceRating) {
+      score.add(data.performanceRating * 5, `Runtime performance rating of ${data.performanceRating}/10`, 'performanceRating'); // Scale 1-10 to contribute up to 50 points
+    }
+
+    // Smaller bundles load and parse faster
+    if (data.bundleSizeKb !== undefined) {
+      if (data.bundleSizeKb <= 10) score.add(20, `Tiny bundle (~${data.bundleSizeKb}kb)`, 'bundleSizeKb');
+      else if (data.bundleSizeKb <= 50) score.add(10, `Small bundle (~${data.bundleSizeKb}kb)`, 'bundleSizeKb');
+      else if (data.bundleSizeKb > 100) score.add(-10, `Large bundle (~${data.bundleSizeKb}kb)`, 'bundleSizeKb');
+    }
+
+    return score.total();
   }
 
-  private hasLargeCommunity(option: TechnicalOption): boolean {
-    const data = option.metadata as BackendFrameworkData;
-    return data && data.communitySize > 50000;
+  private scoreFrontendScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Server rendering lets pages be cached at the edge under high traffic
+    if (data.renderingModel === 'hybrid') score.add(20, 'Hybrid rendering pages can be cached at the edge', 'renderingModel');
+    else if (data.renderingModel === 'ssr') score.add(15, 'Server-rendered pages can be cached at the edge', 'renderingModel');
+    else if (data.renderingModel === 'spa') score.add(5, 'Single-page app served as static files', 'renderingModel');
+
+    // Type safety keeps large codebases manageable
+    if (data.typescriptSupport === 'native') score.add(15, 'Native TypeScript support', 'typescriptSupport');
+    else if (data.typescriptSupport === 'good') score.add(10, 'Good TypeScript support', 'typescriptSupport');
+
+    return score.total();
   }
 
-  private hasEnterpriseAdoption(option: TechnicalOption): boolean {
-    const data = option.metadata as BackendFrameworkData;
-    return data && data.enterpriseAdoption >= 7;
+  private scoreFrontendLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // Larger communities produce more tutorials and answers
+    if (data.communitySize && data.communitySize > 100000) score.add(15, 'Very large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 50000) score.add(10, 'Large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 20000) score.add(5, 'Established community', 'communitySize');
+
+    return score.total();
   }
 
-  private hasACIDCompliance(option: TechnicalOption): boolean {
-    const data = option.metadata as DatabaseData;
-    return data && data.acidCompliance === true;
+  private scoreFrontendVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(70, contributions); // Open source frameworks carry little vendor lock-in
+
+    // Independently governed projects don't depend on one company's priorities
+    if (data.corporateBacking === 'community') score.add(15, 'Community governed', 'corporateBacking');
+
+    // Widely used component patterns are easier to migrate away from
+    if (data.ecosystemSize && data.ecosystemSize > 50000) score.add(10, 'Widely used component patterns', 'ecosystemSize');
+
+    return score.total();
   }
 
-  private hasSchemaFlexibility(option: TechnicalOption): boolean {
-    const data = option.metadata as DatabaseData;
-    return data && (data.schemaFlexibility === 'flexible' || data.schemaFlexibility === 'schemaless');
+  private scoreFrontendMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as FrontendFrameworkData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Community size helps with maintainability
+    if (data.communitySize && data.communitySize > 100000) score.add(25, 'Very large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 50000) score.add(20, 'Large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 20000) score.add(10, 'Established community', 'communitySize');
+
+    // Type safety reduces regressions
+    if (data.typescriptSupport === 'native') score.add(20, 'Native TypeScript support', 'typescriptSupport');
+    else if (data.typescriptSupport === 'good') score.add(15, 'Good TypeScript support', 'typescriptSupport');
+    else if (data.typescriptSupport === 'partial') score.add(5, 'Partial TypeScript support', 'typescriptSupport');
+
+    // Corporate sponsors usually publish long-term support schedules
+    if (data.corporateBacking && data.corporateBacking !== 'community') score.add(10, `Backed by ${data.corporateBacking}`, 'corporateBacking');
+
+    return score.total();
   }
+  // Messaging Platform Scoring Functions
+  private scoreMessagingCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
 
-  private hasStrongConsistency(option: TechnicalOption): boolean {
-    const data = option.metadata as DatabaseData;
-    return data && data.consistencyModel === 'strong';
+    const score = new ScoreTally(50, contributions);
+
+    // Open source brokers carry no license fees
+    if (data.openSource) score.add(10, 'Open source broker with no license fees', 'openSource');
+
+    // Running brokers yourself takes people; managed services bill per message instead
+    if (data.hosting === 'managed') score.add(15, 'No brokers to run', 'hosting');
+    else if (data.hosting === 'both') score.add(10, 'Managed offering available', 'hosting');
+
+    // Platforms that need specialists are expensive to staff
+    if (data.learningCurve === 'low') score.add(10, 'Low learning curve keeps staffing costs down', 'learningCurve');
+    else if (data.learningCurve === 'high') score.add(-10, 'Needs specialist skills to operate', 'learningCurve');
+
+    return score.total();
   }
 
-  /**
-   * Get domain knowledge for a specific category
-   */
-  getDomainKnowledge(category: string): DomainKnowledge | null {
-    return this.domainKnowledge.get(category) || null;
+  private scoreMessagingPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions); // Base score
+
+    // Sustained throughput
+    const throughput = data.throughputMsgsPerSec;
+    if (throughput >= 1000000) score.add(40, 'A million or more messages per second', 'throughputMsgsPerSec');
+    else if (throughput >= 500000) score.add(30, `Around ${throughput.toLocaleString('en-US')} messages per second`, 'throughputMsgsPerSec');
+    else if (throughput >= 100000) score.add(20, `Around ${throughput.toLocaleString('en-US')} messages per second`, 'throughputMsgsPerSec');
+    else if (throughput >= 10000) score.add(10, `Around ${throughput.toLocaleString('en-US')} messages per second`, 'throughputMsgsPerSec');
+
+    // Stronger guarantees cost acknowledgement and transaction round trips
+    if (data.deliveryGuarantee === 'at-most-once') score.add(10, 'Fire-and-forget delivery without acknowledgements', 'deliveryGuarantee');
+    else if (data.deliveryGuarantee === 'exactly-once') score.add(-5, 'Transactional delivery adds latency', 'deliveryGuarantee');
+
+    return score.total();
   }
 
-  /**
-   * Get all available categories
-   */
-  getAvailableCategories(): string[] {
-    return Array.from(this.domainKnowledge.keys());
+  private scoreMessagingScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Throughput headroom
+    const throughput = data.throughputMsgsPerSec;
+    if (throughput >= 1000000) score.add(30, 'Throughput headroom for very high traffic', 'throughputMsgsPerSec');
+    else if (throughput >= 100000) score.add(20, 'Throughput headroom for high traffic', 'throughputMsgsPerSec');
+    else if (throughput >= 10000) score.add(10, 'Throughput for moderate traffic', 'throughputMsgsPerSec');
+
+    // A single global order limits how many consumers can work in parallel
+    if (data.ordering === 'partitioned') score.add(15, 'Partitioned ordering lets consumers scale out', 'ordering');
+    else if (data.ordering === 'none') score.add(15, 'No ordering constraints on parallel consumers', 'ordering');
+
+    // Managed services add capacity without re-sizing clusters
+    if (data.hosting === 'managed') score.add(10, 'Provider scales capacity on demand', 'hosting');
+
+    return score.total();
   }
 
-  /**
-   * Get technology-specific metadata with fallback to defaults
-   */
-  getTechnologyMetadata(option: TechnicalOption): Record<string, any> {
-    if (this.isKnownTechnology(option)) {
-      return option.metadata;
-    }
+  private scoreMessagingLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
 
-    // Return fallback metadata for unknown technologies
-    return this.getFallbackMetadata(option.category);
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // Larger communities produce more tutorials and answers
+    if (data.communitySize && data.communitySize > 50000) score.add(15, 'Very large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 20000) score.add(10, 'Large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 10000) score.add(5, 'Established community', 'communitySize');
+
+    return score.total();
   }
 
-  /**
-   * Get fallback metadata for unknown technologies
-   */
-  private getFallbackMetadata(category: string): Record<string, any> {
+  private scoreMessagingVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Open source brokers can be moved between providers or brought in-house
+    if (data.openSource) score.add(25, 'Open source broker', 'openSource');
+    else score.add(-20, 'Proprietary API ties producers and consumers to one provider', 'openSource');
+
+    // Choice of where to run the platform
+    if (data.hosting === 'both') score.add(15, 'Available managed or self-hosted', 'hosting');
+    else if (data.hosting === 'self-hosted') score.add(10, 'Runs on any infrastructure', 'hosting');
+    else score.add(-10, 'Only offered as a managed service', 'hosting');
+
+    return score.total();
+  }
+
+  private scoreMessagingMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as MessagingPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Someone has to upgrade, patch and rebalance brokers
+    if (data.hosting === 'managed') score.add(25, 'Provider handles upgrades and patching', 'hosting');
+    else if (data.hosting === 'both') score.add(15, 'Managed offering takes over upgrades and patching', 'hosting');
+
+    // Retained messages can be replayed after fixing a consumer bug
+    if (data.retention === 'unlimited') score.add(15, 'Messages can be replayed at any time', 'retention');
+    else if (data.retention === 'bounded') score.add(10, 'Messages can be replayed within the retention window', 'retention');
+
+    // Community size helps with maintainability
+    if (data.communitySize && data.communitySize > 50000) score.add(15, 'Very large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 20000) score.add(10, 'Large community', 'communitySize');
+    else if (data.communitySize && data.communitySize > 10000) score.add(5, 'Established community', 'communitySize');
+
+    return score.total();
+  }
+  // Orchestration Platform Scoring Functions
+  private scoreOrchestrationCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Platform work is paid for in engineering time
+    if (data.operationalOverhead === 'low') score.add(20, 'Little platform work to pay for', 'operationalOverhead');
+    else if (data.operationalOverhead === 'medium') score.add(10, 'Moderate platform work', 'operationalOverhead');
+    else if (data.operationalOverhead === 'high') score.add(-10, 'Needs a dedicated platform team', 'operationalOverhead');
+
+    // Capacity that follows load avoids paying for idle machines
+    if (data.autoscaling === 'serverless') score.add(15, 'Scales to zero - nothing to pay when idle', 'autoscaling');
+    else if (data.autoscaling === 'horizontal') score.add(5, 'Capacity follows load', 'autoscaling');
+    else if (data.autoscaling === 'manual') score.add(-5, 'Capacity is provisioned for peak load', 'autoscaling');
+
+    return score.total();
+  }
+
+  private scoreOrchestrationPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // How quickly capacity arrives when load rises
+    if (data.autoscaling === 'horizontal') score.add(15, 'Adds replicas as load rises', 'autoscaling');
+    else if (data.autoscaling === 'serverless') score.add(-5, 'Cold starts add latency after idle periods', 'autoscaling');
+    else if (data.autoscaling === 'manual') score.add(10, 'Full control of machine sizing and tuning', 'autoscaling');
+
+    // Platforms you operate yourself can be tuned for the workload
+    if (data.operationalOverhead === 'high') score.add(10, 'Fine-grained control over scheduling and placement', 'operationalOverhead');
+
+    return score.total();
+  }
+
+  private scoreOrchestrationScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Autoscaling model
+    if (data.autoscaling === 'serverless') score.add(35, 'Scales per request without capacity planning', 'autoscaling');
+    else if (data.autoscaling === 'horizontal') score.add(30, 'Horizontal autoscaling of workloads and nodes', 'autoscaling');
+    else if (data.autoscaling === 'manual') score.add(-10, 'Scaling means provisioning machines by hand', 'autoscaling');
+
+    // Workloads that can run in several clouds can follow users to more regions
+    if (data.portability === 'anywhere' || data.portability === 'multi-cloud') {
+      score.add(10, 'Can spread workloads across clouds and regions', 'portability');
+    }
+
+    // Managed control planes grow with the cluster
+    if (data.managedOfferings && data.managedOfferings.length > 0) score.add(10, 'Managed control plane scales with the workload', 'managedOfferings');
+
+    return score.total();
+  }
+
+  private scoreOrchestrationLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // A broad ecosystem comes with tutorials, examples, and ready-made tooling
+    if (data.ecosystemRating >= 8) score.add(10, 'Plenty of tutorials and ready-made tooling', 'ecosystemRating');
+
+    return score.total();
+  }
+
+  private scoreOrchestrationVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Where the same deployment definitions can run
+    if (data.portability === 'anywhere') score.add(40, 'Runs on any cloud or on-premises', 'portability');
+    else if (data.portability === 'multi-cloud') score.add(25, 'Runs on several clouds', 'portability');
+    else if (data.portability === 'single-cloud') score.add(-15, 'Tied to one cloud provider', 'portability');
+
+    // Competing managed offerings make it easy to switch providers
+    if (data.managedOfferings && data.managedOfferings.length >= 3) {
+      score.add(10, `Managed by several providers (${data.managedOfferings.length} offerings)`, 'managedOfferings');
+    }
+
+    return score.total();
+  }
+
+  private scoreOrchestrationMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as OrchestrationPlatformData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Someone has to upgrade, patch, and secure the platform
+    if (data.operationalOverhead === 'low') score.add(30, 'Provider runs and upgrades the platform', 'operationalOverhead');
+    else if (data.operationalOverhead === 'medium') score.add(15, 'Moderate upkeep of the platform', 'operationalOverhead');
+    else if (data.operationalOverhead === 'high') score.add(-5, 'Upgrades and add-ons need ongoing care', 'operationalOverhead');
+
+    // A managed offering takes over control-plane upgrades
+    if (data.managedOfferings && data.managedOfferings.length > 0) score.add(10, 'Managed offering available', 'managedOfferings');
+
+    // Ecosystem rating
+    if (data.ecosystemRating) {
+      score.add(data.ecosystemRating * 2, `Ecosystem rating of ${data.ecosystemRating}/10`, 'ecosystemRating'); // Scale 1-10 to contribute up to 20 points
+    }
+
+    return score.total();
+  }
+  // Observability Stack Scoring Functions
+  private scoreObservabilityCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Usage-based pricing grows with the fleet or with telemetry volume
+    if (data.pricingModel === 'open-source') score.add(25, 'No license or usage fees', 'pricingModel');
+    else if (data.pricingModel === 'per-host') score.add(-5, `Around $${data.unitPriceUsd} per host per month`, 'pricingModel');
+    else if (data.pricingModel === 'per-gb') score.add(-5, `Around $${data.unitPriceUsd} per GB ingested`, 'pricingModel');
+
+    // Running the backend yourself is paid for in engineering time
+    if (data.selfHostingBurden === 'high') score.add(-15, 'Running the stack takes significant engineering time', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'medium') score.add(-5, 'Running the stack takes some engineering time', 'selfHostingBurden');
+
+    return score.total();
+  }
+
+  private scoreObservabilityPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Hosted query engines are sized and tuned by the provider
+    if (data.selfHostingBurden === 'none') score.add(15, 'Provider runs a scaled-out query engine', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'high') score.add(-5, 'Query speed depends on how well the stack is sized and tuned', 'selfHostingBurden');
+
+    // Traces pinpoint where time is spent across services
+    if (data.signals && data.signals.includes('traces')) score.add(10, 'Distributed tracing pinpoints slow requests', 'signals');
+
+    return score.total();
+  }
+
+  private scoreObservabilityScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Who absorbs growth in telemetry volume
+    if (data.selfHostingBurden === 'none') score.add(30, 'Provider absorbs telemetry growth', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'low') score.add(20, 'Storage scales with little effort', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'medium') score.add(10, 'Storage scales with some effort', 'selfHostingBurden');
+
+    // How much history is kept as volume grows
+    if (data.retentionLimitDays === 0) score.add(10, 'Retention limited only by your own storage', 'retentionLimitDays');
+    else if (data.retentionLimitDays >= 30) score.add(5, `${data.retentionLimitDays} days of retention`, 'retentionLimitDays');
+
+    return score.total();
+  }
+
+  private scoreObservabilityLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // Vendor agents instrument common libraries without code changes
+    if (data.proprietaryAgent) score.add(10, 'Agent auto-instruments common libraries', 'proprietaryAgent');
+
+    return score.total();
+  }
+
+  private scoreObservabilityVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+
+    // Instrumentation is the expensive part to redo when switching backends
+    if (data.proprietaryAgent) score.add(-25, 'Proprietary agent - services must be re-instrumented to switch', 'proprietaryAgent');
+
+    // OpenTelemetry keeps instrumentation portable across backends
+    if (data.openTelemetrySupport === 'native') score.add(30, 'OpenTelemetry is the primary instrumentation path', 'openTelemetrySupport');
+    else if (data.openTelemetrySupport === 'compatible') score.add(15, 'Accepts OpenTelemetry data', 'openTelemetrySupport');
+    else if (data.openTelemetrySupport === 'none') score.add(-10, 'No OpenTelemetry support', 'openTelemetrySupport');
+
+    // Open source backends can be run anywhere
+    if (data.pricingModel === 'open-source') score.add(10, 'Open source backend', 'pricingModel');
+
+    return score.total();
+  }
+
+  private scoreObservabilityMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as ObservabilityStackData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Storage, upgrades, and scaling of the backend itself
+    if (data.selfHostingBurden === 'none') score.add(35, 'No observability infrastructure to maintain', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'low') score.add(25, 'Little observability infrastructure to maintain', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'medium') score.add(10, 'Some observability infrastructure to maintain', 'selfHostingBurden');
+    else if (data.selfHostingBurden === 'high') score.add(-5, 'Storage, upgrades, and scaling are your job', 'selfHostingBurden');
+
+    // One place to correlate metrics, logs, and traces
+    if (data.signals && data.signals.length >= 3) score.add(15, 'Metrics, logs, and traces in one place', 'signals');
+    else if (data.signals && data.signals.length === 2) score.add(5, `Covers ${data.signals.join(' and ')}`, 'signals');
+
+    return score.total();
+  }
+  // Identity Provider Scoring Functions
+  private scoreIdentityCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(50, contributions);
+    const tiers = Array.isArray(data.mauPricing) ? data.mauPricing : [];
+    const freeMau = this.getFreeMau(tiers);
+    const paidPrice = tiers.find(tier => tier.pricePerMauUsd > 0)?.pricePerMauUsd;
+
+    if (tiers.length > 0 && paidPrice === undefined) {
+      score.add(25, 'No per-user fees', 'mauPricing');
+    } else {
+      // A generous free tier covers early growth
+      if (freeMau >= 50000) score.add(20, `Free for up to ${freeMau.toLocaleString('en-US')} monthly active users`, 'mauPricing');
+      else if (freeMau >= 10000) score.add(10, `Free for up to ${freeMau.toLocaleString('en-US')} monthly active users`, 'mauPricing');
+
+      // Per-user price once the free tier runs out
+      if (paidPrice !== undefined && paidPrice >= 0.05) score.add(-20, `Paid tiers cost $${paidPrice} per monthly active user`, 'mauPricing');
+      else if (paidPrice !== undefined && paidPrice <= 0.01) score.add(10, `Paid tiers cost $${paidPrice} per monthly active user`, 'mauPricing');
+    }
+
+    // Self-hosted identity servers are paid for in engineering time
+    if (data.selfHostable && paidPrice === undefined) score.add(-10, 'You run and secure the identity servers', 'selfHostable');
+
+    return score.total();
+  }
+
+  private scoreIdentityPerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(60, contributions);
+
+    // Where the login endpoints run
+    if (data.selfHostable) score.add(5, 'Can be deployed next to your services', 'selfHostable');
+    else score.add(10, 'Provider runs globally distributed login endpoints', 'selfHostable');
+
+    // Signed tokens are verified locally without calling the provider
+    if (Array.isArray(data.protocols) && data.protocols.includes('oidc')) score.add(10, 'OIDC tokens are verified without a round trip', 'protocols');
+
+    return score.total();
+  }
+
+  private scoreIdentityScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Who adds login capacity as the user base grows
+    if (data.selfHostable) score.add(10, 'Scales with the servers you run', 'selfHostable');
+    else score.add(20, 'Provider scales login capacity', 'selfHostable');
+
+    // Price of each additional user at scale
+    const tiers = Array.isArray(data.mauPricing) ? data.mauPricing : [];
+    const priceAtScale = tiers[tiers.length - 1]?.pricePerMauUsd;
+    if (priceAtScale === 0) score.add(20, 'No per-user fees as users grow', 'mauPricing');
+    else if (priceAtScale !== undefined && priceAtScale <= 0.005) score.add(15, `Low per-user price at scale ($${priceAtScale})`, 'mauPricing');
+    else if (priceAtScale !== undefined && priceAtScale >= 0.05) score.add(-10, `Per-user fees grow quickly with users ($${priceAtScale})`, 'mauPricing');
+
+    return score.total();
+  }
+
+  private scoreIdentityLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // Standard OIDC client libraries exist for every stack
+    if (Array.isArray(data.protocols) && data.protocols.includes('oidc')) score.add(10, 'Standard OIDC libraries work out of the box', 'protocols');
+
+    return score.total();
+  }
+
+  private scoreIdentityVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Self-hosting keeps the user store under your control
+    if (data.selfHostable) score.add(25, 'Can be self-hosted', 'selfHostable');
+
+    // Moving users out is the hard part of leaving an identity provider
+    if (data.migrationTooling === 'import-export') score.add(25, 'Users can be exported with their password hashes', 'migrationTooling');
+    else if (data.migrationTooling === 'import-only') score.add(5, 'Users can be imported but not exported with password hashes', 'migrationTooling');
+    else if (data.migrationTooling === 'none') score.add(-10, 'No migration tooling', 'migrationTooling');
+
+    // Standard protocols let applications switch providers without code changes
+    const standards = Array.isArray(data.protocols) ? data.protocols.filter(protocol => protocol !== 'ldap') : [];
+    if (standards.length > 0) {
+      score.add(standards.length * 5, `Standard protocols: ${standards.map(protocol => protocol.toUpperCase()).join(', ')}`, 'protocols');
+    }
+
+    return score.total();
+  }
+
+  private scoreIdentityMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as IdentityProviderData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // Someone has to patch and secure the service holding every credential
+    if (data.selfHostable) score.add(-5, 'Patching and securing the identity servers is your job', 'selfHostable');
+    else score.add(20, 'Provider patches and secures the service', 'selfHostable');
+
+    // Certifications carry over to your own compliance audits
+    const certifications = Array.isArray(data.complianceCertifications) ? data.complianceCertifications.length : 0;
+    if (certifications > 0) {
+      score.add(Math.min(20, certifications * 5), `${certifications} compliance certification${certifications === 1 ? '' : 's'}`, 'complianceCertifications');
+    }
+
+    // Automated provisioning keeps user accounts in sync with HR systems
+    if (Array.isArray(data.protocols) && data.protocols.includes('scim')) score.add(10, 'Automated user provisioning (SCIM)', 'protocols');
+
+    return score.total();
+  }
+  // Cache Scoring Functions
+  private scoreCacheCost(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Memory is what a cache costs to run
+    if (data.memoryEfficiency) {
+      score.add(data.memoryEfficiency * 2, `Memory efficiency rating of ${data.memoryEfficiency}/10`, 'memoryEfficiency'); // Scale 1-10 to contribute up to 20 points
+    }
+
+    // License terms
+    if (data.license === 'permissive') score.add(15, 'Permissive license - free to run and embed', 'license');
+    else if (data.license === 'copyleft') score.add(5, 'Copyleft license - free to run, obligations when modified', 'license');
+    else if (data.license === 'source-available') score.add(-5, 'Source-available license restricts some uses', 'license');
+    else if (data.license === 'proprietary') score.add(-15, 'Proprietary license fees', 'license');
+
+    // Competing managed offerings keep hosting prices down
+    if (data.managedOfferings && data.managedOfferings.length >= 2) score.add(5, 'Competing managed offerings', 'managedOfferings');
+
+    return score.total();
+  }
+
+  private scoreCachePerformance(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions); // Base score
+
+    // Read latency is the point of a cache
+    if (data.p99LatencyMs <= 1) score.add(30, 'Sub-millisecond p99 latency', 'p99LatencyMs');
+    else if (data.p99LatencyMs <= 2) score.add(20, `p99 latency around ${data.p99LatencyMs}ms`, 'p99LatencyMs');
+    else if (data.p99LatencyMs <= 5) score.add(10, `p99 latency around ${data.p99LatencyMs}ms`, 'p99LatencyMs');
+
+    // Single-threaded servers leave cores idle
+    if (data.multiThreaded) score.add(15, 'Uses every core on a node', 'multiThreaded');
+
+    // Distributed objects pay for serialization and cluster hops
+    if (data.dataModel === 'data-grid') score.add(-5, 'Serialization and cluster hops add overhead', 'dataModel');
+
+    return score.total();
+  }
+
+  private scoreCacheScalability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // How the key space is spread over nodes
+    if (data.clustering === 'native') score.add(30, 'Native clustering with automatic sharding', 'clustering');
+    else if (data.clustering === 'client-sharding') score.add(15, 'Scales out by client-side sharding', 'clustering');
+    else if (data.clustering === 'none' && data.multiThreaded) score.add(15, 'Scales up across every core of one large node', 'clustering');
+
+    // Less overhead per key means more keys per node
+    if (data.memoryEfficiency >= 8) score.add(10, 'Fits more keys per node', 'memoryEfficiency');
+
+    return score.total();
+  }
+
+  private scoreCacheLearningCurve(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Learning curve (inverse scoring - lower is better)
+    if (data.learningCurve === 'low') score.add(30, 'Low learning curve', 'learningCurve');
+    else if (data.learningCurve === 'medium') score.add(15, 'Moderate learning curve', 'learningCurve');
+
+    // A plain get/set API has little to learn
+    if (data.dataModel === 'key-value') score.add(10, 'Simple get/set API', 'dataModel');
+
+    return score.total();
+  }
+
+  private scoreCacheVendorLockIn(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(40, contributions);
+
+    // Who may run and host the server
+    if (data.license === 'permissive') score.add(30, 'Permissive license', 'license');
+    else if (data.license === 'copyleft') score.add(20, 'Copyleft open source license', 'license');
+    else if (data.license === 'proprietary') score.add(-20, 'Proprietary license', 'license');
+
+    // License changes can force a migration to a fork
+    if (data.licenseChangedRecently) score.add(-15, 'License changed recently - terms may change again', 'licenseChangedRecently');
+
+    // Several hosts to choose from
+    if (data.managedOfferings && data.managedOfferings.length >= 2) score.add(10, 'Managed by several providers', 'managedOfferings');
+
+    return score.total();
+  }
+
+  private scoreCacheMaintainability(option: TechnicalOption, contributions?: ScoreContribution[]): number {
+    const data = option.metadata as CacheStoreData;
+    if (!data) return 50;
+
+    const score = new ScoreTally(30, contributions);
+
+    // A cache that restarts empty sends every read to the primary database
+    if (data.persistence === 'append-only-log') score.add(20, 'Append-only log restores the cache after a restart', 'persistence');
+    else if (data.persistence === 'snapshot') score.add(15, 'Snapshots restore the cache after a restart', 'persistence');
+    else if (data.persistence === 'none') score.add(-5, 'Starts empty after a restart', 'persistence');
+
+    // Native clusters fail over and reshard without client changes
+    if (data.clustering === 'native') score.add(10, 'Automatic failover and resharding', 'clustering');
+
+    // Control over what gets evicted when memory runs out
+    if (data.evictionPolicies && data.evictionPolicies.length >= 3) score.add(10, `${data.evictionPolicies.length} eviction policies`, 'evictionPolicies');
+
+    // A managed offering takes over upgrades and patching
+    if (data.managedOfferings && data.managedOfferings.length > 0) score.add(10, 'Managed offering available', 'managedOfferings');
+
+    return score.total();
+  }
+
+  /**
+   * Number of monthly active users covered before the first paid tier
+   * @param tiers - Pricing tiers in ascending order
+   * @returns Free user count (Infinity when every tier is free, 0 when there is no free tier)
+   */
+  private getFreeMau(tiers: IdentityProviderData['mauPricing']): number {
+    let freeMau = 0;
+    for (const tier of tiers) {
+      if (tier.pricePerMauUsd > 0) break;
+      freeMau = tier.upToMau ?? Infinity;
+    }
+    return freeMau;
+  }
+  // Helper functions for scoring rules
+  private hasEnterpriseFeatures(option: TechnicalOption): boolean {
+    const data = option.metadata as CloudProviderData;
+    return data && data.enterpriseFeatures && data.enterpriseFeatures.length > 5;
+  }
+
+  private hasHighMarketShare(option: TechnicalOption): boolean {
+    const data = option.metadata as CloudProviderData;
+    return data && data.marketShare > 25;
+  }
+
+  private hasPayAsYouGoPricing(option: TechnicalOption): boolean {
+    const data = option.metadata as CloudProviderData;
+    return data && data.pricingModel === 'pay-as-you-go';
+  }
+
+  private hasHighDevelopmentSpeed(option: TechnicalOption): boolean {
+    const data = option.metadata as BackendFrameworkData;
+    return data && data.developmentSpeed >= 8;
+  }
+
+  private hasLargeCommunity(option: TechnicalOption): boolean {
+    const data = option.metadata as BackendFrameworkData;
+    return data && data.communitySize > 50000;
+  }
+
+  private hasEnterpriseAdoption(option: TechnicalOption): boolean {
+    const data = option.metadata as BackendFrameworkData;
+    return data && data.enterpriseAdoption >= 7;
+  }
+
+  private hasACIDCompliance(option: TechnicalOption): boolean {
+    const data = option.metadata as DatabaseData;
+    return data && data.acidCompliance === true;
+  }
+
+  private hasSchemaFlexibility(option: TechnicalOption): boolean {
+    const data = option.metadata as DatabaseData;
+    return data && (data.schemaFlexibility === 'flexible' || data.schemaFlexibility === 'schemaless');
+  }
+
+  private hasStrongConsistency(option: TechnicalOption): boolean {
+    const data = option.metadata as DatabaseData;
+    return data && data.consistencyModel === 'strong';
+  }
+
+  private hasSmallBundle(option: TechnicalOption): boolean {
+    const data = option.metadata as FrontendFrameworkData;
+    return data && typeof data.bundleSizeKb === 'number' && data.bundleSizeKb <= 10;
+  }
+
+  private supportsServerRendering(option: TechnicalOption): boolean {
+    const data = option.metadata as FrontendFrameworkData;
+    return data && (data.renderingModel === 'ssr' || data.renderingModel === 'hybrid');
+  }
+
+  private hasLargeFrontendEcosystem(option: TechnicalOption): boolean {
+    const data = option.metadata as FrontendFrameworkData;
+    return data && data.ecosystemSize > 50000;
+  }
+
+  private hasExactlyOnceDelivery(option: TechnicalOption): boolean {
+    const data = option.metadata as MessagingPlatformData;
+    return data && data.deliveryGuarantee === 'exactly-once';
+  }
+
+  private hasReplayableLog(option: TechnicalOption): boolean {
+    const data = option.metadata as MessagingPlatformData;
+    return data && data.retention === 'unlimited';
+  }
+
+  private isFullyManaged(option: TechnicalOption): boolean {
+    const data = option.metadata as MessagingPlatformData;
+    return data && data.hosting === 'managed';
+  }
+
+  private scalesToZero(option: TechnicalOption): boolean {
+    const data = option.metadata as OrchestrationPlatformData;
+    return data && data.autoscaling === 'serverless';
+  }
+
+  private runsAnywhere(option: TechnicalOption): boolean {
+    const data = option.metadata as OrchestrationPlatformData;
+    return data && data.portability === 'anywhere';
+  }
+
+  private hasBroadManagedAvailability(option: TechnicalOption): boolean {
+    const data = option.metadata as OrchestrationPlatformData;
+    return data && Array.isArray(data.managedOfferings) && data.managedOfferings.length >= 3;
+  }
+
+  private isOpenTelemetryNative(option: TechnicalOption): boolean {
+    const data = option.metadata as ObservabilityStackData;
+    return data && data.openTelemetrySupport === 'native';
+  }
+
+  private requiresProprietaryAgent(option: TechnicalOption): boolean {
+    const data = option.metadata as ObservabilityStackData;
+    return data && data.proprietaryAgent === true;
+  }
+
+  private hasShortRetention(option: TechnicalOption): boolean {
+    const data = option.metadata as ObservabilityStackData;
+    return data && data.retentionLimitDays > 0 && data.retentionLimitDays < 30;
+  }
+
+  private supportsEnterpriseFederation(option: TechnicalOption): boolean {
+    const data = option.metadata as IdentityProviderData;
+    return data && Array.isArray(data.protocols) && data.protocols.includes('saml') && data.protocols.includes('scim');
+  }
+
+  private isSelfHostableIdentity(option: TechnicalOption): boolean {
+    const data = option.metadata as IdentityProviderData;
+    return data && data.selfHostable === true;
+  }
+
+  private lacksPasswordHashExport(option: TechnicalOption): boolean {
+    const data = option.metadata as IdentityProviderData;
+    return data && data.migrationTooling !== undefined && data.migrationTooling !== 'import-export';
+  }
+
+  private hasSubMillisecondLatency(option: TechnicalOption): boolean {
+    const data = option.metadata as CacheStoreData;
+    return data && typeof data.p99LatencyMs === 'number' && data.p99LatencyMs <= 1;
+  }
+
+  private isMemoryEfficient(option: TechnicalOption): boolean {
+    const data = option.metadata as CacheStoreData;
+    return data && data.memoryEfficiency >= 8;
+  }
+
+  private hasRecentLicenseChange(option: TechnicalOption): boolean {
+    const data = option.metadata as CacheStoreData;
+    return data && data.licenseChangedRecently === true;
+  }
+
+  /**
+   * Apply merged knowledge packs on top of the built-in knowledge
+   * Pack technologies replace built-in technologies of the same name, and pack scoring rules
+   * replace built-in rules of the same name. Applying packs again replaces the previous packs.
+   * @param knowledge - Knowledge packs merged in precedence order
+   */
+  applyKnowledgePacks(knowledge: MergedKnowledgePack): void {
+    this.packKnowledge = knowledge;
+    this.rebuildScoringRules();
+  }
+
+  /**
+   * Add a declarative scoring rule, run by applyScoreAdjustments alongside the built-in rules
+   * The rule replaces any built-in or pack rule of the same name and category
+   * @param rule - Rule with either `when` conditions or an `expression`
+   * @throws RuleExpressionError if the expression fails to parse or type-check
+   * @throws RefereeValidationError if the rule has no condition
+   */
+  addScoringRule(rule: DeclarativeScoringRule): void {
+    // Compile first so an invalid rule is rejected before it is stored
+    this.compileScoringRule(rule);
+    this.customRules = [
+      ...this.customRules.filter(existing =>
+        existing.category !== rule.category || existing.name.toLowerCase() !== rule.name.toLowerCase()
+      ),
+      rule,
+    ];
+    this.rebuildScoringRules();
+  }
+
+  /**
+   * Rebuild scoring rules from the built-in rules, pack rules and added rules, in that precedence
+   */
+  private rebuildScoringRules(): void {
+    this.initializeKnowledgeBase();
+    const declarativeRules = [...(this.packKnowledge?.scoringRules || []), ...this.customRules];
+
+    for (const [category, domain] of this.domainKnowledge) {
+      for (const rule of declarativeRules.filter(candidate => candidate.category === category)) {
+        const name = rule.name.toLowerCase();
+        domain.scoringRules = [
+          ...domain.scoringRules.filter(existing => existing.name.toLowerCase() !== name),
+          this.compileScoringRule(rule),
+        ];
+      }
+    }
+  }
+
+  /**
+   * Get the knowledge packs currently applied, if any
+   */
+  getKnowledgePacks(): MergedKnowledgePack | null {
+    return this.packKnowledge;
+  }
+
+  /**
+   * Turn a declarative scoring rule into an executable one
+   */
+  private compileScoringRule(rule: DeclarativeScoringRule): ScoringRule {
+    if (rule.expression !== undefined) {
+      return {
+        name: rule.name,
+        condition: this.ruleExpressionEngine.compile(rule.expression, this.getMetadataSchema(rule.category)),
+        scoreAdjustment: rule.scoreAdjustment,
+        affectedCriteria: [...rule.affectedCriteria],
+        expression: rule.expression
+      };
+    }
+
+    if (!rule.when || rule.when.length === 0) {
+      throw new RefereeValidationError(`Scoring rule "${rule.name}" has no condition`, 'SCORING_RULE_INVALID', [{
+        field: 'when',
+        message: 'Scoring rule needs either when conditions or an expression',
+        code: 'SCORING_RULE_INVALID'
+      }]);
+    }
+
+    const conditions = rule.when;
+    return {
+      name: rule.name,
+      condition: (option) => this.hardConstraintFilter.checkRequirements(option, conditions).length === 0,
+      scoreAdjustment: rule.scoreAdjustment,
+      affectedCriteria: [...rule.affectedCriteria]
+    };
+  }
+
+  /**
+   * Get the metadata fields available for a category, used to type-check rule expressions
+   * @param category - Technology category
+   * @returns Field types, or null for categories without domain knowledge
+   */
+  getMetadataSchema(category: string): MetadataSchema | null {
+    const learningCurve = { type: 'string' as const, values: ['low', 'medium', 'high'] };
+
+    switch (category) {
+      case 'cloud':
+        return {
+          name: { type: 'string' },
+          pricingModel: { type: 'string', values: ['pay-as-you-go', 'reserved', 'hybrid'] },
+          serviceCount: { type: 'number' },
+          enterpriseFeatures: { type: 'list' },
+          learningCurve,
+          marketShare: { type: 'number' },
+          regions: { type: 'number' },
+          certifications: { type: 'list' }
+        };
+
+      case 'backend':
+        return {
+          name: { type: 'string' },
+          language: { type: 'string' },
+          developmentSpeed: { type: 'number' },
+          communitySize: { type: 'number' },
+          enterpriseAdoption: { type: 'number' },
+          performanceRating: { type: 'number' },
+          learningCurve,
+          packageEcosystem: { type: 'number' }
+        };
+
+      case 'database':
+        return {
+          name: { type: 'string' },
+          type: { type: 'string', values: ['relational', 'document', 'key-value', 'graph', 'columnar'] },
+          schemaFlexibility: { type: 'string', values: ['rigid', 'flexible', 'schemaless'] },
+          queryComplexity: { type: 'string', values: ['simple', 'moderate', 'complex'] },
+          horizontalScaling: { type: 'string', values: ['poor', 'good', 'excellent'] },
+          consistencyModel: { type: 'string', values: ['strong', 'eventual', 'configurable'] },
+          acidCompliance: { type: 'boolean' },
+          performanceRating: { type: 'number' }
+        };
+
+      case 'frontend':
+        return {
+          name: { type: 'string' },
+          renderingModel: { type: 'string', values: ['spa', 'ssr', 'hybrid'] },
+          bundleSizeKb: { type: 'number' },
+          performanceRating: { type: 'number' },
+          learningCurve,
+          communitySize: { type: 'number' },
+          ecosystemSize: { type: 'number' },
+          typescriptSupport: { type: 'string', values: ['native', 'good', 'partial'] },
+          corporateBacking: { type: 'string' }
+        };
+
+      case 'messaging':
+        return {
+          name: { type: 'string' },
+          deliveryGuarantee: { type: 'string', values: ['at-most-once', 'at-least-once', 'exactly-once'] },
+          ordering: { type: 'string', values: ['none', 'partitioned', 'strict'] },
+          throughputMsgsPerSec: { type: 'number' },
+          retention: { type: 'string', values: ['until-consumed', 'bounded', 'unlimited'] },
+          hosting: { type: 'string', values: ['managed', 'self-hosted', 'both'] },
+          openSource: { type: 'boolean' },
+          learningCurve,
+          communitySize: { type: 'number' }
+        };
+
+      case 'orchestration':
+        return {
+          name: { type: 'string' },
+          operationalOverhead: { type: 'string', values: ['low', 'medium', 'high'] },
+          autoscaling: { type: 'string', values: ['manual', 'horizontal', 'serverless'] },
+          portability: { type: 'string', values: ['single-cloud', 'multi-cloud', 'anywhere'] },
+          ecosystemRating: { type: 'number' },
+          managedOfferings: { type: 'list' },
+          learningCurve
+        };
+
+      case 'observability':
+        return {
+          name: { type: 'string' },
+          pricingModel: { type: 'string', values: ['open-source', 'per-host', 'per-gb'] },
+          unitPriceUsd: { type: 'number' },
+          openTelemetrySupport: { type: 'string', values: ['native', 'compatible', 'none'] },
+          proprietaryAgent: { type: 'boolean' },
+          retentionLimitDays: { type: 'number' },
+          selfHostingBurden: { type: 'string', values: ['none', 'low', 'medium', 'high'] },
+          signals: { type: 'list' },
+          learningCurve
+        };
+
+      case 'identity':
+        return {
+          name: { type: 'string' },
+          protocols: { type: 'list' },
+          mauPricing: { type: 'list' },
+          selfHostable: { type: 'boolean' },
+          complianceCertifications: { type: 'list' },
+          migrationTooling: { type: 'string', values: ['none', 'import-only', 'import-export'] },
+          learningCurve
+        };
+
+      case 'cache':
+        return {
+          name: { type: 'string' },
+          dataModel: { type: 'string', values: ['key-value', 'data-structures', 'data-grid'] },
+          evictionPolicies: { type: 'list' },
+          persistence: { type: 'string', values: ['none', 'snapshot', 'append-only-log'] },
+          clustering: { type: 'string', values: ['none', 'client-sharding', 'native'] },
+          p99LatencyMs: { type: 'number' },
+          memoryEfficiency: { type: 'number' },
+          multiThreaded: { type: 'boolean' },
+          license: { type: 'string', values: ['permissive', 'copyleft', 'source-available', 'proprietary'] },
+          licenseChangedRecently: { type: 'boolean' },
+          managedOfferings: { type: 'list' },
+          learningCurve
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get domain knowledge for a specific category
+   */
+  getDomainKnowledge(category: string): DomainKnowledge | null {
+    return this.domainKnowledge.get(category) || null;
+  }
+
+  /**
+   * Get all available categories
+   */
+  getAvailableCategories(): string[] {
+    return Array.from(this.domainKnowledge.keys());
+  }
+
+  /**
+   * Get technology-specific metadata with fallback to defaults
+   */
+  getTechnologyMetadata(option: TechnicalOption): Record<string, any> {
+    if (this.isKnownTechnology(option)) {
+      return option.metadata;
+    }
+
+    // Return fallback metadata for unknown technologies
+    return this.getFallbackMetadata(option.category);
+  }
+
+  /**
+   * Get fallback metadata for unknown technologies
+   */
+  private getFallbackMetadata(category: string): Record<string, any> {
     switch (category) {
       case 'cloud':
         return {
@@ -789,116 +2322,546 @@ export class KnowledgeBase implements IKnowledgeBase {
           packageEcosystem: 10000
         };
 
-      case 'database':
+      case 'database':
+        return {
+          name: 'Unknown Database',
+          type: 'relational',
+          schemaFlexibility: 'rigid',
+          queryComplexity: 'moderate',
+          horizontalScaling: 'good',
+          consistencyModel: 'strong',
+          acidCompliance: true,
+          performanceRating: 5
+        };
+
+      case 'frontend':
+        return {
+          name: 'Unknown Frontend Framework',
+          renderingModel: 'spa',
+          bundleSizeKb: 50,
+          performanceRating: 5,
+          learningCurve: 'medium',
+          communitySize: 10000,
+          ecosystemSize: 5000,
+          typescriptSupport: 'partial',
+          corporateBacking: 'community'
+        };
+
+      case 'messaging':
+        return {
+          name: 'Unknown Messaging Platform',
+          deliveryGuarantee: 'at-least-once',
+          ordering: 'partitioned',
+          throughputMsgsPerSec: 10000,
+          retention: 'bounded',
+          hosting: 'self-hosted',
+          openSource: true,
+          learningCurve: 'medium',
+          communitySize: 5000
+        };
+
+      case 'orchestration':
+        return {
+          name: 'Unknown Orchestration Platform',
+          operationalOverhead: 'medium',
+          autoscaling: 'horizontal',
+          portability: 'multi-cloud',
+          ecosystemRating: 5,
+          managedOfferings: [],
+          learningCurve: 'medium'
+        };
+
+      case 'observability':
+        return {
+          name: 'Unknown Observability Stack',
+          pricingModel: 'per-gb',
+          unitPriceUsd: 0.5,
+          openTelemetrySupport: 'compatible',
+          proprietaryAgent: false,
+          retentionLimitDays: 30,
+          selfHostingBurden: 'none',
+          signals: ['metrics', 'logs'],
+          learningCurve: 'medium'
+        };
+
+      case 'identity':
         return {
-          name: 'Unknown Database',
-          type: 'relational',
-          schemaFlexibility: 'rigid',
-          queryComplexity: 'moderate',
-          horizontalScaling: 'good',
-          consistencyModel: 'strong',
-          acidCompliance: true,
-          performanceRating: 5
+          name: 'Unknown Identity Provider',
+          protocols: ['oidc'],
+          mauPricing: [{ upToMau: 10000, pricePerMauUsd: 0 }, { pricePerMauUsd: 0.02 }],
+          selfHostable: false,
+          complianceCertifications: [],
+          migrationTooling: 'import-only',
+          learningCurve: 'medium'
+        };
+
+      case 'cache':
+        return {
+          name: 'Unknown Cache',
+          dataModel: 'key-value',
+          evictionPolicies: ['lru', 'ttl'],
+          persistence: 'none',
+          clustering: 'client-sharding',
+          p99LatencyMs: 2,
+          memoryEfficiency: 5,
+          multiThreaded: false,
+          license: 'permissive',
+          licenseChangedRecently: false,
+          managedOfferings: [],
+          learningCurve: 'medium'
         };
 
-      default:
-        return {};
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Evaluate a technology option against all criteria for its category
+   */
+  evaluateOption(option: TechnicalOption): Record<string, number> {
+    const criteria = this.getCriteriaForCategory(option.category);
+    const scores: Record<string, number> = {};
+
+    for (const criterion of criteria) {
+      try {
+        scores[criterion.name] = criterion.scoringFunction(option);
+      } catch (error) {
+        // Fallback to neutral score if scoring function fails
+        console.warn(`Scoring function failed for ${option.name} on ${criterion.name}:`, error);
+        scores[criterion.name] = 50;
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Apply scoring rules to adjust base scores
+   */
+  applyScoreAdjustments(option: TechnicalOption, baseScores: Record<string, number>): Record<string, number> {
+    const adjustedScores = { ...baseScores };
+
+    for (const rule of this.getMatchingRules(option)) {
+      for (const criterionName of rule.affectedCriteria) {
+        if (adjustedScores[criterionName] !== undefined) {
+          adjustedScores[criterionName] = Math.min(100, Math.max(0, 
+            adjustedScores[criterionName] + rule.scoreAdjustment
+          ));
+        }
+      }
+    }
+
+    return adjustedScores;
+  }
+
+  /**
+   * Get the scoring rules whose condition holds for an option
+   */
+  private getMatchingRules(option: TechnicalOption): ScoringRule[] {
+    return this.getScoringRulesForCategory(option.category).filter(rule => {
+      try {
+        return rule.condition(option);
+      } catch (error) {
+        console.warn(`Scoring rule failed for ${option.name} with rule ${rule.name}:`, error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Get comprehensive evaluation for an option including rule adjustments
+   */
+  getComprehensiveEvaluation(option: TechnicalOption): Record<string, number> {
+    const baseScores = this.evaluateOption(option);
+    return this.applyScoreAdjustments(option, baseScores);
+  }
+
+  /**
+   * Evaluate an option and record how each criterion score was reached
+   * Scores match getComprehensiveEvaluation; each one carries the points its metadata fields
+   * contributed and the scoring rules that adjusted it
+   */
+  explainEvaluation(option: TechnicalOption): Record<string, CriterionProvenance> {
+    const provenance: Record<string, CriterionProvenance> = {};
+
+    for (const criterion of this.getCriteriaForCategory(option.category)) {
+      let contributions: ScoreContribution[] = [];
+      let baseScore: number;
+      try {
+        baseScore = criterion.scoringFunction(option, contributions);
+      } catch (error) {
+        console.warn(`Scoring function failed for ${option.name} on ${criterion.name}:`, error);
+        baseScore = 50;
+        contributions = [{ points: 50, reason: 'Neutral score - the scoring function failed' }];
+      }
+
+      // Scoring functions that don't itemize their points still account for the whole score
+      if (contributions.length === 0) {
+        contributions.push({ points: baseScore, reason: 'Neutral score - no metadata breakdown available' });
+      }
+
+      provenance[criterion.name] = { baseScore, contributions, adjustments: [], finalScore: baseScore };
+    }
+
+    for (const rule of this.getMatchingRules(option)) {
+      for (const criterionName of rule.affectedCriteria) {
+        const entry = provenance[criterionName];
+        if (!entry) continue;
+
+        const adjusted = Math.min(100, Math.max(0, entry.finalScore + rule.scoreAdjustment));
+        entry.adjustments.push({
+          source: 'rule',
+          name: rule.name,
+          points: adjusted - entry.finalScore,
+          reason: rule.expression ? `${rule.name}, which applies when ${rule.expression}` : rule.name,
+        });
+        entry.finalScore = adjusted;
+      }
+    }
+
+    return provenance;
+  }
+
+  /**
+   * Validate that an option has the required metadata structure for its category
+   */
+  validateOptionMetadata(option: TechnicalOption): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!option.metadata) {
+      errors.push('Option metadata is missing');
+      return { isValid: false, errors };
+    }
+
+    switch (option.category) {
+      case 'cloud':
+        this.validateCloudProviderMetadata(option.metadata, errors);
+        break;
+      case 'backend':
+        this.validateBackendFrameworkMetadata(option.metadata, errors);
+        break;
+      case 'database':
+        this.validateDatabaseMetadata(option.metadata, errors);
+        break;
+      case 'frontend':
+        this.validateFrontendFrameworkMetadata(option.metadata, errors);
+        break;
+      case 'messaging':
+        this.validateMessagingPlatformMetadata(option.metadata, errors);
+        break;
+      case 'orchestration':
+        this.validateOrchestrationPlatformMetadata(option.metadata, errors);
+        break;
+      case 'observability':
+        this.validateObservabilityStackMetadata(option.metadata, errors);
+        break;
+      case 'identity':
+        this.validateIdentityProviderMetadata(option.metadata, errors);
+        break;
+      case 'cache':
+        this.validateCacheStoreMetadata(option.metadata, errors);
+        break;
+      default:
+        // Unknown categories are valid but will use fallback logic
+        break;
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  private validateCloudProviderMetadata(metadata: any, errors: string[]): void {
+    const required = ['pricingModel', 'serviceCount', 'learningCurve', 'marketShare', 'regions'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    if (metadata.pricingModel && !['pay-as-you-go', 'reserved', 'hybrid'].includes(metadata.pricingModel)) {
+      errors.push('Invalid pricing model');
+    }
+
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
+  }
+
+  private validateBackendFrameworkMetadata(metadata: any, errors: string[]): void {
+    const required = ['language', 'developmentSpeed', 'communitySize', 'enterpriseAdoption', 'performanceRating'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    const numericFields = ['developmentSpeed', 'communitySize', 'enterpriseAdoption', 'performanceRating'];
+    for (const field of numericFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
+        errors.push(`Field ${field} must be numeric`);
+      }
+    }
+  }
+
+  private validateDatabaseMetadata(metadata: any, errors: string[]): void {
+    const required = ['type', 'schemaFlexibility', 'queryComplexity', 'horizontalScaling', 'consistencyModel', 'performanceRating'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    if (metadata.type && !['relational', 'document', 'key-value', 'graph', 'columnar'].includes(metadata.type)) {
+      errors.push('Invalid database type');
+    }
+
+    if (metadata.schemaFlexibility && !['rigid', 'flexible', 'schemaless'].includes(metadata.schemaFlexibility)) {
+      errors.push('Invalid schema flexibility value');
+    }
+  }
+
+  private validateFrontendFrameworkMetadata(metadata: any, errors: string[]): void {
+    const required = ['renderingModel', 'bundleSizeKb', 'performanceRating', 'learningCurve', 'communitySize'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    const numericFields = ['bundleSizeKb', 'performanceRating', 'communitySize', 'ecosystemSize'];
+    for (const field of numericFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
+        errors.push(`Field ${field} must be numeric`);
+      }
+    }
+
+    if (metadata.renderingModel && !['spa', 'ssr', 'hybrid'].includes(metadata.renderingModel)) {
+      errors.push('Invalid rendering model');
+    }
+
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
+
+    if (metadata.typescriptSupport && !['native', 'good', 'partial'].includes(metadata.typescriptSupport)) {
+      errors.push('Invalid TypeScript support value');
+    }
+  }
+
+  private validateMessagingPlatformMetadata(metadata: any, errors: string[]): void {
+    const required = ['deliveryGuarantee', 'ordering', 'throughputMsgsPerSec', 'retention', 'hosting'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    const numericFields = ['throughputMsgsPerSec', 'communitySize'];
+    for (const field of numericFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
+        errors.push(`Field ${field} must be numeric`);
+      }
+    }
+
+    if (metadata.deliveryGuarantee && !['at-most-once', 'at-least-once', 'exactly-once'].includes(metadata.deliveryGuarantee)) {
+      errors.push('Invalid delivery guarantee');
+    }
+
+    if (metadata.ordering && !['none', 'partitioned', 'strict'].includes(metadata.ordering)) {
+      errors.push('Invalid ordering guarantee');
+    }
+
+    if (metadata.retention && !['until-consumed', 'bounded', 'unlimited'].includes(metadata.retention)) {
+      errors.push('Invalid retention model');
+    }
+
+    if (metadata.hosting && !['managed', 'self-hosted', 'both'].includes(metadata.hosting)) {
+      errors.push('Invalid hosting model');
+    }
+
+    if (metadata.openSource !== undefined && typeof metadata.openSource !== 'boolean') {
+      errors.push('Field openSource must be a boolean');
+    }
+
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
+  }
+
+  private validateOrchestrationPlatformMetadata(metadata: any, errors: string[]): void {
+    const required = ['operationalOverhead', 'autoscaling', 'portability', 'ecosystemRating', 'managedOfferings'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    if (metadata.ecosystemRating !== undefined && typeof metadata.ecosystemRating !== 'number') {
+      errors.push('Field ecosystemRating must be numeric');
+    }
+
+    if (metadata.managedOfferings !== undefined && !Array.isArray(metadata.managedOfferings)) {
+      errors.push('Field managedOfferings must be a list');
+    }
+
+    if (metadata.operationalOverhead && !['low', 'medium', 'high'].includes(metadata.operationalOverhead)) {
+      errors.push('Invalid operational overhead value');
+    }
+
+    if (metadata.autoscaling && !['manual', 'horizontal', 'serverless'].includes(metadata.autoscaling)) {
+      errors.push('Invalid autoscaling model');
+    }
+
+    if (metadata.portability && !['single-cloud', 'multi-cloud', 'anywhere'].includes(metadata.portability)) {
+      errors.push('Invalid portability value');
+    }
+
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
+  }
+
+  private validateObservabilityStackMetadata(metadata: any, errors: string[]): void {
+    const required = ['pricingModel', 'openTelemetrySupport', 'proprietaryAgent', 'retentionLimitDays', 'selfHostingBurden'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
+
+    const numericFields = ['unitPriceUsd', 'retentionLimitDays'];
+    for (const field of numericFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
+        errors.push(`Field ${field} must be numeric`);
+      }
+    }
+
+    if (metadata.pricingModel && !['open-source', 'per-host', 'per-gb'].includes(metadata.pricingModel)) {
+      errors.push('Invalid pricing model');
+    }
+
+    if (metadata.openTelemetrySupport && !['native', 'compatible', 'none'].includes(metadata.openTelemetrySupport)) {
+      errors.push('Invalid OpenTelemetry support value');
+    }
+
+    if (metadata.proprietaryAgent !== undefined && typeof metadata.proprietaryAgent !== 'boolean') {
+      errors.push('Field proprietaryAgent must be a boolean');
     }
-  }
 
-  /**
-   * Evaluate a technology option against all criteria for its category
-   */
-  evaluateOption(option: TechnicalOption): Record<string, number> {
-    const criteria = this.getCriteriaForCategory(option.category);
-    const scores: Record<string, number> = {};
+    if (metadata.selfHostingBurden && !['none', 'low', 'medium', 'high'].includes(metadata.selfHostingBurden)) {
+      errors.push('Invalid self-hosting burden value');
+    }
 
-    for (const criterion of criteria) {
-      try {
-        scores[criterion.name] = criterion.scoringFunction(option);
-      } catch (error) {
-        // Fallback to neutral score if scoring function fails
-        console.warn(`Scoring function failed for ${option.name} on ${criterion.name}:`, error);
-        scores[criterion.name] = 50;
+    if (metadata.signals !== undefined) {
+      if (!Array.isArray(metadata.signals)) {
+        errors.push('Field signals must be a list');
+      } else {
+        for (const signal of metadata.signals) {
+          if (!['metrics', 'logs', 'traces'].includes(signal)) {
+            errors.push(`Invalid signal: ${signal}`);
+          }
+        }
       }
     }
 
-    return scores;
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
   }
 
-  /**
-   * Apply scoring rules to adjust base scores
-   */
-  applyScoreAdjustments(option: TechnicalOption, baseScores: Record<string, number>): Record<string, number> {
-    const scoringRules = this.getScoringRulesForCategory(option.category);
-    const adjustedScores = { ...baseScores };
+  private validateIdentityProviderMetadata(metadata: any, errors: string[]): void {
+    const required = ['protocols', 'mauPricing', 'selfHostable', 'migrationTooling'];
+    for (const field of required) {
+      if (metadata[field] === undefined) {
+        errors.push(`Missing required field: ${field}`);
+      }
+    }
 
-    for (const rule of scoringRules) {
-      try {
-        if (rule.condition(option)) {
-          for (const criterionName of rule.affectedCriteria) {
-            if (adjustedScores[criterionName] !== undefined) {
-              adjustedScores[criterionName] = Math.min(100, Math.max(0, 
-                adjustedScores[criterionName] + rule.scoreAdjustment
-              ));
-            }
+    if (metadata.protocols !== undefined) {
+      if (!Array.isArray(metadata.protocols)) {
+        errors.push('Field protocols must be a list');
+      } else {
+        for (const protocol of metadata.protocols) {
+          if (!['oidc', 'saml', 'scim', 'ldap'].includes(protocol)) {
+            errors.push(`Invalid protocol: ${protocol}`);
           }
         }
-      } catch (error) {
-        console.warn(`Scoring rule failed for ${option.name} with rule ${rule.name}:`, error);
       }
     }
 
-    return adjustedScores;
-  }
-
-  /**
-   * Get comprehensive evaluation for an option including rule adjustments
-   */
-  getComprehensiveEvaluation(option: TechnicalOption): Record<string, number> {
-    const baseScores = this.evaluateOption(option);
-    return this.applyScoreAdjustments(option, baseScores);
-  }
+    if (metadata.mauPricing !== undefined) {
+      this.validateMauPricing(metadata.mauPricing, errors);
+    }
 
-  /**
-   * Validate that an option has the required metadata structure for its category
-   */
-  validateOptionMetadata(option: TechnicalOption): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
+    if (metadata.selfHostable !== undefined && typeof metadata.selfHostable !== 'boolean') {
+      errors.push('Field selfHostable must be a boolean');
+    }
 
-    if (!option.metadata) {
-      errors.push('Option metadata is missing');
-      return { isValid: false, errors };
+    if (metadata.complianceCertifications !== undefined && !Array.isArray(metadata.complianceCertifications)) {
+      errors.push('Field complianceCertifications must be a list');
     }
 
-    switch (option.category) {
-      case 'cloud':
-        this.validateCloudProviderMetadata(option.metadata, errors);
-        break;
-      case 'backend':
-        this.validateBackendFrameworkMetadata(option.metadata, errors);
-        break;
-      case 'database':
-        this.validateDatabaseMetadata(option.metadata, errors);
-        break;
-      default:
-        // Unknown categories are valid but will use fallback logic
-        break;
+    if (metadata.migrationTooling && !['none', 'import-only', 'import-export'].includes(metadata.migrationTooling)) {
+      errors.push('Invalid migration tooling value');
     }
 
-    return { isValid: errors.length === 0, errors };
+    if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
+      errors.push('Invalid learning curve value');
+    }
   }
 
-  private validateCloudProviderMetadata(metadata: any, errors: string[]): void {
-    const required = ['pricingModel', 'serviceCount', 'learningCurve', 'marketShare', 'regions'];
+  private validateCacheStoreMetadata(metadata: any, errors: string[]): void {
+    const required = ['dataModel', 'evictionPolicies', 'persistence', 'clustering', 'p99LatencyMs', 'memoryEfficiency', 'license'];
     for (const field of required) {
       if (metadata[field] === undefined) {
         errors.push(`Missing required field: ${field}`);
       }
     }
 
-    if (metadata.pricingModel && !['pay-as-you-go', 'reserved', 'hybrid'].includes(metadata.pricingModel)) {
-      errors.push('Invalid pricing model');
+    const numericFields = ['p99LatencyMs', 'memoryEfficiency'];
+    for (const field of numericFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
+        errors.push(`Field ${field} must be numeric`);
+      }
+    }
+
+    const booleanFields = ['multiThreaded', 'licenseChangedRecently'];
+    for (const field of booleanFields) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'boolean') {
+        errors.push(`Field ${field} must be a boolean`);
+      }
+    }
+
+    if (metadata.dataModel && !['key-value', 'data-structures', 'data-grid'].includes(metadata.dataModel)) {
+      errors.push('Invalid data model');
+    }
+
+    if (metadata.evictionPolicies !== undefined) {
+      if (!Array.isArray(metadata.evictionPolicies)) {
+        errors.push('Field evictionPolicies must be a list');
+      } else {
+        for (const policy of metadata.evictionPolicies) {
+          if (!['lru', 'lfu', 'ttl', 'random', 'fifo'].includes(policy)) {
+            errors.push(`Invalid eviction policy: ${policy}`);
+          }
+        }
+      }
+    }
+
+    if (metadata.persistence && !['none', 'snapshot', 'append-only-log'].includes(metadata.persistence)) {
+      errors.push('Invalid persistence mode');
+    }
+
+    if (metadata.clustering && !['none', 'client-sharding', 'native'].includes(metadata.clustering)) {
+      errors.push('Invalid clustering model');
+    }
+
+    if (metadata.license && !['permissive', 'copyleft', 'source-available', 'proprietary'].includes(metadata.license)) {
+      errors.push('Invalid license type');
+    }
+
+    if (metadata.managedOfferings !== undefined && !Array.isArray(metadata.managedOfferings)) {
+      errors.push('Field managedOfferings must be a list');
     }
 
     if (metadata.learningCurve && !['low', 'medium', 'high'].includes(metadata.learningCurve)) {
@@ -906,43 +2869,165 @@ export class KnowledgeBase implements IKnowledgeBase {
     }
   }
 
-  private validateBackendFrameworkMetadata(metadata: any, errors: string[]): void {
-    const required = ['language', 'developmentSpeed', 'communitySize', 'enterpriseAdoption', 'performanceRating'];
-    for (const field of required) {
-      if (metadata[field] === undefined) {
-        errors.push(`Missing required field: ${field}`);
+  /**
+   * Check that MAU pricing tiers are priced and in ascending order, with the last tier, and only the last, open-ended
+   */
+  private validateMauPricing(tiers: any, errors: string[]): void {
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      errors.push('Field mauPricing must be a non-empty list of pricing tiers');
+      return;
+    }
+
+    let previousLimit = 0;
+    tiers.forEach((tier: any, index: number) => {
+      const position = index + 1;
+      if (typeof tier?.pricePerMauUsd !== 'number' || tier.pricePerMauUsd < 0) {
+        errors.push(`Pricing tier ${position} needs a non-negative pricePerMauUsd`);
       }
+      if (tier?.upToMau === undefined) {
+        if (index < tiers.length - 1) {
+          errors.push('Only the last pricing tier can omit upToMau');
+        }
+      } else if (typeof tier.upToMau !== 'number' || tier.upToMau <= previousLimit) {
+        errors.push(`Pricing tier ${position} upToMau must be higher than the previous tier`);
+      } else {
+        previousLimit = tier.upToMau;
+      }
+    });
+
+    if (tiers[tiers.length - 1]?.upToMau !== undefined) {
+      errors.push('The last pricing tier must omit upToMau so every user count is priced');
     }
+  }
 
-    const numericFields = ['developmentSpeed', 'communitySize', 'enterpriseAdoption', 'performanceRating'];
-    for (const field of numericFields) {
-      if (metadata[field] !== undefined && typeof metadata[field] !== 'number') {
-        errors.push(`Field ${field} must be numeric`);
+  /**
+   * Find a known technology by name among the sample technologies
+   * @param name - Technology name (case-insensitive)
+   * @param category - Optional category to restrict the search
+   * @returns A copy of the technology option, or null if not found
+   */
+  findTechnology(name: string, category?: TechnicalOption['category']): TechnicalOption | null {
+    const samples = this.getSampleTechnologies();
+    const categories = category ? [category] : Object.keys(samples);
+    const target = name.trim().toLowerCase();
+
+    for (const candidateCategory of categories) {
+      const match = (samples[candidateCategory] || []).find(option => option.name.toLowerCase() === target);
+      if (match) {
+        return { ...match, metadata: { ...match.metadata } };
       }
     }
+
+    return null;
   }
 
-  private validateDatabaseMetadata(metadata: any, errors: string[]): void {
-    const required = ['type', 'schemaFlexibility', 'queryComplexity', 'horizontalScaling', 'consistencyModel', 'performanceRating'];
-    for (const field of required) {
-      if (metadata[field] === undefined) {
-        errors.push(`Missing required field: ${field}`);
+  /**
+   * Resolve option selections to technical options
+   * Names are looked up among the known technologies, with any custom metadata layered on top;
+   * unknown names are kept as custom options when they have a category
+   * @param selections - Technology names or custom options
+   * @returns Resolved options, and an error for each selection that could not be resolved
+   */
+  resolveOptionSelections(selections: OptionSelection[]): { options: TechnicalOption[]; errors: ValidationError[] } {
+    const options: TechnicalOption[] = [];
+    const errors: ValidationError[] = [];
+
+    selections.forEach((selection, index) => {
+      const resolved = this.resolveOptionSelection(selection, index);
+      if ('error' in resolved) {
+        errors.push(resolved.error);
+      } else {
+        options.push(resolved.option);
+      }
+    });
+
+    return { options, errors };
+  }
+
+  /**
+   * Resolve a single option selection to a technical option
+   */
+  private resolveOptionSelection(
+    selection: OptionSelection,
+    index: number
+  ): { option: TechnicalOption } | { error: ValidationError } {
+    if (typeof selection === 'string') {
+      const known = this.findTechnology(selection);
+      if (!known) {
+        return {
+          error: {
+            field: `options[${index}]`,
+            message: `Unknown technology '${selection}' - provide a category and metadata to add it as a custom option`,
+            code: 'OPTION_UNKNOWN'
+          }
+        };
       }
+      return { option: known };
     }
 
-    if (metadata.type && !['relational', 'document', 'key-value', 'graph', 'columnar'].includes(metadata.type)) {
-      errors.push('Invalid database type');
+    if (!selection || typeof selection !== 'object' || typeof selection.name !== 'string') {
+      return {
+        error: {
+          field: `options[${index}]`,
+          message: 'Option must be a technology name or an object with a name',
+          code: 'OPTION_INVALID'
+        }
+      };
     }
 
-    if (metadata.schemaFlexibility && !['rigid', 'flexible', 'schemaless'].includes(metadata.schemaFlexibility)) {
-      errors.push('Invalid schema flexibility value');
+    const known = this.findTechnology(selection.name, selection.category);
+    if (known) {
+      return { option: { ...known, metadata: { ...known.metadata, ...selection.metadata } } };
     }
+
+    if (!selection.category) {
+      return {
+        error: {
+          field: `options[${index}].category`,
+          message: `Custom option '${selection.name}' requires a category`,
+          code: 'OPTION_CATEGORY_INVALID'
+        }
+      };
+    }
+
+    return {
+      option: {
+        name: selection.name,
+        category: selection.category,
+        metadata: { ...selection.metadata }
+      }
+    };
   }
 
   /**
    * Get sample technology data for testing and demonstration
+   * Technologies from applied knowledge packs replace built-in samples of the same name
    */
   getSampleTechnologies(): { [category: string]: TechnicalOption[] } {
+    const samples = this.getBuiltInTechnologies();
+    if (!this.packKnowledge) {
+      return samples;
+    }
+
+    for (const option of this.packKnowledge.technologies) {
+      const existing = samples[option.category] || [];
+      const copy = { ...option, metadata: { ...option.metadata } };
+      const index = existing.findIndex(sample => sample.name.toLowerCase() === option.name.toLowerCase());
+      if (index >= 0) {
+        existing[index] = copy;
+      } else {
+        existing.push(copy);
+      }
+      samples[option.category] = existing;
+    }
+
+    return samples;
+  }
+
+  /**
+   * Get the technology data built into the knowledge base
+   */
+  private getBuiltInTechnologies(): { [category: string]: TechnicalOption[] } {
     return {
       cloud: [
         {
@@ -1066,6 +3151,407 @@ export class KnowledgeBase implements IKnowledgeBase {
             performanceRating: 7
           } as DatabaseData
         }
+      ],
+      frontend: [
+        {
+          name: 'React',
+          category: 'frontend',
+          metadata: {
+            renderingModel: 'hybrid',
+            bundleSizeKb: 45,
+            performanceRating: 7,
+            learningCurve: 'medium',
+            communitySize: 230000,
+            ecosystemSize: 250000,
+            typescriptSupport: 'good',
+            corporateBacking: 'Meta'
+          } as FrontendFrameworkData
+        },
+        {
+          name: 'Vue',
+          category: 'frontend',
+          metadata: {
+            renderingModel: 'hybrid',
+            bundleSizeKb: 34,
+            performanceRating: 8,
+            learningCurve: 'low',
+            communitySize: 210000,
+            ecosystemSize: 60000,
+            typescriptSupport: 'native',
+            corporateBacking: 'community'
+          } as FrontendFrameworkData
+        },
+        {
+          name: 'Angular',
+          category: 'frontend',
+          metadata: {
+            renderingModel: 'hybrid',
+            bundleSizeKb: 130,
+            performanceRating: 7,
+            learningCurve: 'high',
+            communitySize: 96000,
+            ecosystemSize: 40000,
+            typescriptSupport: 'native',
+            corporateBacking: 'Google'
+          } as FrontendFrameworkData
+        },
+        {
+          name: 'Svelte',
+          category: 'frontend',
+          metadata: {
+            renderingModel: 'hybrid',
+            bundleSizeKb: 3,
+            performanceRating: 9,
+            learningCurve: 'low',
+            communitySize: 80000,
+            ecosystemSize: 8000,
+            typescriptSupport: 'good',
+            corporateBacking: 'community'
+          } as FrontendFrameworkData
+        },
+        {
+          name: 'SolidJS',
+          category: 'frontend',
+          metadata: {
+            renderingModel: 'hybrid',
+            bundleSizeKb: 7,
+            performanceRating: 10,
+            learningCurve: 'medium',
+            communitySize: 33000,
+            ecosystemSize: 2000,
+            typescriptSupport: 'native',
+            corporateBacking: 'community'
+          } as FrontendFrameworkData
+        }
+      ],
+      messaging: [
+        {
+          name: 'Kafka',
+          category: 'messaging',
+          metadata: {
+            deliveryGuarantee: 'exactly-once',
+            ordering: 'partitioned',
+            throughputMsgsPerSec: 1000000,
+            retention: 'unlimited',
+            hosting: 'both',
+            openSource: true,
+            learningCurve: 'high',
+            communitySize: 29000
+          } as MessagingPlatformData
+        },
+        {
+          name: 'RabbitMQ',
+          category: 'messaging',
+          metadata: {
+            deliveryGuarantee: 'at-least-once',
+            ordering: 'partitioned',
+            throughputMsgsPerSec: 50000,
+            retention: 'until-consumed',
+            hosting: 'both',
+            openSource: true,
+            learningCurve: 'medium',
+            communitySize: 12000
+          } as MessagingPlatformData
+        },
+        {
+          name: 'SQS',
+          category: 'messaging',
+          metadata: {
+            deliveryGuarantee: 'at-least-once',
+            ordering: 'none',
+            throughputMsgsPerSec: 100000,
+            retention: 'bounded',
+            hosting: 'managed',
+            openSource: false,
+            learningCurve: 'low',
+            communitySize: 15000
+          } as MessagingPlatformData
+        },
+        {
+          name: 'NATS',
+          category: 'messaging',
+          metadata: {
+            deliveryGuarantee: 'at-least-once',
+            ordering: 'strict',
+            throughputMsgsPerSec: 500000,
+            retention: 'unlimited',
+            hosting: 'both',
+            openSource: true,
+            learningCurve: 'low',
+            communitySize: 16000
+          } as MessagingPlatformData
+        }
+      ],
+      orchestration: [
+        {
+          name: 'Kubernetes',
+          category: 'orchestration',
+          metadata: {
+            operationalOverhead: 'high',
+            autoscaling: 'horizontal',
+            portability: 'anywhere',
+            ecosystemRating: 10,
+            managedOfferings: ['EKS', 'GKE', 'AKS', 'DigitalOcean Kubernetes'],
+            learningCurve: 'high'
+          } as OrchestrationPlatformData
+        },
+        {
+          name: 'ECS',
+          category: 'orchestration',
+          metadata: {
+            operationalOverhead: 'low',
+            autoscaling: 'horizontal',
+            portability: 'single-cloud',
+            ecosystemRating: 6,
+            managedOfferings: ['ECS on Fargate', 'ECS on EC2'],
+            learningCurve: 'medium'
+          } as OrchestrationPlatformData
+        },
+        {
+          name: 'Nomad',
+          category: 'orchestration',
+          metadata: {
+            operationalOverhead: 'medium',
+            autoscaling: 'horizontal',
+            portability: 'anywhere',
+            ecosystemRating: 5,
+            managedOfferings: [] as string[],
+            learningCurve: 'medium'
+          } as OrchestrationPlatformData
+        },
+        {
+          name: 'Cloud Run',
+          category: 'orchestration',
+          metadata: {
+            operationalOverhead: 'low',
+            autoscaling: 'serverless',
+            portability: 'single-cloud',
+            ecosystemRating: 5,
+            managedOfferings: ['Cloud Run'],
+            learningCurve: 'low'
+          } as OrchestrationPlatformData
+        },
+        {
+          name: 'Virtual Machines',
+          category: 'orchestration',
+          metadata: {
+            operationalOverhead: 'high',
+            autoscaling: 'manual',
+            portability: 'anywhere',
+            ecosystemRating: 7,
+            managedOfferings: [] as string[],
+            learningCurve: 'low'
+          } as OrchestrationPlatformData
+        }
+      ],
+      observability: [
+        {
+          name: 'Prometheus + Grafana',
+          category: 'observability',
+          metadata: {
+            pricingModel: 'open-source',
+            unitPriceUsd: 0,
+            openTelemetrySupport: 'compatible',
+            proprietaryAgent: false,
+            retentionLimitDays: 0,
+            selfHostingBurden: 'high',
+            signals: ['metrics', 'logs', 'traces'],
+            learningCurve: 'medium'
+          } as ObservabilityStackData
+        },
+        {
+          name: 'Datadog',
+          category: 'observability',
+          metadata: {
+            pricingModel: 'per-host',
+            unitPriceUsd: 15,
+            openTelemetrySupport: 'compatible',
+            proprietaryAgent: true,
+            retentionLimitDays: 15,
+            selfHostingBurden: 'none',
+            signals: ['metrics', 'logs', 'traces'],
+            learningCurve: 'low'
+          } as ObservabilityStackData
+        },
+        {
+          name: 'New Relic',
+          category: 'observability',
+          metadata: {
+            pricingModel: 'per-gb',
+            unitPriceUsd: 0.35,
+            openTelemetrySupport: 'compatible',
+            proprietaryAgent: true,
+            retentionLimitDays: 30,
+            selfHostingBurden: 'none',
+            signals: ['metrics', 'logs', 'traces'],
+            learningCurve: 'medium'
+          } as ObservabilityStackData
+        },
+        {
+          name: 'OpenTelemetry + SigNoz',
+          category: 'observability',
+          metadata: {
+            pricingModel: 'open-source',
+            unitPriceUsd: 0,
+            openTelemetrySupport: 'native',
+            proprietaryAgent: false,
+            retentionLimitDays: 0,
+            selfHostingBurden: 'medium',
+            signals: ['metrics', 'logs', 'traces'],
+            learningCurve: 'medium'
+          } as ObservabilityStackData
+        }
+      ],
+      identity: [
+        {
+          name: 'Auth0',
+          category: 'identity',
+          metadata: {
+            protocols: ['oidc', 'saml', 'scim'],
+            mauPricing: [
+              { upToMau: 25000, pricePerMauUsd: 0 },
+              { upToMau: 100000, pricePerMauUsd: 0.07 },
+              { pricePerMauUsd: 0.05 }
+            ],
+            selfHostable: false,
+            complianceCertifications: ['SOC 2', 'ISO 27001', 'HIPAA', 'PCI DSS'],
+            migrationTooling: 'import-export',
+            learningCurve: 'low'
+          } as IdentityProviderData
+        },
+        {
+          name: 'Cognito',
+          category: 'identity',
+          metadata: {
+            protocols: ['oidc', 'saml'],
+            mauPricing: [
+              { upToMau: 10000, pricePerMauUsd: 0 },
+              { upToMau: 100000, pricePerMauUsd: 0.0055 },
+              { upToMau: 1000000, pricePerMauUsd: 0.0046 },
+              { pricePerMauUsd: 0.00325 }
+            ],
+            selfHostable: false,
+            complianceCertifications: ['SOC 2', 'ISO 27001', 'HIPAA', 'PCI DSS', 'FedRAMP'],
+            migrationTooling: 'import-only',
+            learningCurve: 'high'
+          } as IdentityProviderData
+        },
+        {
+          name: 'Keycloak',
+          category: 'identity',
+          metadata: {
+            protocols: ['oidc', 'saml', 'ldap'],
+            mauPricing: [{ pricePerMauUsd: 0 }],
+            selfHostable: true,
+            complianceCertifications: [] as string[],
+            migrationTooling: 'import-export',
+            learningCurve: 'high'
+          } as IdentityProviderData
+        },
+        {
+          name: 'Firebase Auth',
+          category: 'identity',
+          metadata: {
+            protocols: ['oidc', 'saml'],
+            mauPricing: [
+              { upToMau: 50000, pricePerMauUsd: 0 },
+              { upToMau: 100000, pricePerMauUsd: 0.0055 },
+              { upToMau: 1000000, pricePerMauUsd: 0.0046 },
+              { pricePerMauUsd: 0.0032 }
+            ],
+            selfHostable: false,
+            complianceCertifications: ['SOC 2', 'ISO 27001'],
+            migrationTooling: 'import-export',
+            learningCurve: 'low'
+          } as IdentityProviderData
+        }
+      ],
+      cache: [
+        {
+          name: 'Redis',
+          category: 'cache',
+          metadata: {
+            dataModel: 'data-structures',
+            evictionPolicies: ['lru', 'lfu', 'ttl', 'random'],
+            persistence: 'append-only-log',
+            clustering: 'native',
+            p99LatencyMs: 1,
+            memoryEfficiency: 6,
+            multiThreaded: false,
+            license: 'copyleft',
+            licenseChangedRecently: true,
+            managedOfferings: ['Redis Cloud', 'Azure Managed Redis'],
+            learningCurve: 'low'
+          } as CacheStoreData
+        },
+        {
+          name: 'Valkey',
+          category: 'cache',
+          metadata: {
+            dataModel: 'data-structures',
+            evictionPolicies: ['lru', 'lfu', 'ttl', 'random'],
+            persistence: 'append-only-log',
+            clustering: 'native',
+            p99LatencyMs: 1,
+            memoryEfficiency: 6,
+            multiThreaded: true,
+            license: 'permissive',
+            licenseChangedRecently: false,
+            managedOfferings: ['ElastiCache', 'Memorystore', 'Aiven'],
+            learningCurve: 'low'
+          } as CacheStoreData
+        },
+        {
+          name: 'Memcached',
+          category: 'cache',
+          metadata: {
+            dataModel: 'key-value',
+            evictionPolicies: ['lru', 'ttl'],
+            persistence: 'none',
+            clustering: 'client-sharding',
+            p99LatencyMs: 1,
+            memoryEfficiency: 8,
+            multiThreaded: true,
+            license: 'permissive',
+            licenseChangedRecently: false,
+            managedOfferings: ['ElastiCache', 'Memorystore'],
+            learningCurve: 'low'
+          } as CacheStoreData
+        },
+        {
+          name: 'Dragonfly',
+          category: 'cache',
+          metadata: {
+            dataModel: 'data-structures',
+            evictionPolicies: ['lfu', 'ttl'],
+            persistence: 'snapshot',
+            clustering: 'none',
+            p99LatencyMs: 1,
+            memoryEfficiency: 9,
+            multiThreaded: true,
+            license: 'source-available',
+            licenseChangedRecently: false,
+            managedOfferings: ['Dragonfly Cloud'],
+            learningCurve: 'low'
+          } as CacheStoreData
+        },
+        {
+          name: 'Hazelcast',
+          category: 'cache',
+          metadata: {
+            dataModel: 'data-grid',
+            evictionPolicies: ['lru', 'lfu', 'random'],
+            persistence: 'none',
+            clustering: 'native',
+            p99LatencyMs: 2,
+            memoryEfficiency: 5,
+            multiThreaded: true,
+            license: 'permissive',
+            licenseChangedRecently: false,
+            managedOfferings: ['Hazelcast Cloud'],
+            learningCurve: 'medium'
+          } as CacheStoreData
+        }
       ]
     };
   }
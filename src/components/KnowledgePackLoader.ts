@@ -0,0 +1,423 @@
+/**
+ * Knowledge Pack Loader Component
+ * Loads technology catalogs, known-technology lists and declarative scoring rules from JSON or YAML files
+ * Supports Requirements 2.2, 2.3
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import {
+  KnowledgePack,
+  MergedKnowledgePack,
+  DeclarativeScoringRule,
+  TechnicalOption,
+  ValidationResult,
+  ValidationError,
+  InvalidKnowledgePackError,
+  STANDARD_CRITERIA,
+} from '../types';
+import { KnowledgeBase } from './KnowledgeBase';
+import { HardConstraintFilter } from './HardConstraintFilter';
+import { RuleExpressionEngine } from './RuleExpressionEngine';
+
+/**
+ * File extensions recognized as knowledge packs
+ */
+export const KNOWLEDGE_PACK_EXTENSIONS: readonly string[] = ['.json', '.yaml', '.yml'];
+
+const PACK_FIELDS = ['name', 'version', 'technologies', 'knownTechnologies', 'scoringRules'];
+
+/**
+ * Loads, validates and merges knowledge packs
+ *
+ * Precedence: packs are merged in the order they are loaded, and a later pack replaces any
+ * technology (same category and name) or scoring rule (same category and name) defined by an
+ * earlier pack. Directories are loaded in file name order. Pack data always takes precedence
+ * over the knowledge built into the KnowledgeBase; known-technology lists are combined.
+ */
+export class KnowledgePackLoader {
+  private knowledgeBase: KnowledgeBase;
+  private hardConstraintFilter = new HardConstraintFilter();
+  private ruleExpressionEngine = new RuleExpressionEngine();
+
+  constructor(knowledgeBase: KnowledgeBase) {
+    this.knowledgeBase = knowledgeBase;
+  }
+
+  /**
+   * Load knowledge packs from files or directories, merge them and apply them to the knowledge base
+   * @param paths - Pack files or directories of pack files, lowest precedence first
+   * @returns The merged knowledge, including the overrides that were applied
+   * @throws InvalidKnowledgePackError if any path cannot be read, or any pack cannot be parsed or fails validation
+   */
+  loadAndApply(paths: string[]): MergedKnowledgePack {
+    const packs = paths.flatMap(packPath =>
+      this.isDirectory(packPath) ? this.loadDirectory(packPath) : [this.loadFile(packPath)]
+    );
+    const merged = this.mergePacks(packs);
+    this.knowledgeBase.applyKnowledgePacks(merged);
+    return merged;
+  }
+
+  /**
+   * Load every knowledge pack in a directory, in file name order
+   * @param directory - Directory containing .json, .yaml or .yml files
+   * @returns Validated packs, lowest precedence first
+   * @throws InvalidKnowledgePackError if any pack cannot be parsed or fails validation
+   */
+  loadDirectory(directory: string): KnowledgePack[] {
+    return fs.readdirSync(directory)
+      .filter(file => KNOWLEDGE_PACK_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort()
+      .map(file => this.loadFile(path.join(directory, file)));
+  }
+
+  /**
+   * Load a single knowledge pack file
+   * @param filePath - Path to a .json, .yaml or .yml file
+   * @returns Validated pack
+   * @throws InvalidKnowledgePackError if the pack cannot be parsed or fails validation
+   */
+  loadFile(filePath: string): KnowledgePack {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!KNOWLEDGE_PACK_EXTENSIONS.includes(extension)) {
+      throw new InvalidKnowledgePackError(filePath, [{
+        field: 'file',
+        message: `Unsupported knowledge pack format "${extension}" - use ${KNOWLEDGE_PACK_EXTENSIONS.join(', ')}`,
+        code: 'KNOWLEDGE_PACK_UNSUPPORTED_FORMAT',
+      }]);
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw this.unreadable(filePath, error);
+    }
+    return this.parse(content, extension === '.json' ? 'json' : 'yaml', filePath);
+  }
+
+  /**
+   * Whether a pack path is a directory
+   * @throws InvalidKnowledgePackError if the path does not exist or cannot be read
+   */
+  private isDirectory(packPath: string): boolean {
+    try {
+      return fs.statSync(packPath).isDirectory();
+    } catch (error) {
+      throw this.unreadable(packPath, error);
+    }
+  }
+
+  /**
+   * Describe a pack path that could not be read
+   */
+  private unreadable(packPath: string, error: unknown): InvalidKnowledgePackError {
+    return new InvalidKnowledgePackError(packPath, [{
+      field: 'file',
+      message: `Could not read ${packPath}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'KNOWLEDGE_PACK_UNREADABLE',
+    }]);
+  }
+
+  /**
+   * Parse and validate knowledge pack content
+   * @param content - Raw JSON or YAML text
+   * @param format - Content format
+   * @param source - Label used in error reports
+   * @returns Validated pack
+   * @throws InvalidKnowledgePackError if the content cannot be parsed or fails validation
+   */
+  parse(content: string, format: 'json' | 'yaml', source: string = 'knowledge pack'): KnowledgePack {
+    let data: unknown;
+    try {
+      // The JSON schema keeps YAML from turning values such as dates into non-JSON types
+      data = format === 'json' ? JSON.parse(content) : yaml.load(content, { schema: yaml.JSON_SCHEMA });
+    } catch (error) {
+      throw new InvalidKnowledgePackError(source, [{
+        field: 'content',
+        message: `Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+        code: 'KNOWLEDGE_PACK_PARSE_ERROR',
+      }]);
+    }
+
+    const validation = this.validatePack(data);
+    if (!validation.isValid) {
+      throw new InvalidKnowledgePackError(source, validation.errors, validation.warnings);
+    }
+    return data as KnowledgePack;
+  }
+
+  /**
+   * Validate a knowledge pack
+   * Technology metadata is checked against the shape expected for its category
+   * @param pack - Pack to validate
+   * @returns Validation result
+   */
+  validatePack(pack: unknown): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: string[] = [];
+
+    if (!pack || typeof pack !== 'object' || Array.isArray(pack)) {
+      errors.push({
+        field: 'pack',
+        message: 'Knowledge pack must be an object',
+        code: 'KNOWLEDGE_PACK_INVALID_TYPE',
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const { name, technologies, knownTechnologies, scoringRules } = pack as KnowledgePack;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      errors.push({
+        field: 'name',
+        message: 'Knowledge pack name is required',
+        code: 'KNOWLEDGE_PACK_NAME_REQUIRED',
+      });
+    }
+
+    for (const key of Object.keys(pack)) {
+      if (!PACK_FIELDS.includes(key)) {
+        warnings.push(`Unknown knowledge pack field "${key}" is ignored`);
+      }
+    }
+
+    if (technologies !== undefined) {
+      this.validateTechnologies(technologies, errors, warnings);
+    }
+    if (knownTechnologies !== undefined) {
+      this.validateKnownTechnologies(knownTechnologies, errors);
+    }
+    if (scoringRules !== undefined) {
+      this.validateScoringRules(scoringRules, errors, warnings);
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Merge knowledge packs in precedence order
+   * @param packs - Validated packs, lowest precedence first
+   * @returns Merged knowledge with a record of every replaced definition
+   */
+  mergePacks(packs: KnowledgePack[]): MergedKnowledgePack {
+    const technologies = new Map<string, { option: TechnicalOption; pack: string }>();
+    const scoringRules = new Map<string, { rule: DeclarativeScoringRule; pack: string }>();
+    const knownTechnologies: MergedKnowledgePack['knownTechnologies'] = {};
+    const overrides: string[] = [];
+
+    for (const pack of packs) {
+      for (const option of pack.technologies || []) {
+        const key = `${option.category}:${option.name.toLowerCase()}`;
+        const previous = technologies.get(key);
+        if (previous) {
+          overrides.push(`${pack.name} replaces ${option.name} (${option.category}) from ${previous.pack}`);
+        }
+        technologies.set(key, { option, pack: pack.name });
+      }
+
+      for (const rule of pack.scoringRules || []) {
+        const key = `${rule.category}:${rule.name.toLowerCase()}`;
+        const previous = scoringRules.get(key);
+        if (previous) {
+          overrides.push(`${pack.name} replaces scoring rule "${rule.name}" (${rule.category}) from ${previous.pack}`);
+        }
+        scoringRules.set(key, { rule, pack: pack.name });
+      }
+
+      for (const [category, names] of Object.entries(pack.knownTechnologies || {})) {
+        const key = category as TechnicalOption['category'];
+        knownTechnologies[key] = Array.from(new Set([
+          ...(knownTechnologies[key] || []),
+          ...(names || []).map(name => name.toLowerCase()),
+        ]));
+      }
+    }
+
+    return {
+      packs: packs.map(pack => pack.name),
+      technologies: Array.from(technologies.values(), entry => entry.option),
+      knownTechnologies,
+      scoringRules: Array.from(scoringRules.values(), entry => entry.rule),
+      overrides,
+    };
+  }
+
+  /**
+   * Validate pack technologies against the metadata shape of their category
+   */
+  private validateTechnologies(technologies: unknown, errors: ValidationError[], warnings: string[]): void {
+    if (!Array.isArray(technologies)) {
+      errors.push({
+        field: 'technologies',
+        message: 'Technologies must be an array',
+        code: 'TECHNOLOGIES_INVALID_TYPE',
+      });
+      return;
+    }
+
+    const seen = new Set<string>();
+    technologies.forEach((option: TechnicalOption, index) => {
+      const field = `technologies[${index}]`;
+
+      if (!option || typeof option !== 'object' || typeof option.name !== 'string' || option.name.trim().length === 0) {
+        errors.push({ field, message: 'Technology must have a name', code: 'TECHNOLOGY_INVALID' });
+        return;
+      }
+      if (!this.isKnownCategory(option.category)) {
+        errors.push({
+          field: `${field}.category`,
+          message: `${option.name} has unsupported category "${option.category}" - use ${this.knowledgeBase.getAvailableCategories().join(', ')}`,
+          code: 'TECHNOLOGY_INVALID',
+        });
+        return;
+      }
+
+      const validation = this.knowledgeBase.validateOptionMetadata(option);
+      for (const message of validation.errors) {
+        errors.push({
+          field: `${field}.metadata`,
+          message: `${option.name}: ${message}`,
+          code: 'TECHNOLOGY_METADATA_INVALID',
+        });
+      }
+
+      const key = `${option.category}:${option.name.toLowerCase()}`;
+      if (seen.has(key)) {
+        warnings.push(`${option.name} (${option.category}) is defined more than once - the last definition wins`);
+      }
+      seen.add(key);
+    });
+  }
+
+  /**
+   * Validate known-technology lists
+   */
+  private validateKnownTechnologies(knownTechnologies: unknown, errors: ValidationError[]): void {
+    if (!knownTechnologies || typeof knownTechnologies !== 'object' || Array.isArray(knownTechnologies)) {
+      errors.push({
+        field: 'knownTechnologies',
+        message: 'Known technologies must be an object keyed by category',
+        code: 'KNOWN_TECHNOLOGIES_INVALID',
+      });
+      return;
+    }
+
+    for (const [category, names] of Object.entries(knownTechnologies)) {
+      if (!this.isKnownCategory(category)) {
+        errors.push({
+          field: `knownTechnologies.${category}`,
+          message: `Unsupported category "${category}"`,
+          code: 'KNOWN_TECHNOLOGIES_INVALID',
+        });
+      } else if (!Array.isArray(names) || !names.every(name => typeof name === 'string' && name.trim().length > 0)) {
+        errors.push({
+          field: `knownTechnologies.${category}`,
+          message: 'Known technologies must be a list of names',
+          code: 'KNOWN_TECHNOLOGIES_INVALID',
+        });
+      }
+    }
+  }
+
+  /**
+   * Validate declarative scoring rules
+   */
+  private validateScoringRules(scoringRules: unknown, errors: ValidationError[], warnings: string[]): void {
+    if (!Array.isArray(scoringRules)) {
+      errors.push({
+        field: 'scoringRules',
+        message: 'Scoring rules must be an array',
+        code: 'SCORING_RULES_INVALID_TYPE',
+      });
+      return;
+    }
+
+    const standardCriteria: string[] = Object.values(STANDARD_CRITERIA);
+
+    scoringRules.forEach((rule: DeclarativeScoringRule, index) => {
+      const field = `scoringRules[${index}]`;
+
+      if (!rule || typeof rule !== 'object' || typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+        errors.push({ field, message: 'Scoring rule must have a name', code: 'SCORING_RULE_INVALID' });
+        return;
+      }
+      if (!this.isKnownCategory(rule.category)) {
+        errors.push({
+          field: `${field}.category`,
+          message: `Scoring rule "${rule.name}" has unsupported category "${rule.category}"`,
+          code: 'SCORING_RULE_INVALID',
+        });
+      }
+      if (rule.expression !== undefined && rule.when !== undefined) {
+        errors.push({
+          field,
+          message: `Scoring rule "${rule.name}" must use either when conditions or an expression, not both`,
+          code: 'SCORING_RULE_INVALID',
+        });
+      } else if (rule.expression !== undefined) {
+        this.validateExpression(rule, field, errors);
+      } else if (!Array.isArray(rule.when) || rule.when.length === 0) {
+        errors.push({
+          field: `${field}.when`,
+          message: `Scoring rule "${rule.name}" needs at least one condition`,
+          code: 'SCORING_RULE_INVALID',
+        });
+      } else {
+        errors.push(...this.hardConstraintFilter.validateRequirements(rule.when, `${field}.when`));
+      }
+      if (typeof rule.scoreAdjustment !== 'number' || !Number.isFinite(rule.scoreAdjustment) ||
+          Math.abs(rule.scoreAdjustment) > 100) {
+        errors.push({
+          field: `${field}.scoreAdjustment`,
+          message: `Scoring rule "${rule.name}" needs a score adjustment between -100 and 100`,
+          code: 'SCORING_RULE_INVALID',
+        });
+      }
+      if (!Array.isArray(rule.affectedCriteria) || rule.affectedCriteria.length === 0 ||
+          !rule.affectedCriteria.every(criterion => typeof criterion === 'string')) {
+        errors.push({
+          field: `${field}.affectedCriteria`,
+          message: `Scoring rule "${rule.name}" must list the criteria it affects`,
+          code: 'SCORING_RULE_INVALID',
+        });
+      } else {
+        const unknown = rule.affectedCriteria.filter(criterion => !standardCriteria.includes(criterion));
+        if (unknown.length > 0) {
+          warnings.push(`Scoring rule "${rule.name}" affects unknown criteria (${unknown.join(', ')}) and will not change their scores`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Parse and type-check a rule expression against the metadata schema of the rule's category
+   */
+  private validateExpression(rule: DeclarativeScoringRule, field: string, errors: ValidationError[]): void {
+    if (typeof rule.expression !== 'string' || rule.expression.trim().length === 0) {
+      errors.push({
+        field: `${field}.expression`,
+        message: `Scoring rule "${rule.name}" has an empty expression`,
+        code: 'SCORING_RULE_INVALID',
+      });
+      return;
+    }
+
+    const schema = this.isKnownCategory(rule.category) ? this.knowledgeBase.getMetadataSchema(rule.category) : null;
+    const validation = this.ruleExpressionEngine.validate(rule.expression, schema);
+    errors.push(...validation.errors.map(error => ({
+      ...error,
+      field: `${field}.expression`,
+      message: `Scoring rule "${rule.name}": ${error.message}`,
+    })));
+  }
+
+  /**
+   * Check whether the knowledge base has domain knowledge for a category
+   */
+  private isKnownCategory(category: unknown): category is TechnicalOption['category'] {
+    return typeof category === 'string' && this.knowledgeBase.getAvailableCategories().includes(category);
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Monte Carlo Simulator Component
+ * Propagates uncertainty in criterion scores through the weighting model
+ * Supports Requirements 3.4, 6.1
+ */
+
+import {
+  UserConstraints,
+  OptionScore,
+  CriterionUncertainty,
+  OptionUncertainty,
+  SimulationOptions,
+  UncertaintyAnalysis,
+  ValidationResult,
+  ValidationError,
+  RefereeValidationError,
+} from '../types';
+import { ScoreAggregator } from './SensitivityAnalyzer';
+
+/**
+ * Default simulation settings
+ */
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  iterations: 1000,
+  seed: 42,
+  confidenceLevel: 0.95,
+  defaultStdDev: 5,
+};
+
+/** Bounds of the criterion score scale */
+const SCORE_MIN = 0;
+const SCORE_MAX = 100;
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * @param seed - 32-bit seed
+ * @returns Function returning uniformly distributed values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Monte Carlo simulation of evaluation outcomes
+ * Samples every criterion score from its uncertainty distribution, re-scores the options with
+ * the engine's aggregation and tallies how often each option ranks first
+ */
+export class MonteCarloSimulator {
+  private aggregator: ScoreAggregator;
+  private options: SimulationOptions;
+
+  /**
+   * @param aggregator - Aggregation used to re-score each simulated evaluation
+   * @param options - Simulation settings, merged over the defaults
+   * @throws RefereeValidationError if the iteration count, confidence level or default deviation is out of range
+   */
+  constructor(aggregator: ScoreAggregator, options: Partial<SimulationOptions> = {}) {
+    this.aggregator = aggregator;
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+
+    const errors = this.validateOptions(this.options);
+    if (errors.length > 0) {
+      throw new RefereeValidationError(
+        `Invalid simulation options: ${errors.map(e => e.message).join(', ')}`,
+        'SIMULATION_OPTIONS_INVALID',
+        errors
+      );
+    }
+  }
+
+  /**
+   * Get the active simulation settings
+   */
+  getOptions(): SimulationOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Check the merged simulation settings
+   * @param options - Simulation settings
+   * @returns Errors found, empty when the settings are usable
+   */
+  private validateOptions(options: SimulationOptions): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!Number.isInteger(options.iterations) || options.iterations < 1) {
+      errors.push({
+        field: 'iterations',
+        message: 'Iterations must be a positive whole number',
+        code: 'SIMULATION_OPTIONS_INVALID',
+      });
+    }
+    if (!Number.isFinite(options.confidenceLevel) || options.confidenceLevel <= 0 || options.confidenceLevel >= 1) {
+      errors.push({
+        field: 'confidenceLevel',
+        message: 'Confidence level must be between 0 and 1 (exclusive)',
+        code: 'SIMULATION_OPTIONS_INVALID',
+      });
+    }
+    if (!Number.isFinite(options.defaultStdDev) || options.defaultStdDev < 0) {
+      errors.push({
+        field: 'defaultStdDev',
+        message: 'Default standard deviation must be zero or more',
+        code: 'SIMULATION_OPTIONS_INVALID',
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the uncertainty specification attached to an option
+   * @param uncertainty - Uncertainty per criterion
+   * @param fieldPrefix - Field path used in error reports
+   * @returns Validation result
+   */
+  validateUncertainty(uncertainty: unknown, fieldPrefix: string): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (uncertainty === undefined) {
+      return { isValid: true, errors, warnings: [] };
+    }
+
+    if (!uncertainty || typeof uncertainty !== 'object' || Array.isArray(uncertainty)) {
+      errors.push({
+        field: fieldPrefix,
+        message: 'Uncertainty must be an object keyed by criterion name',
+        code: 'UNCERTAINTY_INVALID_TYPE',
+      });
+      return { isValid: false, errors, warnings: [] };
+    }
+
+    for (const [criterion, spec] of Object.entries(uncertainty as Record<string, CriterionUncertainty>)) {
+      const message = this.describeInvalidSpec(spec);
+      if (message) {
+        errors.push({
+          field: `${fieldPrefix}.${criterion}`,
+          message,
+          code: 'UNCERTAINTY_INVALID',
+        });
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings: [] };
+  }
+
+  /**
+   * Run the simulation for a set of scored options
+   * @param scores - Option scores after contextual adjustments
+   * @param priorities - User priorities used for weighting
+   * @returns Uncertainty analysis, or null when there is nothing to compare
+   */
+  simulate(scores: OptionScore[], priorities: UserConstraints['priorities']): UncertaintyAnalysis | null {
+    if (scores.length === 0) {
+      return null;
+    }
+
+    const { iterations, seed, confidenceLevel } = this.options;
+    const random = createRandom(seed);
+    const firstPlaceCounts = scores.map(() => 0);
+    const rankTotals = scores.map(() => 0);
+    const samples: number[][] = scores.map(() => []);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const simulated = this.aggregator(scores.map(score => this.sampleCriteria(score, random)), priorities);
+
+      // Rank by simulated score, earlier options win ties as in the engine's stable ranking
+      const order = simulated
+        .map((value, index) => ({ value, index }))
+        .sort((a, b) => b.value - a.value);
+
+      order.forEach((entry, position) => {
+        rankTotals[entry.index]! += position + 1;
+      });
+      firstPlaceCounts[order[0]!.index]! += 1;
+      simulated.forEach((value, index) => samples[index]!.push(value));
+    }
+
+    const tail = (1 - confidenceLevel) / 2;
+    const options: OptionUncertainty[] = scores.map((score, index) => {
+      const sorted = [...samples[index]!].sort((a, b) => a - b);
+      return {
+        option: score.option,
+        probabilityOfFirst: firstPlaceCounts[index]! / iterations,
+        meanScore: sorted.reduce((sum, value) => sum + value, 0) / iterations,
+        confidenceInterval: {
+          lower: this.quantile(sorted, tail),
+          upper: this.quantile(sorted, 1 - tail),
+        },
+        expectedRank: rankTotals[index]! / iterations,
+      };
+    });
+
+    return {
+      iterations,
+      seed,
+      confidenceLevel,
+      options: options.sort((a, b) => b.probabilityOfFirst - a.probabilityOfFirst),
+    };
+  }
+
+  /**
+   * Draw one set of criterion scores for an option
+   * Uncertainty is stated before the project context, so each draw is shifted by the contextual
+   * adjustments the point score received
+   * @param score - Point-estimate scores for the option
+   * @param random - Seeded random source
+   * @returns Sampled criterion scores clamped to the 0-100 scale
+   */
+  private sampleCriteria(score: OptionScore, random: () => number): Record<string, number> {
+    const sampled: Record<string, number> = {};
+
+    for (const [criterion, pointScore] of Object.entries(score.criteriaScores)) {
+      const spec: CriterionUncertainty = score.option.uncertainty?.[criterion] ?? {
+        distribution: 'normal',
+        stdDev: this.options.defaultStdDev,
+      };
+      const contextShift = (score.provenance?.[criterion]?.adjustments ?? [])
+        .filter(adjustment => adjustment.source === 'context')
+        .reduce((sum, adjustment) => sum + adjustment.points, 0);
+      const value = this.sample(spec, pointScore - contextShift, random) + contextShift;
+      sampled[criterion] = Math.min(SCORE_MAX, Math.max(SCORE_MIN, value));
+    }
+
+    return sampled;
+  }
+
+  /**
+   * Draw a value from an uncertainty distribution
+   * @param spec - Distribution specification
+   * @param pointScore - Point estimate before contextual adjustments, used for omitted mean/mode
+   * @param random - Seeded random source
+   * @returns Sampled value
+   */
+  private sample(spec: CriterionUncertainty, pointScore: number, random: () => number): number {
+    switch (spec.distribution) {
+      case 'uniform':
+        return spec.min + (spec.max - spec.min) * random();
+      case 'normal': {
+        // Box-Muller transform; 1 - random() avoids log(0)
+        const radius = Math.sqrt(-2 * Math.log(1 - random()));
+        return (spec.mean ?? pointScore) + spec.stdDev * radius * Math.cos(2 * Math.PI * random());
+      }
+      case 'triangular': {
+        const { min, max } = spec;
+        const mode = Math.min(max, Math.max(min, spec.mode ?? pointScore));
+        const u = random();
+        const split = max > min ? (mode - min) / (max - min) : 0;
+        return u < split
+          ? min + Math.sqrt(u * (max - min) * (mode - min))
+          : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+      }
+    }
+  }
+
+  /**
+   * Linearly interpolated quantile of sorted samples
+   * @param sorted - Samples in ascending order
+   * @param probability - Quantile to compute (0-1)
+   * @returns Quantile value
+   */
+  private quantile(sorted: number[], probability: number): number {
+    const position = (sorted.length - 1) * probability;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const fraction = position - lower;
+    return sorted[lower]! * (1 - fraction) + sorted[upper]! * fraction;
+  }
+
+  /**
+   * Explain why an uncertainty specification is invalid
+   * @param spec - Specification to check
+   * @returns Error message, or null when the specification is valid
+   */
+  private describeInvalidSpec(spec: CriterionUncertainty): string | null {
+    if (!spec || typeof spec !== 'object') {
+      return 'Uncertainty must be an object with a distribution';
+    }
+
+    const inScale = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= SCORE_MIN && value <= SCORE_MAX;
+
+    switch (spec.distribution) {
+      case 'uniform':
+      case 'triangular':
+        if (!inScale(spec.min) || !inScale(spec.max)) {
+          return `${spec.distribution} uncertainty needs min and max between ${SCORE_MIN} and ${SCORE_MAX}`;
+        }
+        if (spec.min > spec.max) {
+          return `${spec.distribution} uncertainty min cannot exceed max`;
+        }
+        if (spec.distribution === 'triangular' && spec.mode !== undefined &&
+            (!inScale(spec.mode) || spec.mode < spec.min || spec.mode > spec.max)) {
+          return 'triangular uncertainty mode must lie between min and max';
+        }
+        return null;
+      case 'normal':
+        if (typeof spec.stdDev !== 'number' || !Number.isFinite(spec.stdDev) || spec.stdDev < 0) {
+          return 'normal uncertainty needs a non-negative stdDev';
+        }
+        if (spec.mean !== undefined && !inScale(spec.mean)) {
+          return `normal uncertainty mean must be between ${SCORE_MIN} and ${SCORE_MAX}`;
+        }
+        return null;
+      default:
+        return `Unknown uncertainty distribution '${(spec as { distribution?: unknown }).distribution}'`;
+    }
+  }
+}
@@ -15,9 +15,19 @@ import {
   AlternativeScenario,
   TechnicalOption,
   OptionScore,
+  CriterionProvenance,
+  PriorityName,
+  SensitivityAnalysis,
   OutputGenerator as IOutputGenerator,
 } from '../types';
-import { STANDARD_CRITERIA } from '../types/knowledge';
+import { STANDARD_CRITERIA, MauPricingTier } from '../types/knowledge';
+
+/** Monthly identity provider spend in USD that each budget level usually allows */
+const IDENTITY_MONTHLY_BUDGET_USD: Record<UserConstraints['budget'], number> = {
+  low: 500,
+  medium: 5000,
+  high: 50000,
+};
 
 /**
  * Implementation of the Output Generator interface
@@ -47,12 +57,21 @@ export class OutputGenerator implements IOutputGenerator {
     // Generate alternative scenarios (Requirement 3.5, 6.2)
     const alternativeScenarios = this.generateAlternativeScenarios(result, constraints);
 
+    // Explain how each criterion score was reached
+    const scoreExplanation = this.generateScoreExplanation(result);
+
     return {
       comparisonTable,
       prosAndCons,
       tradeOffExplanation,
       finalRecommendation,
       alternativeScenarios,
+      ...(result.sensitivity && { sensitivity: result.sensitivity }),
+      ...(result.sensitivityNotApplicable && { sensitivityNotApplicable: result.sensitivityNotApplicable }),
+      ...(result.uncertainty && { uncertainty: result.uncertainty }),
+      ...(result.eliminated && { eliminated: result.eliminated }),
+      ...(result.shortlist && { shortlist: result.shortlist }),
+      ...(scoreExplanation && { scoreExplanation }),
     };
   }
 
@@ -70,7 +89,11 @@ export class OutputGenerator implements IOutputGenerator {
     });
 
     // Create headers with user-friendly names
-    const headers = ['Option', ...Array.from(allCriteria).map(this.formatCriterionName), 'Overall Score'];
+    const headers = [
+      'Option',
+      ...Array.from(allCriteria).map(criterion => this.formatCriterionName(criterion, result.criterionLabels)),
+      'Overall Score',
+    ];
 
     // Create rows for each option
     const rows: ComparisonTableRow[] = result.scores.map(score => {
@@ -81,7 +104,7 @@ export class OutputGenerator implements IOutputGenerator {
 
       // Add criterion values
       for (const criterion of allCriteria) {
-        const criterionName = this.formatCriterionName(criterion);
+        const criterionName = this.formatCriterionName(criterion, result.criterionLabels);
         const criterionScore = score.criteriaScores[criterion];
         
         if (criterionScore !== undefined) {
@@ -114,12 +137,66 @@ export class OutputGenerator implements IOutputGenerator {
     };
   }
 
+  /**
+   * Explain in plain language how every criterion score was reached
+   * Lists the baseline, the points each metadata field contributed, and every rule and
+   * contextual adjustment, with the metadata field or constraint behind it in parentheses
+   * @param result - Evaluation result whose scores carry provenance
+   * @returns Score explanation, or null when no score carries provenance
+   */
+  private generateScoreExplanation(result: EvaluationResult): string | null {
+    const explained = result.scores.filter(score => score.provenance);
+    if (explained.length === 0) {
+      return null;
+    }
+
+    const lines: string[] = ['**How the scores were calculated:**'];
+
+    for (const score of explained) {
+      lines.push(`\n**${score.option.name}:**`);
+      for (const [criterion, provenance] of Object.entries(score.provenance!)) {
+        lines.push(
+          `- ${this.formatCriterionName(criterion, result.criterionLabels)} ` +
+          `${Math.round(provenance.finalScore)}/100: ${this.describeProvenance(provenance)}`
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Describe the steps that produced a criterion score
+   * @param provenance - Audit trail of the score
+   * @returns Steps separated by semicolons, e.g. "Baseline score: 50; +15 Pay-as-you-go pricing (pricingModel)"
+   */
+  private describeProvenance(provenance: CriterionProvenance): string {
+    const formatPoints = (points: number) => {
+      const rounded = Math.round(points * 10) / 10;
+      return rounded < 0 ? `${rounded}` : `+${rounded}`;
+    };
+
+    const [baseline, ...contributions] = provenance.contributions;
+    const steps = [
+      ...(baseline ? [`${baseline.reason}: ${Math.round(baseline.points * 10) / 10}`] : []),
+      ...contributions.map(c => `${formatPoints(c.points)} ${c.reason}${c.field ? ` (${c.field})` : ''}`),
+      ...provenance.adjustments.map(a => `${formatPoints(a.points)} ${a.reason} (${a.source === 'rule' ? 'scoring rule' : a.name})`),
+    ];
+
+    return steps.join('; ');
+  }
+
   /**
    * Format criterion name for display
    * @param criterion - Internal criterion name
+   * @param labels - Display names of custom criteria, which take precedence
    * @returns User-friendly criterion name
    */
-  private formatCriterionName(criterion: string): string {
+  private formatCriterionName(criterion: string, labels: Record<string, string> = {}): string {
+    if (labels[criterion]) {
+      return labels[criterion];
+    }
+
     const nameMap: Record<string, string> = {
       [STANDARD_CRITERIA.COST]: 'Cost Effectiveness',
       [STANDARD_CRITERIA.PERFORMANCE]: 'Performance',
@@ -181,7 +258,7 @@ export class OutputGenerator implements IOutputGenerator {
       const minOtherScore = Math.min(...otherScores);
       const avgOtherScore = otherScores.reduce((sum, s) => sum + s, 0) / otherScores.length;
 
-      const criterionName = this.formatCriterionName(criterion);
+      const criterionName = this.formatCriterionName(criterion, result.criterionLabels);
 
       // Identify strengths (significantly better than others)
       if (score > maxOtherScore + 10) {
@@ -265,6 +342,152 @@ export class OutputGenerator implements IOutputGenerator {
           pros.push('Excellent horizontal scaling');
         }
         break;
+
+      case 'frontend':
+        if (option.metadata.bundleSizeKb <= 10) {
+          pros.push(`Tiny runtime bundle (~${option.metadata.bundleSizeKb}kb gzipped)`);
+        } else if (option.metadata.bundleSizeKb >= 100) {
+          cons.push(`Large runtime bundle (~${option.metadata.bundleSizeKb}kb gzipped) slows first load on slow networks`);
+        }
+        if (option.metadata.renderingModel === 'ssr' || option.metadata.renderingModel === 'hybrid') {
+          pros.push('Server-side rendering for fast first paint and SEO');
+        } else if (option.metadata.renderingModel === 'spa') {
+          cons.push('Client-side rendering only - extra work needed for SEO and first paint');
+        }
+        if (option.metadata.ecosystemSize > 50000) {
+          pros.push('Extensive component and library ecosystem');
+        } else if (option.metadata.ecosystemSize < 10000) {
+          cons.push('Smaller ecosystem - expect to build more components in-house');
+        }
+        break;
+
+      case 'messaging':
+        if (option.metadata.deliveryGuarantee === 'exactly-once') {
+          pros.push('Exactly-once delivery - consumers need no duplicate handling');
+        } else if (option.metadata.deliveryGuarantee === 'at-most-once') {
+          cons.push('At-most-once delivery - messages can be lost when a consumer fails');
+        }
+        if (option.metadata.ordering === 'strict') {
+          pros.push('Strict message ordering across the whole stream');
+        } else if (option.metadata.ordering === 'none') {
+          cons.push('No ordering guarantee - consumers must tolerate out-of-order messages');
+        }
+        if (option.metadata.throughputMsgsPerSec >= 500000) {
+          pros.push(`Very high throughput (~${option.metadata.throughputMsgsPerSec.toLocaleString('en-US')} messages/s)`);
+        }
+        if (option.metadata.retention === 'unlimited') {
+          pros.push('Durable log - consumers can replay past messages');
+        } else if (option.metadata.retention === 'until-consumed') {
+          cons.push('Messages are removed once consumed - no replay after a consumer bug');
+        }
+        if (option.metadata.hosting === 'managed') {
+          pros.push('Fully managed - no brokers to operate');
+          if (option.metadata.openSource === false) {
+            cons.push('Proprietary managed service - moving away means rewriting producers and consumers');
+          }
+        } else if (option.metadata.hosting === 'self-hosted') {
+          cons.push('Self-hosted only - you run, upgrade and rebalance the brokers');
+        }
+        break;
+
+      case 'orchestration':
+        if (option.metadata.operationalOverhead === 'low') {
+          pros.push('Low operational overhead - the provider runs the platform');
+        } else if (option.metadata.operationalOverhead === 'high') {
+          cons.push('High operational overhead - plan for a platform team');
+        }
+        if (option.metadata.autoscaling === 'serverless') {
+          pros.push('Scales to zero when idle');
+          cons.push('Cold starts after idle periods');
+        } else if (option.metadata.autoscaling === 'manual') {
+          cons.push('No built-in autoscaling - capacity is added by hand');
+        }
+        if (option.metadata.portability === 'anywhere') {
+          pros.push('Runs on any cloud or on-premises');
+        } else if (option.metadata.portability === 'single-cloud') {
+          cons.push('Tied to a single cloud provider');
+        }
+        if (option.metadata.managedOfferings?.length >= 3) {
+          pros.push(`Managed offerings from several providers (${option.metadata.managedOfferings.slice(0, 3).join(', ')})`);
+        }
+        if (option.metadata.ecosystemRating >= 9) {
+          pros.push('Extensive ecosystem of operators and tooling');
+        }
+        break;
+
+      case 'observability':
+        if (option.metadata.openTelemetrySupport === 'native') {
+          pros.push('Built on OpenTelemetry - instrumentation moves with you');
+        } else if (option.metadata.openTelemetrySupport === 'none') {
+          cons.push('No OpenTelemetry support');
+        }
+        if (option.metadata.proprietaryAgent === true) {
+          cons.push('Proprietary agent - switching vendors means re-instrumenting services');
+        }
+        if (option.metadata.pricingModel === 'open-source') {
+          pros.push('No license or usage fees');
+        } else if (option.metadata.pricingModel === 'per-host') {
+          cons.push(`Priced per host (~$${option.metadata.unitPriceUsd}/host/month) - costs grow with every machine`);
+        } else if (option.metadata.pricingModel === 'per-gb') {
+          cons.push(`Priced per GB ingested (~$${option.metadata.unitPriceUsd}/GB) - noisy logs get expensive`);
+        }
+        if (option.metadata.retentionLimitDays === 0) {
+          pros.push('Retention limited only by your own storage');
+        } else if (option.metadata.retentionLimitDays < 30) {
+          cons.push(`Data kept for ${option.metadata.retentionLimitDays} days by default`);
+        }
+        if (option.metadata.selfHostingBurden === 'none') {
+          pros.push('Fully hosted - no observability infrastructure to run');
+        } else if (option.metadata.selfHostingBurden === 'high') {
+          cons.push('Self-hosting burden - storage, upgrades and scaling are your job');
+        }
+        break;
+
+      case 'identity': {
+        const protocols: string[] = Array.isArray(option.metadata.protocols) ? option.metadata.protocols : [];
+        if (protocols.includes('saml') && protocols.includes('scim')) {
+          pros.push('Enterprise SSO (SAML) and user provisioning (SCIM)');
+        } else if (!protocols.includes('saml')) {
+          cons.push('No SAML - enterprise customers will ask for it');
+        }
+        if (option.metadata.selfHostable === true) {
+          pros.push('Can be self-hosted - user data stays under your control');
+        }
+        const firstTier: MauPricingTier | undefined = option.metadata.mauPricing?.[0];
+        if (firstTier && firstTier.pricePerMauUsd === 0 && firstTier.upToMau !== undefined) {
+          pros.push(`Free for up to ${firstTier.upToMau.toLocaleString('en-US')} monthly active users`);
+        }
+        if (option.metadata.migrationTooling === 'import-only') {
+          cons.push('Password hashes cannot be exported - leaving means forcing password resets');
+        } else if (option.metadata.migrationTooling === 'none') {
+          cons.push('No migration tooling - users are hard to move in or out');
+        }
+        break;
+      }
+
+      case 'cache':
+        if (typeof option.metadata.p99LatencyMs === 'number' && option.metadata.p99LatencyMs <= 1) {
+          pros.push('Sub-millisecond reads');
+        }
+        if (option.metadata.persistence === 'none') {
+          cons.push('Starts empty after a restart - every read hits the database until it warms up');
+        } else if (option.metadata.persistence) {
+          pros.push('Persists to disk and restarts warm');
+        }
+        if (option.metadata.clustering === 'native') {
+          pros.push('Native clustering with automatic failover');
+        } else if (option.metadata.clustering === 'none') {
+          cons.push('No clustering - limited to what one node can hold');
+        }
+        if (option.metadata.licenseChangedRecently === true) {
+          cons.push('License changed recently - check the current terms before building on it');
+        } else if (option.metadata.license === 'source-available') {
+          cons.push('Source-available license restricts offering it as a service');
+        }
+        if (Array.isArray(option.metadata.evictionPolicies) && option.metadata.evictionPolicies.length < 3) {
+          cons.push('Few eviction policies to choose from');
+        }
+        break;
     }
 
     // Add general metadata-based insights
@@ -336,8 +559,8 @@ export class OutputGenerator implements IOutputGenerator {
     }
 
     // Find the key differentiators
-    const keyDifferences = this.findKeyDifferences(topScore, secondScore);
-    const topPriority = this.getTopPriority(constraints.priorities);
+    const keyDifferences = this.findKeyDifferences(topScore, secondScore, result.criterionLabels);
+    const topPriority = this.getTopPriority(constraints);
     
     let summary = `**Trade-off Summary:**\n`;
     summary += `${topOption.option.name} ranks highest overall (${Math.round(topOption.score)}/100) `;
@@ -350,7 +573,7 @@ export class OutputGenerator implements IOutputGenerator {
       summary += `vs ${Math.round(firstDiff.loserScore)}. `;
     }
     
-    summary += `Given your priority on ${this.formatCriterionName(topPriority)}, `;
+    summary += `Given your priority on ${this.formatCriterionName(topPriority, result.criterionLabels)}, `;
     summary += `this aligns well with your requirements.`;
     
     return summary;
@@ -424,9 +647,14 @@ export class OutputGenerator implements IOutputGenerator {
    * Find key differences between two options
    * @param option1 - First option score
    * @param option2 - Second option score
+   * @param labels - Display names of custom criteria
    * @returns Key differences with quantified gaps
    */
-  private findKeyDifferences(option1: OptionScore, option2: OptionScore): Array<{
+  private findKeyDifferences(
+    option1: OptionScore,
+    option2: OptionScore,
+    labels: Record<string, string> = {}
+  ): Array<{
     criterion: string;
     winner: string;
     loser: string;
@@ -462,7 +690,7 @@ export class OutputGenerator implements IOutputGenerator {
         const loserScore = Math.min(score1, score2);
         
         differences.push({
-          criterion: this.formatCriterionName(criterion),
+          criterion: this.formatCriterionName(criterion, labels),
           winner,
           loser,
           winnerScore,
@@ -478,11 +706,12 @@ export class OutputGenerator implements IOutputGenerator {
 
   /**
    * Get the top priority from user constraints
-   * @param priorities - User priority weights
+   * A custom criterion is the top priority only if it outranks every standard priority
+   * @param constraints - User constraints
    * @returns Top priority criterion
    */
-  private getTopPriority(priorities: UserConstraints['priorities']): string {
-    const priorityEntries = Object.entries(priorities);
+  private getTopPriority(constraints: UserConstraints): string {
+    const priorityEntries = Object.entries(constraints.priorities);
     const topPriority = priorityEntries.reduce((max, current) => 
       current[1] > max[1] ? current : max
     );
@@ -496,6 +725,13 @@ export class OutputGenerator implements IOutputGenerator {
       vendorLockIn: STANDARD_CRITERIA.VENDOR_LOCK_IN,
     };
     
+    const topCustom = (constraints.customCriteria ?? [])
+      .filter(criterion => criterion.priority > topPriority[1])
+      .sort((a, b) => b.priority - a.priority)[0];
+    if (topCustom) {
+      return topCustom.name;
+    }
+    
     return priorityToCriterion[topPriority[0]] || topPriority[0];
   }
 
@@ -516,9 +752,9 @@ export class OutputGenerator implements IOutputGenerator {
       
       // Consider it a strength if it's the best or significantly above average
       if (score === maxScore && score > avgScore + 10) {
-        strengths.push(this.formatCriterionName(criterion).toLowerCase());
+        strengths.push(this.formatCriterionName(criterion, result.criterionLabels).toLowerCase());
       } else if (score > avgScore + 20) {
-        strengths.push(this.formatCriterionName(criterion).toLowerCase());
+        strengths.push(this.formatCriterionName(criterion, result.criterionLabels).toLowerCase());
       }
     }
     
@@ -542,9 +778,9 @@ export class OutputGenerator implements IOutputGenerator {
       
       // Consider it a sacrifice if it's significantly below average or the worst
       if (score < avgScore - 15) {
-        sacrifices.push(this.formatCriterionName(criterion).toLowerCase());
+        sacrifices.push(this.formatCriterionName(criterion, result.criterionLabels).toLowerCase());
       } else if (score === Math.min(...allScoresForCriterion) && score < avgScore - 5) {
-        sacrifices.push(this.formatCriterionName(criterion).toLowerCase());
+        sacrifices.push(this.formatCriterionName(criterion, result.criterionLabels).toLowerCase());
       }
     }
     
@@ -620,7 +856,7 @@ export class OutputGenerator implements IOutputGenerator {
    * @returns Priority-specific impact analysis
    */
   private analyzePriorityImpact(result: EvaluationResult, constraints: UserConstraints): string | null {
-    const topPriority = this.getTopPriority(constraints.priorities);
+    const topPriority = this.getTopPriority(constraints);
     const topOption = result.rankings[0];
     
     if (!topOption) return null;
@@ -630,7 +866,7 @@ export class OutputGenerator implements IOutputGenerator {
     
     const priorityScore = topScore.criteriaScores[topPriority] || 0;
     
-    let analysis = `**Priority Impact:** Given your focus on ${this.formatCriterionName(topPriority)}, `;
+    let analysis = `**Priority Impact:** Given your focus on ${this.formatCriterionName(topPriority, result.criterionLabels)}, `;
     
     if (priorityScore >= 80) {
       analysis += `${topOption.option.name} excels in this area (${Math.round(priorityScore)}/100), `;
@@ -690,11 +926,30 @@ export class OutputGenerator implements IOutputGenerator {
 
   /**
    * Calculate confidence level for the recommendation
+   * Uses the simulated probability that the recommended option ranks first; results
+   * without a simulation fall back to a score-gap estimate
    * @param result - Evaluation result
    * @param constraints - User constraints
    * @returns Confidence level (0-1)
    */
   private calculateRecommendationConfidence(result: EvaluationResult, constraints: UserConstraints): number {
+    const topOption = result.rankings[0]?.option;
+    const simulated = topOption && result.uncertainty?.options.find(o => o.option.name === topOption.name);
+
+    if (simulated) {
+      return simulated.probabilityOfFirst;
+    }
+
+    return this.estimateConfidenceFromScoreGap(result, constraints);
+  }
+
+  /**
+   * Estimate recommendation confidence from the gap between the top two scores
+   * @param result - Evaluation result
+   * @param constraints - User constraints
+   * @returns Confidence level (0-1)
+   */
+  private estimateConfidenceFromScoreGap(result: EvaluationResult, constraints: UserConstraints): number {
     const rankings = result.rankings;
     
     if (rankings.length < 2) {
@@ -752,11 +1007,11 @@ export class OutputGenerator implements IOutputGenerator {
     );
     
     // Explain priority alignment
-    const topPriority = this.getTopPriority(constraints.priorities);
+    const topPriority = this.getTopPriority(constraints);
     const priorityScore = topScore.criteriaScores[topPriority] || 0;
     
     reasoningParts.push(
-      `Given your priority on ${this.formatCriterionName(topPriority)}, ` +
+      `Given your priority on ${this.formatCriterionName(topPriority, result.criterionLabels)}, ` +
       `this option scores ${Math.round(priorityScore)}/100 in this area.`
     );
     
@@ -783,6 +1038,23 @@ export class OutputGenerator implements IOutputGenerator {
         `due to better alignment with your specific requirements.`
       );
     }
+
+    // Mention how the finalists were chosen in shortlist mode
+    if (result.shortlist && result.shortlist.cut.length > 0) {
+      reasoningParts.push(
+        `The finalists were shortlisted from ${result.shortlist.candidateCount} candidates; ` +
+        `${result.shortlist.cut.length} were cut for the reasons listed in the shortlist.`
+      );
+    }
+
+    // Mention options vetoed by hard constraints
+    const eliminated = result.eliminated ?? [];
+    if (eliminated.length > 0) {
+      const names = eliminated.map(e => e.option.name).join(' and ');
+      reasoningParts.push(
+        `${names} ${eliminated.length === 1 ? 'was' : 'were'} ruled out by your hard constraints and not scored.`
+      );
+    }
     
     return reasoningParts.join(' ');
   }
@@ -801,16 +1073,20 @@ export class OutputGenerator implements IOutputGenerator {
   ): string[] {
     const factors: string[] = [];
     
-    // Priority-based factors
-    const sortedPriorities = Object.entries(constraints.priorities)
+    // Priority-based factors, including custom criteria
+    const sortedPriorities = [
+      ...Object.entries(constraints.priorities)
+        .map(([priority, weight]) => [this.mapPriorityToCriterion(priority), weight] as const),
+      ...(constraints.customCriteria ?? [])
+        .map(criterion => [criterion.name, criterion.priority] as const),
+    ]
       .sort(([,a], [,b]) => b - a)
       .slice(0, 2); // Top 2 priorities
     
-    for (const [priority, weight] of sortedPriorities) {
+    for (const [criterionName, weight] of sortedPriorities) {
       if (weight >= 4) { // High priority
-        const criterionName = this.mapPriorityToCriterion(priority);
         const score = topScore.criteriaScores[criterionName] || 0;
-        factors.push(`Strong ${this.formatCriterionName(criterionName).toLowerCase()} (${Math.round(score)}/100)`);
+        factors.push(`Strong ${this.formatCriterionName(criterionName, result.criterionLabels).toLowerCase()} (${Math.round(score)}/100)`);
       }
     }
     
@@ -862,14 +1138,23 @@ export class OutputGenerator implements IOutputGenerator {
     if (confidence < 0.6) {
       warnings.push('Options are very close in scoring - consider additional evaluation criteria');
     }
+
+    // Simulation disagrees with the point estimate
+    const likeliestWinner = result.uncertainty?.options[0];
+    if (likeliestWinner && likeliestWinner.option.name !== topScore.option.name) {
+      warnings.push(
+        `${likeliestWinner.option.name} ranks first in ${Math.round(likeliestWinner.probabilityOfFirst * 100)}% ` +
+        `of simulated outcomes despite a lower point score - the scores are too uncertain to separate these options`
+      );
+    }
     
     // Priority misalignment warnings
-    const topPriority = this.getTopPriority(constraints.priorities);
+    const topPriority = this.getTopPriority(constraints);
     const priorityScore = topScore.criteriaScores[topPriority] || 0;
     
     if (priorityScore < 60) {
       warnings.push(
-        `Recommended option scores below 60/100 in your top priority (${this.formatCriterionName(topPriority)})`
+        `Recommended option scores below 60/100 in your top priority (${this.formatCriterionName(topPriority, result.criterionLabels)})`
       );
     }
     
@@ -894,10 +1179,78 @@ export class OutputGenerator implements IOutputGenerator {
     if (constraints.priorities.vendorLockIn >= 4 && topScore.option.metadata.vendorLockIn === 'high') {
       warnings.push('This option has high vendor lock-in risk despite your preference to avoid it');
     }
+
+    // Identity pricing that grows with the user base
+    if (topScore.option.category === 'identity') {
+      warnings.push(...this.generateIdentityPricingWarnings(topScore.option, constraints));
+    }
     
     return warnings;
   }
 
+  /**
+   * Warn when per-user identity pricing outgrows the budget now or after 10x user growth
+   * The expected user count is treated as monthly active users
+   * @param option - Recommended identity provider
+   * @param constraints - User constraints with budget and expected users
+   * @returns Pricing warnings (at most one)
+   */
+  private generateIdentityPricingWarnings(option: TechnicalOption, constraints: UserConstraints): string[] {
+    const tiers: MauPricingTier[] = Array.isArray(option.metadata.mauPricing) ? option.metadata.mauPricing : [];
+    if (tiers.length === 0) {
+      return [];
+    }
+
+    const allowance = IDENTITY_MONTHLY_BUDGET_USD[constraints.budget];
+    const users = constraints.scale.users;
+    const formatUsd = (amount: number) => `$${Math.round(amount).toLocaleString('en-US')}`;
+
+    const current = this.estimateMauCost(tiers, users);
+    if (current > allowance) {
+      return [
+        `At ${users.toLocaleString('en-US')} monthly active users, ${option.name} costs about ${formatUsd(current)} per month ` +
+        `at list prices - more than a ${constraints.budget} budget usually allows`
+      ];
+    }
+
+    const grownUsers = users * 10;
+    const grown = this.estimateMauCost(tiers, grownUsers);
+    if (grown > allowance) {
+      return [
+        `${option.name} pricing scales steeply with users: about ${formatUsd(current)} per month now, ` +
+        `but about ${formatUsd(grown)} per month at ${grownUsers.toLocaleString('en-US')} monthly active users`
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Estimate the monthly cost of tiered per-user pricing
+   * Users beyond a capped last tier are billed at the last tier's price
+   * @param tiers - Pricing tiers in ascending order, each pricing the users above the previous tier
+   * @param users - Monthly active users
+   * @returns Monthly cost in USD
+   */
+  private estimateMauCost(tiers: MauPricingTier[], users: number): number {
+    let cost = 0;
+    let previousLimit = 0;
+
+    for (const [index, tier] of tiers.entries()) {
+      const isLast = index === tiers.length - 1;
+      const limit = Math.min(users, isLast ? Infinity : tier.upToMau ?? Infinity);
+      if (limit > previousLimit) {
+        cost += (limit - previousLimit) * tier.pricePerMauUsd;
+      }
+      if (tier.upToMau === undefined || tier.upToMau >= users) {
+        break;
+      }
+      previousLimit = tier.upToMau;
+    }
+
+    return cost;
+  }
+
   /**
    * Generate alternative scenarios based on different priority configurations
    * Requirement 3.5: Explain "if your priority changes to X, choose Y instead"
@@ -945,13 +1298,23 @@ export class OutputGenerator implements IOutputGenerator {
     if (!currentTopOption) {
       return scenarios;
     }
+
+    // Priority what-ifs mean nothing when the ranking does not depend on priorities
+    if (result.sensitivityNotApplicable) {
+      return scenarios;
+    }
+
+    // Prefer measured thresholds over the best-criterion heuristic when available
+    if (result.sensitivity) {
+      return this.generateSensitivityScenarios(result.sensitivity);
+    }
     
     // Test each priority as the dominant factor
     const priorities = ['cost', 'performance', 'easeOfUse', 'scalability', 'vendorLockIn'] as const;
     
     for (const priority of priorities) {
       // Skip if this is already the top priority
-      const currentTopPriority = this.getTopPriority(constraints.priorities);
+      const currentTopPriority = this.getTopPriority(constraints);
       const priorityCriterion = this.mapPriorityToCriterion(priority);
       
       if (priorityCriterion === currentTopPriority) continue;
@@ -970,6 +1333,71 @@ export class OutputGenerator implements IOutputGenerator {
     return scenarios;
   }
 
+  /**
+   * Generate scenarios from weight sensitivity thresholds
+   * Each threshold is the priority value at which another option takes the lead; scanned
+   * thresholds say so, since a briefer lead change can slip between scan steps
+   * @param sensitivity - Sensitivity analysis from the comparison engine
+   * @returns Threshold-based alternative scenarios, nearest thresholds first
+   */
+  private generateSensitivityScenarios(sensitivity: SensitivityAnalysis): AlternativeScenario[] {
+    const candidates: Array<{ distance: number; scenario: AlternativeScenario }> = [];
+    const scanNote = sensitivity.thresholdMethod === 'scan'
+      ? ` Threshold found by scanning in steps of ${sensitivity.scanStep}; a briefer lead change may be missed.`
+      : '';
+
+    for (const analysis of sensitivity.priorities) {
+      const label = this.formatPriorityName(analysis.priority);
+      const range = `${analysis.stableRange.min} and ${analysis.stableRange.max}`;
+
+      if (analysis.lowerThreshold) {
+        candidates.push({
+          distance: analysis.currentValue - analysis.lowerThreshold.value,
+          scenario: {
+            scenario: `If ${label} priority drops below ${analysis.lowerThreshold.value}`,
+            recommendedOption: analysis.lowerThreshold.newWinner,
+            reasoning: `${sensitivity.currentWinner.name} stays on top while ${label} priority is between ${range} ` +
+                      `(currently ${analysis.currentValue}); below that, ${analysis.lowerThreshold.newWinner.name} ranks first.` +
+                      scanNote,
+          },
+        });
+      }
+
+      if (analysis.upperThreshold) {
+        candidates.push({
+          distance: analysis.upperThreshold.value - analysis.currentValue,
+          scenario: {
+            scenario: `If ${label} priority rises above ${analysis.upperThreshold.value}`,
+            recommendedOption: analysis.upperThreshold.newWinner,
+            reasoning: `${sensitivity.currentWinner.name} stays on top while ${label} priority is between ${range} ` +
+                      `(currently ${analysis.currentValue}); above that, ${analysis.upperThreshold.newWinner.name} ranks first.` +
+                      scanNote,
+          },
+        });
+      }
+    }
+
+    return candidates
+      .sort((a, b) => a.distance - b.distance)
+      .map(candidate => candidate.scenario);
+  }
+
+  /**
+   * Format a priority key for display
+   * @param priority - Priority key
+   * @returns Human-readable priority name
+   */
+  private formatPriorityName(priority: PriorityName): string {
+    const names: Record<PriorityName, string> = {
+      cost: 'cost',
+      performance: 'performance',
+      easeOfUse: 'ease of use',
+      scalability: 'scalability',
+      vendorLockIn: 'vendor lock-in avoidance',
+    };
+    return names[priority];
+  }
+
   /**
    * Generate scenarios based on different contexts
    * @param result - Evaluation result
@@ -1170,7 +1598,7 @@ export class OutputGenerator implements IOutputGenerator {
     return {
       scenario: `If ${priorityName} becomes your top priority`,
       recommendedOption: option,
-      reasoning: `${option.name} excels in ${this.formatCriterionName(criterionName).toLowerCase()} ` +
+      reasoning: `${option.name} excels in ${this.formatCriterionName(criterionName, result.criterionLabels).toLowerCase()} ` +
                 `(${Math.round(score)}/100), making it the optimal choice for this focus area.`,
     };
   }
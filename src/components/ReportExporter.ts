@@ -0,0 +1,458 @@
+/**
+ * Report Exporter
+ * Renders a comparison output as a Markdown document or a standalone HTML report
+ * for pasting into design documents and wikis
+ */
+
+import {
+  ComparisonOutput,
+  UserConstraints,
+  ReportFormat,
+  ReportOptions,
+  Recommendation,
+  ComparisonTable,
+  UncertaintyAnalysis,
+  Shortlist,
+} from '../types';
+
+/** Title used when none is given */
+const DEFAULT_REPORT_TITLE = 'Technology Comparison Report';
+
+/** Content type of each report format */
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+/** File extension of each report format */
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+};
+
+/** Stylesheet inlined into HTML reports so they render without any other files */
+const REPORT_CSS = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2933; line-height: 1.5; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 2px solid #e4e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .generated { color: #616e7c; margin-top: 0; }
+  .recommendation { background: #f0f4ff; border-left: 4px solid #3f51b5; padding: 1rem 1.25rem; border-radius: 4px; }
+  .confidence-bar { background: #d9e2ec; border-radius: 4px; height: 8px; max-width: 320px; }
+  .confidence-fill { background: #3f51b5; border-radius: 4px; height: 8px; }
+  .warning { background: #fff8e1; border-left: 4px solid #f9a825; padding: 0.5rem 0.75rem; margin: 0.5rem 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+  th, td { border: 1px solid #cbd2d9; padding: 0.4rem 0.6rem; text-align: left; }
+  th { background: #f5f7fa; }
+  .pros-cons { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 1rem; }
+  .pros-cons section { border: 1px solid #e4e7eb; border-radius: 4px; padding: 0 1rem; }
+  .pros li::marker { content: "+ "; color: #2e7d32; }
+  .cons li::marker { content: "- "; color: #c62828; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/**
+ * Exports comparison outputs as Markdown or HTML reports
+ * Both formats cover the same sections: recommendation, constraints, comparison table,
+ * pros and cons, trade-offs, alternative scenarios and any optional analyses
+ */
+export class ReportExporter {
+  /**
+   * Render a report in the given format
+   * @param output - Comparison output to render
+   * @param constraints - Constraints the comparison ran with
+   * @param format - Document format
+   * @param options - Title and timestamp
+   * @returns Report document
+   */
+  export(output: ComparisonOutput, constraints: UserConstraints, format: ReportFormat, options: ReportOptions = {}): string {
+    return format === 'html'
+      ? this.toHtml(output, constraints, options)
+      : this.toMarkdown(output, constraints, options);
+  }
+
+  /**
+   * Render a report as a Markdown document
+   * @param output - Comparison output to render
+   * @param constraints - Constraints the comparison ran with
+   * @param options - Title and timestamp
+   * @returns Markdown document
+   */
+  toMarkdown(output: ComparisonOutput, constraints: UserConstraints, options: ReportOptions = {}): string {
+    const lines: string[] = [
+      `# ${options.title || DEFAULT_REPORT_TITLE}`,
+      '',
+      `_Generated ${this.formatTimestamp(options.generatedAt || new Date())}_`,
+      '',
+      '## Recommendation',
+      '',
+      ...this.recommendationMarkdown(output.finalRecommendation),
+      '## Constraints',
+      '',
+      '| Constraint | Value |',
+      '| --- | --- |',
+      ...this.describeConstraints(constraints).map(([name, value]) => `| ${name} | ${this.escapeTableCell(value)} |`),
+      '',
+      '## Comparison',
+      '',
+      ...this.tableMarkdown(output.comparisonTable),
+      '',
+    ];
+
+    if (output.eliminated && output.eliminated.length > 0) {
+      lines.push('## Eliminated Options', '');
+      output.eliminated.forEach(({ option, reasons }) => {
+        lines.push(`- **${option.name}**: ${reasons.map(reason => reason.message).join('; ')}`);
+      });
+      lines.push('');
+    }
+
+    if (output.shortlist) {
+      lines.push('## Shortlist', '', ...this.describeShortlist(output.shortlist).map(line => `- ${line}`), '');
+    }
+
+    lines.push('## Pros and Cons', '');
+    output.prosAndCons.forEach(({ option, pros, cons }) => {
+      lines.push(`### ${option.name}`, '', '**Pros**', '');
+      lines.push(...this.listOrNone(pros).map(pro => `- ${pro}`), '');
+      lines.push('**Cons**', '');
+      lines.push(...this.listOrNone(cons).map(con => `- ${con}`), '');
+    });
+
+    lines.push('## Trade-offs', '', this.normalizeNarrative(output.tradeOffExplanation), '');
+
+    lines.push('## Alternative Scenarios', '');
+    if (output.alternativeScenarios.length === 0) {
+      lines.push('The recommendation holds across the scenarios we checked.');
+    }
+    output.alternativeScenarios.forEach(scenario => {
+      lines.push(`- **${scenario.scenario}:** choose ${scenario.recommendedOption.name}. ${scenario.reasoning}`);
+    });
+    lines.push('');
+
+    if (output.uncertainty) {
+      lines.push('## Uncertainty', '', ...this.uncertaintyMarkdown(output.uncertainty), '');
+    }
+
+    if (output.scoreExplanation) {
+      lines.push('## How the Scores Were Calculated', '', this.normalizeNarrative(this.stripTitle(output.scoreExplanation)), '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a report as a standalone HTML document with inline CSS
+   * @param output - Comparison output to render
+   * @param constraints - Constraints the comparison ran with
+   * @param options - Title and timestamp
+   * @returns HTML document
+   */
+  toHtml(output: ComparisonOutput, constraints: UserConstraints, options: ReportOptions = {}): string {
+    const title = this.escapeHtml(options.title || DEFAULT_REPORT_TITLE);
+    const sections: string[] = [
+      `<h1>${title}</h1>`,
+      `<p class="generated">Generated ${this.escapeHtml(this.formatTimestamp(options.generatedAt || new Date()))}</p>`,
+      this.recommendationHtml(output.finalRecommendation),
+      '<h2>Constraints</h2>',
+      this.tableHtml(['Constraint', 'Value'], this.describeConstraints(constraints)),
+      '<h2>Comparison</h2>',
+      this.tableHtml(
+        output.comparisonTable.headers,
+        output.comparisonTable.rows.map(row => output.comparisonTable.headers.map(header => String(row.values[header] ?? 'N/A')))
+      ),
+    ];
+
+    if (output.eliminated && output.eliminated.length > 0) {
+      sections.push('<h2>Eliminated Options</h2>', this.listHtml(output.eliminated.map(({ option, reasons }) =>
+        `<strong>${this.escapeHtml(option.name)}</strong>: ${this.escapeHtml(reasons.map(reason => reason.message).join('; '))}`
+      )));
+    }
+
+    if (output.shortlist) {
+      sections.push('<h2>Shortlist</h2>', this.listHtml(this.describeShortlist(output.shortlist).map(line => this.renderInline(line))));
+    }
+
+    sections.push('<h2>Pros and Cons</h2>', `<div class="pros-cons">${output.prosAndCons.map(({ option, pros, cons }) =>
+      `<section><h3>${this.escapeHtml(option.name)}</h3>` +
+      `<h4>Pros</h4>${this.listHtml(this.listOrNone(pros).map(pro => this.escapeHtml(pro)), 'pros')}` +
+      `<h4>Cons</h4>${this.listHtml(this.listOrNone(cons).map(con => this.escapeHtml(con)), 'cons')}</section>`
+    ).join('')}</div>`);
+
+    sections.push('<h2>Trade-offs</h2>', this.renderNarrative(output.tradeOffExplanation));
+
+    sections.push('<h2>Alternative Scenarios</h2>', output.alternativeScenarios.length === 0
+      ? '<p>The recommendation holds across the scenarios we checked.</p>'
+      : this.listHtml(output.alternativeScenarios.map(scenario =>
+        `<strong>${this.escapeHtml(scenario.scenario)}:</strong> choose ${this.escapeHtml(scenario.recommendedOption.name)}. ` +
+        this.escapeHtml(scenario.reasoning)
+      )));
+
+    if (output.uncertainty) {
+      sections.push('<h2>Uncertainty</h2>', this.uncertaintyHtml(output.uncertainty));
+    }
+
+    if (output.scoreExplanation) {
+      sections.push('<h2>How the Scores Were Calculated</h2>', this.renderNarrative(this.stripTitle(output.scoreExplanation)));
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${title}</title>`,
+      `<style>${REPORT_CSS}</style>`,
+      '</head>',
+      '<body>',
+      ...sections,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Recommendation with confidence, reasoning, key factors and warnings as Markdown lines
+   */
+  private recommendationMarkdown(recommendation: Recommendation): string[] {
+    const lines = [
+      `**${recommendation.recommendedOption.name}** (${recommendation.recommendedOption.category}) - ` +
+        `confidence ${this.formatPercent(recommendation.confidence)}`,
+      '',
+      recommendation.reasoning,
+      '',
+    ];
+
+    if (recommendation.keyFactors.length > 0) {
+      lines.push('**Key factors**', '', ...recommendation.keyFactors.map(factor => `- ${factor}`), '');
+    }
+    if (recommendation.warnings.length > 0) {
+      lines.push(...recommendation.warnings.map(warning => `> **Warning:** ${warning}`), '');
+    }
+    return lines;
+  }
+
+  /**
+   * Recommendation card as HTML
+   */
+  private recommendationHtml(recommendation: Recommendation): string {
+    const confidence = this.formatPercent(recommendation.confidence);
+    let html = '<section class="recommendation">' +
+      `<h2>Recommendation: ${this.escapeHtml(recommendation.recommendedOption.name)}</h2>` +
+      `<p>Confidence: ${confidence}</p>` +
+      `<div class="confidence-bar"><div class="confidence-fill" style="width: ${confidence}"></div></div>` +
+      `<p>${this.escapeHtml(recommendation.reasoning)}</p>`;
+
+    if (recommendation.keyFactors.length > 0) {
+      html += `<h3>Key factors</h3>${this.listHtml(recommendation.keyFactors.map(factor => this.escapeHtml(factor)))}`;
+    }
+    html += recommendation.warnings
+      .map(warning => `<div class="warning"><strong>Warning:</strong> ${this.escapeHtml(warning)}</div>`)
+      .join('');
+
+    return `${html}</section>`;
+  }
+
+  /**
+   * Comparison table as Markdown lines
+   */
+  private tableMarkdown(table: ComparisonTable): string[] {
+    return [
+      `| ${table.headers.map(header => this.escapeTableCell(header)).join(' | ')} |`,
+      `| ${table.headers.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row =>
+        `| ${table.headers.map(header => this.escapeTableCell(String(row.values[header] ?? 'N/A'))).join(' | ')} |`
+      ),
+    ];
+  }
+
+  /**
+   * Monte Carlo results as Markdown lines
+   */
+  private uncertaintyMarkdown(uncertainty: UncertaintyAnalysis): string[] {
+    const [summary, headers, rows] = this.describeUncertainty(uncertainty);
+    return [
+      summary,
+      '',
+      `| ${headers.join(' | ')} |`,
+      `| ${headers.map(() => '---').join(' | ')} |`,
+      ...rows.map(row => `| ${row.map(cell => this.escapeTableCell(cell)).join(' | ')} |`),
+    ];
+  }
+
+  /**
+   * Monte Carlo results as HTML
+   */
+  private uncertaintyHtml(uncertainty: UncertaintyAnalysis): string {
+    const [summary, headers, rows] = this.describeUncertainty(uncertainty);
+    return `<p>${this.escapeHtml(summary)}</p>${this.tableHtml(headers, rows)}`;
+  }
+
+  /**
+   * Summary line, headers and rows describing a Monte Carlo simulation
+   */
+  private describeUncertainty(uncertainty: UncertaintyAnalysis): [string, string[], string[][]] {
+    const level = this.formatPercent(uncertainty.confidenceLevel);
+    return [
+      `Based on ${uncertainty.iterations} simulated evaluations (seed ${uncertainty.seed}).`,
+      ['Option', 'Chance of ranking first', 'Mean score', `${level} interval`, 'Expected rank'],
+      uncertainty.options.map(entry => [
+        entry.option.name,
+        this.formatPercent(entry.probabilityOfFirst),
+        entry.meanScore.toFixed(1),
+        `${entry.confidenceInterval.lower.toFixed(1)} - ${entry.confidenceInterval.upper.toFixed(1)}`,
+        entry.expectedRank.toFixed(1),
+      ]),
+    ];
+  }
+
+  /**
+   * Describe the constraints as name/value pairs
+   */
+  private describeConstraints(constraints: UserConstraints): Array<[string, string]> {
+    const priorities = constraints.priorities;
+    const rows: Array<[string, string]> = [
+      ['Budget', this.capitalize(constraints.budget)],
+      ['Scale', `${constraints.scale.users.toLocaleString('en-US')} users, ${constraints.scale.traffic} traffic`],
+      ['Team', `${this.capitalize(constraints.team.skillLevel)} skill level` +
+        (constraints.team.experience.length > 0 ? `, experienced with ${constraints.team.experience.join(', ')}` : '')],
+      ['Timeline', this.capitalize(constraints.timeline)],
+      ['Priorities', `Cost ${priorities.cost}/5, Performance ${priorities.performance}/5, Ease of use ${priorities.easeOfUse}/5, ` +
+        `Scalability ${priorities.scalability}/5, Vendor lock-in avoidance ${priorities.vendorLockIn}/5`],
+    ];
+
+    const mustHave = constraints.hardConstraints?.mustHave || [];
+    if (mustHave.length > 0) {
+      rows.push(['Must have', mustHave.map(requirement =>
+        requirement.description || `${requirement.field} ${requirement.operator} ${JSON.stringify(requirement.value)}`
+      ).join('; ')]);
+    }
+
+    const minimumScores = Object.entries(constraints.hardConstraints?.minimumScores || {});
+    if (minimumScores.length > 0) {
+      rows.push(['Minimum scores', minimumScores.map(([criterion, score]) => `${criterion} at least ${score}`).join('; ')]);
+    }
+
+    const customCriteria = constraints.customCriteria || [];
+    if (customCriteria.length > 0) {
+      rows.push(['Custom criteria', customCriteria.map(criterion =>
+        `${criterion.label || criterion.name} ${criterion.priority}/5`
+      ).join(', ')]);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Describe how a candidate set was narrowed down, one line per entry
+   */
+  private describeShortlist(shortlist: Shortlist): string[] {
+    return [
+      `${shortlist.candidateCount} candidates considered; finalists: ${shortlist.finalists.map(option => option.name).join(', ')}`,
+      ...shortlist.cut.map(cut => `**${cut.option.name}** cut at the ${cut.stage} stage: ${cut.reason}`),
+    ];
+  }
+
+  /**
+   * HTML table from headers and rows of plain text
+   */
+  private tableHtml(headers: string[], rows: string[][]): string {
+    return '<table><thead><tr>' +
+      headers.map(header => `<th>${this.escapeHtml(header)}</th>`).join('') +
+      '</tr></thead><tbody>' +
+      rows.map(row => `<tr>${row.map(cell => `<td>${this.escapeHtml(cell)}</td>`).join('')}</tr>`).join('') +
+      '</tbody></table>';
+  }
+
+  /**
+   * HTML list from items that are already escaped
+   */
+  private listHtml(items: string[], className?: string): string {
+    return `<ul${className ? ` class="${className}"` : ''}>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+  }
+
+  /**
+   * Render the lightweight markdown used by the output generator as HTML
+   * Paragraphs and bullet lines ("-" or "•") become paragraphs and lists
+   */
+  private renderNarrative(text: string): string {
+    const blocks: string[] = [];
+    let items: string[] = [];
+    const flushList = () => {
+      if (items.length > 0) {
+        blocks.push(this.listHtml(items));
+        items = [];
+      }
+    };
+
+    for (const line of text.split('\n').map(raw => raw.trim())) {
+      const bullet = /^[-•]\s+(.*)$/.exec(line);
+      if (bullet) {
+        items.push(this.renderInline(bullet[1]!));
+        continue;
+      }
+
+      flushList();
+      if (line) {
+        blocks.push(`<p>${this.renderInline(line)}</p>`);
+      }
+    }
+    flushList();
+
+    return blocks.join('\n');
+  }
+
+  /**
+   * Escape text and render **bold** spans
+   */
+  private renderInline(text: string): string {
+    return this.escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+  }
+
+  /**
+   * Turn the output generator's "•" bullets into Markdown list items
+   */
+  private normalizeNarrative(text: string): string {
+    return text.replace(/^(\s*)•\s+/gm, '$1- ');
+  }
+
+  /**
+   * Drop a leading bold title line, which the report replaces with a section heading
+   */
+  private stripTitle(text: string): string {
+    return text.replace(/^\*\*[^*\n]+:\*\*\n/, '');
+  }
+
+  /**
+   * Keep empty pro/con lists readable
+   */
+  private listOrNone(items: string[]): string[] {
+    return items.length > 0 ? items : ['None identified'];
+  }
+
+  private escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private formatPercent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+  }
+
+  private formatTimestamp(date: Date): string {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
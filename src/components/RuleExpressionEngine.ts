@@ -0,0 +1,598 @@
+/**
+ * Rule Expression Engine Component
+ * Parses, type-checks and evaluates scoring rule conditions written as expressions over option metadata
+ * Supports Requirements 2.2, 2.3
+ *
+ * Grammar:
+ *   expression := or
+ *   or         := and ('or' and)*
+ *   and        := unary ('and' unary)*
+ *   unary      := 'not' unary | comparison
+ *   comparison := operand (('==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in') operand)?
+ *   operand    := number | string | 'true' | 'false' | list | field | '(' expression ')'
+ *   list       := '[' (operand (',' operand)*)? ']'
+ *   field      := 'metadata' '.' name ('.' 'length')?
+ *
+ * Example: metadata.marketShare > 30 and 'HIPAA' in metadata.certifications
+ */
+
+import {
+  MetadataSchema,
+  RuleExpressionNode,
+  RuleComparisonOperator,
+  TechnicalOption,
+  ValidationResult,
+  ValidationError,
+  RuleExpressionError,
+} from '../types';
+
+type TokenType = 'number' | 'string' | 'identifier' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: string | number;
+  position: number;
+}
+
+type ExpressionType = 'number' | 'string' | 'boolean' | 'list' | 'unknown';
+
+const SYMBOLS = ['==', '!=', '<=', '>=', '<', '>', '(', ')', '[', ']', ',', '.'];
+const COMPARISON_SYMBOLS: readonly string[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Recursive descent parser for a single expression
+ */
+class RuleExpressionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): RuleExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.fail(`Unexpected ${this.describe(token)}`, token);
+    }
+    return node;
+  }
+
+  private parseOr(): RuleExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or')) {
+      const position = this.previous().position;
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpressionNode {
+    let left = this.parseUnary();
+    while (this.matchKeyword('and')) {
+      const position = this.previous().position;
+      left = { kind: 'logical', operator: 'and', left, right: this.parseUnary(), position };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleExpressionNode {
+    if (this.matchKeyword('not')) {
+      const position = this.previous().position;
+      return { kind: 'not', operand: this.parseUnary(), position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleExpressionNode {
+    const left = this.parseOperand();
+    const operator = this.matchComparisonOperator();
+    if (!operator) {
+      return left;
+    }
+
+    const position = this.previous().position;
+    const right = this.parseOperand();
+    if (this.peekComparisonOperator()) {
+      this.fail('Comparisons cannot be chained - combine them with "and"', this.peek());
+    }
+    return { kind: 'comparison', operator, left, right, position };
+  }
+
+  private parseOperand(): RuleExpressionNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value!, position: token.position };
+
+      case 'symbol':
+        if (token.text === '(') {
+          const node = this.parseOr();
+          this.expectSymbol(')');
+          return node;
+        }
+        if (token.text === '[') {
+          return this.parseList(token.position);
+        }
+        break;
+
+      case 'identifier':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', value: token.text === 'true', position: token.position };
+        }
+        if (token.text === 'metadata') {
+          return this.parseField(token.position);
+        }
+        if (!['and', 'or', 'not', 'in'].includes(token.text)) {
+          this.fail(`Unknown name "${token.text}" - metadata fields are written as metadata.${token.text}`, token);
+        }
+        break;
+
+      case 'end':
+        break;
+    }
+
+    return this.fail(`Expected a value but found ${this.describe(token)}`, token);
+  }
+
+  private parseList(position: number): RuleExpressionNode {
+    const items: RuleExpressionNode[] = [];
+    if (!this.matchSymbol(']')) {
+      do {
+        items.push(this.parseOperand());
+      } while (this.matchSymbol(','));
+      this.expectSymbol(']');
+    }
+    return { kind: 'list', items, position };
+  }
+
+  private parseField(position: number): RuleExpressionNode {
+    const path: string[] = [];
+    do {
+      this.expectSymbol('.');
+      const token = this.advance();
+      if (token.type !== 'identifier') {
+        this.fail(`Expected a field name but found ${this.describe(token)}`, token);
+      }
+      path.push(token.text);
+    } while (this.peek().type === 'symbol' && this.peek().text === '.');
+    return { kind: 'field', path, position };
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position]!;
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      // Negative numbers are written as literals; the language has no arithmetic
+      const number = /^-?\d+(\.\d+)?/.exec(source.slice(position));
+      if (number) {
+        tokens.push({ type: 'number', text: number[0], value: Number(number[0]), position });
+        position += number[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const start = position;
+        let value = '';
+        position++;
+        while (position < source.length && source[position] !== char) {
+          if (source[position] === '\\' && position + 1 < source.length) {
+            position++;
+          }
+          value += source[position];
+          position++;
+        }
+        if (position >= source.length) {
+          this.fail('Unterminated string', { type: 'string', text: char, position: start });
+        }
+        position++;
+        tokens.push({ type: 'string', text: source.slice(start, position), value, position: start });
+        continue;
+      }
+
+      const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position));
+      if (identifier) {
+        tokens.push({ type: 'identifier', text: identifier[0], position });
+        position += identifier[0].length;
+        continue;
+      }
+
+      const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, position));
+      if (symbol) {
+        tokens.push({ type: 'symbol', text: symbol, position });
+        position += symbol.length;
+        continue;
+      }
+
+      this.fail(`Unexpected character "${char}"`, { type: 'symbol', text: char, position });
+    }
+
+    tokens.push({ type: 'end', text: '', position: source.length });
+    return tokens;
+  }
+
+  private matchComparisonOperator(): RuleComparisonOperator | null {
+    const token = this.peek();
+    if (token.type === 'symbol' && COMPARISON_SYMBOLS.includes(token.text)) {
+      this.advance();
+      return token.text as RuleComparisonOperator;
+    }
+    if (this.matchKeyword('in')) {
+      return 'in';
+    }
+    if (this.isKeyword(this.peek(), 'not') && this.isKeyword(this.peek(1), 'in')) {
+      this.advance();
+      this.advance();
+      return 'not in';
+    }
+    return null;
+  }
+
+  private peekComparisonOperator(): boolean {
+    const token = this.peek();
+    return (token.type === 'symbol' && COMPARISON_SYMBOLS.includes(token.text)) || this.isKeyword(token, 'in');
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'identifier' && token.text === keyword;
+  }
+
+  private matchSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.text === symbol) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.matchSymbol(symbol)) {
+      this.fail(`Expected "${symbol}" but found ${this.describe(this.peek())}`, this.peek());
+    }
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!;
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1]!;
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of expression' : `"${token.text}"`;
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new RuleExpressionError(this.source, [{
+      field: 'expression',
+      message: `${message} at position ${token.position + 1}`,
+      code: 'RULE_EXPRESSION_SYNTAX_ERROR',
+    }]);
+  }
+}
+
+/**
+ * Parses, type-checks and evaluates rule expressions
+ * Comparisons involving a field the option does not declare are false, so missing metadata
+ * never triggers a rule
+ */
+export class RuleExpressionEngine {
+
+  /**
+   * Parse an expression
+   * @param source - Expression source
+   * @returns Parsed expression
+   * @throws RuleExpressionError if the expression is not syntactically valid
+   */
+  parse(source: string): RuleExpressionNode {
+    return new RuleExpressionParser(source).parse();
+  }
+
+  /**
+   * Type-check a parsed expression against a metadata schema
+   * @param node - Parsed expression
+   * @param schema - Metadata fields of the category, or null to accept any field
+   * @returns Validation result listing every type error
+   */
+  typeCheck(node: RuleExpressionNode, schema: MetadataSchema | null): ValidationResult {
+    const errors: ValidationError[] = [];
+    const type = this.inferType(node, schema, errors);
+    if (type !== 'boolean' && type !== 'unknown') {
+      this.addTypeError(errors, node, `Expression must evaluate to true or false, not a ${type}`);
+    }
+    return { isValid: errors.length === 0, errors, warnings: [] };
+  }
+
+  /**
+   * Parse and type-check an expression
+   * @param source - Expression source
+   * @param schema - Metadata fields of the category, or null to accept any field
+   * @returns Validation result with syntax or type errors
+   */
+  validate(source: string, schema: MetadataSchema | null): ValidationResult {
+    try {
+      return this.typeCheck(this.parse(source), schema);
+    } catch (error) {
+      if (error instanceof RuleExpressionError) {
+        return { isValid: false, errors: error.errors, warnings: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compile an expression into a scoring rule condition
+   * @param source - Expression source
+   * @param schema - Metadata fields of the category, or null to accept any field
+   * @returns Condition that evaluates the expression against an option
+   * @throws RuleExpressionError if the expression fails to parse or type-check
+   */
+  compile(source: string, schema: MetadataSchema | null): (option: TechnicalOption) => boolean {
+    const node = this.parse(source);
+    const validation = this.typeCheck(node, schema);
+    if (!validation.isValid) {
+      throw new RuleExpressionError(source, validation.errors);
+    }
+    return (option) => this.evaluate(node, option);
+  }
+
+  /**
+   * Evaluate a parsed expression against an option's metadata
+   * @param node - Parsed expression
+   * @param option - Option to evaluate
+   * @returns True when the expression holds
+   */
+  evaluate(node: RuleExpressionNode, option: TechnicalOption): boolean {
+    return this.evaluateNode(node, option.metadata || {}) === true;
+  }
+
+  private evaluateNode(node: RuleExpressionNode, metadata: Record<string, any>): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'list':
+        return node.items.map(item => this.evaluateNode(item, metadata));
+      case 'field': {
+        const value = metadata[node.path[0]!];
+        if (node.path.length === 1) {
+          return value;
+        }
+        const hasLength = node.path.length === 2 && node.path[1] === 'length';
+        return hasLength && (Array.isArray(value) || typeof value === 'string') ? value.length : undefined;
+      }
+      case 'not':
+        return this.evaluateNode(node.operand, metadata) !== true;
+      case 'logical':
+        return node.operator === 'and'
+          ? this.evaluateNode(node.left, metadata) === true && this.evaluateNode(node.right, metadata) === true
+          : this.evaluateNode(node.left, metadata) === true || this.evaluateNode(node.right, metadata) === true;
+      case 'comparison':
+        return this.compare(node.operator, this.evaluateNode(node.left, metadata), this.evaluateNode(node.right, metadata));
+    }
+  }
+
+  private compare(operator: RuleComparisonOperator, left: unknown, right: unknown): boolean {
+    if (left === undefined || left === null || right === undefined || right === null) {
+      return false;
+    }
+
+    switch (operator) {
+      case '==': return left === right;
+      case '!=': return left !== right;
+      case '<': return typeof left === 'number' && typeof right === 'number' && left < right;
+      case '<=': return typeof left === 'number' && typeof right === 'number' && left <= right;
+      case '>': return typeof left === 'number' && typeof right === 'number' && left > right;
+      case '>=': return typeof left === 'number' && typeof right === 'number' && left >= right;
+      case 'in': return this.contains(right, left);
+      case 'not in': return !this.contains(right, left);
+    }
+  }
+
+  private contains(container: unknown, value: unknown): boolean {
+    if (Array.isArray(container)) {
+      return container.includes(value);
+    }
+    return typeof container === 'string' && typeof value === 'string' && container.includes(value);
+  }
+
+  private inferType(node: RuleExpressionNode, schema: MetadataSchema | null, errors: ValidationError[]): ExpressionType {
+    switch (node.kind) {
+      case 'literal':
+        return typeof node.value as ExpressionType;
+
+      case 'list': {
+        const types = new Set(node.items.map(item => this.inferType(item, schema, errors)).filter(type => type !== 'unknown'));
+        if (types.size > 1) {
+          this.addTypeError(errors, node, 'List items must all have the same type');
+        }
+        if (types.has('list')) {
+          this.addTypeError(errors, node, 'Lists cannot contain lists');
+        }
+        return 'list';
+      }
+
+      case 'field':
+        return this.inferFieldType(node.path, node, schema, errors);
+
+      case 'not':
+        this.expectType(node.operand, 'boolean', '"not"', schema, errors);
+        return 'boolean';
+
+      case 'logical':
+        this.expectType(node.left, 'boolean', `"${node.operator}"`, schema, errors);
+        this.expectType(node.right, 'boolean', `"${node.operator}"`, schema, errors);
+        return 'boolean';
+
+      case 'comparison':
+        this.checkComparison(node, schema, errors);
+        return 'boolean';
+    }
+  }
+
+  private inferFieldType(
+    path: string[],
+    node: RuleExpressionNode,
+    schema: MetadataSchema | null,
+    errors: ValidationError[]
+  ): ExpressionType {
+    const field = path[0]!;
+    const isLength = path.length === 2 && path[1] === 'length';
+    if (path.length > 1 && !isLength) {
+      this.addTypeError(errors, node, `metadata.${path.join('.')} is not valid - only .length is supported, on lists and text`);
+      return 'unknown';
+    }
+    if (!schema) {
+      return isLength ? 'number' : 'unknown';
+    }
+
+    const definition = schema[field];
+    if (!definition) {
+      this.addTypeError(errors, node, `Unknown metadata field "${field}" (available: ${Object.keys(schema).join(', ')})`);
+      return 'unknown';
+    }
+    if (!isLength) {
+      return definition.type;
+    }
+    if (definition.type !== 'list' && definition.type !== 'string') {
+      this.addTypeError(errors, node, `metadata.${field} is a ${definition.type} and has no length`);
+      return 'unknown';
+    }
+    return 'number';
+  }
+
+  private checkComparison(
+    node: Extract<RuleExpressionNode, { kind: 'comparison' }>,
+    schema: MetadataSchema | null,
+    errors: ValidationError[]
+  ): void {
+    const left = this.inferType(node.left, schema, errors);
+    const right = this.inferType(node.right, schema, errors);
+
+    switch (node.operator) {
+      case '==':
+      case '!=':
+        if (left === 'list' || right === 'list') {
+          this.addTypeError(errors, node, `"${node.operator}" cannot compare lists - use "in" to test membership`);
+        } else if (left !== 'unknown' && right !== 'unknown' && left !== right) {
+          this.addTypeError(errors, node, `Cannot compare ${left} with ${right}`);
+        } else {
+          this.checkAllowedValues(node.left, [node.right], schema, errors);
+          this.checkAllowedValues(node.right, [node.left], schema, errors);
+        }
+        break;
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        for (const type of [left, right]) {
+          if (type !== 'number' && type !== 'unknown') {
+            this.addTypeError(errors, node, `"${node.operator}" requires numbers, not a ${type}`);
+          }
+        }
+        break;
+
+      case 'in':
+      case 'not in':
+        if (left === 'list' || left === 'boolean') {
+          this.addTypeError(errors, node, `The left side of "${node.operator}" must be a single value, not a ${left}`);
+        }
+        if (right === 'string') {
+          if (left !== 'string' && left !== 'unknown') {
+            this.addTypeError(errors, node, `Only text can be searched for in text, not a ${left}`);
+          }
+        } else if (right !== 'list' && right !== 'unknown') {
+          this.addTypeError(errors, node, `The right side of "${node.operator}" must be a list or text, not a ${right}`);
+        } else if (node.right.kind === 'list') {
+          const mismatched = node.right.items
+            .map(item => this.inferType(item, schema, []))
+            .filter(type => type !== 'unknown' && left !== 'unknown' && type !== left);
+          if (mismatched.length > 0) {
+            this.addTypeError(errors, node, `Cannot look for a ${left} in a list of ${mismatched[0]} values`);
+          }
+          this.checkAllowedValues(node.left, node.right.items, schema, errors);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Flag string literals compared with an enumerated field that are not among its allowed values
+   */
+  private checkAllowedValues(
+    fieldNode: RuleExpressionNode,
+    candidates: RuleExpressionNode[],
+    schema: MetadataSchema | null,
+    errors: ValidationError[]
+  ): void {
+    if (!schema || fieldNode.kind !== 'field' || fieldNode.path.length !== 1) {
+      return;
+    }
+    const definition = schema[fieldNode.path[0]!];
+    if (!definition || definition.type !== 'string' || !definition.values) {
+      return;
+    }
+
+    for (const candidate of candidates) {
+      if (candidate.kind === 'literal' && typeof candidate.value === 'string' && !definition.values.includes(candidate.value)) {
+        this.addTypeError(
+          errors,
+          candidate,
+          `"${candidate.value}" is not a valid value for metadata.${fieldNode.path[0]} (expected one of: ${definition.values.join(', ')})`
+        );
+      }
+    }
+  }
+
+  private expectType(
+    node: RuleExpressionNode,
+    expected: ExpressionType,
+    context: string,
+    schema: MetadataSchema | null,
+    errors: ValidationError[]
+  ): void {
+    const actual = this.inferType(node, schema, errors);
+    if (actual !== expected && actual !== 'unknown') {
+      this.addTypeError(errors, node, `${context} requires a ${expected}, not a ${actual}`);
+    }
+  }
+
+  private addTypeError(errors: ValidationError[], node: RuleExpressionNode, message: string): void {
+    errors.push({
+      field: 'expression',
+      message: `${message} at position ${node.position + 1}`,
+      code: 'RULE_EXPRESSION_TYPE_ERROR',
+    });
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Scenario Manager
+ * Forks a session into named what-if scenarios, each with its own constraints and evaluations,
+ * and compares their results side by side
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  UserConstraints,
+  UserConstraintUpdates,
+  UserSession,
+  EvaluationResult,
+  Scenario,
+  ScenarioComparison,
+  ScenarioOutcome,
+  ScenarioOptionComparison,
+  ScenarioConstraintDifference,
+  SessionNotFoundError,
+  ScenarioNotFoundError,
+  InvalidScenarioError,
+  InvalidConstraintsError,
+} from '../types';
+import { ComparisonEngine } from './ComparisonEngine';
+import { ConstraintUpdateManagerImpl } from './ConstraintUpdateManager';
+import { KnowledgeBase } from './KnowledgeBase';
+import { OutputGenerator } from './OutputGenerator';
+import { SessionManager } from './SessionManager';
+
+/** Longest accepted scenario name */
+const MAX_SCENARIO_NAME_LENGTH = 80;
+
+/**
+ * Result of forking or updating a scenario
+ */
+export interface ScenarioChange {
+  /** Scenario after the change */
+  scenario: Scenario;
+  /** Evaluation run for the change, or null when the session has too few options selected */
+  evaluationResult: EvaluationResult | null;
+  /** Warnings raised while validating the scenario's constraints */
+  warnings: string[];
+}
+
+/**
+ * Manages what-if scenarios stored on a session
+ * Scenarios share the session's selected options but never touch its constraints or history,
+ * so several constraint sets can be kept alive and compared at once
+ */
+export class ScenarioManager {
+  private sessionManager: SessionManager;
+  private updateManager: ConstraintUpdateManagerImpl;
+  private comparisonEngine: ComparisonEngine;
+  private outputGenerator: OutputGenerator;
+
+  /**
+   * @param knowledgeBase - Knowledge base used to evaluate scenarios
+   * @param sessionManager - Session manager shared with the rest of the application (defaults to in-memory)
+   * @param comparisonEngine - Configured engine used to evaluate scenarios (defaults to one with default settings)
+   */
+  constructor(knowledgeBase?: KnowledgeBase, sessionManager?: SessionManager, comparisonEngine?: ComparisonEngine) {
+    this.sessionManager = sessionManager || new SessionManager();
+    this.comparisonEngine = comparisonEngine || new ComparisonEngine(knowledgeBase);
+    this.updateManager = new ConstraintUpdateManagerImpl(knowledgeBase, this.sessionManager, this.comparisonEngine);
+    this.outputGenerator = new OutputGenerator();
+  }
+
+  /**
+   * Fork a new scenario from the session's constraints or from another scenario
+   * The scenario is evaluated straight away when the session has options selected
+   * @param sessionId - Session to fork
+   * @param name - Scenario name, unique within the session
+   * @param updates - Constraint changes that set this scenario apart
+   * @param fromScenarioId - Scenario to copy the constraints from instead of the session
+   * @returns New scenario, its first evaluation and validation warnings
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   * @throws ScenarioNotFoundError if the scenario to fork from does not exist
+   * @throws InvalidScenarioError if the name is empty, too long or already taken
+   * @throws InvalidConstraintsError if the resulting constraints are invalid
+   */
+  forkScenario(
+    sessionId: string,
+    name: string,
+    updates: UserConstraintUpdates = {},
+    fromScenarioId?: string
+  ): ScenarioChange {
+    const session = this.requireSession(sessionId);
+    const trimmedName = this.validateName(session, name);
+    const base = fromScenarioId ? this.requireScenario(session, fromScenarioId).constraints : session.constraints;
+    const { constraints, warnings } = this.applyUpdates(base, updates);
+
+    const now = new Date();
+    const scenario: Scenario = {
+      id: randomUUID(),
+      name: trimmedName,
+      ...(fromScenarioId && { parentId: fromScenarioId }),
+      constraints,
+      evaluationHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // The scenario is only added once its evaluation has succeeded
+    const evaluationResult = this.evaluateConstraints(session, constraints);
+    if (evaluationResult) {
+      scenario.evaluationHistory.push(evaluationResult);
+    }
+    session.scenarios = [...(session.scenarios || []), scenario];
+    this.sessionManager.saveSession(session);
+
+    return { scenario, evaluationResult, warnings };
+  }
+
+  /**
+   * Change a scenario's constraints and re-evaluate it
+   * @param sessionId - Session the scenario belongs to
+   * @param scenarioId - Scenario to update
+   * @param updates - Partial constraint updates
+   * @returns Updated scenario, its new evaluation and validation warnings
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   * @throws ScenarioNotFoundError if the scenario does not exist
+   * @throws InvalidConstraintsError if the resulting constraints are invalid
+   */
+  updateScenario(sessionId: string, scenarioId: string, updates: UserConstraintUpdates): ScenarioChange {
+    const session = this.requireSession(sessionId);
+    const scenario = this.requireScenario(session, scenarioId);
+    const { constraints, warnings } = this.applyUpdates(scenario.constraints, updates);
+
+    // The new constraints are only kept once their evaluation has succeeded
+    const evaluationResult = this.evaluateConstraints(session, constraints);
+    scenario.constraints = constraints;
+    scenario.updatedAt = new Date();
+    if (evaluationResult) {
+      scenario.evaluationHistory.push(evaluationResult);
+    }
+    this.sessionManager.saveSession(session);
+
+    return { scenario, evaluationResult, warnings };
+  }
+
+  /**
+   * Re-evaluate a scenario against the session's current options
+   * @param sessionId - Session the scenario belongs to
+   * @param scenarioId - Scenario to evaluate
+   * @returns New evaluation result
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   * @throws ScenarioNotFoundError if the scenario does not exist
+   * @throws InvalidOptionsError if the session's options cannot be compared
+   */
+  evaluateScenario(sessionId: string, scenarioId: string): EvaluationResult {
+    const session = this.requireSession(sessionId);
+    const scenario = this.requireScenario(session, scenarioId);
+
+    const result = this.comparisonEngine.evaluate(session.selectedOptions, scenario.constraints);
+    scenario.evaluationHistory.push(result);
+    this.sessionManager.saveSession(session);
+
+    return result;
+  }
+
+  /**
+   * Get a scenario
+   * @returns Scenario, or null if the session or scenario does not exist
+   */
+  getScenario(sessionId: string, scenarioId: string): Scenario | null {
+    const session = this.sessionManager.getSession(sessionId);
+    return session?.scenarios?.find(scenario => scenario.id === scenarioId) || null;
+  }
+
+  /**
+   * List a session's scenarios, oldest first
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   */
+  listScenarios(sessionId: string): Scenario[] {
+    return this.requireSession(sessionId).scenarios || [];
+  }
+
+  /**
+   * Delete a scenario
+   * Scenarios forked from it keep their constraints
+   * @returns Whether the scenario existed
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   */
+  deleteScenario(sessionId: string, scenarioId: string): boolean {
+    const session = this.requireSession(sessionId);
+    const scenarios = session.scenarios || [];
+    const remaining = scenarios.filter(scenario => scenario.id !== scenarioId);
+    if (remaining.length === scenarios.length) {
+      return false;
+    }
+
+    session.scenarios = remaining;
+    this.sessionManager.saveSession(session);
+    return true;
+  }
+
+  /**
+   * Compare several scenarios evaluated against the session's current options
+   * Shows how the constraints, rankings, scores and recommendation differ between them.
+   * Scenarios are re-evaluated rather than read from their history, which may predate a change of options
+   * @param sessionId - Session the scenarios belong to
+   * @param scenarioIds - Scenarios to compare, in display order (defaults to all of them)
+   * @returns Side-by-side scenario comparison
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   * @throws ScenarioNotFoundError if a requested scenario does not exist
+   * @throws InvalidScenarioError if fewer than two scenarios are compared
+   * @throws InvalidOptionsError if the session's options cannot be compared
+   */
+  compareScenarios(sessionId: string, scenarioIds?: string[]): ScenarioComparison {
+    const session = this.requireSession(sessionId);
+    const scenarios = scenarioIds
+      ? scenarioIds.map(id => this.requireScenario(session, id))
+      : session.scenarios || [];
+
+    if (scenarios.length < 2) {
+      throw new InvalidScenarioError([{
+        field: 'scenarioIds',
+        message: 'At least 2 scenarios are needed for a comparison',
+        code: 'SCENARIOS_TOO_FEW',
+      }]);
+    }
+
+    const results = scenarios.map(scenario => this.evaluateConstraints(session, scenario.constraints));
+    const outcomes = scenarios.map((scenario, index) => this.describeOutcome(scenario, results[index] ?? null));
+    const options = this.compareOptions(scenarios, results);
+    const constraintDifferences = this.compareConstraints(scenarios);
+    const recommended = new Set(outcomes.map(outcome => outcome.recommendedOption).filter(name => name !== null));
+
+    return {
+      scenarios: outcomes,
+      options,
+      constraintDifferences,
+      recommendationChanges: recommended.size > 1,
+      summary: this.summarize(outcomes, options, constraintDifferences),
+    };
+  }
+
+  /**
+   * Validate updates against base constraints and return an independent copy with them applied
+   */
+  private applyUpdates(
+    base: UserConstraints,
+    updates: UserConstraintUpdates
+  ): { constraints: UserConstraints; warnings: string[] } {
+    const validation = this.updateManager.validateConstraintUpdates(base, updates);
+    if (!validation.isValid) {
+      throw new InvalidConstraintsError(validation.errors, validation.warnings);
+    }
+
+    return {
+      constraints: structuredClone(this.updateManager.mergeConstraints(base, updates)),
+      warnings: validation.warnings,
+    };
+  }
+
+  /**
+   * Evaluate the session's options under a scenario's constraints
+   * @returns Evaluation result, or null when the session has too few options selected
+   */
+  private evaluateConstraints(session: UserSession, constraints: UserConstraints): EvaluationResult | null {
+    return session.selectedOptions.length >= 2
+      ? this.comparisonEngine.evaluate(session.selectedOptions, constraints)
+      : null;
+  }
+
+  /**
+   * Check that a scenario name is present, short enough and not taken
+   * @returns The trimmed name
+   */
+  private validateName(session: UserSession, name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    const reject = (message: string, code: string): never => {
+      throw new InvalidScenarioError([{ field: 'name', message, code }]);
+    };
+
+    if (!trimmed) {
+      reject('Scenario name is required', 'SCENARIO_NAME_REQUIRED');
+    }
+    if (trimmed.length > MAX_SCENARIO_NAME_LENGTH) {
+      reject(`Scenario name must be at most ${MAX_SCENARIO_NAME_LENGTH} characters`, 'SCENARIO_NAME_TOO_LONG');
+    }
+    if ((session.scenarios || []).some(scenario => scenario.name.toLowerCase() === trimmed.toLowerCase())) {
+      reject(`A scenario named '${trimmed}' already exists`, 'SCENARIO_NAME_TAKEN');
+    }
+
+    return trimmed;
+  }
+
+  private requireSession(sessionId: string): UserSession {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return session;
+  }
+
+  private requireScenario(session: UserSession, scenarioId: string): Scenario {
+    const scenario = session.scenarios?.find(candidate => candidate.id === scenarioId);
+    if (!scenario) {
+      throw new ScenarioNotFoundError(scenarioId);
+    }
+    return scenario;
+  }
+
+  /**
+   * Recommendation and confidence from a scenario's evaluation
+   */
+  private describeOutcome(scenario: Scenario, result: EvaluationResult | null): ScenarioOutcome {
+    const recommendation = result
+      ? this.outputGenerator.generateComparison(result, scenario.constraints).finalRecommendation
+      : null;
+
+    return {
+      id: scenario.id,
+      name: scenario.name,
+      constraints: scenario.constraints,
+      recommendedOption: recommendation?.recommendedOption.name ?? null,
+      confidence: recommendation?.confidence ?? null,
+    };
+  }
+
+  /**
+   * Rank and score of every option in every scenario, best average rank first
+   */
+  private compareOptions(scenarios: Scenario[], results: Array<EvaluationResult | null>): ScenarioOptionComparison[] {
+    const names: string[] = [];
+    results.forEach(result => result?.scores.forEach(({ option }) => {
+      if (!names.includes(option.name)) {
+        names.push(option.name);
+      }
+    }));
+
+    const comparisons = names.map(name => {
+      const ranks: Record<string, number | null> = {};
+      const scores: Record<string, number | null> = {};
+
+      scenarios.forEach((scenario, index) => {
+        const result = results[index];
+        ranks[scenario.id] = result?.rankings.find(ranking => ranking.option.name === name)?.rank ?? null;
+        scores[scenario.id] = result?.scores.find(score => score.option.name === name)?.normalizedScore ?? null;
+      });
+
+      const present = Object.values(scores).filter((score): score is number => score !== null);
+      return {
+        option: name,
+        ranks,
+        scores,
+        scoreSpread: present.length > 0 ? Math.max(...present) - Math.min(...present) : 0,
+      };
+    });
+
+    const averageRank = (comparison: ScenarioOptionComparison) => {
+      const ranks = Object.values(comparison.ranks).filter((rank): rank is number => rank !== null);
+      return ranks.length > 0 ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length : Infinity;
+    };
+
+    return comparisons.sort((a, b) => averageRank(a) - averageRank(b));
+  }
+
+  /**
+   * Constraints that are set differently in at least two scenarios
+   */
+  private compareConstraints(scenarios: Scenario[]): ScenarioConstraintDifference[] {
+    const flattened = scenarios.map(scenario => this.flattenConstraints(scenario.constraints));
+    const fields: string[] = [];
+    flattened.forEach(values => Object.keys(values).forEach(field => {
+      if (!fields.includes(field)) {
+        fields.push(field);
+      }
+    }));
+
+    return fields
+      .map(field => ({
+        field,
+        values: Object.fromEntries(scenarios.map((scenario, index) => [scenario.id, flattened[index]![field] ?? 'not set'])),
+      }))
+      .filter(difference => new Set(Object.values(difference.values)).size > 1);
+  }
+
+  /**
+   * Constraint values by dotted path, formatted for display
+   */
+  private flattenConstraints(constraints: UserConstraints): Record<string, string> {
+    const values: Record<string, string> = {
+      budget: constraints.budget,
+      timeline: constraints.timeline,
+      'scale.users': constraints.scale.users.toLocaleString('en-US'),
+      'scale.traffic': constraints.scale.traffic,
+      'team.skillLevel': constraints.team.skillLevel,
+      'team.experience': constraints.team.experience.join(', ') || 'none',
+    };
+
+    Object.entries(constraints.priorities).forEach(([priority, value]) => {
+      values[`priorities.${priority}`] = String(value);
+    });
+    (constraints.customCriteria || []).forEach(criterion => {
+      values[`customCriteria.${criterion.name}`] = `priority ${criterion.priority}`;
+    });
+    if (constraints.hardConstraints) {
+      values.hardConstraints = JSON.stringify(constraints.hardConstraints);
+    }
+
+    return values;
+  }
+
+  /**
+   * Plain-language summary of how the scenarios differ
+   */
+  private summarize(
+    outcomes: ScenarioOutcome[],
+    options: ScenarioOptionComparison[],
+    differences: ScenarioConstraintDifference[]
+  ): string[] {
+    const summary: string[] = [];
+    const evaluated = outcomes.filter(outcome => outcome.recommendedOption !== null);
+    const recommended = new Set(evaluated.map(outcome => outcome.recommendedOption));
+
+    if (recommended.size > 1) {
+      summary.push(`The recommendation changes across scenarios: ${evaluated
+        .map(outcome => `${outcome.recommendedOption} for "${outcome.name}"`)
+        .join(', ')}`);
+    } else if (recommended.size === 1) {
+      summary.push(`Every evaluated scenario recommends ${[...recommended][0]}`);
+    }
+
+    outcomes
+      .filter(outcome => outcome.recommendedOption === null)
+      .forEach(outcome => summary.push(`"${outcome.name}" has not been evaluated yet`));
+
+    if (differences.length > 0) {
+      summary.push(`The scenarios differ in ${differences.map(difference => difference.field).join(', ')}`);
+    } else {
+      summary.push('The scenarios use identical constraints');
+    }
+
+    const widest = [...options].sort((a, b) => b.scoreSpread - a.scoreSpread)[0];
+    if (widest && widest.scoreSpread > 0) {
+      const scored = outcomes.filter(outcome => widest.scores[outcome.id] != null);
+      const low = scored.reduce((a, b) => widest.scores[a.id]! <= widest.scores[b.id]! ? a : b);
+      const high = scored.reduce((a, b) => widest.scores[a.id]! >= widest.scores[b.id]! ? a : b);
+      summary.push(
+        `${widest.option} is the most sensitive option, scoring ${widest.scores[low.id]} in "${low.name}" ` +
+        `and ${widest.scores[high.id]} in "${high.name}"`
+      );
+    }
+
+    return summary;
+  }
+}
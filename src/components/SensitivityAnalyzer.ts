@@ -0,0 +1,320 @@
+/**
+ * Sensitivity Analyzer Component
+ * Determines how far each user priority can move before the recommended option changes
+ * Supports Requirements 3.5, 6.2
+ */
+
+import {
+  UserConstraints,
+  OptionScore,
+  TechnicalOption,
+  PriorityName,
+  PrioritySensitivity,
+  PriorityThreshold,
+  SensitivityAnalysis,
+} from '../types';
+
+/**
+ * Scores every option for a given priority vector
+ * Must be the same aggregation the comparison engine uses so thresholds match real rankings
+ */
+export type ScoreAggregator = (
+  criteriaScores: Record<string, number>[],
+  priorities: UserConstraints['priorities']
+) => number[];
+
+/**
+ * An option's weighted-sum score as a function of the weight w of one priority, the others held fixed:
+ * (scoreSlope * w + scoreIntercept) / (weightSlope * w + weightIntercept)
+ */
+export interface LinearizedScore {
+  scoreSlope: number;
+  scoreIntercept: number;
+  weightSlope: number;
+  weightIntercept: number;
+}
+
+/**
+ * Closed form of a weighted-sum aggregation
+ * A weighted average is linear in each criterion weight, so the priority value at which two options
+ * swap places can be solved for directly instead of searched for
+ */
+export interface WeightedSumModel {
+  /** Weight a priority value carries before normalization; must increase strictly over the 1-5 scale */
+  weightOf(value: number): number;
+  /** Priority value on the 1-5 scale that carries the given weight */
+  valueOf(weight: number): number;
+  /** Express an option's score in terms of the weight of one priority */
+  linearize(
+    criteriaScores: Record<string, number>,
+    priorities: UserConstraints['priorities'],
+    priority: PriorityName
+  ): LinearizedScore;
+}
+
+/** Priorities analyzed, in display order */
+export const PRIORITY_NAMES: readonly PriorityName[] = [
+  'cost',
+  'performance',
+  'easeOfUse',
+  'scalability',
+  'vendorLockIn',
+];
+
+/** Bounds of the priority scale */
+const PRIORITY_MIN = 1;
+const PRIORITY_MAX = 5;
+
+/** Step used to scan for winner changes before refining - reported with every scanned analysis */
+const SCAN_STEP = 0.05;
+
+/** Number of decimal places thresholds are refined to and reported with */
+const THRESHOLD_DECIMALS = 2;
+
+/**
+ * Weight sensitivity analysis
+ * Varies one priority at a time across the 1-5 scale, holding the others fixed,
+ * and locates the value at which the top-ranked option flips. With a weighted-sum model the
+ * thresholds are solved exactly from the pairwise score crossings. Other aggregations are
+ * searched numerically as a fallback: a scan in steps of SCAN_STEP, then bisection to
+ * THRESHOLD_DECIMALS places, so a flip that reverses within one scan step goes undetected
+ */
+export class SensitivityAnalyzer {
+  private aggregator: ScoreAggregator;
+  private model: WeightedSumModel | undefined;
+
+  /**
+   * @param aggregator - Aggregation used to rank the options
+   * @param model - Closed form of the aggregation, when it is a weighted sum
+   */
+  constructor(aggregator: ScoreAggregator, model?: WeightedSumModel) {
+    this.aggregator = aggregator;
+    this.model = model;
+  }
+
+  /**
+   * Analyze the stability of the current winner against each priority
+   * Thresholds are reported to two decimal places. Solved thresholds catch every winner change;
+   * scanned thresholds only catch changes that last longer than the reported scan step
+   * @param scores - Option scores after contextual adjustments
+   * @param priorities - Current user priorities
+   * @returns Sensitivity analysis, or null when fewer than two options were scored
+   */
+  analyze(scores: OptionScore[], priorities: UserConstraints['priorities']): SensitivityAnalysis | null {
+    if (scores.length < 2) {
+      return null;
+    }
+
+    const currentWinner = this.findWinner(scores, priorities);
+    const analyses = PRIORITY_NAMES.map(priority =>
+      this.analyzePriority(scores, priorities, priority, currentWinner)
+    );
+
+    return {
+      currentWinner,
+      priorities: analyses,
+      robustPriorities: analyses
+        .filter(analysis => !analysis.lowerThreshold && !analysis.upperThreshold)
+        .map(analysis => analysis.priority),
+      ...(this.model ? { thresholdMethod: 'exact' as const } : { thresholdMethod: 'scan' as const, scanStep: SCAN_STEP }),
+    };
+  }
+
+  /**
+   * Analyze a single priority
+   * @param scores - Option scores
+   * @param priorities - Current user priorities
+   * @param priority - Priority to vary
+   * @param currentWinner - Option ranked first under the current priorities
+   * @returns Stability range and thresholds for the priority
+   */
+  private analyzePriority(
+    scores: OptionScore[],
+    priorities: UserConstraints['priorities'],
+    priority: PriorityName,
+    currentWinner: TechnicalOption
+  ): PrioritySensitivity {
+    const currentValue = priorities[priority];
+    const findThreshold = (bound: number) => this.model
+      ? this.solveThreshold(this.model, scores, priorities, priority, currentWinner, bound)
+      : this.findThreshold(scores, priorities, priority, currentWinner, bound);
+    const lowerThreshold = findThreshold(PRIORITY_MIN);
+    const upperThreshold = findThreshold(PRIORITY_MAX);
+
+    return {
+      priority,
+      currentValue,
+      stableRange: {
+        min: lowerThreshold ? lowerThreshold.value : PRIORITY_MIN,
+        max: upperThreshold ? upperThreshold.value : PRIORITY_MAX,
+      },
+      ...(lowerThreshold && { lowerThreshold }),
+      ...(upperThreshold && { upperThreshold }),
+    };
+  }
+
+  /**
+   * Solve for the nearest winner change between the current value and a bound
+   * Each option's score is a ratio of functions linear in the priority's weight, so a rival draws level
+   * with the winner where a quadratic in that weight crosses zero; the nearest crossing the rival
+   * comes out of ahead is the threshold
+   * @param model - Closed form of the weighted-sum aggregation
+   * @param scores - Option scores
+   * @param priorities - Current user priorities
+   * @param priority - Priority to vary
+   * @param currentWinner - Option ranked first under the current priorities
+   * @param bound - Scale bound to search towards
+   * @returns The nearest threshold in that direction, or null if the winner never changes
+   */
+  private solveThreshold(
+    model: WeightedSumModel,
+    scores: OptionScore[],
+    priorities: UserConstraints['priorities'],
+    priority: PriorityName,
+    currentWinner: TechnicalOption,
+    bound: number
+  ): PriorityThreshold | null {
+    const start = Math.min(PRIORITY_MAX, Math.max(PRIORITY_MIN, priorities[priority]));
+    if (start === bound) {
+      return null;
+    }
+
+    const startWeight = model.weightOf(start);
+    const boundWeight = model.weightOf(bound);
+    const direction = boundWeight > startWeight ? 1 : -1;
+    const linearize = (score: OptionScore) => model.linearize(score.criteriaScores, priorities, priority);
+    const winner = linearize(scores.find(score => score.option.name === currentWinner.name)!);
+
+    let nearest: { weight: number; newWinner: TechnicalOption } | null = null;
+    for (const score of scores) {
+      if (score.option.name === currentWinner.name) {
+        continue;
+      }
+
+      // rival - winner, cross-multiplied by the (positive) weight totals: a * w^2 + b * w + c
+      const rival = linearize(score);
+      const a = rival.scoreSlope * winner.weightSlope - winner.scoreSlope * rival.weightSlope;
+      const b = rival.scoreSlope * winner.weightIntercept + rival.scoreIntercept * winner.weightSlope -
+        winner.scoreSlope * rival.weightIntercept - winner.scoreIntercept * rival.weightSlope;
+      const c = rival.scoreIntercept * winner.weightIntercept - winner.scoreIntercept * rival.weightIntercept;
+
+      for (const weight of this.solveQuadratic(a, b, c)) {
+        const distance = (weight - startWeight) * direction;
+        const beyondBound = (weight - boundWeight) * direction > 0;
+        // The rival only takes the lead where the difference rises in the direction of travel
+        const overtakes = (2 * a * weight + b) * direction > 0;
+
+        if (distance >= 0 && !beyondBound && overtakes &&
+          (!nearest || distance < (nearest.weight - startWeight) * direction)) {
+          nearest = { weight, newWinner: score.option };
+        }
+      }
+    }
+
+    return nearest && {
+      value: this.roundToPrecision(model.valueOf(nearest.weight)),
+      newWinner: nearest.newWinner,
+    };
+  }
+
+  /**
+   * Real roots of a * x^2 + b * x + c, falling back to the linear root when a is zero
+   * @returns Roots in no particular order; empty when there are none or every x is a root
+   */
+  private solveQuadratic(a: number, b: number, c: number): number[] {
+    if (a === 0) {
+      return b === 0 ? [] : [-c / b];
+    }
+
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+      return [];
+    }
+
+    const root = Math.sqrt(discriminant);
+    return [(-b - root) / (2 * a), (-b + root) / (2 * a)];
+  }
+
+  /**
+   * Scan from the current value towards a bound and refine the first winner change by bisection
+   * @param scores - Option scores
+   * @param priorities - Current user priorities
+   * @param priority - Priority to vary
+   * @param currentWinner - Option ranked first under the current priorities
+   * @param bound - Scale bound to scan towards
+   * @returns The nearest threshold in that direction, or null if the winner never changes
+   */
+  private findThreshold(
+    scores: OptionScore[],
+    priorities: UserConstraints['priorities'],
+    priority: PriorityName,
+    currentWinner: TechnicalOption,
+    bound: number
+  ): PriorityThreshold | null {
+    const start = Math.min(PRIORITY_MAX, Math.max(PRIORITY_MIN, priorities[priority]));
+    const direction = bound > start ? 1 : -1;
+    const winnerAt = (value: number) => this.findWinner(scores, { ...priorities, [priority]: value });
+
+    let stable = start;
+    while (stable !== bound) {
+      const next = direction > 0
+        ? Math.min(bound, stable + SCAN_STEP)
+        : Math.max(bound, stable - SCAN_STEP);
+      const nextWinner = winnerAt(next);
+
+      if (nextWinner.name !== currentWinner.name) {
+        // Bisect between the last stable value and the first flipped value
+        let flipped = next;
+        let newWinner = nextWinner;
+        while (Math.abs(flipped - stable) > Math.pow(10, -(THRESHOLD_DECIMALS + 1))) {
+          const middle = (stable + flipped) / 2;
+          const middleWinner = winnerAt(middle);
+          if (middleWinner.name === currentWinner.name) {
+            stable = middle;
+          } else {
+            flipped = middle;
+            newWinner = middleWinner;
+          }
+        }
+
+        return {
+          value: this.roundToPrecision((stable + flipped) / 2),
+          newWinner,
+        };
+      }
+
+      stable = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the top-ranked option for a priority vector
+   * Ties keep the earlier option, matching the engine's stable ranking order
+   * @param scores - Option scores
+   * @param priorities - Priority vector to score with
+   * @returns The winning option
+   */
+  private findWinner(scores: OptionScore[], priorities: UserConstraints['priorities']): TechnicalOption {
+    const aggregated = this.aggregator(scores.map(score => score.criteriaScores), priorities);
+    let bestIndex = 0;
+
+    aggregated.forEach((value, index) => {
+      if (value > aggregated[bestIndex]!) {
+        bestIndex = index;
+      }
+    });
+
+    return scores[bestIndex]!.option;
+  }
+
+  /**
+   * Round a threshold to the reported precision
+   * @param value - Raw threshold value
+   * @returns Rounded value
+   */
+  private roundToPrecision(value: number): number {
+    return Number(value.toFixed(THRESHOLD_DECIMALS));
+  }
+}
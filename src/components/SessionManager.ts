@@ -0,0 +1,167 @@
+/**
+ * Session Manager
+ * Creates, loads and expires user sessions on top of a pluggable session store
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  UserConstraints,
+  UserSession,
+  SessionStore,
+  SessionManager as ISessionManager,
+  SessionNotFoundError,
+  SessionStoreError,
+} from '../types';
+import { MemorySessionStore } from './SessionStores';
+
+/** Idle time before a session expires, when no TTL is configured */
+export const DEFAULT_SESSION_TTL_MINUTES = 60;
+
+/**
+ * Session manager backed by a session store
+ * The single source of truth for session data shared by the web server and the constraint update manager
+ */
+export class SessionManager implements ISessionManager {
+  private store: SessionStore;
+  private ttlMs: number;
+
+  /**
+   * @param store - Storage backend (defaults to in-memory)
+   * @param ttlMinutes - Idle time in minutes before a session expires
+   */
+  constructor(store: SessionStore = new MemorySessionStore(), ttlMinutes: number = DEFAULT_SESSION_TTL_MINUTES) {
+    if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) {
+      throw new SessionStoreError(`Session TTL must be a positive number of minutes, got ${ttlMinutes}`);
+    }
+    this.store = store;
+    this.ttlMs = ttlMinutes * 60 * 1000;
+  }
+
+  /**
+   * Get the underlying storage backend
+   */
+  getStore(): SessionStore {
+    return this.store;
+  }
+
+  /**
+   * Create and save a new session
+   * @param constraints - Initial constraints
+   * @returns New session
+   */
+  createSession(constraints: UserConstraints): UserSession {
+    const now = new Date();
+    const session: UserSession = {
+      id: randomUUID(),
+      constraints,
+      selectedOptions: [],
+      evaluationHistory: [],
+      createdAt: now,
+      updatedAt: now,
+      modificationHistory: [],
+    };
+    this.store.set(session);
+    return session;
+  }
+
+  /**
+   * Replace the constraints of an existing session
+   * @param sessionId - Session to update
+   * @param constraints - New constraints
+   * @returns Updated session
+   * @throws SessionNotFoundError if the session does not exist or has expired
+   */
+  updateSession(sessionId: string, constraints: UserConstraints): UserSession {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    session.constraints = constraints;
+    return this.saveSession(session);
+  }
+
+  /**
+   * Get a session by ID
+   * Expired sessions are deleted on access, and sessions the store cannot read are treated as missing
+   * @param sessionId - Session ID
+   * @returns Session if found and not expired, null otherwise
+   */
+  getSession(sessionId: string): UserSession | null {
+    let session: UserSession | null;
+    try {
+      session = this.store.get(sessionId);
+    } catch (error) {
+      // A session that can no longer be read is as good as expired
+      if (error instanceof SessionStoreError) {
+        console.warn(`Skipped unreadable session ${sessionId}:`, error.message);
+        return null;
+      }
+      throw error;
+    }
+
+    if (!session) {
+      return null;
+    }
+
+    if (this.isExpired(session, Date.now())) {
+      this.store.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Persist every change made to a session and restart its TTL
+   * @param session - Session to save
+   * @returns Saved session
+   */
+  saveSession(session: UserSession): UserSession {
+    session.updatedAt = new Date();
+    this.store.set(session);
+    return session;
+  }
+
+  /**
+   * Delete a session
+   * @param sessionId - Session to delete
+   * @returns Whether the session existed
+   */
+  deleteSession(sessionId: string): boolean {
+    return this.store.delete(sessionId);
+  }
+
+  /**
+   * List the sessions that have not expired
+   */
+  listSessions(): UserSession[] {
+    const now = Date.now();
+    return this.store.list().filter(session => !this.isExpired(session, now));
+  }
+
+  /**
+   * Delete sessions that have been idle for longer than the TTL
+   * @returns Number of sessions removed
+   */
+  cleanupExpiredSessions(): number {
+    const now = Date.now();
+    const expired = this.store.list().filter(session => this.isExpired(session, now));
+    expired.forEach(session => this.store.delete(session.id));
+    return expired.length;
+  }
+
+  /**
+   * Release the storage backend
+   */
+  close(): void {
+    this.store.close();
+  }
+
+  /**
+   * Whether a session has been idle for longer than the TTL
+   */
+  private isExpired(session: UserSession, now: number): boolean {
+    const lastActive = session.updatedAt ?? session.createdAt;
+    return now - lastActive.getTime() >= this.ttlMs;
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Session Stores
+ * Storage backends that keep web sessions in memory, in JSON files or in an embedded SQLite database
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  UserSession,
+  SessionStore,
+  SessionStoreBackend,
+  SessionStoreConfig,
+  SessionStoreError,
+} from '../types';
+
+/** Session IDs accepted by the persistent stores - keeps IDs safe to use as file names */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Timestamp fields revived as dates when a session is read back, by the part of the session that holds them */
+const SESSION_DATE_FIELDS = ['createdAt', 'updatedAt'];
+const MODIFICATION_DATE_FIELDS = ['timestamp'];
+const SCENARIO_DATE_FIELDS = ['createdAt', 'updatedAt'];
+
+/**
+ * Serialize a session for storage
+ * Custom criterion scoring functions cannot be serialized, so sessions that use them are refused rather than
+ * saved without them - otherwise the criterion would score every option 50 once the session is read back
+ * @param session - Session to serialize
+ * @returns JSON text
+ * @throws SessionStoreError if a custom criterion is scored by a function
+ */
+export function serializeSession(session: UserSession): string {
+  return JSON.stringify(session, function (this: { name?: string }, key: string, value: unknown) {
+    if (key === 'scoringFunction' && typeof value === 'function') {
+      throw new SessionStoreError(
+        `Custom criterion '${this.name}' is scored by a function, which cannot be stored - ` +
+        'give it manual scores or use the memory session store'
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a stored session, reviving its timestamps as dates
+ * Only the session's own timestamps are revived, so option metadata and constraints come back exactly as stored
+ * @param json - JSON text written by serializeSession
+ * @returns Session
+ * @throws SessionStoreError if the text is not a stored session
+ */
+export function deserializeSession(json: string): UserSession {
+  const session = JSON.parse(json) as UserSession;
+  if (!session || typeof session !== 'object' || typeof session.id !== 'string') {
+    throw new SessionStoreError('Stored data is not a session');
+  }
+
+  reviveDates(session, SESSION_DATE_FIELDS);
+  session.modificationHistory?.forEach(modification => reviveDates(modification, MODIFICATION_DATE_FIELDS));
+  session.scenarios?.forEach(scenario => reviveDates(scenario, SCENARIO_DATE_FIELDS));
+  return session;
+}
+
+/**
+ * Replace the timestamp strings in the given fields of a record with dates
+ */
+function reviveDates(record: object, fields: string[]): void {
+  const values = record as Record<string, unknown>;
+  for (const field of fields) {
+    const value = values[field];
+    if (typeof value === 'string') {
+      values[field] = new Date(value);
+    }
+  }
+}
+
+/**
+ * Reject session IDs that cannot be stored safely
+ */
+function assertStorableId(sessionId: string): void {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new SessionStoreError(`Invalid session ID '${sessionId}' - use letters, digits, '-' and '_' only`);
+  }
+}
+
+/**
+ * Keeps sessions in process memory
+ * Sessions are held by reference and are lost when the process exits
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly backend: SessionStoreBackend = 'memory';
+  private sessions: Map<string, UserSession> = new Map();
+
+  get(sessionId: string): UserSession | null {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  set(session: UserSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  delete(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  list(): UserSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  close(): void {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Keeps each session in its own JSON file inside a directory
+ * Files are replaced atomically, so a crash mid-write never leaves a half-written session
+ */
+export class FileSessionStore implements SessionStore {
+  readonly backend: SessionStoreBackend = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+    } catch (error) {
+      throw new SessionStoreError(`Cannot create session directory ${this.directory}: ${(error as Error).message}`);
+    }
+  }
+
+  get(sessionId: string): UserSession | null {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+    return this.readFile(this.getFilePath(sessionId));
+  }
+
+  set(session: UserSession): void {
+    assertStorableId(session.id);
+    const filePath = this.getFilePath(session.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const json = serializeSession(session);
+
+    try {
+      fs.writeFileSync(tempPath, json, 'utf8');
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw new SessionStoreError(`Cannot write session file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  delete(sessionId: string): boolean {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return false;
+    }
+
+    const filePath = this.getFilePath(sessionId);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    fs.rmSync(filePath, { force: true });
+    return true;
+  }
+
+  /**
+   * Read every session file
+   * Unreadable files are moved aside with a .corrupt suffix and reported, so one bad file cannot stop cleanup
+   */
+  list(): UserSession[] {
+    const sessions: UserSession[] = [];
+    for (const file of fs.readdirSync(this.directory).filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const session = this.readFile(filePath);
+        if (session) {
+          sessions.push(session);
+        }
+      } catch (error) {
+        this.quarantine(filePath, error as Error);
+      }
+    }
+    return sessions;
+  }
+
+  close(): void {
+    // Every operation opens and closes its own file
+  }
+
+  /**
+   * Read a session file
+   * @returns Session, or null if the file does not exist
+   * @throws SessionStoreError if the file exists but cannot be parsed
+   */
+  private readFile(filePath: string): UserSession | null {
+    let json: string;
+    try {
+      json = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new SessionStoreError(`Cannot read session file ${filePath}: ${(error as Error).message}`);
+    }
+
+    try {
+      return deserializeSession(json);
+    } catch (error) {
+      throw new SessionStoreError(`Corrupt session file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Move an unreadable session file out of the way so it is not read again
+   */
+  private quarantine(filePath: string, error: Error): void {
+    const quarantinePath = `${filePath}.corrupt`;
+    try {
+      fs.renameSync(filePath, quarantinePath);
+      console.warn(`Skipped unreadable session file, moved to ${quarantinePath}:`, error.message);
+    } catch (renameError) {
+      console.warn(`Skipped unreadable session file ${filePath}:`, error.message);
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
+
+/**
+ * Keeps sessions in an embedded SQLite database, one row per session
+ * Safe to share between processes on the same machine
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly backend: SessionStoreBackend = 'sqlite';
+  private db: Database.Database;
+
+  /**
+   * @param filename - Database file, created if missing (':memory:' for a throwaway database)
+   */
+  constructor(filename: string) {
+    try {
+      if (filename !== ':memory:') {
+        fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+      }
+      this.db = new Database(filename);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec('CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY, data TEXT NOT NULL)');
+    } catch (error) {
+      throw new SessionStoreError(`Cannot open session database ${filename}: ${(error as Error).message}`);
+    }
+  }
+
+  get(sessionId: string): UserSession | null {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as { data: string } | undefined;
+    return row ? this.parseRow(sessionId, row.data) : null;
+  }
+
+  set(session: UserSession): void {
+    this.db.prepare(
+      'INSERT INTO sessions (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+    ).run(session.id, serializeSession(session));
+  }
+
+  delete(sessionId: string): boolean {
+    return this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId).changes > 0;
+  }
+
+  /**
+   * Read every session row
+   * Unreadable rows are skipped and reported, so one bad row cannot stop cleanup
+   */
+  list(): UserSession[] {
+    const rows = this.db.prepare('SELECT id, data FROM sessions ORDER BY id').all() as Array<{ id: string; data: string }>;
+    const sessions: UserSession[] = [];
+    for (const row of rows) {
+      try {
+        sessions.push(this.parseRow(row.id, row.data));
+      } catch (error) {
+        console.warn(`Skipped unreadable session ${row.id}:`, (error as Error).message);
+      }
+    }
+    return sessions;
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  private parseRow(sessionId: string, data: string): UserSession {
+    try {
+      return deserializeSession(data);
+    } catch (error) {
+      throw new SessionStoreError(`Corrupt session ${sessionId} in database: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Create the store for a session configuration
+ * @param config - Backend and location
+ * @returns Session store
+ * @throws SessionStoreError if the backend is unknown or needs a path that was not given
+ */
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  switch (config.backend) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+    case 'sqlite': {
+      if (!config.path) {
+        throw new SessionStoreError(`The ${config.backend} session store needs a path`);
+      }
+      return config.backend === 'file' ? new FileSessionStore(config.path) : new SqliteSessionStore(config.path);
+    }
+    default:
+      throw new SessionStoreError(`Unknown session store backend '${(config as { backend: string }).backend}'`);
+  }
+}
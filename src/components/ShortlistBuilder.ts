@@ -0,0 +1,125 @@
+/**
+ * Shortlist Builder Component
+ * Narrows a large set of scored candidates down to a few finalists for detailed comparison
+ * Supports Requirements 2.1, 6.1
+ */
+
+import {
+  OptionScore,
+  EliminatedOption,
+  Shortlist,
+  ShortlistCut,
+} from '../types';
+
+/**
+ * Builds shortlists in three stages:
+ * 1. candidates eliminated by hard constraints are cut
+ * 2. Pareto-dominated candidates are cut
+ * 3. the remaining candidates are ranked by aggregated score and the top ones kept
+ */
+export class ShortlistBuilder {
+
+  /**
+   * Build a shortlist from scored candidates
+   * When fewer than `minimum` candidates are non-dominated, the best dominated candidates
+   * are brought back so the detailed comparison still has something to compare
+   * @param scores - Aggregated scores of the candidates that passed hard constraints
+   * @param eliminated - Candidates eliminated by hard constraints
+   * @param size - Maximum number of finalists
+   * @param minimum - Minimum number of finalists, when enough candidates are available
+   * @returns Finalists (best first) and the reason each other candidate was cut
+   */
+  build(scores: OptionScore[], eliminated: EliminatedOption[], size: number, minimum: number): Shortlist {
+    const cut: ShortlistCut[] = eliminated.map(({ option, reasons }) => ({
+      option,
+      stage: 'constraints',
+      reason: `Eliminated by hard constraints: ${reasons.map(r => r.message).join('; ')}`,
+    }));
+
+    const byScore = [...scores].sort((a, b) => b.weightedScore - a.weightedScore);
+    const front: OptionScore[] = [];
+    const dominated: Array<{ score: OptionScore; cut: ShortlistCut }> = [];
+
+    for (const score of byScore) {
+      // Credit the strongest dominating candidate; byScore is already in that order
+      const dominator = byScore.find(other => other !== score && this.dominates(other, score));
+      if (dominator) {
+        dominated.push({
+          score,
+          cut: {
+            option: score.option,
+            stage: 'dominated',
+            reason: `Dominated by ${dominator.option.name}, which scores at least as well on every criterion ` +
+              `and better on ${this.betterCriteria(dominator, score).join(', ')}`,
+            dominatedBy: dominator.option,
+            score: score.weightedScore,
+          },
+        });
+      } else {
+        front.push(score);
+      }
+    }
+
+    const finalists = front.slice(0, size);
+
+    // Bring back the best dominated candidates if too few remain
+    const backfill = Math.max(0, Math.min(minimum, size) - finalists.length);
+    const restored = dominated.slice(0, backfill);
+    finalists.push(...restored.map(entry => entry.score));
+    cut.push(...dominated.slice(backfill).map(entry => entry.cut));
+
+    const lastFinalist = finalists[finalists.length - 1];
+    front.slice(size).forEach((score, index) => {
+      const gap = lastFinalist ? lastFinalist.weightedScore - score.weightedScore : 0;
+      cut.push({
+        option: score.option,
+        stage: 'ranking',
+        reason: `Ranked ${size + index + 1} of ${front.length} non-dominated candidates with a score of ` +
+          `${Math.round(score.weightedScore)}/100, ${this.formatGap(gap)} ${lastFinalist?.option.name} ` +
+          `- only the top ${size} are shortlisted`,
+        score: score.weightedScore,
+      });
+    });
+
+    return {
+      candidateCount: scores.length + eliminated.length,
+      finalists: finalists.map(score => score.option),
+      cut,
+    };
+  }
+
+  /**
+   * Check Pareto dominance on criterion scores
+   * @param a - Candidate that may dominate
+   * @param b - Candidate that may be dominated
+   * @returns True when a is at least as good as b on every criterion and better on at least one
+   */
+  dominates(a: OptionScore, b: OptionScore): boolean {
+    const criteria = this.sharedCriteria(a, b);
+    return criteria.length > 0 &&
+      criteria.every(criterion => a.criteriaScores[criterion]! >= b.criteriaScores[criterion]!) &&
+      criteria.some(criterion => a.criteriaScores[criterion]! > b.criteriaScores[criterion]!);
+  }
+
+  /**
+   * Criteria on which one candidate strictly beats another
+   */
+  private betterCriteria(a: OptionScore, b: OptionScore): string[] {
+    return this.sharedCriteria(a, b).filter(criterion => a.criteriaScores[criterion]! > b.criteriaScores[criterion]!);
+  }
+
+  /**
+   * Criteria scored for both candidates
+   */
+  private sharedCriteria(a: OptionScore, b: OptionScore): string[] {
+    return Object.keys(a.criteriaScores).filter(criterion => b.criteriaScores[criterion] !== undefined);
+  }
+
+  /**
+   * Describe how far a candidate trails the last finalist
+   */
+  private formatGap(gap: number): string {
+    const points = Math.round(gap * 10) / 10;
+    return points > 0 ? `${points} points behind` : 'tied with';
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for AdrGenerator component
+ * Validates MADR and Nygard rendering, numbering and writing into an ADR directory
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdrGenerator } from '../AdrGenerator';
+import { ComparisonEngine } from '../ComparisonEngine';
+import { KnowledgeBase } from '../KnowledgeBase';
+import { OutputGenerator } from '../OutputGenerator';
+import { ComparisonOutput, EvaluationResult, TechnicalRefereeError, UserConstraints } from '../../types';
+
+describe('AdrGenerator', () => {
+  const generator = new AdrGenerator();
+  const date = new Date('2026-03-01T09:30:00Z');
+
+  const constraints: UserConstraints = {
+    budget: 'low',
+    scale: { users: 500000, traffic: 'high' },
+    team: { skillLevel: 'senior', experience: ['mongodb'] },
+    timeline: 'short',
+    priorities: { cost: 2, performance: 4, easeOfUse: 1, scalability: 5, vendorLockIn: 3 },
+    hardConstraints: {
+      mustHave: [{ field: 'acidCompliance', operator: 'equals', value: true, categories: ['cloud'], description: 'ACID transactions' }],
+    },
+  };
+
+  let result: EvaluationResult;
+  let output: ComparisonOutput;
+
+  beforeAll(() => {
+    const knowledgeBase = new KnowledgeBase();
+    const options = ['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name, 'database')!);
+    result = new ComparisonEngine(knowledgeBase).evaluate(options, constraints);
+    output = new OutputGenerator().generateComparison(result, constraints);
+  });
+
+  const chosen = () => output.finalRecommendation.recommendedOption.name;
+
+  describe('MADR format', () => {
+    it('should emit front matter with status, date and deciders', () => {
+      const adr = generator.generate(constraints, result, output, { date, status: 'accepted', deciders: ['Ana', 'Raj'] });
+
+      expect(adr.content.startsWith('---\nstatus: accepted\ndate: 2026-03-01\ndeciders: Ana, Raj\n---\n')).toBe(true);
+      expect(adr.content).toContain(`# Use ${chosen()} for the database`);
+    });
+
+    it('should take the context from the constraints and the drivers from the priorities', () => {
+      const { content } = generator.generate(constraints, result, output, { date });
+
+      expect(content).toContain('a low budget and a short timeline, built by a senior-level team experienced with mongodb');
+      expect(content).toContain('about 500,000 users with high traffic');
+
+      const drivers = content.split('## Decision Drivers\n\n')[1]!.split('\n\n')[0]!.split('\n');
+      expect(drivers).toEqual([
+        '* Scalability (priority 5/5)',
+        '* Performance (priority 4/5)',
+        '* Avoiding vendor lock-in (priority 3/5)',
+        '* Cost (priority 2/5)',
+        '* Ease of use (priority 1/5)',
+        '* Must have: ACID transactions',
+      ]);
+    });
+
+    it('should list the considered options in rank order and state the decision', () => {
+      const { content } = generator.generate(constraints, result, output, { date });
+
+      const considered = content.split('## Considered Options\n\n')[1]!.split('\n\n')[0]!.split('\n');
+      expect(considered.map(line => line.split(' (')[0])).toEqual(result.rankings.map(r => `* ${r.option.name}`));
+      expect(considered[0]).toContain('(ranked 1 of 3,');
+      expect(content).toContain(`Chosen option: "${chosen()}", because it ranked first`);
+      expect(content).toContain(output.finalRecommendation.reasoning);
+    });
+
+    it('should derive consequences from key factors, compromises and warnings', () => {
+      const compromise = {
+        description: `Choosing ${chosen()} means accepting weaker cost performance`,
+        impact: 'high' as const,
+        affectedCriteria: ['cost'],
+        option: output.finalRecommendation.recommendedOption,
+      };
+      const withExtras = { ...result, tradeOffs: { ...result.tradeOffs, compromises: [compromise] } };
+      const withWarning = {
+        ...output,
+        finalRecommendation: { ...output.finalRecommendation, warnings: ['Licensing costs grow with cores'] },
+      };
+
+      const { content } = generator.generate(constraints, withExtras, withWarning, { date });
+
+      expect(content).toContain(`* Good, because ${output.finalRecommendation.keyFactors[0]!.charAt(0).toLowerCase()}`);
+      expect(content).toContain(`* Bad, because choosing ${chosen()} means accepting weaker cost performance (high impact)`);
+      expect(content).toContain('* Bad, because licensing costs grow with cores');
+    });
+
+    it('should leave option names at the start of a sentence capitalized', () => {
+      const prosAndCons = [{ option: output.prosAndCons[0]!.option, pros: [`${chosen()} has a large ecosystem`], cons: [] }];
+
+      const { content } = generator.generate(constraints, result, { ...output, prosAndCons }, { date });
+
+      expect(content).toContain(`* Good, because ${chosen()} has a large ecosystem`);
+    });
+  });
+
+  describe('Nygard format', () => {
+    it('should number the title and include status, context, decision and consequences', () => {
+      const adr = generator.generate(constraints, result, output, { format: 'nygard', number: 12, date });
+      const headings = adr.content.split('\n').filter(line => line.startsWith('#'));
+
+      expect(headings).toEqual([
+        `# 12. Use ${chosen()} for the database`,
+        '## Status',
+        '## Context',
+        '## Decision',
+        '## Consequences',
+      ]);
+      expect(adr.content).toContain('## Status\n\nProposed\n');
+      expect(adr.content).toContain(`We will use ${chosen()}.`);
+      expect(adr.filename).toBe(`0012-use-${chosen().toLowerCase()}-for-the-database.md`);
+    });
+  });
+
+  describe('numbering and writing', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'adr-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should continue numbering after the existing ADRs', () => {
+      expect(generator.getNextNumber(path.join(directory, 'missing'))).toBe(1);
+
+      fs.writeFileSync(path.join(directory, '0001-record-architecture-decisions.md'), '');
+      fs.writeFileSync(path.join(directory, '0009-use-kafka.md'), '');
+      fs.writeFileSync(path.join(directory, 'README.md'), '');
+
+      expect(generator.getNextNumber(directory)).toBe(10);
+    });
+
+    it('should write the next ADR into the directory and refuse to overwrite it', () => {
+      const adrDirectory = path.join(directory, 'docs', 'adr');
+
+      const first = generator.write(adrDirectory, constraints, result, output, { date, title: 'Pick a database' });
+      const second = generator.write(adrDirectory, constraints, result, output, { date, title: 'Pick a database' });
+
+      expect(first.path).toBe(path.join(adrDirectory, '0001-pick-a-database.md'));
+      expect(second.number).toBe(2);
+      expect(fs.readFileSync(first.path, 'utf8')).toBe(first.content);
+      expect(() => generator.write(adrDirectory, constraints, result, output, { number: 1, title: 'Pick a database' }))
+        .toThrow(expect.objectContaining({ code: 'ADR_FILE_EXISTS' }));
+    });
+
+    it('should reject numbers that are not positive integers', () => {
+      expect(() => generator.generate(constraints, result, output, { number: 0 })).toThrow(TechnicalRefereeError);
+    });
+  });
+});
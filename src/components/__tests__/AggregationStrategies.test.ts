@@ -0,0 +1,197 @@
+/**
+ * Tests for MCDA aggregation strategies
+ * Validates weighted sum, TOPSIS, AHP and PROMETHEE II scoring
+ */
+
+import {
+  WeightedSumStrategy,
+  TopsisStrategy,
+  AhpStrategy,
+  PrometheeStrategy,
+  createAggregationStrategy,
+  createAllAggregationStrategies,
+  mapPriorityWeightsToCriteria,
+} from '../AggregationStrategies';
+import { RefereeValidationError } from '../../types';
+
+describe('AggregationStrategies', () => {
+  const weights = { cost: 0.5, performance: 0.5 };
+  const matrix = [
+    { cost: 90, performance: 40 },
+    { cost: 60, performance: 60 },
+    { cost: 30, performance: 95 },
+  ];
+
+  const rankOf = (scores: number[]) =>
+    scores.map((score, index) => ({ score, index })).sort((a, b) => b.score - a.score).map(entry => entry.index);
+
+  describe('mapPriorityWeightsToCriteria', () => {
+    it('should map priorities to criteria with a composite maintainability weight', () => {
+      const criteriaWeights = mapPriorityWeightsToCriteria({
+        cost: 0.4, performance: 0.1, easeOfUse: 0.2, scalability: 0.2, vendorLockIn: 0.1,
+      });
+
+      expect(criteriaWeights.learningCurve).toBe(0.2);
+      expect(criteriaWeights.maintainability).toBeCloseTo(0.4 * 0.3 + 0.1 * 0.2);
+    });
+  });
+
+  describe('WeightedSumStrategy', () => {
+    it('should compute weighted averages and skip missing criteria', () => {
+      const scores = new WeightedSumStrategy().aggregate(
+        [{ cost: 80, performance: 60 }, { cost: 70 }, {}],
+        { cost: 3, performance: 1 }
+      );
+
+      expect(scores).toEqual([75, 70, 50]);
+    });
+  });
+
+  describe('TopsisStrategy', () => {
+    it('should score the ideal option 100 and the anti-ideal option 0', () => {
+      const scores = new TopsisStrategy().aggregate(
+        [{ cost: 90, performance: 90 }, { cost: 50, performance: 50 }],
+        weights
+      );
+
+      expect(scores[0]).toBeCloseTo(100);
+      expect(scores[1]).toBeCloseTo(0);
+    });
+
+    it('should follow the weights when options trade off criteria', () => {
+      const costHeavy = new TopsisStrategy().aggregate(matrix, { cost: 0.9, performance: 0.1 });
+      const performanceHeavy = new TopsisStrategy().aggregate(matrix, { cost: 0.1, performance: 0.9 });
+
+      expect(rankOf(costHeavy)[0]).toBe(0);
+      expect(rankOf(performanceHeavy)[0]).toBe(2);
+    });
+
+    it('should place indistinguishable options halfway', () => {
+      expect(new TopsisStrategy().aggregate([{ cost: 70 }, { cost: 70 }], { cost: 1 })).toEqual([50, 50]);
+    });
+  });
+
+  describe('AhpStrategy', () => {
+    it('should produce priority shares that sum to 100', () => {
+      const scores = new AhpStrategy().aggregate(matrix, weights);
+
+      expect(scores.reduce((sum, score) => sum + score, 0)).toBeCloseTo(100);
+      expect(rankOf(new AhpStrategy().aggregate(matrix, { cost: 0.9, performance: 0.1 }))[0]).toBe(0);
+    });
+
+    it('should derive weights from pairwise priority judgments', () => {
+      const criteriaScores = [
+        { cost: 90, performance: 40, scalability: 50, learningCurve: 50, vendorLockIn: 50, maintainability: 50 },
+        { cost: 40, performance: 90, scalability: 50, learningCurve: 50, vendorLockIn: 50, maintainability: 50 },
+      ];
+      const equalWeights = mapPriorityWeightsToCriteria({
+        cost: 0.2, performance: 0.2, easeOfUse: 0.2, scalability: 0.2, vendorLockIn: 0.2,
+      });
+
+      const performanceFirst = new AhpStrategy([{ more: 'performance', less: 'cost', intensity: 3 }]);
+
+      expect(performanceFirst.getConsistencyRatio()).toBeLessThanOrEqual(0.1);
+      expect(rankOf(performanceFirst.aggregate(criteriaScores, equalWeights))[0]).toBe(1);
+    });
+
+    it('should weight custom criteria alongside the judged priorities', () => {
+      const criteriaScores = [
+        { cost: 60, performance: 60, scalability: 60, learningCurve: 60, vendorLockIn: 60, maintainability: 60, compliance: 95 },
+        { cost: 70, performance: 70, scalability: 70, learningCurve: 70, vendorLockIn: 70, maintainability: 70, compliance: 10 },
+      ];
+      const engineWeights = {
+        ...mapPriorityWeightsToCriteria({ cost: 0.2, performance: 0.2, easeOfUse: 0.2, scalability: 0.2, vendorLockIn: 0.2 }),
+        compliance: 0.1,
+      };
+      const complianceFirst = new AhpStrategy(['cost', 'performance', 'easeOfUse', 'scalability', 'vendorLockIn']
+        .map(priority => ({ more: 'compliance', less: priority, intensity: 9 })));
+      const unjudged = new AhpStrategy([{ more: 'performance', less: 'cost', intensity: 1 }]);
+
+      expect(complianceFirst.getConsistencyRatio()).toBeLessThanOrEqual(0.1);
+      expect(rankOf(complianceFirst.aggregate(criteriaScores, engineWeights))[0]).toBe(0);
+      // A custom criterion no judgment mentions still counts, as equal to every priority
+      const withCompliance = unjudged.aggregate(criteriaScores, engineWeights);
+      const withoutCompliance = unjudged.aggregate(
+        criteriaScores.map(({ compliance: _compliance, ...scores }) => scores),
+        mapPriorityWeightsToCriteria({ cost: 0.2, performance: 0.2, easeOfUse: 0.2, scalability: 0.2, vendorLockIn: 0.2 })
+      );
+      expect(withCompliance[0]! - withCompliance[1]!).toBeGreaterThan(withoutCompliance[0]! - withoutCompliance[1]!);
+    });
+
+    it('should reject judgments about criteria the evaluation does not define', () => {
+      const strategy = new AhpStrategy([{ more: 'compliance', less: 'cost', intensity: 3 }]);
+
+      expect(() => strategy.aggregate(matrix, weights)).toThrow(RefereeValidationError);
+      expect(() => strategy.aggregate(matrix, weights)).toThrow(/'compliance' is neither a priority nor a custom criterion/);
+    });
+
+    it('should reject inconsistent judgments', () => {
+      const create = () => new AhpStrategy([
+        { more: 'cost', less: 'performance', intensity: 9 },
+        { more: 'performance', less: 'scalability', intensity: 9 },
+        { more: 'scalability', less: 'cost', intensity: 9 },
+      ]);
+
+      expect(create).toThrow(RefereeValidationError);
+      expect(create).toThrow(/inconsistent/);
+    });
+
+    it('should reject malformed judgments', () => {
+      try {
+        new AhpStrategy([
+          { more: 'cost', less: 'cost', intensity: 3 },
+          { more: 'cost', less: 'performance', intensity: 12 },
+          { more: 'cost', less: 'scalability', intensity: NaN },
+        ]);
+        fail('Expected AhpStrategy to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(RefereeValidationError);
+        expect((error as RefereeValidationError).code).toBe('AHP_COMPARISON_INVALID');
+        expect((error as RefereeValidationError).errors.map(e => e.field))
+          .toEqual(['comparisons[0]', 'comparisons[1].intensity', 'comparisons[2].intensity']);
+      }
+    });
+  });
+
+  describe('PrometheeStrategy', () => {
+    it('should rescale net flows to 0-100 around a neutral 50', () => {
+      const scores = new PrometheeStrategy().aggregate(matrix, weights);
+
+      expect(scores.reduce((sum, score) => sum + score, 0)).toBeCloseTo(150);
+      scores.forEach(score => {
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+      });
+    });
+
+    it('should fully prefer an option that dominates by more than the threshold', () => {
+      const scores = new PrometheeStrategy(10).aggregate(
+        [{ cost: 90, performance: 90 }, { cost: 50, performance: 50 }],
+        weights
+      );
+
+      expect(scores).toEqual([100, 0]);
+    });
+
+    it('should return neutral scores for a single option', () => {
+      expect(new PrometheeStrategy().aggregate([{ cost: 80 }], { cost: 1 })).toEqual([50]);
+    });
+  });
+
+  describe('createAggregationStrategy', () => {
+    it('should create a strategy for every method', () => {
+      expect(createAllAggregationStrategies().map(s => s.method))
+        .toEqual(['weighted-sum', 'topsis', 'ahp', 'promethee-ii']);
+      expect(createAggregationStrategy('topsis')).toBeInstanceOf(TopsisStrategy);
+    });
+
+    it('should pass AHP judgments to the AHP strategy', () => {
+      const judged = createAggregationStrategy('ahp', [{ more: 'performance', less: 'cost', intensity: 5 }]);
+
+      expect(judged).toBeInstanceOf(AhpStrategy);
+      expect(judged.ignoresPriorities).toBe(true);
+      expect(createAggregationStrategy('ahp').ignoresPriorities).toBe(false);
+      expect(() => createAggregationStrategy('ahp', [{ more: 'cost', less: 'cost', intensity: 3 }])).toThrow(RefereeValidationError);
+    });
+  });
+});
@@ -4,7 +4,9 @@
  */
 
 import { ComparisonEngine } from '../ComparisonEngine';
-import { TechnicalOption } from '../../types';
+import { KnowledgeBase } from '../KnowledgeBase';
+import { AhpStrategy, PrometheeStrategy, WeightedSumStrategy } from '../AggregationStrategies';
+import { TechnicalOption, AllOptionsEliminatedError, InvalidOptionsError } from '../../types';
 import { STANDARD_CRITERIA } from '../../types/knowledge';
 
 describe('ComparisonEngine', () => {
@@ -146,6 +148,35 @@ describe('ComparisonEngine', () => {
       expect(result.warnings.some(w => w.includes('Mixed categories'))).toBe(true);
     });
 
+    it('should explain that orchestration platforms run on top of cloud providers', () => {
+      const options: TechnicalOption[] = [
+        { name: 'AWS', category: 'cloud', metadata: {} },
+        { name: 'Kubernetes', category: 'orchestration', metadata: {} },
+      ];
+
+      const result = engine.validateTechnicalOptions(options);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain(
+        'Orchestration platforms run on top of cloud providers. ' +
+        'Choose the cloud provider first, then compare the orchestration platforms available on it.'
+      );
+      expect(result.warnings.some(w => w.includes('unknown category'))).toBe(false);
+    });
+
+    it('should explain that caches sit in front of databases', () => {
+      const options: TechnicalOption[] = [
+        { name: 'PostgreSQL', category: 'database', metadata: {} },
+        { name: 'Memcached', category: 'cache', metadata: {} },
+      ];
+
+      const result = engine.validateTechnicalOptions(options);
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContain(
+        'Caches sit in front of a primary database rather than replacing it. ' +
+        'Compare caches with caches and databases with databases.'
+      );
+    });
+
     it('should warn about unknown categories', () => {
       const options: TechnicalOption[] = [
         { name: 'UnknownTech', category: 'unknown' as any, metadata: {} },
@@ -407,4 +438,563 @@ describe('ComparisonEngine', () => {
       });
     });
   });
+
+  describe('sensitivity analysis', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const options: TechnicalOption[] = [
+      knowledgeBase.findTechnology('Node.js')!,
+      knowledgeBase.findTechnology('Django')!,
+    ];
+
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    };
+
+    it('should attach sensitivity analysis to the evaluation result', () => {
+      const result = engine.evaluate(options, constraints);
+
+      expect(result.sensitivity).toBeDefined();
+      expect(result.sensitivity?.currentWinner.name).toBe(result.rankings[0]?.option.name);
+      expect(result.sensitivity?.priorities).toHaveLength(5);
+      result.sensitivity?.priorities.forEach(analysis => {
+        expect(analysis.stableRange.min).toBeLessThanOrEqual(analysis.currentValue);
+        expect(analysis.stableRange.max).toBeGreaterThanOrEqual(analysis.currentValue);
+      });
+    });
+
+    it('should report thresholds that flip the real ranking', () => {
+      const result = engine.evaluate(options, constraints);
+      const thresholds = result.sensitivity!.priorities.flatMap(analysis => [
+        ...(analysis.lowerThreshold ? [{ priority: analysis.priority, threshold: analysis.lowerThreshold, step: -0.05 }] : []),
+        ...(analysis.upperThreshold ? [{ priority: analysis.priority, threshold: analysis.upperThreshold, step: 0.05 }] : []),
+      ]);
+
+      expect(thresholds.length).toBeGreaterThan(0);
+      thresholds.forEach(({ priority, threshold, step }) => {
+        const beyond = engine.evaluate(options, {
+          ...constraints,
+          priorities: { ...constraints.priorities, [priority]: threshold.value + step },
+        });
+        expect(beyond.rankings[0]?.option.name).toBe(threshold.newWinner.name);
+      });
+    });
+
+    it('should solve weighted-sum thresholds exactly', () => {
+      const result = engine.evaluate(options, constraints);
+      const winner = result.rankings[0]!.option.name;
+      const topAt = (priority: string, value: number) => engine.evaluate(options, {
+        ...constraints,
+        priorities: { ...constraints.priorities, [priority]: value },
+      }).rankings[0]?.option.name;
+
+      expect(result.sensitivity?.thresholdMethod).toBe('exact');
+      expect(result.sensitivity?.scanStep).toBeUndefined();
+      result.sensitivity!.priorities.forEach(analysis => {
+        if (analysis.lowerThreshold) {
+          expect(topAt(analysis.priority, analysis.lowerThreshold.value + 0.01)).toBe(winner);
+          expect(topAt(analysis.priority, analysis.lowerThreshold.value - 0.01)).toBe(analysis.lowerThreshold.newWinner.name);
+        }
+        if (analysis.upperThreshold) {
+          expect(topAt(analysis.priority, analysis.upperThreshold.value - 0.01)).toBe(winner);
+          expect(topAt(analysis.priority, analysis.upperThreshold.value + 0.01)).toBe(analysis.upperThreshold.newWinner.name);
+        }
+      });
+    });
+
+    it('should fall back to scanning for aggregation methods without a closed form', () => {
+      engine.setAggregationStrategy(new PrometheeStrategy());
+      const sensitivity = engine.evaluate(options, constraints).sensitivity;
+
+      expect(sensitivity?.thresholdMethod).toBe('scan');
+      expect(sensitivity?.scanStep).toBe(0.05);
+    });
+  });
+
+  describe('priority emphasis', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const options = [knowledgeBase.findTechnology('PostgreSQL')!, knowledgeBase.findTechnology('MongoDB')!];
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'medium' as const,
+      priorities: { cost: 5, performance: 4, easeOfUse: 3, scalability: 2, vendorLockIn: 1 },
+    };
+
+    // Weighted average of the criterion scores with each priority scaled by its emphasis factor
+    const expectedScore = (criteriaScores: Record<string, number>, emphasized: Record<string, number>) => {
+      const weights: Record<string, number> = {
+        [STANDARD_CRITERIA.COST]: emphasized.cost!,
+        [STANDARD_CRITERIA.PERFORMANCE]: emphasized.performance!,
+        [STANDARD_CRITERIA.SCALABILITY]: emphasized.scalability!,
+        [STANDARD_CRITERIA.LEARNING_CURVE]: emphasized.easeOfUse!,
+        [STANDARD_CRITERIA.VENDOR_LOCK_IN]: emphasized.vendorLockIn!,
+        [STANDARD_CRITERIA.MAINTAINABILITY]: emphasized.cost! * 0.3 + emphasized.performance! * 0.2,
+      };
+      const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+      return Object.entries(weights).reduce((sum, [criterion, weight]) => sum + criteriaScores[criterion]! * weight, 0) / total;
+    };
+
+    it('should weight integer priorities by the fixed emphasis table', () => {
+      const result = engine.evaluate(options, constraints);
+      // 5 -> 1.5x, 4 -> 1.2x, 3 -> 1.0x, 2 -> 0.8x, 1 -> 0.5x
+      const emphasized = { cost: 5 * 1.5, performance: 4 * 1.2, easeOfUse: 3 * 1.0, scalability: 2 * 0.8, vendorLockIn: 1 * 0.5 };
+
+      result.scores.forEach(score => {
+        expect(score.weightedScore).toBeCloseTo(expectedScore(score.criteriaScores, emphasized), 10);
+      });
+    });
+
+    it('should interpolate the emphasis factor between integer priorities', () => {
+      const result = engine.evaluate(options, {
+        ...constraints,
+        priorities: { ...constraints.priorities, cost: 4.5, scalability: 2.25 },
+      });
+      // 4.5 sits halfway between 1.2x and 1.5x; 2.25 a quarter of the way from 0.8x to 1.0x
+      const emphasized = { cost: 4.5 * 1.35, performance: 4 * 1.2, easeOfUse: 3 * 1.0, scalability: 2.25 * 0.85, vendorLockIn: 1 * 0.5 };
+
+      result.scores.forEach(score => {
+        expect(score.weightedScore).toBeCloseTo(expectedScore(score.criteriaScores, emphasized), 10);
+      });
+    });
+  });
+
+  describe('uncertainty simulation', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+    };
+
+    it('should attach ranking probabilities to the evaluation result', () => {
+      const options = [knowledgeBase.findTechnology('PostgreSQL')!, knowledgeBase.findTechnology('MongoDB')!];
+      const result = engine.evaluate(options, constraints);
+
+      expect(result.uncertainty?.options).toHaveLength(2);
+      const total = result.uncertainty!.options.reduce((sum, o) => sum + o.probabilityOfFirst, 0);
+      expect(total).toBeCloseTo(1, 10);
+      expect(engine.evaluate(options, constraints).uncertainty).toEqual(result.uncertainty);
+    });
+
+    it('should widen outcomes when an option carries explicit uncertainty', () => {
+      const postgres = knowledgeBase.findTechnology('PostgreSQL')!;
+      const mongo = knowledgeBase.findTechnology('MongoDB')!;
+      const certain = engine.evaluate([postgres, mongo], constraints);
+      const uncertain = engine.evaluate([
+        { ...postgres, uncertainty: { performance: { distribution: 'uniform', min: 20, max: 100 } } },
+        mongo,
+      ], constraints);
+
+      const interval = (result: typeof certain) => {
+        const entry = result.uncertainty!.options.find(o => o.option.name === 'PostgreSQL')!;
+        return entry.confidenceInterval.upper - entry.confidenceInterval.lower;
+      };
+      expect(interval(uncertain)).toBeGreaterThan(interval(certain));
+    });
+
+    it('should reproduce the point ranking when every range has zero width', () => {
+      const options = ['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name)!);
+      const contextual = { ...constraints, team: { skillLevel: 'junior' as const, experience: ['PostgreSQL'] } };
+      const point = engine.evaluate(options, contextual);
+
+      // Pin every criterion to its score before contextual adjustments
+      const pinned = options.map(option => {
+        const score = point.scores.find(s => s.option.name === option.name)!;
+        const uncertainty = Object.fromEntries(Object.entries(score.provenance!).map(([criterion, entry]) => {
+          const context = entry.adjustments.filter(a => a.source === 'context').reduce((sum, a) => sum + a.points, 0);
+          const value = entry.finalScore - context;
+          return [criterion, { distribution: 'uniform' as const, min: value, max: value }];
+        }));
+        return { ...option, uncertainty };
+      });
+      const contextShifted = point.scores.some(score =>
+        Object.values(score.provenance!).some(entry => entry.adjustments.some(a => a.source === 'context' && a.points !== 0))
+      );
+      const result = engine.evaluate(pinned, contextual);
+
+      expect(contextShifted).toBe(true);
+      expect(result.uncertainty?.options[0]).toMatchObject({ option: { name: point.rankings[0]!.option.name }, probabilityOfFirst: 1 });
+      point.rankings.forEach(ranked => {
+        const entry = result.uncertainty!.options.find(o => o.option.name === ranked.option.name)!;
+        expect(entry.expectedRank).toBe(ranked.rank);
+        expect(entry.meanScore).toBeCloseTo(ranked.score, 10);
+      });
+    });
+
+    it('should honor simulation settings passed to the constructor', () => {
+      const configured = new ComparisonEngine(undefined, undefined, { iterations: 200, seed: 3 });
+      const result = configured.evaluate(
+        [knowledgeBase.findTechnology('PostgreSQL')!, knowledgeBase.findTechnology('MySQL')!],
+        constraints
+      );
+
+      expect(result.uncertainty).toMatchObject({ iterations: 200, seed: 3 });
+    });
+
+    it('should reject invalid uncertainty specifications', () => {
+      const options: TechnicalOption[] = [
+        { name: 'AWS', category: 'cloud', metadata: {}, uncertainty: { cost: { distribution: 'uniform', min: 90, max: 10 } } },
+        { name: 'GCP', category: 'cloud', metadata: {} },
+      ];
+
+      expect(engine.validateTechnicalOptions(options).errors[0]).toMatchObject({
+        field: 'options[0].uncertainty.cost',
+        code: 'UNCERTAINTY_INVALID',
+      });
+      expect(() => engine.evaluate(options, constraints)).toThrow('Invalid options');
+    });
+  });
+
+  describe('aggregation methods', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const options = ['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name)!);
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 5, performance: 2, easeOfUse: 3, scalability: 4, vendorLockIn: 1 },
+    };
+
+    it('should record weighted sum as the default method', () => {
+      expect(engine.getAggregationMethod()).toBe('weighted-sum');
+      expect(engine.evaluate(options, constraints).aggregationMethod).toBe('weighted-sum');
+    });
+
+    it('should rank with the selected strategy', () => {
+      engine.setAggregationStrategy(new PrometheeStrategy());
+      const result = engine.evaluate(options, constraints);
+
+      expect(result.aggregationMethod).toBe('promethee-ii');
+      const flows = result.scores.map(score => score.weightedScore);
+      expect(flows.reduce((sum, value) => sum + value, 0)).toBeCloseTo(150);
+      expect(result.rankings[0]?.score).toBe(Math.max(...flows));
+      expect(result.sensitivity?.currentWinner.name).toBe(result.rankings[0]?.option.name);
+    });
+
+    it('should mark sensitivity analysis as not applicable when AHP judgments set the weights', () => {
+      engine.setAggregationStrategy(new AhpStrategy([{ more: 'performance', less: 'cost', intensity: 5 }]));
+      const result = engine.evaluate(options, constraints);
+
+      expect(result.sensitivity).toBeUndefined();
+      expect(result.sensitivityNotApplicable).toMatch(/AHP judgments set the criterion weights/);
+
+      engine.setAggregationStrategy(new AhpStrategy());
+      expect(engine.evaluate(options, constraints).sensitivity).toBeDefined();
+    });
+
+    it('should compare rankings from every method side by side', () => {
+      const comparison = engine.compareAggregationMethods(options, constraints);
+
+      expect(comparison.methods.map(m => m.method)).toEqual(['weighted-sum', 'topsis', 'ahp', 'promethee-ii']);
+      expect(comparison.rows.map(row => row.option.name)).toEqual(['PostgreSQL', 'MongoDB', 'MySQL']);
+      comparison.rows.forEach(row => {
+        expect(Object.keys(row.ranks)).toHaveLength(4);
+        expect(Object.keys(row.scores)).toHaveLength(4);
+      });
+
+      const winners = new Set(comparison.methods.map(m => m.rankings[0]?.option.name));
+      expect(comparison.consensus).toBe(winners.size === 1);
+      expect(engine.getAggregationMethod()).toBe('weighted-sum');
+    });
+
+    it('should match evaluate() for the weighted sum ranking', () => {
+      const comparison = engine.compareAggregationMethods(options, constraints, [new WeightedSumStrategy()]);
+      const result = engine.evaluate(options, constraints);
+
+      expect(comparison.methods[0]?.rankings).toEqual(result.rankings);
+      expect(comparison.consensus).toBe(true);
+    });
+  });
+
+  describe('hard constraints', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const databases = ['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name)!);
+    const clouds = ['AWS', 'GCP', 'Azure'].map(name => knowledgeBase.findTechnology(name)!);
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 5, vendorLockIn: 3 },
+    };
+
+    it('should not report eliminations without hard constraints', () => {
+      expect(engine.evaluate(databases, constraints).eliminated).toBeUndefined();
+    });
+
+    it('should eliminate options that fail a must-have before scoring', () => {
+      const unconstrained = engine.evaluate(databases, constraints);
+      expect(unconstrained.rankings[0]?.option.name).toBe('MongoDB');
+
+      const result = engine.evaluate(databases, {
+        ...constraints,
+        hardConstraints: { mustHave: [{ field: 'acidCompliance', operator: 'equals' as const, value: true }] },
+      });
+
+      expect(result.eliminated).toEqual([{
+        option: expect.objectContaining({ name: 'MongoDB' }),
+        reasons: [expect.objectContaining({ constraint: 'mustHave', field: 'acidCompliance' })],
+      }]);
+      expect(result.scores.map(s => s.option.name)).toEqual(['PostgreSQL', 'MySQL']);
+      expect(result.rankings.map(r => r.option.name)).not.toContain('MongoDB');
+      expect(result.uncertainty?.options.map(o => o.option.name)).not.toContain('MongoDB');
+    });
+
+    it('should not let fallback metadata satisfy a must-have', () => {
+      const unknown: TechnicalOption = { name: 'NewDB', category: 'database', metadata: {} };
+      const result = engine.evaluate([databases[0]!, unknown], {
+        ...constraints,
+        hardConstraints: { mustHave: [{ field: 'acidCompliance', operator: 'equals' as const, value: true }] },
+      });
+
+      expect(result.eliminated?.[0]?.option.name).toBe('NewDB');
+      expect(result.eliminated?.[0]?.reasons[0]?.message).toContain('does not declare acidCompliance');
+    });
+
+    it('should veto options below a minimum criterion score', () => {
+      const unconstrained = engine.evaluate(clouds, constraints);
+      const cost = (name: string) => unconstrained.scores.find(s => s.option.name === name)!.criteriaScores.cost!;
+      const minimum = Math.max(...clouds.map(c => cost(c.name))) - 0.5;
+
+      const result = engine.evaluate(clouds, { ...constraints, hardConstraints: { minimumScores: { cost: minimum } } });
+
+      expect(result.scores).toHaveLength(1);
+      expect(result.eliminated).toHaveLength(2);
+      result.eliminated!.forEach(e => {
+        expect(e.reasons[0]?.constraint).toBe('minimumScore');
+        expect(e.reasons[0]?.field).toBe('cost');
+      });
+      expect(result.sensitivity).toBeUndefined();
+    });
+
+    it('should throw when every option is eliminated', () => {
+      const evaluateAll = () => engine.evaluate(clouds, {
+        ...constraints,
+        hardConstraints: { mustHave: [{ field: 'certifications', operator: 'includes' as const, value: 'IRAP' }] },
+      });
+
+      expect(evaluateAll).toThrow(AllOptionsEliminatedError);
+      try {
+        evaluateAll();
+      } catch (error) {
+        expect((error as AllOptionsEliminatedError).eliminated).toHaveLength(3);
+        expect((error as AllOptionsEliminatedError).errors[0]?.code).toBe('OPTION_ELIMINATED');
+      }
+    });
+
+    it('should leave eliminated options out of method comparisons', () => {
+      const comparison = engine.compareAggregationMethods(databases, {
+        ...constraints,
+        hardConstraints: { mustHave: [{ field: 'acidCompliance', operator: 'equals' as const, value: true }] },
+      });
+
+      expect(comparison.rows.map(row => row.option.name)).toEqual(['PostgreSQL', 'MySQL']);
+      comparison.methods.forEach(m => expect(m.rankings).toHaveLength(2));
+    });
+  });
+
+  describe('score provenance', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const databases = ['PostgreSQL', 'MongoDB'].map(name => knowledgeBase.findTechnology(name)!);
+    const constraints = {
+      budget: 'low' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'junior' as const, experience: ['MongoDB'] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+      customCriteria: [{ name: 'compliance', priority: 3, scores: { PostgreSQL: 90 } }],
+    };
+
+    it('should record contextual adjustments after the knowledge base scoring', () => {
+      const result = engine.evaluate(databases, constraints);
+
+      result.scores.forEach(score => {
+        for (const [criterion, value] of Object.entries(score.criteriaScores)) {
+          expect(score.provenance?.[criterion]?.finalScore).toBe(value);
+        }
+      });
+
+      const mongo = result.scores.find(s => s.option.name === 'MongoDB')!;
+      expect(mongo.provenance?.['cost']?.adjustments).toContainEqual(
+        expect.objectContaining({ source: 'context', name: 'budget', reason: 'Low budget favors cost-effective options' })
+      );
+      // Experience replaces the junior team adjustment to the same criterion
+      const learningCurve = mongo.provenance?.['learningCurve']?.adjustments.filter(a => a.source === 'context');
+      expect(learningCurve).toEqual([
+        expect.objectContaining({ name: 'experience', reason: 'Team already knows MongoDB' }),
+      ]);
+    });
+
+    it('should record where custom criterion scores came from', () => {
+      const result = engine.evaluate(databases, constraints);
+      const provenanceOf = (name: string) => result.scores.find(s => s.option.name === name)!.provenance?.['compliance'];
+
+      expect(provenanceOf('PostgreSQL')?.contributions).toEqual([{ points: 90, reason: 'Scored manually' }]);
+      expect(provenanceOf('MongoDB')?.contributions).toEqual([{ points: 50, reason: 'Neutral score - no score available' }]);
+    });
+  });
+
+  describe('custom criteria', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const databases = ['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name)!);
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 5, vendorLockIn: 3 },
+    };
+
+    it('should score options with manual scores and scoring functions', () => {
+      const result = engine.evaluate(databases, {
+        ...constraints,
+        customCriteria: [
+          { name: 'compliance', label: 'Compliance', priority: 4, scores: { postgresql: 90, MongoDB: 30 } },
+          { name: 'transactions', priority: 3, scoringFunction: option => (option.metadata['acidCompliance'] ? 150 : 10) },
+        ],
+      });
+      const scoresOf = (name: string) => result.scores.find(s => s.option.name === name)!.criteriaScores;
+
+      expect(scoresOf('PostgreSQL')['compliance']).toBe(90);
+      expect(scoresOf('MongoDB')['compliance']).toBe(30);
+      expect(scoresOf('MySQL')['compliance']).toBe(50); // Neutral when unscored
+      expect(scoresOf('PostgreSQL')['transactions']).toBe(100); // Clamped
+      expect(scoresOf('MongoDB')['transactions']).toBe(10);
+      expect(result.criterionLabels).toEqual({ compliance: 'Compliance', transactions: 'transactions' });
+      expect(result.tradeOffs.strongestOption['compliance']?.name).toBe('PostgreSQL');
+      expect(result.tradeOffs.compromises.map(c => c.description))
+        .toContain('Choosing MongoDB means accepting weaker Compliance performance');
+      expect(result.tradeOffs.compromises.every(c => c.description.startsWith(`Choosing ${c.option?.name} `))).toBe(true);
+    });
+
+    it('should let a high-priority custom criterion change the ranking', () => {
+      const unconstrained = engine.evaluate(databases, constraints);
+      expect(unconstrained.rankings[0]?.option.name).toBe('MongoDB');
+      expect(unconstrained.criterionLabels).toBeUndefined();
+
+      const result = engine.evaluate(databases, {
+        ...constraints,
+        customCriteria: [{ name: 'compliance', priority: 5, scores: { PostgreSQL: 100, MongoDB: 0, MySQL: 60 } }],
+      });
+
+      expect(result.rankings[0]?.option.name).toBe('PostgreSQL');
+      expect(result.uncertainty?.options.map(o => o.option.name)).toContain('PostgreSQL');
+    });
+
+    it('should weigh a low-priority custom criterion less than a high-priority one', () => {
+      const withPriority = (priority: number) => engine.evaluate(databases, {
+        ...constraints,
+        customCriteria: [{ name: 'compliance', priority, scores: { PostgreSQL: 100, MongoDB: 0, MySQL: 0 } }],
+      }).scores.find(s => s.option.name === 'PostgreSQL')!.weightedScore;
+
+      expect(withPriority(5)).toBeGreaterThan(withPriority(1));
+    });
+
+    it('should not carry custom criteria over to later calls on the same engine', () => {
+      const plain = engine.evaluate(databases, constraints);
+      engine.evaluate(databases, {
+        ...constraints,
+        customCriteria: [{ name: 'compliance', priority: 5, scores: { PostgreSQL: 100, MongoDB: 0, MySQL: 60 } }],
+      });
+
+      const readjusted = engine.applyContextualAdjustments(plain.scores, constraints);
+      const sensitivity = engine.analyzeSensitivity(plain.scores, constraints.priorities);
+
+      expect(readjusted.map(score => score.weightedScore)).toEqual(plain.scores.map(score => score.weightedScore));
+      expect(sensitivity?.currentWinner.name).toBe(plain.rankings[0]?.option.name);
+    });
+
+    it('should fall back to a neutral score when a scoring function throws', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const result = engine.evaluate(databases, {
+        ...constraints,
+        customCriteria: [{ name: 'broken', priority: 3, scoringFunction: () => { throw new Error('boom'); } }],
+      });
+
+      result.scores.forEach(score => expect(score.criteriaScores['broken']).toBe(50));
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe('shortlist mode', () => {
+    const knowledgeBase = new KnowledgeBase();
+    const relational = {
+      type: 'relational', schemaFlexibility: 'rigid', queryComplexity: 'moderate', horizontalScaling: 'good',
+      consistencyModel: 'strong', acidCompliance: true, performanceRating: 7,
+    };
+    const database = (name: string, metadata: Record<string, unknown>): TechnicalOption =>
+      ({ name, category: 'database', metadata: { name, ...relational, ...metadata } });
+    const candidates: TechnicalOption[] = [
+      ...['PostgreSQL', 'MongoDB', 'MySQL'].map(name => knowledgeBase.findTechnology(name)!),
+      database('LegacyDB', { horizontalScaling: 'poor', queryComplexity: 'complex', performanceRating: 3 }),
+      database('CockroachDB', { horizontalScaling: 'excellent', performanceRating: 8 }),
+      database('Cassandra', {
+        type: 'columnar', schemaFlexibility: 'flexible', consistencyModel: 'eventual',
+        acidCompliance: false, horizontalScaling: 'excellent', performanceRating: 9,
+      }),
+      database('SQLite', { horizontalScaling: 'poor', queryComplexity: 'simple', performanceRating: 6 }),
+      database('MariaDB', {}),
+    ];
+    const constraints = {
+      budget: 'medium' as const,
+      scale: { users: 1000, traffic: 'medium' as const },
+      team: { skillLevel: 'mixed' as const, experience: [] },
+      timeline: 'short' as const,
+      priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 5, vendorLockIn: 3 },
+    };
+
+    it('should narrow many candidates to a detailed evaluation of the finalists', () => {
+      const result = engine.evaluateShortlist(candidates, constraints);
+      const shortlist = result.shortlist!;
+
+      expect(shortlist.candidateCount).toBe(8);
+      expect(shortlist.finalists).toHaveLength(3);
+      expect(shortlist.cut).toHaveLength(5);
+      expect(result.scores.map(s => s.option.name).sort()).toEqual(shortlist.finalists.map(o => o.name).sort());
+      expect(result.rankings[0]?.option.name).toBe(shortlist.finalists[0]?.name);
+      expect(shortlist.cut.find(c => c.option.name === 'LegacyDB')?.stage).toBe('dominated');
+      shortlist.cut.forEach(c => expect(c.reason.length).toBeGreaterThan(0));
+    });
+
+    it('should return finalists as supplied rather than with fallback metadata', () => {
+      const finalists = engine.shortlistOptions(candidates, constraints).finalists;
+
+      finalists.forEach(finalist => expect(candidates).toContain(finalist));
+    });
+
+    it('should apply hard constraints before Pareto filtering', () => {
+      const result = engine.evaluateShortlist(candidates, {
+        ...constraints,
+        hardConstraints: { mustHave: [{ field: 'acidCompliance', operator: 'equals' as const, value: true }] },
+      });
+
+      const constraintCuts = result.shortlist!.cut.filter(c => c.stage === 'constraints').map(c => c.option.name);
+      expect(constraintCuts).toEqual(['MongoDB', 'Cassandra']);
+      expect(result.eliminated?.map(e => e.option.name)).toEqual(['MongoDB', 'Cassandra']);
+      expect(result.shortlist!.finalists.map(o => o.name)).not.toContain('MongoDB');
+    });
+
+    it('should honor the requested shortlist size', () => {
+      expect(engine.shortlistOptions(candidates, constraints, 2).finalists).toHaveLength(2);
+      expect(() => engine.shortlistOptions(candidates, constraints, 5)).toThrow(/between 2 and 3/);
+    });
+
+    it('should reject candidates from several categories', () => {
+      const mixed = [...candidates, knowledgeBase.findTechnology('AWS')!];
+      const validation = engine.validateShortlistOptions(mixed);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors.map(e => e.code)).toContain('OPTIONS_MIXED_CATEGORIES');
+      expect(() => engine.evaluateShortlist(mixed, constraints)).toThrow(InvalidOptionsError);
+    });
+  });
 });
\ No newline at end of file
@@ -264,6 +264,61 @@ describe('ConstraintCollector', () => {
       expect(result.isValid).toBe(true);
       expect(result.warnings).toContain('All priorities have the same weight - consider differentiating based on your specific needs');
     });
+
+    test('should validate hard constraints', () => {
+      const result = collector.validateConstraints({
+        ...validConstraints,
+        hardConstraints: {
+          mustHave: [{ field: 'acidCompliance', operator: 'equals', value: true }],
+          minimumScores: { performance: -5 },
+        },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.code)).toEqual(['MINIMUM_SCORE_OUT_OF_RANGE']);
+    });
+
+    test('should accept minimum scores for custom criteria of the same constraints', () => {
+      const hardConstraints = { minimumScores: { compliance: 60 } };
+
+      expect(collector.validateConstraints({
+        ...validConstraints,
+        hardConstraints,
+        customCriteria: [{ name: 'compliance', priority: 4, scores: { PostgreSQL: 90 } }],
+      }).isValid).toBe(true);
+      expect(collector.validateConstraints({ ...validConstraints, hardConstraints }).errors.map(e => e.code))
+        .toEqual(['MINIMUM_SCORE_UNKNOWN_CRITERION']);
+    });
+
+    test('should validate custom criteria', () => {
+      const valid = collector.validateConstraints({
+        ...validConstraints,
+        customCriteria: [
+          { name: 'compliance', label: 'Compliance', priority: 4, scores: { PostgreSQL: 90 } },
+          { name: 'hiring', priority: 2, scoringFunction: () => 50 },
+        ],
+      });
+      expect(valid.isValid).toBe(true);
+
+      const result = collector.validateConstraints({
+        ...validConstraints,
+        customCriteria: [
+          { name: 'cost', priority: 3, scores: {} },
+          { name: 'compliance', priority: 7, scores: { PostgreSQL: 120 } },
+          { name: 'compliance', priority: 3 },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => [e.field, e.code])).toEqual([
+        ['customCriteria[0].name', 'CUSTOM_CRITERION_NAME_RESERVED'],
+        ['customCriteria[1].priority', 'PRIORITY_OUT_OF_RANGE'],
+        ['customCriteria[1].scores.PostgreSQL', 'CUSTOM_CRITERION_SCORE_OUT_OF_RANGE'],
+        ['customCriteria[2].name', 'CUSTOM_CRITERION_DUPLICATE'],
+        ['customCriteria[2]', 'CUSTOM_CRITERION_UNSCORED'],
+      ]);
+      expect(result.warnings).toContain('Custom criterion cost has no scores - every option will score 50');
+    });
   });
 
   describe('normalizePriorities', () => {
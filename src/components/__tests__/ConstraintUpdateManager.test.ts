@@ -95,6 +95,18 @@ describe('ConstraintUpdateManager', () => {
       expect(result.changesSummary).toContain('Traffic level changed from medium to high');
     });
 
+    it('should replace hard constraints', async () => {
+      const updates: UserConstraintUpdates = {
+        hardConstraints: { minimumScores: { performance: 40 } }
+      };
+
+      const result = await updateManager.updateConstraints(mockSession.id, updates);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedConstraints.hardConstraints).toEqual({ minimumScores: { performance: 40 } });
+      expect(result.changesSummary).toContain('Hard constraints updated');
+    });
+
     it('should update team information', async () => {
       const updates = { 
         team: { 
@@ -111,6 +123,24 @@ describe('ConstraintUpdateManager', () => {
       expect(result.changesSummary).toContain('Team skill level changed from mixed to senior');
     });
 
+    it('should leave constraints and history untouched when re-evaluation fails', async () => {
+      const before = structuredClone(updateManager.getSession(mockSession.id)!.constraints);
+
+      // Every cloud lacks the declared field, so the engine eliminates both options
+      const result = await updateManager.updateConstraints(mockSession.id, {
+        hardConstraints: { mustHave: [{ field: 'acidCompliance', operator: 'equals', value: true }] }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]?.code).toBe('EVALUATION_FAILED');
+      expect(result.updatedConstraints).toEqual(before);
+      const session = updateManager.getSession(mockSession.id)!;
+      expect(session.constraints).toEqual(before);
+      expect(session.modificationHistory ?? []).toEqual([]);
+      expect(session.evaluationHistory).toEqual([]);
+      expect(updateManager.getUndoRedoAvailability(mockSession.id).canUndo).toBe(false);
+    });
+
     it('should fail for non-existent session', async () => {
       const updates = { budget: 'high' as const };
       
@@ -254,4 +284,101 @@ describe('ConstraintUpdateManager', () => {
       expect(result.updatedConstraints.priorities.performance).toBe(4); // Should preserve original
     });
   });
+
+  describe('undo, redo and restore', () => {
+    it('should undo and redo changes in order, recording each as a modification', async () => {
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+      await updateManager.updateConstraints(mockSession.id, { timeline: 'short' as const });
+
+      const undone = await updateManager.undo(mockSession.id);
+      expect(undone.success).toBe(true);
+      expect(undone.evaluationResult).not.toBeNull();
+      expect(undone.updatedConstraints).toMatchObject({ budget: 'high', timeline: 'medium' });
+
+      await updateManager.undo(mockSession.id);
+      expect(updateManager.getUndoRedoAvailability(mockSession.id)).toEqual({ canUndo: false, canRedo: true });
+
+      const redone = await updateManager.redo(mockSession.id);
+      expect(redone.updatedConstraints).toMatchObject({ budget: 'high', timeline: 'medium' });
+
+      const history = updateManager.getModificationHistory(mockSession.id);
+      expect(history.map(modification => modification.operation)).toEqual(['update', 'update', 'undo', 'undo', 'redo']);
+      expect(history.map(modification => modification.targetIndex)).toEqual([undefined, undefined, 1, 0, 0]);
+      expect(history[2]?.reason).toBe('Undo change #2');
+    });
+
+    it('should clear what can be redone once a new change is made', async () => {
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+      await updateManager.undo(mockSession.id);
+      await updateManager.updateConstraints(mockSession.id, { timeline: 'long' as const });
+
+      const result = await updateManager.redo(mockSession.id);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]?.code).toBe('NOTHING_TO_REDO');
+      expect(updateManager.getUndoRedoAvailability(mockSession.id)).toEqual({ canUndo: true, canRedo: false });
+    });
+
+    it('should report when there is nothing to undo', async () => {
+      const result = await updateManager.undo(mockSession.id);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]?.code).toBe('NOTHING_TO_UNDO');
+      expect(result.updatedConstraints).toEqual(mockSession.constraints);
+    });
+
+    it('should restore the state right after a history index', async () => {
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+      await updateManager.updateConstraints(mockSession.id, { priorities: { cost: 5 } });
+      await updateManager.updateConstraints(mockSession.id, { budget: 'low' as const, timeline: 'short' as const });
+
+      const result = await updateManager.restoreTo(mockSession.id, 0);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedConstraints).toMatchObject({ budget: 'high', timeline: 'medium', priorities: { cost: 3 } });
+      const history = updateManager.getModificationHistory(mockSession.id);
+      expect(history).toHaveLength(4);
+      expect(history[3]).toMatchObject({ operation: 'restore', reason: 'Restore change #1' });
+      expect(history[3]?.modifiedFields).toEqual(expect.arrayContaining(['budget', 'priorities.cost', 'timeline']));
+    });
+
+    it('should restore the state at a moment in time, including the original constraints', async () => {
+      const original = structuredClone(mockSession.constraints);
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+      await updateManager.updateConstraints(mockSession.id, { team: { experience: ['go'] } });
+      const history = updateManager.getModificationHistory(mockSession.id);
+      history[0]!.timestamp = new Date('2024-01-01T10:00:00Z');
+      history[1]!.timestamp = new Date('2024-01-01T11:00:00Z');
+
+      const atTen = await updateManager.restoreTo(mockSession.id, new Date('2024-01-01T10:30:00Z'));
+      expect(atTen.updatedConstraints.team.experience).toEqual(['javascript']);
+      expect(atTen.updatedConstraints.budget).toBe('high');
+
+      const before = await updateManager.restoreTo(mockSession.id, new Date('2024-01-01T09:00:00Z'));
+      expect(before.updatedConstraints).toEqual(original);
+      expect(updateManager.getModificationHistory(mockSession.id)[3]?.reason).toBe('Restore the original constraints');
+    });
+
+    it('should restore by time when stored timestamps were not revived as dates', async () => {
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+      await updateManager.updateConstraints(mockSession.id, { timeline: 'long' as const });
+      const history = updateManager.getModificationHistory(mockSession.id);
+      history[0]!.timestamp = '2024-01-01T10:00:00.000Z' as unknown as Date;
+      history[1]!.timestamp = '2024-01-01T11:00:00.000Z' as unknown as Date;
+
+      const result = await updateManager.restoreTo(mockSession.id, new Date('2024-01-01T10:30:00Z'));
+
+      expect(result.success).toBe(true);
+      expect(result.updatedConstraints).toMatchObject({ budget: 'high', timeline: 'medium' });
+    });
+
+    it('should reject invalid restore points and restores that change nothing', async () => {
+      await updateManager.updateConstraints(mockSession.id, { budget: 'high' as const });
+
+      expect((await updateManager.restoreTo(mockSession.id, 5)).errors[0]?.code).toBe('RESTORE_POINT_INVALID');
+      expect((await updateManager.restoreTo(mockSession.id, new Date('nonsense'))).errors[0]?.code).toBe('RESTORE_POINT_INVALID');
+      expect((await updateManager.restoreTo(mockSession.id, 0)).errors[0]?.code).toBe('NOTHING_TO_RESTORE');
+      expect((await updateManager.undo('missing-session')).errors[0]?.code).toBe('SESSION_NOT_FOUND');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,144 @@
+/**
+ * Tests for HardConstraintFilter component
+ * Validates must-have checks, minimum score vetoes and constraint validation
+ */
+
+import { HardConstraintFilter } from '../HardConstraintFilter';
+import { OptionScore, TechnicalOption } from '../../types';
+
+describe('HardConstraintFilter', () => {
+  let filter: HardConstraintFilter;
+
+  const cloud: TechnicalOption = {
+    name: 'GCP',
+    category: 'cloud',
+    metadata: { certifications: ['SOC', 'ISO', 'HIPAA'], regions: 24, pricingModel: 'pay-as-you-go' },
+  };
+
+  beforeEach(() => {
+    filter = new HardConstraintFilter();
+  });
+
+  describe('checkRequirements', () => {
+    it('should pass options that meet every requirement', () => {
+      expect(filter.checkRequirements(cloud, [
+        { field: 'certifications', operator: 'includes', value: ['hipaa', 'SOC'] },
+        { field: 'regions', operator: 'atLeast', value: 20 },
+        { field: 'pricingModel', operator: 'oneOf', value: ['pay-as-you-go', 'hybrid'] },
+      ])).toEqual([]);
+    });
+
+    it('should report each failed requirement', () => {
+      const reasons = filter.checkRequirements(cloud, [
+        { field: 'certifications', operator: 'includes', value: 'FedRAMP', description: 'FedRAMP authorization' },
+        { field: 'regions', operator: 'atMost', value: 10 },
+      ]);
+
+      expect(reasons.map(r => r.field)).toEqual(['certifications', 'regions']);
+      expect(reasons[0]).toEqual({
+        constraint: 'mustHave',
+        field: 'certifications',
+        message: 'fails requirement "FedRAMP authorization" (certifications is SOC, ISO, HIPAA)',
+      });
+      expect(reasons[1]?.message).toContain('regions must be at most 10');
+    });
+
+    it('should treat undeclared fields as unmet', () => {
+      const reasons = filter.checkRequirements(cloud, [{ field: 'acidCompliance', operator: 'equals', value: true }]);
+
+      expect(reasons[0]?.message).toBe('does not declare acidCompliance (required: acidCompliance must be true)');
+    });
+
+    it('should skip requirements scoped to other categories', () => {
+      expect(filter.checkRequirements(cloud, [
+        { field: 'acidCompliance', operator: 'equals', value: true, categories: ['database'] },
+      ])).toEqual([]);
+    });
+  });
+
+  describe('checkMinimumScores', () => {
+    const score: OptionScore = {
+      option: cloud,
+      criteriaScores: { cost: 45, performance: 80 },
+      weightedScore: 60,
+      normalizedScore: 60,
+    };
+
+    it('should veto options below a minimum', () => {
+      const reasons = filter.checkMinimumScores(score, { cost: 50, performance: 70 });
+
+      expect(reasons).toEqual([{
+        constraint: 'minimumScore',
+        field: 'cost',
+        message: 'cost score 45/100 is below the required minimum of 50',
+      }]);
+    });
+
+    it('should veto options that were not scored on a constrained criterion', () => {
+      expect(filter.checkMinimumScores(score, { compliance: 10 })).toEqual([{
+        constraint: 'minimumScore',
+        field: 'compliance',
+        message: 'has no compliance score to check against the required minimum of 10',
+      }]);
+    });
+  });
+
+  describe('validateHardConstraints', () => {
+    it('should accept missing and well-formed constraints', () => {
+      expect(filter.validateHardConstraints(undefined).isValid).toBe(true);
+      expect(filter.validateHardConstraints({
+        mustHave: [{ field: 'acidCompliance', operator: 'equals', value: true, categories: ['database'] }],
+        minimumScores: { performance: 60 },
+      }).isValid).toBe(true);
+    });
+
+    it('should reject malformed requirements and thresholds', () => {
+      const result = filter.validateHardConstraints({
+        mustHave: [
+          { field: '', operator: 'equals', value: true },
+          { field: 'regions', operator: 'greaterThan', value: 3 },
+          { field: 'regions', operator: 'atLeast', value: 'many' },
+          { field: 'type', operator: 'equals', value: ['relational', 'document'] },
+        ],
+        minimumScores: { cost: 120 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.field)).toEqual([
+        'hardConstraints.mustHave[0]',
+        'hardConstraints.mustHave[1]',
+        'hardConstraints.mustHave[2]',
+        'hardConstraints.mustHave[3]',
+        'hardConstraints.minimumScores.cost',
+      ]);
+      expect(result.errors[4]?.code).toBe('MINIMUM_SCORE_OUT_OF_RANGE');
+    });
+
+    it('should reject minimums for criteria that are neither standard nor custom', () => {
+      const customCriteria = [{ name: 'compliance', priority: 3, scores: { GCP: 80 } }];
+      const result = filter.validateHardConstraints(
+        { minimumScores: { maintainability: 40, compliance: 60, security: 70 } },
+        customCriteria
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([expect.objectContaining({
+        field: 'hardConstraints.minimumScores.security',
+        code: 'MINIMUM_SCORE_UNKNOWN_CRITERION',
+      })]);
+      expect(filter.validateHardConstraints({ minimumScores: { compliance: 60 } }).errors[0]?.code)
+        .toBe('MINIMUM_SCORE_UNKNOWN_CRITERION');
+    });
+
+    it('should warn about very strict minimums', () => {
+      const result = filter.validateHardConstraints({ minimumScores: { performance: 95 } });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0]).toContain('very strict');
+    });
+
+    it('should reject non-object constraints', () => {
+      expect(filter.validateHardConstraints([]).errors[0]?.code).toBe('HARD_CONSTRAINTS_INVALID_TYPE');
+    });
+  });
+});
@@ -19,6 +19,12 @@ describe('KnowledgeBase', () => {
       expect(categories).toContain('cloud');
       expect(categories).toContain('backend');
       expect(categories).toContain('database');
+      expect(categories).toContain('frontend');
+      expect(categories).toContain('messaging');
+      expect(categories).toContain('orchestration');
+      expect(categories).toContain('observability');
+      expect(categories).toContain('identity');
+      expect(categories).toContain('cache');
     });
 
     test('should return criteria for known categories', () => {
@@ -54,6 +60,14 @@ describe('KnowledgeBase', () => {
       expect(knowledgeBase.isKnownTechnology(awsOption)).toBe(true);
     });
 
+    test('should recognize known frontend frameworks', () => {
+      const reactOption: TechnicalOption = { name: 'React', category: 'frontend', metadata: {} };
+      const svelteOption: TechnicalOption = { name: 'svelte', category: 'frontend', metadata: {} };
+
+      expect(knowledgeBase.isKnownTechnology(reactOption)).toBe(true);
+      expect(knowledgeBase.isKnownTechnology(svelteOption)).toBe(true);
+    });
+
     test('should not recognize unknown technologies', () => {
       const unknownOption: TechnicalOption = {
         name: 'UnknownTech',
@@ -62,6 +76,24 @@ describe('KnowledgeBase', () => {
       };
       expect(knowledgeBase.isKnownTechnology(unknownOption)).toBe(false);
     });
+
+    test('should resolve option selections by name or as custom options', () => {
+      const { options, errors } = knowledgeBase.resolveOptionSelections([
+        'postgresql',
+        { name: 'MongoDB', metadata: { teamExperience: true } },
+        { name: 'CockroachDB', category: 'database', metadata: { performance: 8 } },
+        { name: 'Mystery' },
+        'Unheard',
+      ]);
+
+      expect(options.map(option => option.name)).toEqual(['PostgreSQL', 'MongoDB', 'CockroachDB']);
+      expect(options[1]!.metadata.teamExperience).toBe(true);
+      expect(options[2]).toEqual({ name: 'CockroachDB', category: 'database', metadata: { performance: 8 } });
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'options[3].category', code: 'OPTION_CATEGORY_INVALID' }),
+        expect.objectContaining({ field: 'options[4]', code: 'OPTION_UNKNOWN' }),
+      ]);
+    });
   });
 
   describe('Scoring functionality', () => {
@@ -121,6 +153,383 @@ describe('KnowledgeBase', () => {
     });
   });
 
+  describe('Score provenance', () => {
+    test('should account for every point of every sample technology score', () => {
+      Object.values(knowledgeBase.getSampleTechnologies()).flat().forEach(option => {
+        const provenance = knowledgeBase.explainEvaluation(option);
+        const scores = knowledgeBase.getComprehensiveEvaluation(option);
+
+        expect(Object.keys(provenance)).toEqual(Object.keys(scores));
+        for (const [criterion, entry] of Object.entries(provenance)) {
+          const contributed = entry.contributions.reduce((sum, c) => sum + c.points, 0);
+          const adjusted = entry.adjustments.reduce((sum, a) => sum + a.points, 0);
+
+          expect(contributed).toBeCloseTo(entry.baseScore);
+          expect(entry.baseScore + adjusted).toBeCloseTo(entry.finalScore);
+          expect(entry.finalScore).toBe(scores[criterion]);
+        }
+      });
+    });
+
+    test('should name the metadata fields and rules behind a score', () => {
+      const postgres = knowledgeBase.findTechnology('PostgreSQL', 'database')!;
+      const maintainability = knowledgeBase.explainEvaluation(postgres)[STANDARD_CRITERIA.MAINTAINABILITY]!;
+
+      expect(maintainability.contributions).toEqual([
+        { points: 50, reason: 'Baseline score' },
+        { field: 'acidCompliance', points: 20, reason: 'ACID transactions' },
+        { field: 'consistencyModel', points: 15, reason: 'Strong consistency is easy to reason about' },
+        { field: 'type', points: 10, reason: 'Well-understood relational model' },
+      ]);
+      // Rules record the points actually applied once the score reaches 100
+      expect(maintainability.adjustments).toEqual([
+        { source: 'rule', name: 'ACID Compliance Bonus', points: 5, reason: 'ACID Compliance Bonus' },
+        { source: 'rule', name: 'Strong Consistency Bonus', points: 0, reason: 'Strong Consistency Bonus' },
+      ]);
+      expect(maintainability.finalScore).toBe(100);
+    });
+
+    test('should describe expression rules with their condition', () => {
+      const aws = knowledgeBase.findTechnology('AWS', 'cloud')!;
+      knowledgeBase.addScoringRule({
+        name: 'Regulated Workloads',
+        category: 'cloud',
+        expression: 'metadata.marketShare > 30',
+        scoreAdjustment: -5,
+        affectedCriteria: [STANDARD_CRITERIA.COST]
+      });
+
+      expect(knowledgeBase.explainEvaluation(aws)[STANDARD_CRITERIA.COST]?.adjustments).toContainEqual({
+        source: 'rule',
+        name: 'Regulated Workloads',
+        points: -5,
+        reason: 'Regulated Workloads, which applies when metadata.marketShare > 30',
+      });
+    });
+  });
+
+  describe('Declarative scoring rules', () => {
+    test('should run expression rules alongside the built-in rules', () => {
+      const aws = knowledgeBase.findTechnology('AWS', 'cloud')!;
+      const before = knowledgeBase.getComprehensiveEvaluation(aws);
+
+      knowledgeBase.addScoringRule({
+        name: 'Regulated Workloads',
+        category: 'cloud',
+        expression: "metadata.marketShare > 30 and 'HIPAA' in metadata.certifications",
+        scoreAdjustment: -5,
+        affectedCriteria: [STANDARD_CRITERIA.COST]
+      });
+
+      const rules = knowledgeBase.getScoringRulesForCategory('cloud');
+      expect(rules.map(rule => rule.name)).toContain('Enterprise Features Bonus');
+      expect(rules.find(rule => rule.name === 'Regulated Workloads')?.expression).toContain('HIPAA');
+      expect(knowledgeBase.getComprehensiveEvaluation(aws)[STANDARD_CRITERIA.COST]).toBe(before[STANDARD_CRITERIA.COST]! - 5);
+    });
+
+    test('should reject expressions that do not match the category metadata', () => {
+      expect(() => knowledgeBase.addScoringRule({
+        name: 'Typo',
+        category: 'database',
+        expression: "metadata.type == 'sql'",
+        scoreAdjustment: 5,
+        affectedCriteria: [STANDARD_CRITERIA.COST]
+      })).toThrow('"sql" is not a valid value for metadata.type');
+      expect(knowledgeBase.getScoringRulesForCategory('database').map(rule => rule.name)).not.toContain('Typo');
+    });
+  });
+
+  describe('Frontend frameworks', () => {
+    test('should score frontend frameworks from their metadata', () => {
+      const samples = knowledgeBase.getSampleTechnologies();
+      const svelte = samples.frontend?.find(option => option.name === 'Svelte')!;
+      const angular = samples.frontend?.find(option => option.name === 'Angular')!;
+
+      const svelteScores = knowledgeBase.evaluateOption(svelte);
+      const angularScores = knowledgeBase.evaluateOption(angular);
+
+      // Tiny bundle and fast runtime beat a large framework on performance
+      expect(svelteScores[STANDARD_CRITERIA.PERFORMANCE]).toBeGreaterThan(angularScores[STANDARD_CRITERIA.PERFORMANCE]!);
+      // Native TypeScript and corporate backing favor Angular on maintainability
+      expect(angularScores[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(svelteScores[STANDARD_CRITERIA.MAINTAINABILITY]!);
+    });
+
+    test('should reject invalid frontend metadata', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Mystery',
+        category: 'frontend',
+        metadata: {
+          renderingModel: 'islands',
+          bundleSizeKb: 'small',
+          performanceRating: 6,
+          learningCurve: 'low',
+          communitySize: 1000
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Invalid rendering model');
+      expect(validation.errors).toContain('Field bundleSizeKb must be numeric');
+    });
+  });
+
+  describe('Messaging platforms', () => {
+    test('should recognize known messaging platforms', () => {
+      expect(knowledgeBase.isKnownTechnology({ name: 'Kafka', category: 'messaging', metadata: {} })).toBe(true);
+      expect(knowledgeBase.isKnownTechnology({ name: 'nats', category: 'messaging', metadata: {} })).toBe(true);
+    });
+
+    test('should score messaging platforms from their metadata', () => {
+      const samples = knowledgeBase.getSampleTechnologies();
+      const kafka = samples.messaging?.find(option => option.name === 'Kafka')!;
+      const sqs = samples.messaging?.find(option => option.name === 'SQS')!;
+
+      const kafkaScores = knowledgeBase.getComprehensiveEvaluation(kafka);
+      const sqsScores = knowledgeBase.getComprehensiveEvaluation(sqs);
+
+      // A million messages per second beats a managed queue on throughput
+      expect(kafkaScores[STANDARD_CRITERIA.PERFORMANCE]).toBeGreaterThan(sqsScores[STANDARD_CRITERIA.PERFORMANCE]!);
+      // An open source broker that runs anywhere avoids lock-in to one provider
+      expect(kafkaScores[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(sqsScores[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      // No brokers to learn or operate favors SQS
+      expect(sqsScores[STANDARD_CRITERIA.LEARNING_CURVE]).toBeGreaterThan(kafkaScores[STANDARD_CRITERIA.LEARNING_CURVE]!);
+      expect(sqsScores[STANDARD_CRITERIA.COST]).toBeGreaterThan(kafkaScores[STANDARD_CRITERIA.COST]!);
+    });
+
+    test('should apply messaging scoring rules', () => {
+      const rules = knowledgeBase.getScoringRulesForCategory('messaging');
+      const kafka = knowledgeBase.findTechnology('Kafka', 'messaging')!;
+
+      expect(rules.filter(rule => rule.condition(kafka)).map(rule => rule.name))
+        .toEqual(['Exactly-Once Delivery Bonus', 'Replayable Log Bonus']);
+    });
+
+    test('should reject invalid messaging metadata', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Pigeon',
+        category: 'messaging',
+        metadata: {
+          deliveryGuarantee: 'eventually',
+          ordering: 'partitioned',
+          throughputMsgsPerSec: 'lots',
+          hosting: 'on-prem',
+          openSource: 'yes'
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual(expect.arrayContaining([
+        'Missing required field: retention',
+        'Field throughputMsgsPerSec must be numeric',
+        'Invalid delivery guarantee',
+        'Invalid hosting model',
+        'Field openSource must be a boolean'
+      ]));
+    });
+  });
+
+  describe('Orchestration platforms', () => {
+    test('should score portability and operational overhead into lock-in and maintainability', () => {
+      const scores = (name: string) => knowledgeBase.getComprehensiveEvaluation(knowledgeBase.findTechnology(name, 'orchestration')!);
+      const kubernetes = scores('Kubernetes');
+      const ecs = scores('ECS');
+      const vms = scores('Virtual Machines');
+
+      // Kubernetes runs anywhere with managed offerings from several clouds; ECS is AWS only
+      expect(kubernetes[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(ecs[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      // A provider-run platform needs less upkeep than a self-run cluster or hand-managed machines
+      expect(ecs[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(kubernetes[STANDARD_CRITERIA.MAINTAINABILITY]!);
+      expect(kubernetes[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(vms[STANDARD_CRITERIA.MAINTAINABILITY]!);
+      // Manual capacity does not scale
+      expect(vms[STANDARD_CRITERIA.SCALABILITY]).toBeLessThan(ecs[STANDARD_CRITERIA.SCALABILITY]!);
+    });
+
+    test('should apply orchestration scoring rules', () => {
+      const matching = (name: string) => knowledgeBase.getScoringRulesForCategory('orchestration')
+        .filter(rule => rule.condition(knowledgeBase.findTechnology(name, 'orchestration')!))
+        .map(rule => rule.name);
+
+      expect(matching('Kubernetes')).toEqual(['Runs Anywhere Bonus', 'Broad Managed Availability Bonus']);
+      expect(matching('Cloud Run')).toEqual(['Scale-to-Zero Cost Advantage']);
+    });
+
+    test('should reject invalid orchestration metadata', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Homegrown',
+        category: 'orchestration',
+        metadata: {
+          operationalOverhead: 'extreme',
+          autoscaling: 'horizontal',
+          portability: 'everywhere',
+          ecosystemRating: 'big',
+          managedOfferings: 'none'
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([
+        'Field ecosystemRating must be numeric',
+        'Field managedOfferings must be a list',
+        'Invalid operational overhead value',
+        'Invalid portability value'
+      ]);
+    });
+  });
+
+  describe('Observability stacks', () => {
+    test('should penalize proprietary agents under vendor lock-in', () => {
+      const datadog = knowledgeBase.findTechnology('Datadog', 'observability')!;
+      const withoutAgent = { ...datadog, metadata: { ...datadog.metadata, proprietaryAgent: false } };
+
+      const explanation = knowledgeBase.explainEvaluation(datadog)[STANDARD_CRITERIA.VENDOR_LOCK_IN]!;
+
+      expect(knowledgeBase.getComprehensiveEvaluation(datadog)[STANDARD_CRITERIA.VENDOR_LOCK_IN])
+        .toBeLessThan(knowledgeBase.getComprehensiveEvaluation(withoutAgent)[STANDARD_CRITERIA.VENDOR_LOCK_IN]! - 25);
+      expect(explanation.contributions).toContainEqual(expect.objectContaining({ field: 'proprietaryAgent', points: -25 }));
+    });
+
+    test('should score OpenTelemetry backends and hosted services on their strengths', () => {
+      const scores = (name: string) => knowledgeBase.getComprehensiveEvaluation(knowledgeBase.findTechnology(name, 'observability')!);
+      const signoz = scores('OpenTelemetry + SigNoz');
+      const prometheus = scores('Prometheus + Grafana');
+      const newRelic = scores('New Relic');
+
+      expect(signoz[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(prometheus[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      expect(prometheus[STANDARD_CRITERIA.COST]).toBeGreaterThan(newRelic[STANDARD_CRITERIA.COST]!);
+      expect(newRelic[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(prometheus[STANDARD_CRITERIA.MAINTAINABILITY]!);
+    });
+
+    test('should reject invalid observability metadata', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Logs-R-Us',
+        category: 'observability',
+        metadata: {
+          pricingModel: 'per-seat',
+          openTelemetrySupport: 'native',
+          proprietaryAgent: 'no',
+          retentionLimitDays: 30,
+          selfHostingBurden: 'none',
+          signals: ['metrics', 'profiles']
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([
+        'Invalid pricing model',
+        'Field proprietaryAgent must be a boolean',
+        'Invalid signal: profiles'
+      ]);
+    });
+  });
+
+  describe('Identity providers', () => {
+    test('should score self-hosting and migration tooling into vendor lock-in', () => {
+      const scores = (name: string) => knowledgeBase.getComprehensiveEvaluation(knowledgeBase.findTechnology(name, 'identity')!);
+      const keycloak = scores('Keycloak');
+      const auth0 = scores('Auth0');
+      const cognito = scores('Cognito');
+
+      // Self-hosted with a full export path beats hosted services; no password hash export is the worst
+      expect(keycloak[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(auth0[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      expect(auth0[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(cognito[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      // Expensive per-user tiers cost more than cheap ones
+      expect(cognito[STANDARD_CRITERIA.COST]).toBeGreaterThan(auth0[STANDARD_CRITERIA.COST]!);
+      // A hosted, certified service with SCIM is easier to keep compliant than self-run servers
+      expect(auth0[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(keycloak[STANDARD_CRITERIA.MAINTAINABILITY]!);
+    });
+
+    test('should apply identity scoring rules', () => {
+      const matching = (name: string) => knowledgeBase.getScoringRulesForCategory('identity')
+        .filter(rule => rule.condition(knowledgeBase.findTechnology(name, 'identity')!))
+        .map(rule => rule.name);
+
+      expect(matching('Auth0')).toEqual(['Enterprise Federation Bonus']);
+      expect(matching('Keycloak')).toEqual(['Self-Hostable Exit Path Bonus']);
+      expect(matching('Cognito')).toEqual(['No Password Hash Export Penalty']);
+    });
+
+    test('should reject invalid identity metadata and pricing tiers', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Homegrown SSO',
+        category: 'identity',
+        metadata: {
+          protocols: ['oidc', 'kerberos'],
+          mauPricing: [{ pricePerMauUsd: 0 }, { upToMau: 1000, pricePerMauUsd: -1 }, { upToMau: 500, pricePerMauUsd: 0.01 }],
+          selfHostable: true,
+          migrationTooling: 'manual'
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([
+        'Invalid protocol: kerberos',
+        'Only the last pricing tier can omit upToMau',
+        'Pricing tier 2 needs a non-negative pricePerMauUsd',
+        'Pricing tier 3 upToMau must be higher than the previous tier',
+        'The last pricing tier must omit upToMau so every user count is priced',
+        'Invalid migration tooling value'
+      ]);
+    });
+  });
+
+  describe('Caches', () => {
+    test('should score license terms, latency and persistence', () => {
+      const scores = (name: string) => knowledgeBase.getComprehensiveEvaluation(knowledgeBase.findTechnology(name, 'cache')!);
+      const redis = scores('Redis');
+      const valkey = scores('Valkey');
+      const memcached = scores('Memcached');
+      const hazelcast = scores('Hazelcast');
+
+      // The permissively licensed fork carries less lock-in than the relicensed original
+      expect(valkey[STANDARD_CRITERIA.VENDOR_LOCK_IN]).toBeGreaterThan(redis[STANDARD_CRITERIA.VENDOR_LOCK_IN]!);
+      // A multi-threaded key-value store reads faster than a distributed data grid
+      expect(memcached[STANDARD_CRITERIA.PERFORMANCE]).toBeGreaterThan(hazelcast[STANDARD_CRITERIA.PERFORMANCE]!);
+      // Restarting warm from disk beats starting empty
+      expect(redis[STANDARD_CRITERIA.MAINTAINABILITY]).toBeGreaterThan(memcached[STANDARD_CRITERIA.MAINTAINABILITY]!);
+    });
+
+    test('should apply cache scoring rules', () => {
+      const matching = (name: string) => knowledgeBase.getScoringRulesForCategory('cache')
+        .filter(rule => rule.condition(knowledgeBase.findTechnology(name, 'cache')!))
+        .map(rule => rule.name);
+
+      expect(matching('Redis')).toEqual(['Sub-Millisecond Latency Bonus', 'License Change Risk Penalty']);
+      expect(matching('Memcached')).toEqual(['Sub-Millisecond Latency Bonus', 'Memory Efficiency Bonus']);
+      expect(matching('Hazelcast')).toEqual([]);
+    });
+
+    test('should reject invalid cache metadata', () => {
+      const invalidOption: TechnicalOption = {
+        name: 'Homegrown Cache',
+        category: 'cache',
+        metadata: {
+          dataModel: 'document',
+          evictionPolicies: ['lru', 'mru'],
+          persistence: 'none',
+          clustering: 'native',
+          p99LatencyMs: 'fast',
+          memoryEfficiency: 5,
+          multiThreaded: 'yes',
+          license: 'permissive'
+        }
+      };
+
+      const validation = knowledgeBase.validateOptionMetadata(invalidOption);
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([
+        'Field p99LatencyMs must be numeric',
+        'Field multiThreaded must be a boolean',
+        'Invalid data model',
+        'Invalid eviction policy: mru'
+      ]);
+    });
+  });
+
   describe('Metadata validation', () => {
     test('should validate cloud provider metadata', () => {
       const validOption: TechnicalOption = {
@@ -191,6 +600,42 @@ describe('KnowledgeBase', () => {
         const validation = knowledgeBase.validateOptionMetadata(option);
         expect(validation.isValid).toBe(true);
       });
+
+      // Test that sample frontend frameworks have valid metadata
+      samples.frontend?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
+
+      // Test that sample messaging platforms have valid metadata
+      samples.messaging?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
+
+      // Test that sample orchestration platforms have valid metadata
+      samples.orchestration?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
+
+      // Test that sample observability stacks have valid metadata
+      samples.observability?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
+
+      // Test that sample identity providers have valid metadata
+      samples.identity?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
+
+      // Test that sample caches have valid metadata
+      samples.cache?.forEach(option => {
+        const validation = knowledgeBase.validateOptionMetadata(option);
+        expect(validation.isValid).toBe(true);
+      });
     });
   });
 
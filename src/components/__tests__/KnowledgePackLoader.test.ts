@@ -0,0 +1,247 @@
+/**
+ * Tests for KnowledgePackLoader component
+ * Validates parsing, validation, precedence merging and application of knowledge packs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KnowledgePackLoader } from '../KnowledgePackLoader';
+import { KnowledgeBase } from '../KnowledgeBase';
+import { InvalidKnowledgePackError, KnowledgePack, TechnicalOption } from '../../types';
+
+describe('KnowledgePackLoader', () => {
+  let knowledgeBase: KnowledgeBase;
+  let loader: KnowledgePackLoader;
+  let directory: string;
+
+  const cockroach: TechnicalOption = {
+    name: 'CockroachDB',
+    category: 'database',
+    metadata: {
+      type: 'relational',
+      schemaFlexibility: 'rigid',
+      queryComplexity: 'moderate',
+      horizontalScaling: 'excellent',
+      consistencyModel: 'strong',
+      acidCompliance: true,
+      performanceRating: 7,
+    },
+  };
+
+  const platformPackYaml = `
+name: platform
+version: "2024.1"
+technologies:
+  - name: CockroachDB
+    category: database
+    metadata:
+      type: relational
+      schemaFlexibility: rigid
+      queryComplexity: moderate
+      horizontalScaling: excellent
+      consistencyModel: strong
+      acidCompliance: true
+      performanceRating: 7
+knownTechnologies:
+  backend: [Micronaut, Quarkus]
+scoringRules:
+  - name: Approved Distributed SQL
+    category: database
+    when:
+      - { field: horizontalScaling, operator: equals, value: excellent }
+      - { field: acidCompliance, operator: equals, value: true }
+    scoreAdjustment: 10
+    affectedCriteria: [scalability]
+`;
+
+  beforeEach(() => {
+    knowledgeBase = new KnowledgeBase();
+    loader = new KnowledgePackLoader(knowledgeBase);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-packs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('parsing', () => {
+    it('should parse YAML and JSON packs into the same structure', () => {
+      const fromYaml = loader.parse(platformPackYaml, 'yaml');
+      const fromJson = loader.parse(JSON.stringify(fromYaml), 'json');
+
+      expect(fromYaml.name).toBe('platform');
+      expect(fromYaml.technologies?.[0]).toEqual(cockroach);
+      expect(fromJson).toEqual(fromYaml);
+    });
+
+    it('should report unparseable content', () => {
+      expect(() => loader.parse('{ "name": ', 'json', 'broken.json')).toThrow(InvalidKnowledgePackError);
+      expect(() => loader.parse('name: [unclosed', 'yaml', 'broken.yaml')).toThrow(expect.objectContaining({
+        source: 'broken.yaml',
+        errors: [expect.objectContaining({ code: 'KNOWLEDGE_PACK_PARSE_ERROR' })],
+      }));
+    });
+
+    it('should reject unsupported file extensions', () => {
+      const file = path.join(directory, 'pack.toml');
+      fs.writeFileSync(file, 'name = "platform"');
+
+      expect(() => loader.loadFile(file)).toThrow(/Unsupported knowledge pack format/);
+    });
+  });
+
+  describe('validatePack', () => {
+    it('should check technology metadata against the shape of its category', () => {
+      const result = loader.validatePack({
+        name: 'broken',
+        technologies: [
+          { name: 'Mystery DB', category: 'database', metadata: { type: 'spreadsheet', performanceRating: 'fast' } },
+          { name: 'Mainframe', category: 'mainframe', metadata: {} },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.code)).toContain('TECHNOLOGY_METADATA_INVALID');
+      expect(result.errors.map(e => e.message)).toContain('Mystery DB: Invalid database type');
+      expect(result.errors.find(e => e.field === 'technologies[1].category')?.code).toBe('TECHNOLOGY_INVALID');
+    });
+
+    it('should reject malformed scoring rules and known technology lists', () => {
+      const result = loader.validatePack({
+        name: 'broken',
+        knownTechnologies: { backend: 'Quarkus' },
+        scoringRules: [
+          { name: 'No conditions', category: 'database', when: [], scoreAdjustment: 5, affectedCriteria: ['cost'] },
+          { name: 'Bad operator', category: 'database', when: [{ field: 'type', operator: 'like', value: 'sql' }], scoreAdjustment: 500, affectedCriteria: ['cost'] },
+        ],
+      });
+
+      expect(result.errors.map(e => e.field)).toEqual([
+        'knownTechnologies.backend',
+        'scoringRules[0].when',
+        'scoringRules[1].when[0]',
+        'scoringRules[1].scoreAdjustment',
+      ]);
+    });
+
+    it('should warn about unknown fields, duplicates and unknown criteria', () => {
+      const result = loader.validatePack({
+        name: 'noisy',
+        owner: 'platform-team',
+        technologies: [cockroach, cockroach],
+        scoringRules: [
+          { name: 'Security', category: 'database', when: [{ field: 'acidCompliance', operator: 'equals', value: true }], scoreAdjustment: 5, affectedCriteria: ['security'] },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([
+        'Unknown knowledge pack field "owner" is ignored',
+        'CockroachDB (database) is defined more than once - the last definition wins',
+        'Scoring rule "Security" affects unknown criteria (security) and will not change their scores',
+      ]);
+    });
+
+    it('should type-check expression rules against the category metadata', () => {
+      const result = loader.validatePack({
+        name: 'expressions',
+        scoringRules: [
+          { name: 'Distributed SQL', category: 'database', expression: "metadata.horizontalScaling == 'excellent' and metadata.acidCompliance", scoreAdjustment: 5, affectedCriteria: ['scalability'] },
+          { name: 'Typo', category: 'database', expression: 'metadata.acid == true', scoreAdjustment: 5, affectedCriteria: ['cost'] },
+          { name: 'Both', category: 'database', expression: 'metadata.acidCompliance', when: [], scoreAdjustment: 5, affectedCriteria: ['cost'] },
+        ],
+      });
+
+      expect(result.errors.map(e => e.field)).toEqual(['scoringRules[1].expression', 'scoringRules[2]']);
+      expect(result.errors[0]?.message).toContain('Scoring rule "Typo": Unknown metadata field "acid"');
+    });
+
+    it('should require a pack name', () => {
+      expect(loader.validatePack({ technologies: [] }).errors[0]?.code).toBe('KNOWLEDGE_PACK_NAME_REQUIRED');
+    });
+  });
+
+  describe('mergePacks', () => {
+    it('should let later packs replace earlier definitions and record the overrides', () => {
+      const base = loader.parse(platformPackYaml, 'yaml');
+      const team: KnowledgePack = {
+        name: 'payments-team',
+        technologies: [{ ...cockroach, metadata: { ...cockroach.metadata, performanceRating: 9 } }],
+        knownTechnologies: { backend: ['quarkus', 'Helidon'] },
+      };
+
+      const merged = loader.mergePacks([base, team]);
+
+      expect(merged.packs).toEqual(['platform', 'payments-team']);
+      expect(merged.technologies).toHaveLength(1);
+      expect(merged.technologies[0]?.metadata['performanceRating']).toBe(9);
+      expect(merged.knownTechnologies.backend).toEqual(['micronaut', 'quarkus', 'helidon']);
+      expect(merged.overrides).toEqual(['payments-team replaces CockroachDB (database) from platform']);
+    });
+  });
+
+  describe('loading and applying', () => {
+    it('should load a directory in file name order and apply it to the knowledge base', () => {
+      fs.writeFileSync(path.join(directory, '10-platform.yaml'), platformPackYaml);
+      fs.writeFileSync(path.join(directory, '20-team.json'), JSON.stringify({
+        name: 'team',
+        technologies: [{ ...cockroach, metadata: { ...cockroach.metadata, performanceRating: 9 } }],
+      }));
+      fs.writeFileSync(path.join(directory, 'README.md'), '# not a pack');
+
+      const merged = loader.loadAndApply([directory]);
+
+      expect(merged.packs).toEqual(['platform', 'team']);
+      expect(knowledgeBase.findTechnology('cockroachdb', 'database')?.metadata['performanceRating']).toBe(9);
+      expect(knowledgeBase.isKnownTechnology({ name: 'Quarkus', category: 'backend', metadata: {} })).toBe(true);
+      expect(knowledgeBase.getSampleTechnologies()['database']).toHaveLength(4);
+    });
+
+    it('should apply declarative scoring rules alongside the built-in rules', () => {
+      const option = knowledgeBase.findTechnology('PostgreSQL', 'database')!;
+      const scalable = { ...option, metadata: { ...option.metadata, horizontalScaling: 'excellent' } };
+      const before = knowledgeBase.getComprehensiveEvaluation(scalable);
+
+      knowledgeBase.applyKnowledgePacks(loader.mergePacks([loader.parse(platformPackYaml, 'yaml')]));
+      const after = knowledgeBase.getComprehensiveEvaluation(scalable);
+
+      expect(after['scalability']).toBe(Math.min(100, before['scalability']! + 10));
+      expect(after['cost']).toBe(before['cost']);
+      expect(knowledgeBase.getScoringRulesForCategory('database').map(rule => rule.name)).toContain('ACID Compliance Bonus');
+    });
+
+    it('should let a pack rule replace a built-in rule of the same name', () => {
+      knowledgeBase.applyKnowledgePacks(loader.mergePacks([{
+        name: 'tuning',
+        scoringRules: [{
+          name: 'ACID Compliance Bonus',
+          category: 'database',
+          when: [{ field: 'acidCompliance', operator: 'equals', value: true }],
+          scoreAdjustment: 1,
+          affectedCriteria: ['maintainability'],
+        }],
+      }]));
+
+      const rules = knowledgeBase.getScoringRulesForCategory('database').filter(rule => rule.name === 'ACID Compliance Bonus');
+      expect(rules).toHaveLength(1);
+      expect(rules[0]?.scoreAdjustment).toBe(1);
+    });
+
+    it('should refuse to apply an invalid pack', () => {
+      const file = path.join(directory, 'bad.json');
+      fs.writeFileSync(file, JSON.stringify({ name: 'bad', technologies: [{ name: 'X', category: 'database', metadata: {} }] }));
+
+      expect(() => loader.loadAndApply([file])).toThrow(InvalidKnowledgePackError);
+      expect(knowledgeBase.getKnowledgePacks()).toBeNull();
+    });
+
+    it('should report a missing pack path as an invalid pack', () => {
+      const missing = path.join(directory, 'missing.yaml');
+
+      expect(() => loader.loadAndApply([missing])).toThrow(InvalidKnowledgePackError);
+      expect(() => loader.loadAndApply([missing])).toThrow(`Could not read ${missing}`);
+      expect(knowledgeBase.getKnowledgePacks()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for MonteCarloSimulator component
+ * Validates seeded sampling, ranking probabilities and uncertainty validation
+ */
+
+import { MonteCarloSimulator } from '../MonteCarloSimulator';
+import { ScoreAggregator } from '../SensitivityAnalyzer';
+import { CriterionUncertainty, OptionScore, RefereeValidationError, UserConstraints } from '../../types';
+
+describe('MonteCarloSimulator', () => {
+  // Score an option by its single "quality" criterion so probabilities are easy to derive
+  const qualityScore: ScoreAggregator = matrix => matrix.map(criteriaScores => criteriaScores.quality ?? 0);
+
+  const priorities: UserConstraints['priorities'] = {
+    cost: 3,
+    performance: 3,
+    easeOfUse: 3,
+    scalability: 3,
+    vendorLockIn: 3,
+  };
+
+  const makeScore = (name: string, quality: number, uncertainty?: CriterionUncertainty): OptionScore => ({
+    option: {
+      name,
+      category: 'database',
+      metadata: {},
+      ...(uncertainty && { uncertainty: { quality: uncertainty } }),
+    },
+    criteriaScores: { quality },
+    weightedScore: quality,
+    normalizedScore: quality,
+  });
+
+  describe('constructor', () => {
+    it('should reject unusable simulation options', () => {
+      expect(() => new MonteCarloSimulator(qualityScore, { iterations: 0 })).toThrow(RefereeValidationError);
+      expect(() => new MonteCarloSimulator(qualityScore, { iterations: 2.5 })).toThrow(/Iterations must be a positive whole number/);
+      expect(() => new MonteCarloSimulator(qualityScore, { confidenceLevel: 1 })).toThrow(/Confidence level must be between 0 and 1/);
+      expect(() => new MonteCarloSimulator(qualityScore, { defaultStdDev: -1 }))
+        .toThrow(expect.objectContaining({ errors: [expect.objectContaining({ field: 'defaultStdDev' })] }));
+    });
+  });
+
+  describe('simulate', () => {
+    it('should return null when there are no scores', () => {
+      expect(new MonteCarloSimulator(qualityScore).simulate([], priorities)).toBeNull();
+    });
+
+    it('should be reproducible for a given seed', () => {
+      const scores = [makeScore('A', 60), makeScore('B', 58)];
+
+      const first = new MonteCarloSimulator(qualityScore, { seed: 7 }).simulate(scores, priorities);
+      const second = new MonteCarloSimulator(qualityScore, { seed: 7 }).simulate(scores, priorities);
+      const other = new MonteCarloSimulator(qualityScore, { seed: 8 }).simulate(scores, priorities);
+
+      expect(second).toEqual(first);
+      expect(other?.options[0]?.meanScore).not.toBe(first?.options[0]?.meanScore);
+    });
+
+    it('should collapse to the point estimate without uncertainty', () => {
+      const simulator = new MonteCarloSimulator(qualityScore, { iterations: 50, defaultStdDev: 0 });
+      const analysis = simulator.simulate([makeScore('A', 70), makeScore('B', 60)], priorities);
+
+      expect(analysis?.options[0]).toEqual({
+        option: expect.objectContaining({ name: 'A' }),
+        probabilityOfFirst: 1,
+        meanScore: 70,
+        confidenceInterval: { lower: 70, upper: 70 },
+        expectedRank: 1,
+      });
+      expect(analysis?.options[1]?.expectedRank).toBe(2);
+    });
+
+    it('should estimate the probability of ranking first from explicit ranges', () => {
+      const simulator = new MonteCarloSimulator(qualityScore, { iterations: 4000, defaultStdDev: 0 });
+      const analysis = simulator.simulate([
+        makeScore('Uncertain', 50, { distribution: 'uniform', min: 40, max: 60 }),
+        makeScore('Steady', 55),
+      ], priorities);
+
+      const uncertain = analysis?.options.find(o => o.option.name === 'Uncertain');
+      expect(uncertain?.probabilityOfFirst).toBeCloseTo(0.25, 1);
+      expect(analysis?.options[0]?.option.name).toBe('Steady');
+      expect(uncertain?.confidenceInterval.lower).toBeGreaterThanOrEqual(40);
+      expect(uncertain?.confidenceInterval.upper).toBeLessThanOrEqual(60);
+    });
+
+    it('should apply the contextual adjustments of the point score to every draw', () => {
+      // Knowledge base scores of 50 and 55, adjusted by the project context to 70 and 55
+      const adjusted: OptionScore = {
+        ...makeScore('Adjusted', 70, { distribution: 'uniform', min: 40, max: 60 }),
+        provenance: {
+          quality: {
+            baseScore: 50,
+            contributions: [],
+            adjustments: [{ source: 'context', name: 'team', points: 20, reason: 'Team experience' }],
+            finalScore: 70,
+          },
+        },
+      };
+      const analysis = new MonteCarloSimulator(qualityScore, { iterations: 500, defaultStdDev: 0 })
+        .simulate([adjusted, makeScore('Steady', 55)], priorities);
+
+      const entry = analysis?.options.find(o => o.option.name === 'Adjusted');
+      expect(entry?.probabilityOfFirst).toBe(1);
+      expect(entry?.confidenceInterval.lower).toBeGreaterThanOrEqual(60);
+      expect(entry?.confidenceInterval.upper).toBeLessThanOrEqual(80);
+    });
+
+    it('should reproduce the point ranking with zero-width distributions', () => {
+      const scores = [70, 65, 60].map((quality, index) => ({
+        ...makeScore(`Option ${index}`, quality, { distribution: 'uniform', min: quality - 10, max: quality - 10 }),
+        provenance: {
+          quality: {
+            baseScore: quality - 10,
+            contributions: [],
+            adjustments: [{ source: 'context' as const, name: 'budget', points: 10, reason: 'Budget fit' }],
+            finalScore: quality,
+          },
+        },
+      }));
+      const analysis = new MonteCarloSimulator(qualityScore, { iterations: 100 }).simulate(scores, priorities)!;
+
+      expect(analysis.options.map(o => o.option.name)).toEqual(['Option 0', 'Option 1', 'Option 2']);
+      analysis.options.forEach((o, index) => {
+        expect(o.expectedRank).toBe(index + 1);
+        expect(o.meanScore).toBeCloseTo(scores[index]!.criteriaScores.quality!, 10);
+      });
+      expect(analysis.options[0]?.probabilityOfFirst).toBe(1);
+    });
+
+    it('should report probabilities that sum to one and intervals around the mean', () => {
+      const analysis = new MonteCarloSimulator(qualityScore).simulate([
+        makeScore('A', 60, { distribution: 'triangular', min: 45, max: 75 }),
+        makeScore('B', 58, { distribution: 'normal', stdDev: 8 }),
+        makeScore('C', 40),
+      ], priorities)!;
+
+      const total = analysis.options.reduce((sum, o) => sum + o.probabilityOfFirst, 0);
+      expect(total).toBeCloseTo(1, 10);
+      expect(analysis.iterations).toBe(1000);
+      expect(analysis.confidenceLevel).toBe(0.95);
+      analysis.options.forEach(o => {
+        expect(o.confidenceInterval.lower).toBeLessThanOrEqual(o.meanScore);
+        expect(o.confidenceInterval.upper).toBeGreaterThanOrEqual(o.meanScore);
+      });
+    });
+  });
+
+  describe('validateUncertainty', () => {
+    const simulator = new MonteCarloSimulator(qualityScore);
+
+    it('should accept missing and well-formed uncertainty', () => {
+      expect(simulator.validateUncertainty(undefined, 'uncertainty').isValid).toBe(true);
+      expect(simulator.validateUncertainty({
+        cost: { distribution: 'uniform', min: 50, max: 70 },
+        performance: { distribution: 'normal', stdDev: 10 },
+        scalability: { distribution: 'triangular', min: 40, max: 90, mode: 60 },
+      }, 'uncertainty').isValid).toBe(true);
+    });
+
+    it('should reject malformed distributions', () => {
+      const result = simulator.validateUncertainty({
+        cost: { distribution: 'uniform', min: 70, max: 50 },
+        performance: { distribution: 'normal', stdDev: -1 },
+        scalability: { distribution: 'triangular', min: 40, max: 90, mode: 95 },
+        vendorLockIn: { distribution: 'lognormal' },
+      }, 'options[0].uncertainty');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(e => e.field)).toEqual([
+        'options[0].uncertainty.cost',
+        'options[0].uncertainty.performance',
+        'options[0].uncertainty.scalability',
+        'options[0].uncertainty.vendorLockIn',
+      ]);
+      expect(result.errors.every(e => e.code === 'UNCERTAINTY_INVALID')).toBe(true);
+    });
+
+    it('should reject non-object uncertainty', () => {
+      const result = simulator.validateUncertainty([1, 2], 'uncertainty');
+      expect(result.errors[0]?.code).toBe('UNCERTAINTY_INVALID_TYPE');
+    });
+  });
+});
@@ -150,6 +150,7 @@ describe('OutputGenerator', () => {
       scores: mockScores,
       rankings: mockRankings,
       tradeOffs: mockTradeOffs,
+      aggregationMethod: 'weighted-sum',
     };
   });
 
@@ -210,6 +211,69 @@ describe('OutputGenerator', () => {
       }
     });
 
+    it('should describe sensitivity thresholds as alternative scenarios', () => {
+      const resultWithSensitivity: EvaluationResult = {
+        ...mockEvaluationResult,
+        sensitivity: {
+          currentWinner: mockOptions[0]!,
+          priorities: [
+            {
+              priority: 'performance',
+              currentValue: 5,
+              stableRange: { min: 1, max: 5 },
+            },
+            {
+              priority: 'easeOfUse',
+              currentValue: 4,
+              stableRange: { min: 2.35, max: 5 },
+              lowerThreshold: { value: 2.35, newWinner: mockOptions[2]! },
+            },
+          ],
+          robustPriorities: ['performance'],
+          thresholdMethod: 'scan',
+          scanStep: 0.05,
+        },
+      };
+
+      const result = outputGenerator.generateComparison(resultWithSensitivity, mockConstraints);
+
+      expect(result.sensitivity).toBe(resultWithSensitivity.sensitivity);
+      expect(result.alternativeScenarios[0]).toEqual({
+        scenario: 'If ease of use priority drops below 2.35',
+        recommendedOption: mockOptions[2],
+        reasoning: expect.stringContaining('between 2.35 and 5'),
+      });
+      expect(result.alternativeScenarios[0]?.reasoning).toContain('scanning in steps of 0.05');
+    });
+
+    it('should offer no priority what-ifs when sensitivity analysis does not apply', () => {
+      const reason = 'The AHP judgments set the criterion weights, so changing priorities cannot change the ranking';
+      const result = outputGenerator.generateComparison(
+        { ...mockEvaluationResult, aggregationMethod: 'ahp', sensitivityNotApplicable: reason },
+        mockConstraints
+      );
+
+      expect(result.alternativeScenarios.filter(s => /priority/.test(s.scenario))).toEqual([]);
+      expect(result.sensitivityNotApplicable).toBe(reason);
+    });
+
+    it('should pass eliminated options through and mention them in the reasoning', () => {
+      const vetoed: TechnicalOption = { name: 'Rails', category: 'backend', metadata: {} };
+      const resultWithEliminated: EvaluationResult = {
+        ...mockEvaluationResult,
+        eliminated: [{
+          option: vetoed,
+          reasons: [{ constraint: 'mustHave', field: 'language', message: 'fails requirement "language must be java"' }],
+        }],
+      };
+
+      const result = outputGenerator.generateComparison(resultWithEliminated, mockConstraints);
+
+      expect(result.eliminated).toBe(resultWithEliminated.eliminated);
+      expect(result.finalRecommendation.recommendedOption.name).not.toBe('Rails');
+      expect(result.finalRecommendation.reasoning).toContain('Rails was ruled out by your hard constraints');
+    });
+
     it('should generate trade-off explanation', () => {
       const result = outputGenerator.generateComparison(mockEvaluationResult, mockConstraints);
       const tradeOffExplanation = result.tradeOffExplanation;
@@ -232,9 +296,393 @@ describe('OutputGenerator', () => {
         expect(pc.pros.length).toBeGreaterThan(0);
       });
     });
+
+    it('should describe bundle size, rendering model and ecosystem for frontend frameworks', () => {
+      const svelte: TechnicalOption = {
+        name: 'Svelte',
+        category: 'frontend',
+        metadata: { bundleSizeKb: 3, renderingModel: 'hybrid', ecosystemSize: 8000 },
+      };
+      const legacySpa: TechnicalOption = {
+        name: 'LegacySPA',
+        category: 'frontend',
+        metadata: { bundleSizeKb: 180, renderingModel: 'spa', ecosystemSize: 90000 },
+      };
+      const frontendResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        // Middling criterion scores leave room for the framework-specific points
+        scores: [svelte, legacySpa].map(option => ({
+          option,
+          criteriaScores: { cost: 65, performance: 65, scalability: 65, learningCurve: 65, vendorLockIn: 65, maintainability: 65 },
+          weightedScore: 65,
+          normalizedScore: 65,
+        })),
+        rankings: [
+          { option: svelte, rank: 1, score: 83 },
+          { option: legacySpa, rank: 2, score: 76 },
+        ],
+      };
+
+      const [svelteProsCons, spaProsCons] = outputGenerator.generateComparison(frontendResult, mockConstraints).prosAndCons;
+
+      expect(svelteProsCons?.pros).toContain('Tiny runtime bundle (~3kb gzipped)');
+      expect(svelteProsCons?.pros).toContain('Server-side rendering for fast first paint and SEO');
+      expect(svelteProsCons?.cons).toContain('Smaller ecosystem - expect to build more components in-house');
+      expect(spaProsCons?.pros).toContain('Extensive component and library ecosystem');
+      expect(spaProsCons?.cons).toEqual(expect.arrayContaining([
+        expect.stringContaining('Large runtime bundle (~180kb gzipped)'),
+        'Client-side rendering only - extra work needed for SEO and first paint',
+      ]));
+    });
+
+    it('should describe delivery, ordering, retention and hosting for messaging platforms', () => {
+      const kafka: TechnicalOption = {
+        name: 'Kafka',
+        category: 'messaging',
+        metadata: { deliveryGuarantee: 'exactly-once', ordering: 'partitioned', throughputMsgsPerSec: 1000000, retention: 'unlimited', hosting: 'both', openSource: true },
+      };
+      const sqs: TechnicalOption = {
+        name: 'SQS',
+        category: 'messaging',
+        metadata: { deliveryGuarantee: 'at-least-once', ordering: 'none', throughputMsgsPerSec: 100000, retention: 'bounded', hosting: 'managed', openSource: false },
+      };
+      const messagingResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        // Middling criterion scores leave room for the platform-specific points
+        scores: [kafka, sqs].map(option => ({
+          option,
+          criteriaScores: { cost: 65, performance: 65, scalability: 65, learningCurve: 65, vendorLockIn: 65, maintainability: 65 },
+          weightedScore: 65,
+          normalizedScore: 65,
+        })),
+        rankings: [
+          { option: kafka, rank: 1, score: 80 },
+          { option: sqs, rank: 2, score: 74 },
+        ],
+      };
+
+      const [kafkaProsCons, sqsProsCons] = outputGenerator.generateComparison(messagingResult, mockConstraints).prosAndCons;
+
+      expect(kafkaProsCons?.pros).toEqual(expect.arrayContaining([
+        'Exactly-once delivery - consumers need no duplicate handling',
+        'Very high throughput (~1,000,000 messages/s)',
+        'Durable log - consumers can replay past messages',
+      ]));
+      expect(sqsProsCons?.pros).toContain('Fully managed - no brokers to operate');
+      expect(sqsProsCons?.cons).toEqual(expect.arrayContaining([
+        'No ordering guarantee - consumers must tolerate out-of-order messages',
+        'Proprietary managed service - moving away means rewriting producers and consumers',
+      ]));
+    });
+
+    it('should describe overhead, autoscaling and portability for orchestration platforms', () => {
+      const kubernetes: TechnicalOption = {
+        name: 'Kubernetes',
+        category: 'orchestration',
+        metadata: { operationalOverhead: 'high', autoscaling: 'horizontal', portability: 'anywhere', ecosystemRating: 10, managedOfferings: ['EKS', 'GKE', 'AKS', 'DOKS'] },
+      };
+      const cloudRun: TechnicalOption = {
+        name: 'Cloud Run',
+        category: 'orchestration',
+        metadata: { operationalOverhead: 'low', autoscaling: 'serverless', portability: 'single-cloud', ecosystemRating: 5, managedOfferings: ['Cloud Run'] },
+      };
+      const orchestrationResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        // Middling criterion scores leave room for the platform-specific points
+        scores: [kubernetes, cloudRun].map(option => ({
+          option,
+          criteriaScores: { cost: 65, performance: 65, scalability: 65, learningCurve: 65, vendorLockIn: 65, maintainability: 65 },
+          weightedScore: 65,
+          normalizedScore: 65,
+        })),
+        rankings: [
+          { option: kubernetes, rank: 1, score: 78 },
+          { option: cloudRun, rank: 2, score: 75 },
+        ],
+      };
+
+      const [kubernetesProsCons, cloudRunProsCons] = outputGenerator.generateComparison(orchestrationResult, mockConstraints).prosAndCons;
+
+      expect(kubernetesProsCons?.pros).toEqual(expect.arrayContaining([
+        'Runs on any cloud or on-premises',
+        'Managed offerings from several providers (EKS, GKE, AKS)',
+      ]));
+      expect(kubernetesProsCons?.cons).toContain('High operational overhead - plan for a platform team');
+      expect(cloudRunProsCons?.pros).toEqual(expect.arrayContaining([
+        'Low operational overhead - the provider runs the platform',
+        'Scales to zero when idle',
+      ]));
+      expect(cloudRunProsCons?.cons).toEqual(expect.arrayContaining(['Cold starts after idle periods', 'Tied to a single cloud provider']));
+    });
+
+    it('should describe pricing, agents, retention and hosting for observability stacks', () => {
+      const datadog: TechnicalOption = {
+        name: 'Datadog',
+        category: 'observability',
+        metadata: { pricingModel: 'per-host', unitPriceUsd: 15, openTelemetrySupport: 'compatible', proprietaryAgent: true, retentionLimitDays: 15, selfHostingBurden: 'none' },
+      };
+      const signoz: TechnicalOption = {
+        name: 'OpenTelemetry + SigNoz',
+        category: 'observability',
+        metadata: { pricingModel: 'open-source', unitPriceUsd: 0, openTelemetrySupport: 'native', proprietaryAgent: false, retentionLimitDays: 0, selfHostingBurden: 'high' },
+      };
+      const observabilityResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        // Middling criterion scores leave room for the stack-specific points
+        scores: [datadog, signoz].map(option => ({
+          option,
+          criteriaScores: { cost: 65, performance: 65, scalability: 65, learningCurve: 65, vendorLockIn: 65, maintainability: 65 },
+          weightedScore: 65,
+          normalizedScore: 65,
+        })),
+        rankings: [
+          { option: datadog, rank: 1, score: 79 },
+          { option: signoz, rank: 2, score: 77 },
+        ],
+      };
+
+      const [datadogProsCons, signozProsCons] = outputGenerator.generateComparison(observabilityResult, mockConstraints).prosAndCons;
+
+      expect(datadogProsCons?.pros).toContain('Fully hosted - no observability infrastructure to run');
+      expect(datadogProsCons?.cons).toEqual(expect.arrayContaining([
+        'Proprietary agent - switching vendors means re-instrumenting services',
+        'Priced per host (~$15/host/month) - costs grow with every machine',
+        'Data kept for 15 days by default',
+      ]));
+      expect(signozProsCons?.pros).toEqual(expect.arrayContaining([
+        'Built on OpenTelemetry - instrumentation moves with you',
+        'No license or usage fees',
+        'Retention limited only by your own storage',
+      ]));
+      expect(signozProsCons?.cons).toContain('Self-hosting burden - storage, upgrades and scaling are your job');
+    });
+
+    it('should describe persistence, clustering and license changes for caches', () => {
+      const redis: TechnicalOption = {
+        name: 'Redis',
+        category: 'cache',
+        metadata: { persistence: 'append-only-log', clustering: 'native', p99LatencyMs: 1, license: 'copyleft', licenseChangedRecently: true, evictionPolicies: ['lru', 'lfu', 'ttl', 'random'] },
+      };
+      const memcached: TechnicalOption = {
+        name: 'Memcached',
+        category: 'cache',
+        metadata: { persistence: 'none', clustering: 'client-sharding', p99LatencyMs: 1, license: 'permissive', licenseChangedRecently: false, evictionPolicies: ['lru', 'ttl'] },
+      };
+      const cacheResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        scores: [redis, memcached].map(option => ({
+          option,
+          criteriaScores: { cost: 65, performance: 65, scalability: 65, learningCurve: 65, vendorLockIn: 65, maintainability: 65 },
+          weightedScore: 65,
+          normalizedScore: 65,
+        })),
+        rankings: [
+          { option: redis, rank: 1, score: 74 },
+          { option: memcached, rank: 2, score: 72 },
+        ],
+      };
+
+      const [redisProsCons, memcachedProsCons] = outputGenerator.generateComparison(cacheResult, mockConstraints).prosAndCons;
+
+      expect(redisProsCons?.pros).toEqual(expect.arrayContaining([
+        'Sub-millisecond reads',
+        'Persists to disk and restarts warm',
+        'Native clustering with automatic failover',
+      ]));
+      expect(redisProsCons?.cons).toContain('License changed recently - check the current terms before building on it');
+      expect(memcachedProsCons?.pros).toContain('Sub-millisecond reads');
+      expect(memcachedProsCons?.cons).toEqual(expect.arrayContaining([
+        'Starts empty after a restart - every read hits the database until it warms up',
+        'Few eviction policies to choose from',
+      ]));
+    });
+  });
+
+  describe('score explanation', () => {
+    it('should be omitted when the scores carry no provenance', () => {
+      expect(outputGenerator.generateComparison(mockEvaluationResult, mockConstraints).scoreExplanation).toBeUndefined();
+    });
+
+    it('should describe every step behind a criterion score in plain language', () => {
+      const [nodeScore, ...rest] = mockEvaluationResult.scores;
+      const explained: EvaluationResult = {
+        ...mockEvaluationResult,
+        scores: [
+          {
+            ...nodeScore!,
+            provenance: {
+              cost: {
+                baseScore: 75,
+                contributions: [
+                  { points: 50, reason: 'Baseline score' },
+                  { points: 15, reason: 'Open source framework' },
+                  { field: 'language', points: 10, reason: 'Inexpensive javascript hosting' },
+                ],
+                adjustments: [
+                  { source: 'rule', name: 'Rapid Development Bonus', points: 5, reason: 'Rapid Development Bonus' },
+                  { source: 'context', name: 'budget', points: 5, reason: 'Low budget favors cost-effective options' },
+                ],
+                finalScore: 85,
+              },
+            },
+          },
+          ...rest,
+        ],
+      };
+
+      const explanation = outputGenerator.generateComparison(explained, mockConstraints).scoreExplanation;
+
+      expect(explanation).toContain('**Node.js:**');
+      expect(explanation).toContain(
+        '- Cost Effectiveness 85/100: Baseline score: 50; +15 Open source framework; ' +
+        '+10 Inexpensive javascript hosting (language); +5 Rapid Development Bonus (scoring rule); ' +
+        '+5 Low budget favors cost-effective options (budget)'
+      );
+      expect(explanation).not.toContain('Django');
+    });
+  });
+
+  describe('custom criteria', () => {
+    it('should label custom criteria in the table and the recommendation', () => {
+      const compliance = [95, 40, 50];
+      const customResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        scores: mockEvaluationResult.scores.map((score, index) => ({
+          ...score,
+          criteriaScores: { ...score.criteriaScores, compliance: compliance[index]! },
+        })),
+        criterionLabels: { compliance: 'Regulatory Compliance' },
+      };
+      const customConstraints: UserConstraints = {
+        ...mockConstraints,
+        priorities: { ...mockConstraints.priorities, performance: 4 },
+        customCriteria: [{ name: 'compliance', label: 'Regulatory Compliance', priority: 5, scores: {} }],
+      };
+
+      const result = outputGenerator.generateComparison(customResult, customConstraints);
+
+      expect(result.comparisonTable.headers).toContain('Regulatory Compliance');
+      expect(result.comparisonTable.rows[0]?.values['Regulatory Compliance']).toBe('95/100 (Excellent)');
+      expect(result.tradeOffExplanation).toContain('The key differentiator is Regulatory Compliance');
+      expect(result.finalRecommendation.reasoning).toContain('Given your priority on Regulatory Compliance, this option scores 95/100');
+      expect(result.finalRecommendation.keyFactors).toContain('Strong regulatory compliance (95/100)');
+    });
+  });
+
+  describe('identity pricing warnings', () => {
+    const auth0: TechnicalOption = {
+      name: 'Auth0',
+      category: 'identity',
+      metadata: {
+        protocols: ['oidc', 'saml', 'scim'],
+        mauPricing: [{ upToMau: 25000, pricePerMauUsd: 0 }, { upToMau: 100000, pricePerMauUsd: 0.07 }, { pricePerMauUsd: 0.05 }],
+        selfHostable: false,
+        migrationTooling: 'import-export',
+      },
+    };
+    const cognito: TechnicalOption = {
+      name: 'Cognito',
+      category: 'identity',
+      metadata: {
+        protocols: ['oidc', 'saml'],
+        mauPricing: [{ upToMau: 10000, pricePerMauUsd: 0 }, { upToMau: 100000, pricePerMauUsd: 0.0055 }, { pricePerMauUsd: 0.0046 }],
+        selfHostable: false,
+        migrationTooling: 'import-only',
+      },
+    };
+
+    const recommend = (winner: TechnicalOption, runnerUp: TechnicalOption, constraints: UserConstraints) => {
+      const identityResult: EvaluationResult = {
+        ...mockEvaluationResult,
+        scores: [winner, runnerUp].map((option, index) => ({
+          option,
+          criteriaScores: { cost: 70, performance: 70, scalability: 70, learningCurve: 70, vendorLockIn: 70, maintainability: 70 },
+          weightedScore: 80 - index * 20,
+          normalizedScore: 80 - index * 20,
+        })),
+        rankings: [
+          { option: winner, rank: 1, score: 80 },
+          { option: runnerUp, rank: 2, score: 60 },
+        ],
+      };
+      return outputGenerator.generateComparison(identityResult, constraints);
+    };
+
+    it('should warn when per-user pricing already exceeds the budget', () => {
+      const constraints = { ...mockConstraints, scale: { users: 200000, traffic: 'medium' as const } };
+
+      const { finalRecommendation } = recommend(auth0, cognito, constraints);
+
+      expect(finalRecommendation.warnings).toContain(
+        'At 200,000 monthly active users, Auth0 costs about $10,250 per month at list prices - more than a medium budget usually allows'
+      );
+    });
+
+    it('should warn when pricing outgrows the budget after 10x user growth', () => {
+      const { finalRecommendation } = recommend(auth0, cognito, mockConstraints);
+
+      expect(finalRecommendation.warnings).toContain(
+        'Auth0 pricing scales steeply with users: about $1,750 per month now, but about $25,250 per month at 500,000 monthly active users'
+      );
+    });
+
+    it('should bill users beyond a capped last tier at its price', () => {
+      const capped: TechnicalOption = {
+        ...auth0,
+        metadata: { ...auth0.metadata, mauPricing: [{ upToMau: 25000, pricePerMauUsd: 0 }, { upToMau: 100000, pricePerMauUsd: 0.07 }] },
+      };
+      const constraints = { ...mockConstraints, scale: { users: 200000, traffic: 'medium' as const } };
+
+      const { finalRecommendation } = recommend(capped, cognito, constraints);
+
+      expect(finalRecommendation.warnings).toContain(
+        'At 200,000 monthly active users, Auth0 costs about $12,250 per month at list prices - more than a medium budget usually allows'
+      );
+    });
+
+    it('should not warn when pricing stays within the budget', () => {
+      const { finalRecommendation, prosAndCons } = recommend(cognito, auth0, mockConstraints);
+
+      expect(finalRecommendation.warnings.some(w => w.includes('monthly active users'))).toBe(false);
+      expect(prosAndCons[0]?.pros).toContain('Free for up to 10,000 monthly active users');
+      expect(prosAndCons[0]?.cons).toContain('Password hashes cannot be exported - leaving means forcing password resets');
+      expect(prosAndCons[1]?.pros).toContain('Enterprise SSO (SAML) and user provisioning (SCIM)');
+    });
   });
 
   describe('recommendation confidence', () => {
+    const withUncertainty = (entries: Array<[TechnicalOption, number]>): EvaluationResult => ({
+      ...mockEvaluationResult,
+      uncertainty: {
+        iterations: 1000,
+        seed: 42,
+        confidenceLevel: 0.95,
+        options: entries.map(([option, probabilityOfFirst], index) => ({
+          option,
+          probabilityOfFirst,
+          meanScore: 80 - index,
+          confidenceInterval: { lower: 70 - index, upper: 90 - index },
+          expectedRank: index + 1,
+        })),
+      },
+    });
+
+    it('should use the simulated probability of ranking first as confidence', () => {
+      const simulated = withUncertainty([[mockOptions[0]!, 0.82], [mockOptions[2]!, 0.15], [mockOptions[1]!, 0.03]]);
+      const result = outputGenerator.generateComparison(simulated, mockConstraints);
+
+      expect(result.finalRecommendation.confidence).toBe(0.82);
+      expect(result.uncertainty?.options).toHaveLength(3);
+    });
+
+    it('should warn when the simulation favors a different option', () => {
+      const simulated = withUncertainty([[mockOptions[2]!, 0.55], [mockOptions[0]!, 0.4], [mockOptions[1]!, 0.05]]);
+      const result = outputGenerator.generateComparison(simulated, mockConstraints);
+
+      expect(result.finalRecommendation.confidence).toBe(0.4);
+      expect(result.finalRecommendation.warnings.some(w => w.startsWith('Spring Boot ranks first in 55%'))).toBe(true);
+    });
+
     it('should have higher confidence when score gap is large', () => {
       // Create a scenario with a large score gap
       const largeGapScores = [...mockEvaluationResult.scores];
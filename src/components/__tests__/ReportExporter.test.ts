@@ -0,0 +1,147 @@
+/**
+ * Tests for ReportExporter component
+ * Validates the sections, formatting and escaping of Markdown and HTML reports
+ */
+
+import { ReportExporter } from '../ReportExporter';
+import { ComparisonEngine } from '../ComparisonEngine';
+import { KnowledgeBase } from '../KnowledgeBase';
+import { OutputGenerator } from '../OutputGenerator';
+import { ComparisonOutput, UserConstraints } from '../../types';
+
+describe('ReportExporter', () => {
+  const exporter = new ReportExporter();
+  const generatedAt = new Date('2026-03-01T09:30:00Z');
+
+  const constraints: UserConstraints = {
+    budget: 'medium',
+    scale: { users: 25000, traffic: 'high' },
+    team: { skillLevel: 'senior', experience: ['postgresql'] },
+    timeline: 'short',
+    priorities: { cost: 3, performance: 5, easeOfUse: 2, scalability: 4, vendorLockIn: 3 },
+    hardConstraints: { minimumScores: { performance: 10 } },
+    customCriteria: [{ name: 'compliance', label: 'Regulatory Compliance', priority: 4, scores: { PostgreSQL: 90, MongoDB: 60 } }],
+  };
+
+  let output: ComparisonOutput;
+
+  beforeAll(() => {
+    const knowledgeBase = new KnowledgeBase();
+    const options = ['PostgreSQL', 'MongoDB'].map(name => knowledgeBase.findTechnology(name, 'database')!);
+    const result = new ComparisonEngine(knowledgeBase).evaluate(options, constraints);
+    output = new OutputGenerator().generateComparison(result, constraints);
+  });
+
+  describe('toMarkdown', () => {
+    it('should include every report section in order', () => {
+      const markdown = exporter.toMarkdown(output, constraints, { generatedAt });
+      const headings = markdown.split('\n').filter(line => line.startsWith('## '));
+
+      expect(markdown.startsWith('# Technology Comparison Report\n\n_Generated 2026-03-01 09:30 UTC_')).toBe(true);
+      expect(headings).toEqual([
+        '## Recommendation',
+        '## Constraints',
+        '## Comparison',
+        '## Pros and Cons',
+        '## Trade-offs',
+        '## Alternative Scenarios',
+        '## Uncertainty',
+        '## How the Scores Were Calculated',
+      ]);
+    });
+
+    it('should render the recommendation with confidence, key factors and warnings', () => {
+      const recommendation = { ...output.finalRecommendation, warnings: ['Check licensing'] };
+      const markdown = exporter.toMarkdown({ ...output, finalRecommendation: recommendation }, constraints);
+      const confidence = Math.round(recommendation.confidence * 100);
+
+      expect(markdown).toContain(`**${recommendation.recommendedOption.name}** (database) - confidence ${confidence}%`);
+      expect(markdown).toContain(`- ${recommendation.keyFactors[0]}`);
+      expect(markdown).toContain('> **Warning:** Check licensing');
+    });
+
+    it('should list the constraints that were used', () => {
+      const markdown = exporter.toMarkdown(output, constraints);
+
+      expect(markdown).toContain('| Scale | 25,000 users, high traffic |');
+      expect(markdown).toContain('| Team | Senior skill level, experienced with postgresql |');
+      expect(markdown).toContain('| Minimum scores | performance at least 10 |');
+      expect(markdown).toContain('| Custom criteria | Regulatory Compliance 4/5 |');
+    });
+
+    it('should render the comparison table with one row per option', () => {
+      const lines = exporter.toMarkdown(output, constraints).split('\n');
+      const header = lines.findIndex(line => line.startsWith('| Option |'));
+
+      expect(lines[header]).toContain('| Regulatory Compliance |');
+      expect(lines[header + 1]).toMatch(/^\| --- (\| --- )+\|$/);
+      expect(lines.slice(header + 2, header + 4).map(line => line.split(' | ')[0])).toEqual(
+        output.comparisonTable.rows.map(row => `| ${row.option.name}`)
+      );
+    });
+
+    it('should turn narrative bullets into Markdown list items', () => {
+      const markdown = exporter.toMarkdown(output, constraints);
+
+      expect(markdown).not.toContain('•');
+      expect(markdown).toContain('- **Optimizes for:**');
+    });
+
+    it('should escape pipes in table cells', () => {
+      const table = {
+        headers: ['Option', 'Notes'],
+        rows: [{ option: output.comparisonTable.rows[0]!.option, values: { Option: 'A|B', Notes: 'multi\nline' } }],
+      };
+
+      expect(exporter.toMarkdown({ ...output, comparisonTable: table }, constraints)).toContain('| A\\|B | multi line |');
+    });
+
+    it('should leave out optional sections that have no data', () => {
+      const { uncertainty, scoreExplanation, ...bare } = output;
+      const markdown = exporter.toMarkdown({ ...bare, alternativeScenarios: [] }, constraints);
+
+      expect(markdown).not.toContain('## Uncertainty');
+      expect(markdown).not.toContain('## How the Scores Were Calculated');
+      expect(markdown).toContain('The recommendation holds across the scenarios we checked.');
+    });
+  });
+
+  describe('toHtml', () => {
+    it('should produce a standalone document with inline CSS', () => {
+      const html = exporter.toHtml(output, constraints, { title: 'Database choice', generatedAt });
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Database choice</title>');
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<link|<script/);
+      expect(html).toContain('<p class="generated">Generated 2026-03-01 09:30 UTC</p>');
+    });
+
+    it('should render tables, pros/cons and narrative lists', () => {
+      const html = exporter.toHtml(output, constraints);
+
+      expect(html).toContain('<th>Regulatory Compliance</th>');
+      expect(html).toContain('<ul class="pros">');
+      expect(html).toContain('<li><strong>Optimizes for:</strong>');
+      expect(html).toContain(`Confidence: ${Math.round(output.finalRecommendation.confidence * 100)}%`);
+    });
+
+    it('should escape user-supplied text', () => {
+      const option = { name: '<script>alert(1)</script>', category: 'database' as const, metadata: {} };
+      const html = exporter.toHtml({ ...output, prosAndCons: [{ option, pros: [], cons: ['"quoted" & <b>'] }] }, constraints);
+
+      expect(html).toContain('<h3>&lt;script&gt;alert(1)&lt;/script&gt;</h3>');
+      expect(html).toContain('&quot;quoted&quot; &amp; &lt;b&gt;');
+      expect(html).not.toContain('<script>');
+    });
+  });
+
+  describe('export', () => {
+    it('should dispatch on the requested format', () => {
+      expect(exporter.export(output, constraints, 'markdown', { generatedAt }))
+        .toBe(exporter.toMarkdown(output, constraints, { generatedAt }));
+      expect(exporter.export(output, constraints, 'html', { generatedAt }))
+        .toBe(exporter.toHtml(output, constraints, { generatedAt }));
+    });
+  });
+});
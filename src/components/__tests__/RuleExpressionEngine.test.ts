@@ -0,0 +1,118 @@
+/**
+ * Tests for RuleExpressionEngine component
+ * Validates parsing, type-checking against metadata schemas and evaluation of rule expressions
+ */
+
+import { RuleExpressionEngine } from '../RuleExpressionEngine';
+import { KnowledgeBase } from '../KnowledgeBase';
+import { RuleExpressionError, TechnicalOption } from '../../types';
+
+describe('RuleExpressionEngine', () => {
+  let engine: RuleExpressionEngine;
+  const cloudSchema = new KnowledgeBase().getMetadataSchema('cloud');
+  const databaseSchema = new KnowledgeBase().getMetadataSchema('database');
+
+  const aws: TechnicalOption = {
+    name: 'AWS',
+    category: 'cloud',
+    metadata: {
+      pricingModel: 'pay-as-you-go',
+      marketShare: 32,
+      regions: 26,
+      certifications: ['SOC', 'ISO', 'HIPAA'],
+      enterpriseFeatures: ['IAM', 'CloudTrail'],
+    },
+  };
+
+  beforeEach(() => {
+    engine = new RuleExpressionEngine();
+  });
+
+  describe('parse', () => {
+    it('should respect precedence of not, and, or', () => {
+      const node = engine.parse('not metadata.regions > 5 or metadata.marketShare > 30 and true');
+
+      expect(node.kind).toBe('logical');
+      expect(node).toMatchObject({
+        operator: 'or',
+        left: { kind: 'not', operand: { kind: 'comparison', operator: '>' } },
+        right: { kind: 'logical', operator: 'and' },
+      });
+    });
+
+    it('should parse lists, strings, negative numbers and not in', () => {
+      expect(engine.parse(`metadata.pricingModel not in ['reserved', "hybrid"]`)).toMatchObject({
+        kind: 'comparison',
+        operator: 'not in',
+        right: { kind: 'list', items: [{ value: 'reserved' }, { value: 'hybrid' }] },
+      });
+      expect(engine.parse('metadata.marketShare >= -1.5')).toMatchObject({ right: { value: -1.5 } });
+    });
+
+    it('should report syntax errors with their position', () => {
+      expect(() => engine.parse('metadata.regions >')).toThrow('Expected a value but found end of expression at position 19');
+      expect(() => engine.parse('regions > 5')).toThrow('metadata fields are written as metadata.regions');
+      expect(() => engine.parse("metadata.name == 'AWS")).toThrow('Unterminated string at position 18');
+      expect(() => engine.parse('1 < metadata.regions < 10')).toThrow('Comparisons cannot be chained');
+      expect(() => engine.parse('metadata.regions > 5)')).toThrow(RuleExpressionError);
+    });
+  });
+
+  describe('typeCheck', () => {
+    const check = (source: string, schema = cloudSchema) => engine.typeCheck(engine.parse(source), schema);
+
+    it('should accept well-typed expressions', () => {
+      expect(check("metadata.marketShare > 30 and 'HIPAA' in metadata.certifications").isValid).toBe(true);
+      expect(check('metadata.enterpriseFeatures.length >= 5').isValid).toBe(true);
+      expect(check("metadata.type in ['relational', 'document'] and metadata.acidCompliance", databaseSchema).isValid).toBe(true);
+    });
+
+    it('should reject unknown fields and mismatched types', () => {
+      const messages = (source: string) => check(source).errors.map(e => e.message);
+
+      expect(messages('metadata.uptime > 99')[0]).toContain('Unknown metadata field "uptime"');
+      expect(messages("metadata.regions > 'many'")[0]).toContain('">" requires numbers, not a string');
+      expect(messages("metadata.marketShare == 'high'")[0]).toContain('Cannot compare number with string');
+      expect(messages('metadata.regions')[0]).toContain('Expression must evaluate to true or false, not a number');
+      expect(messages('metadata.regions.length > 1')[0]).toContain('metadata.regions is a number and has no length');
+      expect(messages('metadata.certifications == 3')[0]).toContain('cannot compare lists');
+    });
+
+    it('should reject values outside an enumerated field', () => {
+      const result = check("metadata.type == 'spreadsheet' or metadata.horizontalScaling in ['great']", databaseSchema);
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        '"spreadsheet" is not a valid value for metadata.type (expected one of: relational, document, key-value, graph, columnar) at position 18',
+        '"great" is not a valid value for metadata.horizontalScaling (expected one of: poor, good, excellent) at position 66',
+      ]);
+    });
+
+    it('should accept any field when there is no schema', () => {
+      expect(check('metadata.anything > 3', null).isValid).toBe(true);
+    });
+  });
+
+  describe('evaluate', () => {
+    const run = (source: string) => engine.compile(source, cloudSchema)(aws);
+
+    it('should evaluate comparisons and membership', () => {
+      expect(run("metadata.marketShare > 30 and 'HIPAA' in metadata.certifications")).toBe(true);
+      expect(run("'FedRAMP' in metadata.certifications")).toBe(false);
+      expect(run("'FedRAMP' not in metadata.certifications")).toBe(true);
+      expect(run("metadata.pricingModel in ['pay-as-you-go', 'hybrid']")).toBe(true);
+      expect(run('metadata.enterpriseFeatures.length > 5 or metadata.regions >= 26')).toBe(true);
+      expect(run('not (metadata.marketShare < 10)')).toBe(true);
+    });
+
+    it('should treat comparisons on undeclared fields as false', () => {
+      const sparse: TechnicalOption = { name: 'NewCloud', category: 'cloud', metadata: {} };
+      const condition = engine.compile("metadata.marketShare < 10 or 'SOC' not in metadata.certifications", cloudSchema);
+
+      expect(condition(sparse)).toBe(false);
+    });
+
+    it('should refuse to compile ill-typed expressions', () => {
+      expect(() => engine.compile("metadata.regions == 'many'", cloudSchema)).toThrow(RuleExpressionError);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for ScenarioManager
+ * Validates forking, updating and persisting what-if scenarios and comparing them side by side
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScenarioManager } from '../ScenarioManager';
+import { SessionManager } from '../SessionManager';
+import { FileSessionStore } from '../SessionStores';
+import { KnowledgeBase } from '../KnowledgeBase';
+import {
+  AllOptionsEliminatedError,
+  InvalidConstraintsError,
+  InvalidScenarioError,
+  ScenarioNotFoundError,
+  SessionNotFoundError,
+  UserConstraints,
+} from '../../types';
+
+describe('ScenarioManager', () => {
+  const constraints: UserConstraints = {
+    budget: 'medium',
+    scale: { users: 20000, traffic: 'medium' },
+    team: { skillLevel: 'mixed', experience: ['postgresql'] },
+    timeline: 'medium',
+    priorities: { cost: 3, performance: 3, easeOfUse: 3, scalability: 3, vendorLockIn: 3 },
+  };
+
+  const knowledgeBase = new KnowledgeBase();
+  let sessionManager: SessionManager;
+  let manager: ScenarioManager;
+  let sessionId: string;
+
+  beforeEach(() => {
+    sessionManager = new SessionManager();
+    manager = new ScenarioManager(knowledgeBase, sessionManager);
+
+    const session = sessionManager.createSession(constraints);
+    session.selectedOptions = ['PostgreSQL', 'MongoDB'].map(name => knowledgeBase.findTechnology(name, 'database')!);
+    sessionManager.saveSession(session);
+    sessionId = session.id;
+  });
+
+  describe('forking', () => {
+    it('should copy the session constraints, apply the changes and evaluate', () => {
+      const { scenario, evaluationResult, warnings } = manager.forkScenario(sessionId, ' Startup budget ', { budget: 'low' });
+
+      expect(scenario.name).toBe('Startup budget');
+      expect(scenario.constraints).toEqual({ ...constraints, budget: 'low' });
+      expect(scenario.evaluationHistory).toEqual([evaluationResult]);
+      expect(evaluationResult?.rankings).toHaveLength(2);
+      expect(warnings).toEqual([expect.stringContaining('All priorities have the same weight')]);
+    });
+
+    it('should leave the session constraints and history untouched', () => {
+      const { scenario } = manager.forkScenario(sessionId, 'Enterprise', { scale: { users: 2000000 } });
+      manager.updateScenario(sessionId, scenario.id, { team: { experience: ['mongodb'] } });
+
+      const session = sessionManager.getSession(sessionId)!;
+      expect(session.constraints).toEqual(constraints);
+      expect(session.evaluationHistory).toEqual([]);
+      expect(session.modificationHistory).toEqual([]);
+    });
+
+    it('should fork from another scenario and keep the two independent', () => {
+      const { scenario: startup } = manager.forkScenario(sessionId, 'Startup', { budget: 'low' });
+      const { scenario: rushed } = manager.forkScenario(sessionId, 'Startup, rushed', { timeline: 'immediate' }, startup.id);
+      manager.updateScenario(sessionId, rushed.id, { team: { experience: ['mongodb'] } });
+
+      expect(rushed.parentId).toBe(startup.id);
+      expect(rushed.constraints).toMatchObject({ budget: 'low', timeline: 'immediate', team: { experience: ['mongodb'] } });
+      expect(manager.getScenario(sessionId, startup.id)?.constraints.team.experience).toEqual(['postgresql']);
+    });
+
+    it('should skip evaluation until options are selected', () => {
+      const bare = sessionManager.createSession(constraints);
+
+      const { scenario, evaluationResult } = manager.forkScenario(bare.id, 'Later');
+
+      expect(evaluationResult).toBeNull();
+      expect(scenario.evaluationHistory).toEqual([]);
+    });
+
+    it('should reject empty, duplicate and overlong names', () => {
+      manager.forkScenario(sessionId, 'Baseline');
+
+      expect(() => manager.forkScenario(sessionId, '  ')).toThrow(InvalidScenarioError);
+      expect(() => manager.forkScenario(sessionId, 'baseline'))
+        .toThrow(expect.objectContaining({ errors: [expect.objectContaining({ code: 'SCENARIO_NAME_TAKEN' })] }));
+      expect(() => manager.forkScenario(sessionId, 'x'.repeat(81))).toThrow(InvalidScenarioError);
+    });
+
+    it('should reject invalid constraints and unknown sessions or scenarios', () => {
+      expect(() => manager.forkScenario(sessionId, 'Broken', { priorities: { cost: 9 } })).toThrow(InvalidConstraintsError);
+      expect(() => manager.forkScenario('missing', 'Any')).toThrow(SessionNotFoundError);
+      expect(() => manager.forkScenario(sessionId, 'Orphan', {}, 'missing')).toThrow(ScenarioNotFoundError);
+      expect(manager.listScenarios(sessionId)).toEqual([]);
+    });
+  });
+
+  describe('failed evaluations', () => {
+    // Neither database declares the field, so the engine eliminates both options
+    const impossible = { hardConstraints: { mustHave: [{ field: 'edgeReplication', operator: 'equals' as const, value: true }] } };
+
+    it('should not add a scenario whose evaluation fails', () => {
+      expect(() => manager.forkScenario(sessionId, 'Impossible', impossible)).toThrow(AllOptionsEliminatedError);
+
+      expect(manager.listScenarios(sessionId)).toEqual([]);
+      expect(() => manager.forkScenario(sessionId, 'Impossible')).not.toThrow();
+    });
+
+    it('should keep the previous constraints when an update fails to evaluate', () => {
+      const { scenario } = manager.forkScenario(sessionId, 'Steady');
+
+      expect(() => manager.updateScenario(sessionId, scenario.id, impossible)).toThrow(AllOptionsEliminatedError);
+
+      const stored = manager.getScenario(sessionId, scenario.id)!;
+      expect(stored.constraints.hardConstraints).toBeUndefined();
+      expect(stored.evaluationHistory).toHaveLength(1);
+    });
+  });
+
+  describe('updating and deleting', () => {
+    it('should append a new evaluation on every update', () => {
+      const { scenario } = manager.forkScenario(sessionId, 'Tuning');
+
+      manager.updateScenario(sessionId, scenario.id, { priorities: { scalability: 5 } });
+      manager.evaluateScenario(sessionId, scenario.id);
+
+      const stored = manager.getScenario(sessionId, scenario.id)!;
+      expect(stored.constraints.priorities.scalability).toBe(5);
+      expect(stored.evaluationHistory).toHaveLength(3);
+    });
+
+    it('should delete scenarios', () => {
+      const { scenario } = manager.forkScenario(sessionId, 'Temporary');
+
+      expect(manager.deleteScenario(sessionId, scenario.id)).toBe(true);
+      expect(manager.deleteScenario(sessionId, scenario.id)).toBe(false);
+      expect(manager.listScenarios(sessionId)).toEqual([]);
+    });
+  });
+
+  describe('comparison', () => {
+    it('should show how rankings, scores and recommendations differ', () => {
+      const { scenario: cheap } = manager.forkScenario(sessionId, 'Startup', {
+        budget: 'low',
+        priorities: { cost: 5, scalability: 1 },
+      });
+      const { scenario: scale } = manager.forkScenario(sessionId, 'Enterprise', {
+        budget: 'high',
+        priorities: { cost: 1, scalability: 5 },
+      });
+
+      const comparison = manager.compareScenarios(sessionId);
+
+      expect(comparison.scenarios.map(scenario => scenario.name)).toEqual(['Startup', 'Enterprise']);
+      expect(comparison.scenarios.every(scenario => scenario.recommendedOption !== null)).toBe(true);
+      expect(comparison.options.map(option => option.option).sort()).toEqual(['MongoDB', 'PostgreSQL']);
+      comparison.options.forEach(option => {
+        expect(Object.keys(option.ranks)).toEqual([cheap.id, scale.id]);
+        const scores = Object.values(option.scores) as number[];
+        expect(option.scoreSpread).toBe(Math.max(...scores) - Math.min(...scores));
+      });
+      expect(comparison.constraintDifferences).toEqual([
+        { field: 'budget', values: { [cheap.id]: 'low', [scale.id]: 'high' } },
+        { field: 'priorities.cost', values: { [cheap.id]: '5', [scale.id]: '1' } },
+        { field: 'priorities.scalability', values: { [cheap.id]: '1', [scale.id]: '5' } },
+      ]);
+      expect(comparison.summary).toContain('The scenarios differ in budget, priorities.cost, priorities.scalability');
+    });
+
+    it('should flag a change of recommendation across scenarios', () => {
+      manager.forkScenario(sessionId, 'Relational team', {
+        team: { skillLevel: 'senior', experience: ['postgresql'] },
+        priorities: { cost: 1, performance: 2, easeOfUse: 5, scalability: 1, vendorLockIn: 5 },
+      });
+      manager.forkScenario(sessionId, 'Document team at scale', {
+        budget: 'low',
+        scale: { users: 5000000, traffic: 'high' },
+        team: { skillLevel: 'senior', experience: ['mongodb'] },
+        priorities: { cost: 5, performance: 3, easeOfUse: 1, scalability: 5, vendorLockIn: 1 },
+      });
+
+      const comparison = manager.compareScenarios(sessionId);
+      const recommended = comparison.scenarios.map(scenario => scenario.recommendedOption);
+
+      expect(new Set(recommended).size).toBe(2);
+      expect(comparison.recommendationChanges).toBe(true);
+      expect(comparison.summary[0]).toMatch(/^The recommendation changes across scenarios: /);
+    });
+
+    it('should compare only the requested scenarios, in the requested order', () => {
+      const { scenario: first } = manager.forkScenario(sessionId, 'First');
+      manager.forkScenario(sessionId, 'Second');
+      const { scenario: third } = manager.forkScenario(sessionId, 'Third', { timeline: 'long' });
+
+      const comparison = manager.compareScenarios(sessionId, [third.id, first.id]);
+
+      expect(comparison.scenarios.map(scenario => scenario.name)).toEqual(['Third', 'First']);
+      expect(comparison.recommendationChanges).toBe(false);
+    });
+
+    it('should compare against the options selected now, not when the scenarios were evaluated', () => {
+      manager.forkScenario(sessionId, 'Before');
+      manager.forkScenario(sessionId, 'After', { budget: 'low' });
+
+      const session = sessionManager.getSession(sessionId)!;
+      session.selectedOptions = ['PostgreSQL', 'MySQL'].map(name => knowledgeBase.findTechnology(name, 'database')!);
+      sessionManager.saveSession(session);
+
+      const comparison = manager.compareScenarios(sessionId);
+
+      expect(comparison.options.map(option => option.option).sort()).toEqual(['MySQL', 'PostgreSQL']);
+      expect(comparison.scenarios.every(scenario => ['MySQL', 'PostgreSQL'].includes(scenario.recommendedOption!))).toBe(true);
+    });
+
+    it('should require at least two scenarios', () => {
+      manager.forkScenario(sessionId, 'Alone');
+
+      expect(() => manager.compareScenarios(sessionId))
+        .toThrow(expect.objectContaining({ errors: [expect.objectContaining({ code: 'SCENARIOS_TOO_FEW' })] }));
+    });
+  });
+
+  describe('persistence', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scenario-manager-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep scenarios and their evaluations across restarts', () => {
+      const persistent = new SessionManager(new FileSessionStore(directory));
+      const session = persistent.createSession(constraints);
+      session.selectedOptions = ['PostgreSQL', 'MySQL'].map(name => knowledgeBase.findTechnology(name, 'database')!);
+      persistent.saveSession(session);
+
+      const first = new ScenarioManager(knowledgeBase, persistent);
+      first.forkScenario(session.id, 'Low', { budget: 'low' });
+      first.forkScenario(session.id, 'High', { budget: 'high' });
+
+      const restarted = new ScenarioManager(knowledgeBase, new SessionManager(new FileSessionStore(directory)));
+      const scenarios = restarted.listScenarios(session.id);
+
+      expect(scenarios.map(scenario => scenario.name)).toEqual(['Low', 'High']);
+      expect(scenarios[0]!.createdAt).toBeInstanceOf(Date);
+      expect(restarted.compareScenarios(session.id).constraintDifferences.map(difference => difference.field)).toEqual(['budget']);
+    });
+  });
+});
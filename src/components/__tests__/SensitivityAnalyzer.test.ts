@@ -0,0 +1,149 @@
+/**
+ * Tests for SensitivityAnalyzer component
+ * Validates priority thresholds and stability ranges
+ */
+
+import { SensitivityAnalyzer, ScoreAggregator, WeightedSumModel } from '../SensitivityAnalyzer';
+import { OptionScore, UserConstraints } from '../../types';
+
+describe('SensitivityAnalyzer', () => {
+  // Plain weighted average keyed by priority name keeps thresholds easy to reason about
+  const linearScore = (criteriaScores: Record<string, number>, priorities: UserConstraints['priorities']) => {
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const [priority, weight] of Object.entries(priorities)) {
+      weightedSum += (criteriaScores[priority] ?? 0) * weight;
+      totalWeight += weight;
+    }
+    return weightedSum / totalWeight;
+  };
+  const linearAggregator: ScoreAggregator = (matrix, priorities) =>
+    matrix.map(criteriaScores => linearScore(criteriaScores, priorities));
+
+  const makeScore = (name: string, criteriaScores: Record<string, number>): OptionScore => ({
+    option: { name, category: 'database', metadata: {} },
+    criteriaScores: { easeOfUse: 50, scalability: 50, vendorLockIn: 50, ...criteriaScores },
+    weightedScore: 0,
+    normalizedScore: 0,
+  });
+
+  const priorities: UserConstraints['priorities'] = {
+    cost: 3,
+    performance: 2,
+    easeOfUse: 1,
+    scalability: 1,
+    vendorLockIn: 1,
+  };
+
+  let analyzer: SensitivityAnalyzer;
+  let scores: OptionScore[];
+
+  beforeEach(() => {
+    analyzer = new SensitivityAnalyzer(linearAggregator);
+    scores = [
+      makeScore('Cheap', { cost: 80, performance: 40 }),
+      makeScore('Fast', { cost: 40, performance: 80 }),
+    ];
+  });
+
+  it('should return null when fewer than two options are scored', () => {
+    expect(analyzer.analyze(scores.slice(0, 1), priorities)).toBeNull();
+  });
+
+  it('should identify the current winner', () => {
+    const analysis = analyzer.analyze(scores, priorities);
+
+    expect(analysis?.currentWinner.name).toBe('Cheap');
+    expect(analysis?.priorities.map(p => p.priority))
+      .toEqual(['cost', 'performance', 'easeOfUse', 'scalability', 'vendorLockIn']);
+  });
+
+  it('should find the value below which lowering a priority flips the winner', () => {
+    const cost = analyzer.analyze(scores, priorities)?.priorities.find(p => p.priority === 'cost');
+
+    expect(cost?.currentValue).toBe(3);
+    expect(cost?.lowerThreshold?.value).toBeCloseTo(2, 2);
+    expect(cost?.lowerThreshold?.newWinner.name).toBe('Fast');
+    expect(cost?.upperThreshold).toBeUndefined();
+    expect(cost?.stableRange).toEqual({ min: cost?.lowerThreshold?.value, max: 5 });
+  });
+
+  it('should find the value above which raising a priority flips the winner', () => {
+    const performance = analyzer.analyze(scores, priorities)?.priorities.find(p => p.priority === 'performance');
+
+    expect(performance?.upperThreshold?.value).toBeCloseTo(3, 2);
+    expect(performance?.upperThreshold?.newWinner.name).toBe('Fast');
+    expect(performance?.lowerThreshold).toBeUndefined();
+    expect(performance?.stableRange.min).toBe(1);
+  });
+
+  it('should report priorities that cannot change the outcome as robust', () => {
+    const analysis = analyzer.analyze(scores, priorities);
+
+    expect(analysis?.robustPriorities).toEqual(['easeOfUse', 'scalability', 'vendorLockIn']);
+    expect(analysis?.thresholdMethod).toBe('scan');
+    expect(analysis?.scanStep).toBe(0.05);
+  });
+
+  it('should report thresholds that agree with a direct re-ranking', () => {
+    const threshold = analyzer.analyze(scores, priorities)!.priorities[0]!.lowerThreshold!.value;
+    const rank = (cost: number) => scores
+      .map(score => ({ name: score.option.name, value: linearScore(score.criteriaScores, { ...priorities, cost }) }))
+      .sort((a, b) => b.value - a.value)[0]?.name;
+
+    expect(rank(threshold + 0.02)).toBe('Cheap');
+    expect(rank(threshold - 0.02)).toBe('Fast');
+  });
+
+  describe('with a weighted-sum model', () => {
+    // Closed form of linearScore: each priority weighs its own criterion by its raw value
+    const model: WeightedSumModel = {
+      weightOf: value => value,
+      valueOf: weight => weight,
+      linearize: (criteriaScores, current, priority) => {
+        const linearized = { scoreSlope: 0, scoreIntercept: 0, weightSlope: 0, weightIntercept: 0 };
+        for (const [name, weight] of Object.entries(current)) {
+          const score = criteriaScores[name] ?? 0;
+          if (name === priority) {
+            linearized.scoreSlope += score;
+            linearized.weightSlope += 1;
+          } else {
+            linearized.scoreIntercept += score * weight;
+            linearized.weightIntercept += weight;
+          }
+        }
+        return linearized;
+      },
+    };
+
+    beforeEach(() => {
+      analyzer = new SensitivityAnalyzer(linearAggregator, model);
+    });
+
+    it('should solve thresholds exactly and report no scan step', () => {
+      const analysis = analyzer.analyze(scores, priorities);
+      const cost = analysis?.priorities.find(p => p.priority === 'cost');
+      const performance = analysis?.priorities.find(p => p.priority === 'performance');
+
+      expect(analysis?.thresholdMethod).toBe('exact');
+      expect(analysis?.scanStep).toBeUndefined();
+      expect(cost?.lowerThreshold).toEqual({ value: 2, newWinner: scores[1]!.option });
+      expect(performance?.upperThreshold).toEqual({ value: 3, newWinner: scores[1]!.option });
+      expect(analysis?.robustPriorities).toEqual(['easeOfUse', 'scalability', 'vendorLockIn']);
+    });
+
+    it('should agree with the scan on where every threshold lies', () => {
+      const three = [...scores, makeScore('Balanced', { cost: 62, performance: 58, easeOfUse: 70 })];
+      const exact = analyzer.analyze(three, priorities)!;
+      const scanned = new SensitivityAnalyzer(linearAggregator).analyze(three, priorities)!;
+
+      exact.priorities.forEach((analysis, index) => {
+        const other = scanned.priorities[index]!;
+        expect(analysis.stableRange.min).toBeCloseTo(other.stableRange.min, 1);
+        expect(analysis.stableRange.max).toBeCloseTo(other.stableRange.max, 1);
+        expect(analysis.lowerThreshold?.newWinner.name).toBe(other.lowerThreshold?.newWinner.name);
+        expect(analysis.upperThreshold?.newWinner.name).toBe(other.upperThreshold?.newWinner.name);
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for SessionManager
+ * Validates session lifecycle, TTL expiry and sharing sessions with the constraint update manager
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from '../SessionManager';
+import { FileSessionStore } from '../SessionStores';
+import { ConstraintUpdateManagerImpl } from '../ConstraintUpdateManager';
+import { SessionNotFoundError, SessionStoreError, UserConstraints } from '../../types';
+
+describe('SessionManager', () => {
+  const constraints: UserConstraints = {
+    budget: 'medium',
+    scale: { users: 1000, traffic: 'medium' },
+    team: { skillLevel: 'mixed', experience: ['javascript'] },
+    timeline: 'medium',
+    priorities: { cost: 3, performance: 4, easeOfUse: 3, scalability: 4, vendorLockIn: 2 },
+  };
+
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T09:00:00Z') });
+    manager = new SessionManager(undefined, 30);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advanceMinutes = (minutes: number) => {
+    jest.setSystemTime(Date.now() + minutes * 60 * 1000);
+  };
+
+  describe('session lifecycle', () => {
+    it('should create sessions with unique IDs', () => {
+      const first = manager.createSession(constraints);
+      const second = manager.createSession(constraints);
+
+      expect(first.id).not.toBe(second.id);
+      expect(manager.getSession(first.id)).toMatchObject({ constraints, selectedOptions: [], modificationHistory: [] });
+    });
+
+    it('should update the constraints of an existing session', () => {
+      const session = manager.createSession(constraints);
+
+      const updated = manager.updateSession(session.id, { ...constraints, budget: 'high' });
+
+      expect(updated.constraints.budget).toBe('high');
+      expect(manager.getSession(session.id)?.constraints.budget).toBe('high');
+    });
+
+    it('should raise SessionNotFoundError when updating an unknown session', () => {
+      expect(() => manager.updateSession('missing', constraints)).toThrow(SessionNotFoundError);
+    });
+
+    it('should delete sessions', () => {
+      const session = manager.createSession(constraints);
+
+      expect(manager.deleteSession(session.id)).toBe(true);
+      expect(manager.getSession(session.id)).toBeNull();
+    });
+
+    it('should reject a TTL that is not a positive number of minutes', () => {
+      expect(() => new SessionManager(undefined, 0)).toThrow(SessionStoreError);
+    });
+  });
+
+  describe('expiry', () => {
+    it('should expire sessions that sit idle past the TTL', () => {
+      const session = manager.createSession(constraints);
+
+      advanceMinutes(29);
+      expect(manager.getSession(session.id)).not.toBeNull();
+
+      advanceMinutes(1);
+      expect(manager.getSession(session.id)).toBeNull();
+      expect(manager.getStore().get(session.id)).toBeNull();
+    });
+
+    it('should restart the TTL whenever a session is saved', () => {
+      const session = manager.createSession(constraints);
+
+      advanceMinutes(20);
+      manager.saveSession(session);
+      advanceMinutes(20);
+
+      expect(manager.getSession(session.id)).not.toBeNull();
+    });
+
+    it('should remove every expired session during cleanup', () => {
+      const stale = manager.createSession(constraints);
+      advanceMinutes(20);
+      const fresh = manager.createSession(constraints);
+      advanceMinutes(15);
+
+      expect(manager.cleanupExpiredSessions()).toBe(1);
+      expect(manager.listSessions().map(session => session.id)).toEqual([fresh.id]);
+      expect(manager.getStore().get(stale.id)).toBeNull();
+    });
+  });
+
+  describe('shared with the constraint update manager', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-manager-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should treat a session whose file is corrupt as missing', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const sessionManager = new SessionManager(new FileSessionStore(directory));
+      const session = sessionManager.createSession(constraints);
+      fs.writeFileSync(path.join(directory, `${session.id}.json`), '{ "id": ');
+
+      expect(sessionManager.getSession(session.id)).toBeNull();
+      expect(() => sessionManager.updateSession(session.id, constraints)).toThrow(SessionNotFoundError);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(session.id), expect.stringContaining('Corrupt session file'));
+      warn.mockRestore();
+    });
+
+    it('should persist updated constraints and modification history across restarts', async () => {
+      const sessionManager = new SessionManager(new FileSessionStore(directory));
+      const session = sessionManager.createSession(constraints);
+      await new ConstraintUpdateManagerImpl(undefined, sessionManager).updateConstraints(session.id, { budget: 'low' });
+
+      const restarted = new ConstraintUpdateManagerImpl(undefined, new SessionManager(new FileSessionStore(directory)));
+
+      expect(restarted.getSession(session.id)?.constraints.budget).toBe('low');
+      expect(restarted.getModificationHistory(session.id)).toEqual([
+        expect.objectContaining({ modifiedFields: ['budget'], previousValues: { budget: 'medium' }, timestamp: expect.any(Date) }),
+      ]);
+    });
+  });
+});
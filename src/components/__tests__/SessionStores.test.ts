@@ -0,0 +1,200 @@
+/**
+ * Tests for the session stores
+ * Validates that every backend stores, lists and deletes sessions, and that persistent backends survive a reopen
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  MemorySessionStore,
+  FileSessionStore,
+  SqliteSessionStore,
+  createSessionStore,
+} from '../SessionStores';
+import { SessionStore, SessionStoreError, UserSession } from '../../types';
+
+describe('SessionStores', () => {
+  let directory: string;
+
+  const createSession = (id: string): UserSession => ({
+    id,
+    constraints: {
+      budget: 'medium',
+      scale: { users: 1000, traffic: 'medium' },
+      team: { skillLevel: 'mixed', experience: ['typescript'] },
+      timeline: 'short',
+      priorities: { cost: 3, performance: 4, easeOfUse: 3, scalability: 5, vendorLockIn: 2 },
+    },
+    selectedOptions: [{ name: 'PostgreSQL', category: 'database', metadata: { acidCompliance: true } }],
+    evaluationHistory: [],
+    createdAt: new Date('2026-03-01T09:00:00Z'),
+    updatedAt: new Date('2026-03-01T09:30:00Z'),
+    collection: { step: 'complete', partialConstraints: { budget: 'medium' } },
+    modificationHistory: [{
+      timestamp: new Date('2026-03-01T09:15:00Z'),
+      modifiedFields: ['budget'],
+      previousValues: { budget: 'low' },
+      newValues: { budget: 'medium' },
+    }],
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-stores-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => SessionStore]> = [
+    ['memory', () => new MemorySessionStore()],
+    ['file', () => new FileSessionStore(path.join(directory, 'sessions'))],
+    ['sqlite', () => new SqliteSessionStore(path.join(directory, 'sessions.db'))],
+  ];
+
+  describe.each(backends)('%s backend', (_backend, openStore) => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = openStore();
+    });
+
+    afterEach(() => {
+      store.close();
+    });
+
+    it('should store, replace and delete sessions', () => {
+      store.set(createSession('session-1'));
+      store.set({ ...createSession('session-1'), selectedOptions: [] });
+      store.set(createSession('session-2'));
+
+      expect(store.get('session-1')?.selectedOptions).toEqual([]);
+      expect(store.list().map(session => session.id).sort()).toEqual(['session-1', 'session-2']);
+
+      expect(store.delete('session-1')).toBe(true);
+      expect(store.delete('session-1')).toBe(false);
+      expect(store.get('session-1')).toBeNull();
+    });
+
+    it('should read sessions back with their timestamps as dates', () => {
+      store.set(createSession('session-1'));
+
+      expect(store.get('session-1')).toEqual(createSession('session-1'));
+      expect(store.get('session-1')?.modificationHistory?.[0]?.timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('persistence', () => {
+    it.each(backends.slice(1))('should refuse %s sessions with function-scored criteria', (_backend, openStore) => {
+      const store = openStore();
+      const session = createSession('session-1');
+      session.constraints.customCriteria = [{ name: 'hiring', priority: 3, scoringFunction: () => 80 }];
+
+      expect(() => store.set(session)).toThrow(/Custom criterion 'hiring' is scored by a function/);
+      expect(store.get('session-1')).toBeNull();
+
+      session.constraints.customCriteria = [{ name: 'hiring', priority: 3, scores: { PostgreSQL: 80 } }];
+      store.set(session);
+      expect(store.get('session-1')?.constraints.customCriteria).toEqual(session.constraints.customCriteria);
+      store.close();
+    });
+
+    it.each(backends.slice(1))('should only revive the %s session timestamps as dates', (_backend, openStore) => {
+      const store = openStore();
+      const session = createSession('session-1');
+      session.selectedOptions[0]!.metadata.createdAt = '2020-01-01';
+      session.scenarios = [{
+        id: 'scenario-1',
+        name: 'Lean',
+        constraints: session.constraints,
+        evaluationHistory: [],
+        createdAt: new Date('2026-03-01T09:20:00Z'),
+        updatedAt: new Date('2026-03-01T09:25:00Z'),
+      }];
+      store.set(session);
+
+      const stored = store.get('session-1')!;
+      expect(stored.selectedOptions[0]!.metadata.createdAt).toBe('2020-01-01');
+      expect(stored.scenarios?.[0]?.createdAt).toEqual(new Date('2026-03-01T09:20:00Z'));
+      expect(stored.scenarios?.[0]?.updatedAt).toBeInstanceOf(Date);
+      expect(stored.updatedAt).toBeInstanceOf(Date);
+      store.close();
+    });
+
+    it.each(backends.slice(1))('should keep %s sessions after the store is reopened', (_backend, openStore) => {
+      const first = openStore();
+      first.set(createSession('session-1'));
+      first.close();
+
+      const second = openStore();
+      expect(second.get('session-1')?.constraints.priorities.scalability).toBe(5);
+      second.close();
+    });
+  });
+
+  describe('FileSessionStore', () => {
+    it('should report corrupt session files', () => {
+      const store = new FileSessionStore(directory);
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{ "id": ');
+
+      expect(() => store.get('broken')).toThrow(SessionStoreError);
+    });
+
+    it('should move corrupt files aside when listing instead of failing', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const store = new FileSessionStore(directory);
+      store.set(createSession('session-1'));
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{ "id": ');
+
+      expect(store.list().map(session => session.id)).toEqual(['session-1']);
+      expect(fs.readdirSync(directory).sort()).toEqual(['broken.json.corrupt', 'session-1.json']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('broken.json.corrupt'), expect.any(String));
+      warn.mockRestore();
+    });
+
+    it('should refuse session IDs that are not safe file names', () => {
+      const store = new FileSessionStore(directory);
+
+      expect(() => store.set(createSession('../escape'))).toThrow(/Invalid session ID/);
+      expect(store.get('../escape')).toBeNull();
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+  });
+
+  describe('SqliteSessionStore', () => {
+    it('should skip corrupt rows when listing instead of failing', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const filename = path.join(directory, 'sessions.db');
+      const store = new SqliteSessionStore(filename);
+      store.set(createSession('session-1'));
+      store.close();
+      const db = new Database(filename);
+      db.prepare('INSERT INTO sessions (id, data) VALUES (?, ?)').run('broken', '{ "id": ');
+      db.close();
+
+      const reopened = new SqliteSessionStore(filename);
+      expect(reopened.list().map(session => session.id)).toEqual(['session-1']);
+      expect(warn).toHaveBeenCalledWith('Skipped unreadable session broken:', expect.any(String));
+      reopened.close();
+      warn.mockRestore();
+    });
+  });
+
+  describe('createSessionStore', () => {
+    it('should create the configured backend', () => {
+      const sqlite = createSessionStore({ backend: 'sqlite', path: ':memory:' });
+
+      expect(createSessionStore({ backend: 'memory' }).backend).toBe('memory');
+      expect(createSessionStore({ backend: 'file', path: directory }).backend).toBe('file');
+      expect(sqlite.backend).toBe('sqlite');
+      sqlite.close();
+    });
+
+    it('should require a path for persistent backends and reject unknown backends', () => {
+      expect(() => createSessionStore({ backend: 'sqlite' })).toThrow('The sqlite session store needs a path');
+      expect(() => createSessionStore({ backend: 'redis' as any })).toThrow(SessionStoreError);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for ShortlistBuilder component
+ * Validates Pareto filtering, score cut-offs and cut explanations
+ */
+
+import { ShortlistBuilder } from '../ShortlistBuilder';
+import { EliminatedOption, OptionScore } from '../../types';
+
+describe('ShortlistBuilder', () => {
+  let builder: ShortlistBuilder;
+
+  const makeScore = (name: string, weightedScore: number, criteriaScores: Record<string, number>): OptionScore => ({
+    option: { name, category: 'database', metadata: {} },
+    criteriaScores,
+    weightedScore,
+    normalizedScore: Math.round(weightedScore),
+  });
+
+  beforeEach(() => {
+    builder = new ShortlistBuilder();
+  });
+
+  describe('dominates', () => {
+    it('should require at least as good everywhere and better somewhere', () => {
+      const strong = makeScore('Strong', 80, { cost: 80, performance: 70 });
+      const weak = makeScore('Weak', 60, { cost: 60, performance: 70 });
+      const tradeOff = makeScore('TradeOff', 70, { cost: 50, performance: 90 });
+
+      expect(builder.dominates(strong, weak)).toBe(true);
+      expect(builder.dominates(weak, strong)).toBe(false);
+      expect(builder.dominates(strong, tradeOff)).toBe(false);
+      expect(builder.dominates(strong, makeScore('Twin', 80, { cost: 80, performance: 70 }))).toBe(false);
+    });
+  });
+
+  describe('build', () => {
+    const scores = [
+      makeScore('Balanced', 75, { cost: 75, performance: 75 }),
+      makeScore('Cheap', 72, { cost: 95, performance: 50 }),
+      makeScore('Fast', 70, { cost: 45, performance: 95 }),
+      makeScore('Middling', 65, { cost: 70, performance: 60 }),
+      makeScore('Niche', 60, { cost: 40, performance: 80 }),
+    ];
+
+    it('should cut dominated candidates and name the dominating one', () => {
+      const shortlist = builder.build(scores, [], 3, 2);
+
+      expect(shortlist.candidateCount).toBe(5);
+      expect(shortlist.finalists.map(o => o.name)).toEqual(['Balanced', 'Cheap', 'Fast']);
+
+      const middling = shortlist.cut.find(c => c.option.name === 'Middling');
+      expect(middling).toEqual({
+        option: expect.objectContaining({ name: 'Middling' }),
+        stage: 'dominated',
+        reason: 'Dominated by Balanced, which scores at least as well on every criterion and better on cost, performance',
+        dominatedBy: expect.objectContaining({ name: 'Balanced' }),
+        score: 65,
+      });
+      expect(shortlist.cut.find(c => c.option.name === 'Niche')?.dominatedBy?.name).toBe('Fast');
+    });
+
+    it('should cut non-dominated candidates below the cut-off by score', () => {
+      const shortlist = builder.build(scores, [], 2, 2);
+      const fast = shortlist.cut.find(c => c.option.name === 'Fast');
+
+      expect(shortlist.finalists.map(o => o.name)).toEqual(['Balanced', 'Cheap']);
+      expect(fast?.stage).toBe('ranking');
+      expect(fast?.reason).toBe(
+        'Ranked 3 of 3 non-dominated candidates with a score of 70/100, 2 points behind Cheap - only the top 2 are shortlisted'
+      );
+    });
+
+    it('should explain candidates eliminated by hard constraints', () => {
+      const eliminated: EliminatedOption[] = [{
+        option: { name: 'NoAcid', category: 'database', metadata: {} },
+        reasons: [{ constraint: 'mustHave', field: 'acidCompliance', message: 'fails requirement "ACID"' }],
+      }];
+
+      const shortlist = builder.build(scores, eliminated, 3, 2);
+
+      expect(shortlist.candidateCount).toBe(6);
+      expect(shortlist.cut[0]).toEqual({
+        option: eliminated[0]!.option,
+        stage: 'constraints',
+        reason: 'Eliminated by hard constraints: fails requirement "ACID"',
+      });
+      expect(shortlist.cut).toHaveLength(3);
+    });
+
+    it('should bring back the best dominated candidate when one option dominates the rest', () => {
+      const shortlist = builder.build([
+        makeScore('Best', 90, { cost: 90, performance: 90 }),
+        makeScore('Second', 70, { cost: 70, performance: 70 }),
+        makeScore('Third', 50, { cost: 50, performance: 50 }),
+      ], [], 3, 2);
+
+      expect(shortlist.finalists.map(o => o.name)).toEqual(['Best', 'Second']);
+      expect(shortlist.cut.map(c => c.option.name)).toEqual(['Third']);
+    });
+  });
+});
@@ -148,6 +148,7 @@ const evaluationResult: EvaluationResult = {
   scores,
   rankings,
   tradeOffs,
+  aggregationMethod: 'weighted-sum',
 };
 
 // Test the recommendation engine
@@ -3,39 +3,98 @@
  * A decision-support system for comparing technical options
  */
 
-import { UserConstraints, TechnicalOption } from './types';
+import {
+  UserConstraints,
+  TechnicalOption,
+  ComparisonOutput,
+  EvaluationResult,
+  TechnicalRefereeConfig,
+  SessionStoreBackend,
+  InvalidOptionsError,
+  InvalidConstraintsError,
+} from './types';
 import { ConstraintCollectionInterface } from './components/ConstraintCollectionInterface';
-import { SimpleHTTPServer } from './web/server';
+import { ConstraintCollector } from './components/ConstraintCollector';
+import { ComparisonEngine } from './components/ComparisonEngine';
+import { OutputGenerator } from './components/OutputGenerator';
+import { KnowledgeBase } from './components/KnowledgeBase';
+import { KnowledgePackLoader } from './components/KnowledgePackLoader';
+import { createAggregationStrategy } from './components/AggregationStrategies';
+import { SessionManager } from './components/SessionManager';
+import { createSessionStore } from './components/SessionStores';
+import { SimpleHTTPServer, TechnicalRefereeWebServer } from './web/server';
+
+/**
+ * Default configuration for the Technical Referee
+ */
+export const DEFAULT_CONFIG: TechnicalRefereeConfig = {
+  minOptions: 2,
+  maxOptions: 3,
+  defaultPriorities: {
+    cost: 3,
+    performance: 3,
+    easeOfUse: 3,
+    scalability: 3,
+    vendorLockIn: 3,
+  },
+  confidenceThreshold: 0.7,
+};
+
+/**
+ * Result of a full comparison run
+ */
+export interface ComparisonRunResult {
+  /** Rendered comparison output */
+  output: ComparisonOutput;
+  /** Raw evaluation result from the comparison engine */
+  evaluation: EvaluationResult;
+  /** Non-blocking warnings raised while validating inputs */
+  warnings: string[];
+}
 
 /**
  * Main Technical Referee class
  * Orchestrates the comparison process from constraint collection to recommendation output
  */
 export class TechnicalReferee {
-  private config = {
-    minOptions: 2,
-    maxOptions: 3,
-    defaultPriorities: {
-      cost: 3,
-      performance: 3,
-      easeOfUse: 3,
-      scalability: 3,
-      vendorLockIn: 3,
-    },
-    confidenceThreshold: 0.7,
-  };
+  private config: TechnicalRefereeConfig;
 
   private constraintInterface: ConstraintCollectionInterface;
+  private constraintCollector: ConstraintCollector;
+  private knowledgeBase: KnowledgeBase;
+  private comparisonEngine: ComparisonEngine;
+  private outputGenerator: OutputGenerator;
 
-  constructor() {
+  constructor(config: Partial<TechnicalRefereeConfig> = {}, knowledgeBase?: KnowledgeBase) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      defaultPriorities: { ...DEFAULT_CONFIG.defaultPriorities, ...config.defaultPriorities },
+    };
     this.constraintInterface = new ConstraintCollectionInterface();
+    this.constraintCollector = new ConstraintCollector();
+    this.knowledgeBase = knowledgeBase || new KnowledgeBase();
+    if (this.config.knowledgePacks && this.config.knowledgePacks.length > 0) {
+      new KnowledgePackLoader(this.knowledgeBase).loadAndApply(this.config.knowledgePacks);
+    }
+    this.comparisonEngine = new ComparisonEngine(this.knowledgeBase, {
+      minOptions: this.config.minOptions,
+      maxOptions: this.config.maxOptions,
+    }, this.config.simulation);
+    if (this.config.aggregationMethod) {
+      this.comparisonEngine.setAggregationStrategy(createAggregationStrategy(
+        this.config.aggregationMethod,
+        this.config.ahpJudgments
+      ));
+    }
+    this.outputGenerator = new OutputGenerator();
   }
 
   /**
    * Get the current configuration
    */
-  getConfig() {
-    return { ...this.config };
+  getConfig(): TechnicalRefereeConfig {
+    return { ...this.config, defaultPriorities: { ...this.config.defaultPriorities } };
   }
 
   /**
@@ -45,33 +104,151 @@ export class TechnicalReferee {
     return this.constraintInterface;
   }
 
+  /**
+   * Get the knowledge base used for scoring
+   */
+  getKnowledgeBase(): KnowledgeBase {
+    return this.knowledgeBase;
+  }
+
   /**
    * Start the web interface for constraint collection
+   * Sessions are kept in the configured session store, and every evaluation uses the configured comparison engine;
+   * resolves once the HTTP server is listening
    */
-  startWebInterface(port: number = 3000): SimpleHTTPServer {
-    const server = new SimpleHTTPServer(port);
-    server.start();
+  async startWebInterface(port: number = 3000, host: string = 'localhost'): Promise<SimpleHTTPServer> {
+    const sessions = this.config.sessions ?? { backend: 'memory' };
+    const sessionManager = new SessionManager(createSessionStore(sessions), sessions.ttlMinutes);
+    const server = new SimpleHTTPServer(port, host, new TechnicalRefereeWebServer(this.knowledgeBase, sessionManager, this.comparisonEngine));
+    await server.start();
     return server;
   }
 
   /**
-   * Placeholder method for the main comparison workflow
-   * Will be implemented in subsequent tasks
+   * Run the full comparison workflow and return the rendered output
+   * @param options - Technical options to compare
+   * @param constraints - User constraints and priorities
+   * @returns Complete comparison output
+   * @throws InvalidOptionsError if the option count or option data is invalid
+   * @throws InvalidConstraintsError if the constraints fail validation
+   */
+  async compareOptions(options: TechnicalOption[], constraints: UserConstraints): Promise<ComparisonOutput> {
+    const { output } = await this.runComparison(options, constraints);
+    return output;
+  }
+
+  /**
+   * Run the full comparison workflow, returning the raw evaluation alongside the output
+   * @param options - Technical options to compare
+   * @param constraints - User constraints and priorities
+   * @returns Rendered output, raw evaluation and validation warnings
+   * @throws InvalidOptionsError if the option count or option data is invalid
+   * @throws InvalidConstraintsError if the constraints fail validation
    */
-  async compareOptions(options: TechnicalOption[], constraints: UserConstraints) {
-    // Validate inputs
-    if (options.length < this.config.minOptions || options.length > this.config.maxOptions) {
-      throw new Error(`Must provide between ${this.config.minOptions} and ${this.config.maxOptions} options`);
+  async runComparison(options: TechnicalOption[], constraints: UserConstraints): Promise<ComparisonRunResult> {
+    // Validate option count against the configured bounds
+    if (!Array.isArray(options) || options.length < this.config.minOptions || options.length > this.config.maxOptions) {
+      const countValidation = this.comparisonEngine.validateOptionCount(options);
+      throw new InvalidOptionsError(
+        countValidation.errors,
+        countValidation.warnings,
+        `Must provide between ${this.config.minOptions} and ${this.config.maxOptions} options`
+      );
+    }
+
+    // Validate constraints, falling back to default priorities when none were given
+    const resolvedConstraints = this.resolveConstraints(constraints);
+    const constraintValidation = this.constraintCollector.validateConstraints(resolvedConstraints);
+    if (!constraintValidation.isValid) {
+      throw new InvalidConstraintsError(constraintValidation.errors, constraintValidation.warnings);
+    }
+
+    // The engine validates the option data and reports its warnings on the evaluation
+    const evaluation = this.comparisonEngine.evaluate(options, resolvedConstraints);
+
+    return this.renderEvaluation(evaluation, resolvedConstraints, [
+      ...constraintValidation.warnings,
+      ...(evaluation.warnings ?? []),
+    ]);
+  }
+
+  /**
+   * Shortlist any number of candidates from one category and return the rendered comparison of the finalists
+   * @param options - Candidate options (at least the minimum option count, all in one category)
+   * @param constraints - User constraints and priorities
+   * @returns Comparison output including the shortlist and the reason each candidate was cut
+   * @throws InvalidOptionsError if the candidates are invalid or span several categories
+   * @throws InvalidConstraintsError if the constraints fail validation
+   */
+  async compareShortlist(options: TechnicalOption[], constraints: UserConstraints): Promise<ComparisonOutput> {
+    const { output } = await this.runShortlistComparison(options, constraints);
+    return output;
+  }
+
+  /**
+   * Run the shortlist workflow, returning the raw evaluation alongside the output
+   * @param options - Candidate options (at least the minimum option count, all in one category)
+   * @param constraints - User constraints and priorities
+   * @returns Rendered output, raw evaluation and validation warnings
+   * @throws InvalidOptionsError if the candidates are invalid or span several categories
+   * @throws InvalidConstraintsError if the constraints fail validation
+   */
+  async runShortlistComparison(options: TechnicalOption[], constraints: UserConstraints): Promise<ComparisonRunResult> {
+    const resolvedConstraints = this.resolveConstraints(constraints);
+    const constraintValidation = this.constraintCollector.validateConstraints(resolvedConstraints);
+    if (!constraintValidation.isValid) {
+      throw new InvalidConstraintsError(constraintValidation.errors, constraintValidation.warnings);
+    }
+
+    const evaluation = this.comparisonEngine.evaluateShortlist(
+      options,
+      resolvedConstraints,
+      this.config.shortlistSize ?? this.config.maxOptions
+    );
+
+    return this.renderEvaluation(evaluation, resolvedConstraints, [
+      ...constraintValidation.warnings,
+      ...(evaluation.warnings ?? []),
+    ]);
+  }
+
+  /**
+   * Fall back to the default priorities when none were given
+   */
+  private resolveConstraints(constraints: UserConstraints): UserConstraints {
+    return {
+      ...constraints,
+      priorities: constraints.priorities || { ...this.config.defaultPriorities },
+    };
+  }
+
+  /**
+   * Render an evaluation and apply the configured confidence threshold
+   * @param evaluation - Evaluation result to render
+   * @param constraints - Constraints the evaluation ran with
+   * @param warnings - Validation warnings to pass through
+   * @returns Rendered output, raw evaluation and validation warnings
+   */
+  private renderEvaluation(
+    evaluation: EvaluationResult,
+    constraints: UserConstraints,
+    warnings: string[]
+  ): ComparisonRunResult {
+    const output = this.outputGenerator.generateComparison(evaluation, constraints);
+
+    // Flag recommendations that fall below the configured confidence threshold
+    const recommendation = output.finalRecommendation;
+    if (recommendation.confidence < this.config.confidenceThreshold) {
+      recommendation.warnings.push(
+        `Recommendation confidence (${Math.round(recommendation.confidence * 100)}%) is below the ` +
+        `configured threshold of ${Math.round(this.config.confidenceThreshold * 100)}% - review the trade-offs before deciding`
+      );
     }
 
-    // TODO: Implement full comparison logic in subsequent tasks
-    console.log('Technical Referee initialized successfully');
-    console.log(`Comparing ${options.length} options with constraints:`, constraints);
-    
     return {
-      message: 'Comparison logic will be implemented in subsequent tasks',
-      options: options.map(o => o.name),
-      constraints,
+      output,
+      evaluation,
+      warnings,
     };
   }
 }
@@ -80,6 +257,50 @@ export class TechnicalReferee {
 export * from './types';
 export * from './components/ConstraintCollectionInterface';
 export { KnowledgeBase } from './components/KnowledgeBase';
+export { KnowledgePackLoader, KNOWLEDGE_PACK_EXTENSIONS } from './components/KnowledgePackLoader';
+export { RuleExpressionEngine } from './components/RuleExpressionEngine';
+export { ComparisonEngine } from './components/ComparisonEngine';
+export { OutputGenerator } from './components/OutputGenerator';
+export { SensitivityAnalyzer } from './components/SensitivityAnalyzer';
+export { MonteCarloSimulator, DEFAULT_SIMULATION_OPTIONS } from './components/MonteCarloSimulator';
+export { HardConstraintFilter, MUST_HAVE_OPERATORS } from './components/HardConstraintFilter';
+export { ShortlistBuilder } from './components/ShortlistBuilder';
+export { ReportExporter, REPORT_CONTENT_TYPES, REPORT_FILE_EXTENSIONS } from './components/ReportExporter';
+export { AdrGenerator } from './components/AdrGenerator';
+export { SessionManager, DEFAULT_SESSION_TTL_MINUTES } from './components/SessionManager';
+export { ScenarioManager, ScenarioChange } from './components/ScenarioManager';
+export * from './components/SessionStores';
+export * from './components/AggregationStrategies';
+export { ConstraintCollector } from './components/ConstraintCollector';
 export { ConstraintUpdateManagerImpl } from './components/ConstraintUpdateManager';
 export * from './web/server';
-export default TechnicalReferee;
\ No newline at end of file
+export default TechnicalReferee;
+
+// Run as a local service when executed directly
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 3000;
+  const host = process.env.HOST || 'localhost';
+  const sessionBackend = process.env.SESSION_STORE as SessionStoreBackend | undefined;
+  const config: Partial<TechnicalRefereeConfig> = sessionBackend
+    ? {
+      sessions: {
+        backend: sessionBackend,
+        ...(process.env.SESSION_PATH && { path: process.env.SESSION_PATH }),
+        ...(process.env.SESSION_TTL_MINUTES && { ttlMinutes: Number(process.env.SESSION_TTL_MINUTES) }),
+      },
+    }
+    : {};
+
+  new TechnicalReferee(config).startWebInterface(port, host).then(server => {
+    const shutdown = () => {
+      server.stop()
+        .then(() => server.getWebServer().getSessionManager().close())
+        .then(() => process.exit(0), () => process.exit(1));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  }).catch(error => {
+    console.error('Failed to start Technical Referee server:', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
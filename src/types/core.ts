@@ -3,6 +3,8 @@
  * These interfaces define the fundamental data structures used throughout the system
  */
 
+import type { ConstraintModification } from './interfaces';
+
 /**
  * User constraints that define the context for technology comparison
  * Captures budget, scale, team capabilities, timeline, and priorities
@@ -43,6 +45,92 @@ export interface UserConstraints {
     /** Vendor lock-in avoidance priority (higher = more important to avoid) */
     vendorLockIn: number;
   };
+
+  /** Requirements that eliminate options outright instead of lowering their score */
+  hardConstraints?: HardConstraints;
+
+  /** Criteria defined by the user in addition to the standard criteria */
+  customCriteria?: CustomCriterion[];
+}
+
+/**
+ * A user-defined evaluation criterion, weighted alongside the standard criteria
+ * Scored by a function over option metadata, by manually entered scores, or both
+ * (manual scores take precedence for the options they cover)
+ */
+export interface CustomCriterion {
+  /** Criterion key used in scores and hard constraints, e.g. "securityPosture" */
+  name: string;
+  /** Display name, e.g. "Security Posture" (defaults to the name) */
+  label?: string;
+  /** Priority weight on the same 1-5 scale as the standard priorities */
+  priority: number;
+  /** Scores an option (0-100) from its metadata */
+  scoringFunction?: (option: TechnicalOption) => number;
+  /** Manually entered scores (0-100) keyed by option name */
+  scores?: Record<string, number>;
+}
+
+/**
+ * Comparison applied by a must-have constraint
+ * - equals: field strictly equals the value
+ * - includes: list field contains every listed value (case-insensitive for strings)
+ * - oneOf: field equals one of the listed values
+ * - atLeast / atMost: numeric field is at least / at most the value
+ */
+export type MustHaveOperator = 'equals' | 'includes' | 'oneOf' | 'atLeast' | 'atMost';
+
+/**
+ * A requirement on option metadata that every option must satisfy
+ * e.g. { field: 'acidCompliance', operator: 'equals', value: true }
+ *      { field: 'certifications', operator: 'includes', value: 'HIPAA' }
+ */
+export interface MustHaveConstraint {
+  /** Metadata field to check */
+  field: string;
+  /** How the field is compared with the value */
+  operator: MustHaveOperator;
+  /** Expected value (a list for oneOf, a value or list for includes) */
+  value: string | number | boolean | Array<string | number | boolean>;
+  /** Categories the requirement applies to (defaults to every category) */
+  categories?: TechnicalOption['category'][];
+  /** Human-readable description used when explaining an elimination */
+  description?: string;
+}
+
+/**
+ * Hard constraints applied before options are ranked
+ */
+export interface HardConstraints {
+  /** Requirements checked against the metadata supplied with each option */
+  mustHave?: MustHaveConstraint[];
+  /**
+   * Minimum acceptable score (0-100) per standard or custom criterion
+   * Options below any minimum, or not scored on the criterion, are vetoed
+   */
+  minimumScores?: Record<string, number>;
+}
+
+/**
+ * Why an option was eliminated
+ */
+export interface EliminationReason {
+  /** Which kind of hard constraint was violated */
+  constraint: 'mustHave' | 'minimumScore';
+  /** Metadata field or criterion that failed */
+  field: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * An option removed from the comparison by hard constraints
+ */
+export interface EliminatedOption {
+  /** The eliminated option */
+  option: TechnicalOption;
+  /** Every hard constraint the option violated */
+  reasons: EliminationReason[];
 }
 
 /**
@@ -54,6 +142,10 @@ export type UserConstraintUpdates = {
   team?: Partial<UserConstraints['team']>;
   timeline?: UserConstraints['timeline'];
   priorities?: Partial<UserConstraints['priorities']>;
+  /** Replaces the hard constraints as a whole */
+  hardConstraints?: HardConstraints;
+  /** Replaces the custom criteria as a whole */
+  customCriteria?: CustomCriterion[];
 };
 
 /**
@@ -63,11 +155,34 @@ export interface TechnicalOption {
   /** Name of the technology */
   name: string;
   /** Category of technology for domain-specific evaluation */
-  category: 'cloud' | 'backend' | 'database' | 'frontend';
+  category: 'cloud' | 'backend' | 'database' | 'frontend' | 'messaging' | 'orchestration' | 'observability' | 'identity' | 'cache';
   /** Additional metadata for scoring */
   metadata: Record<string, any>;
+  /** Uncertainty about individual criterion scores, keyed by criterion name */
+  uncertainty?: Record<string, CriterionUncertainty>;
 }
 
+/**
+ * An option to attach to a comparison
+ * Either the name of a known technology, or a custom option with its own metadata
+ */
+export type OptionSelection = string | {
+  name: string;
+  category?: TechnicalOption['category'];
+  metadata?: Record<string, any>;
+};
+
+/**
+ * Uncertainty about a single criterion score
+ * Values are on the 0-100 scale of the score before contextual adjustments; each simulated value
+ * then receives the same contextual adjustments as the point score
+ * Omitted mean/mode default to the point score before contextual adjustments
+ */
+export type CriterionUncertainty =
+  | { distribution: 'uniform'; min: number; max: number }
+  | { distribution: 'normal'; stdDev: number; mean?: number }
+  | { distribution: 'triangular'; min: number; max: number; mode?: number };
+
 /**
  * Score for a single option across all criteria
  */
@@ -80,6 +195,48 @@ export interface OptionScore {
   weightedScore: number;
   /** Normalized score on 0-100 scale */
   normalizedScore: number;
+  /** How each criterion score was reached, keyed by criterion */
+  provenance?: Record<string, CriterionProvenance>;
+}
+
+/**
+ * Points contributed to a base criterion score
+ */
+export interface ScoreContribution {
+  /** Metadata field the points came from; absent for the baseline and for capping */
+  field?: string;
+  /** Points added (negative when taken away) */
+  points: number;
+  /** Plain-language reason, e.g. "Pay-as-you-go pricing" */
+  reason: string;
+}
+
+/**
+ * A change made to a criterion score after its base score was calculated
+ */
+export interface ScoreAdjustment {
+  /** A knowledge base scoring rule, or the user's project context */
+  source: 'rule' | 'context';
+  /** Rule name, or the constraint behind a contextual adjustment */
+  name: string;
+  /** Points actually applied, after keeping the score within 0-100 */
+  points: number;
+  /** Plain-language reason */
+  reason: string;
+}
+
+/**
+ * Audit trail of a single criterion score
+ */
+export interface CriterionProvenance {
+  /** Score produced by the criterion's scoring function */
+  baseScore: number;
+  /** Points that make up the base score; they sum to the base score */
+  contributions: ScoreContribution[];
+  /** Rule and contextual adjustments, in the order they were applied */
+  adjustments: ScoreAdjustment[];
+  /** Score after every adjustment */
+  finalScore: number;
 }
 
 /**
@@ -116,6 +273,25 @@ export interface Compromise {
   impact: 'low' | 'medium' | 'high';
   /** Criteria affected by this compromise */
   affectedCriteria: string[];
+  /** Option whose choice entails the compromise */
+  option?: TechnicalOption;
+}
+
+/**
+ * Multi-criteria decision analysis (MCDA) method used to aggregate criterion scores
+ */
+export type AggregationMethod = 'weighted-sum' | 'topsis' | 'ahp' | 'promethee-ii';
+
+/**
+ * AHP pairwise judgment between two priorities or custom criteria
+ */
+export interface PairwiseComparison {
+  /** The more important priority, or the name of a custom criterion */
+  more: PriorityName | string;
+  /** The less important priority, or the name of a custom criterion */
+  less: PriorityName | string;
+  /** Saaty intensity (1 = equal importance, 9 = extreme importance) */
+  intensity: number;
 }
 
 /**
@@ -128,6 +304,188 @@ export interface EvaluationResult {
   rankings: RankedOption[];
   /** Trade-off analysis */
   tradeOffs: TradeOffAnalysis;
+  /** Aggregation method that produced the weighted scores and rankings */
+  aggregationMethod: AggregationMethod;
+  /** How far each priority can move before the top-ranked option changes */
+  sensitivity?: SensitivityAnalysis;
+  /** Why sensitivity analysis was skipped, when the aggregation does not use the user's priorities */
+  sensitivityNotApplicable?: string;
+  /** Monte Carlo simulation of score uncertainty */
+  uncertainty?: UncertaintyAnalysis;
+  /** Options removed by hard constraints; they are never scored or ranked */
+  eliminated?: EliminatedOption[];
+  /** Non-blocking warnings raised while validating the options */
+  warnings?: string[];
+  /** How the options were narrowed down, when the evaluation ran in shortlist mode */
+  shortlist?: Shortlist;
+  /** Display names of the custom criteria, keyed by criterion name */
+  criterionLabels?: Record<string, string>;
+}
+
+/**
+ * A candidate that did not make the shortlist
+ */
+export interface ShortlistCut {
+  /** The candidate */
+  option: TechnicalOption;
+  /** Stage at which the candidate was cut */
+  stage: 'constraints' | 'dominated' | 'ranking';
+  /** Human-readable explanation */
+  reason: string;
+  /** Candidate that Pareto-dominates this one (dominated stage only) */
+  dominatedBy?: TechnicalOption;
+  /** Aggregated score (0-100), for candidates that were scored */
+  score?: number;
+}
+
+/**
+ * Result of narrowing a large candidate set down to a few finalists
+ */
+export interface Shortlist {
+  /** Number of candidates considered */
+  candidateCount: number;
+  /** Candidates kept for the detailed comparison, best first */
+  finalists: TechnicalOption[];
+  /** Candidates that were cut, with the reason for each */
+  cut: ShortlistCut[];
+}
+
+/**
+ * Rankings produced by a single aggregation method
+ */
+export interface MethodRanking {
+  /** Aggregation method */
+  method: AggregationMethod;
+  /** Options ranked by the method's scores */
+  rankings: RankedOption[];
+}
+
+/**
+ * One option's results under every compared aggregation method
+ */
+export interface AggregationComparisonRow {
+  /** The option */
+  option: TechnicalOption;
+  /** Rank under each method */
+  ranks: Partial<Record<AggregationMethod, number>>;
+  /** Score (0-100) under each method */
+  scores: Partial<Record<AggregationMethod, number>>;
+}
+
+/**
+ * Side-by-side comparison of rankings from several aggregation methods
+ */
+export interface AggregationComparison {
+  /** Rankings from each method, in the order the methods were requested */
+  methods: MethodRanking[];
+  /** One row per option, in the original option order */
+  rows: AggregationComparisonRow[];
+  /** Whether every method ranks the same option first */
+  consensus: boolean;
+}
+
+/**
+ * Settings for Monte Carlo simulation of score uncertainty
+ */
+export interface SimulationOptions {
+  /** Number of simulated evaluations */
+  iterations: number;
+  /** Seed for the pseudo-random generator, so runs are reproducible */
+  seed: number;
+  /** Coverage of the reported score intervals (0-1, e.g. 0.95) */
+  confidenceLevel: number;
+  /** Standard deviation applied to criteria without explicit uncertainty */
+  defaultStdDev: number;
+}
+
+/**
+ * Simulated outcome distribution for a single option
+ */
+export interface OptionUncertainty {
+  /** The option */
+  option: TechnicalOption;
+  /** Share of simulations in which the option ranked first (0-1) */
+  probabilityOfFirst: number;
+  /** Mean weighted score across simulations */
+  meanScore: number;
+  /** Weighted score interval at the configured confidence level */
+  confidenceInterval: {
+    lower: number;
+    upper: number;
+  };
+  /** Mean rank across simulations (1 = best) */
+  expectedRank: number;
+}
+
+/**
+ * Monte Carlo uncertainty analysis for an evaluation
+ */
+export interface UncertaintyAnalysis {
+  /** Number of simulated evaluations */
+  iterations: number;
+  /** Seed used for the simulation */
+  seed: number;
+  /** Coverage of the reported score intervals */
+  confidenceLevel: number;
+  /** Outcome distribution per option, most likely winner first */
+  options: OptionUncertainty[];
+}
+
+/**
+ * Name of one of the five user priorities
+ */
+export type PriorityName = keyof UserConstraints['priorities'];
+
+/**
+ * Point at which changing a single priority changes the top-ranked option
+ */
+export interface PriorityThreshold {
+  /** Priority value (1-5 scale) at which the current winner and the new winner tie */
+  value: number;
+  /** Option that ranks first once the priority moves past the threshold */
+  newWinner: TechnicalOption;
+}
+
+/**
+ * Stability of the recommendation with respect to a single priority
+ * All other priorities are held at their current values
+ */
+export interface PrioritySensitivity {
+  /** The priority being varied */
+  priority: PriorityName;
+  /** The priority's current value */
+  currentValue: number;
+  /** Range of values (within 1-5) over which the current winner stays on top */
+  stableRange: {
+    min: number;
+    max: number;
+  };
+  /** Nearest threshold below the current value, if lowering the priority flips the winner */
+  lowerThreshold?: PriorityThreshold;
+  /** Nearest threshold above the current value, if raising the priority flips the winner */
+  upperThreshold?: PriorityThreshold;
+}
+
+/**
+ * Weight sensitivity analysis for an evaluation
+ */
+export interface SensitivityAnalysis {
+  /** Option ranked first under the current priorities */
+  currentWinner: TechnicalOption;
+  /** Stability details for each of the five priorities */
+  priorities: PrioritySensitivity[];
+  /** Priorities that cannot flip the recommendation anywhere on the 1-5 scale */
+  robustPriorities: PriorityName[];
+  /**
+   * How the thresholds were located: solved exactly for weighted sum, or scanned and refined by
+   * bisection for aggregation methods without a closed form
+   */
+  thresholdMethod: 'exact' | 'scan';
+  /**
+   * Spacing of the scan that locates thresholds before they are refined, when they were scanned
+   * A winner change that starts and reverses within one step is not detected
+   */
+  scanStep?: number;
 }
 
 /**
@@ -204,6 +562,81 @@ export interface ComparisonOutput {
   finalRecommendation: Recommendation;
   /** Alternative scenarios */
   alternativeScenarios: AlternativeScenario[];
+  /** Weight sensitivity analysis, when available */
+  sensitivity?: SensitivityAnalysis;
+  /** Why sensitivity analysis was skipped, when it does not apply */
+  sensitivityNotApplicable?: string;
+  /** Monte Carlo uncertainty analysis, when available */
+  uncertainty?: UncertaintyAnalysis;
+  /** Options eliminated by hard constraints, with reasons */
+  eliminated?: EliminatedOption[];
+  /** Candidates cut while shortlisting, with reasons */
+  shortlist?: Shortlist;
+  /** Plain-language account of how each criterion score was reached, when the scores carry provenance */
+  scoreExplanation?: string;
+}
+
+/**
+ * Document format a comparison report can be exported to
+ */
+export type ReportFormat = 'markdown' | 'html';
+
+/**
+ * Settings for exporting a comparison report
+ */
+export interface ReportOptions {
+  /** Report title (defaults to "Technology Comparison Report") */
+  title?: string;
+  /** Timestamp printed under the title (defaults to now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Architecture Decision Record template
+ * - madr: Markdown Architectural Decision Records, with options and their pros and cons
+ * - nygard: Michael Nygard's original Context / Decision / Consequences layout
+ */
+export type AdrFormat = 'madr' | 'nygard';
+
+/**
+ * Lifecycle status of an Architecture Decision Record
+ */
+export type AdrStatus = 'proposed' | 'accepted' | 'rejected' | 'deprecated' | 'superseded';
+
+/**
+ * Settings for generating an Architecture Decision Record
+ */
+export interface AdrOptions {
+  /** Template (defaults to madr) */
+  format?: AdrFormat;
+  /** Sequence number (defaults to 1, or the next free number when writing to a directory) */
+  number?: number;
+  /** Decision title (defaults to "Use <option> for <category>") */
+  title?: string;
+  /** Status (defaults to proposed) */
+  status?: AdrStatus;
+  /** Decision date (defaults to today) */
+  date?: Date;
+  /** People involved in the decision (MADR only) */
+  deciders?: string[];
+}
+
+/**
+ * A generated Architecture Decision Record
+ */
+export interface ArchitectureDecisionRecord {
+  /** Sequence number */
+  number: number;
+  /** Decision title */
+  title: string;
+  /** Status */
+  status: AdrStatus;
+  /** Template used */
+  format: AdrFormat;
+  /** Conventional file name, e.g. "0007-use-postgresql-for-the-database.md" */
+  filename: string;
+  /** Markdown document */
+  content: string;
 }
 
 /**
@@ -220,4 +653,116 @@ export interface UserSession {
   evaluationHistory: EvaluationResult[];
   /** Session creation timestamp */
   createdAt: Date;
+  /** When the session was last saved - sessions expire once they sit idle past the TTL */
+  updatedAt?: Date;
+  /** Progress through the step-by-step constraint collection */
+  collection?: CollectionState;
+  /** Constraint modifications applied after collection, oldest first */
+  modificationHistory?: ConstraintModification[];
+  /** Named what-if variants forked from this session */
+  scenarios?: Scenario[];
+}
+
+/**
+ * Saved state of the step-by-step constraint collection
+ */
+export interface CollectionState {
+  /** Current collection step */
+  step: 'budget' | 'scale' | 'team' | 'timeline' | 'priorities' | 'complete';
+  /** Constraints collected so far */
+  partialConstraints: Partial<UserConstraints>;
+}
+
+/**
+ * Storage backend for persisted sessions
+ */
+export type SessionStoreBackend = 'memory' | 'file' | 'sqlite';
+
+/**
+ * Settings for session persistence
+ */
+export interface SessionStoreConfig {
+  /** Storage backend (defaults to memory) */
+  backend: SessionStoreBackend;
+  /** Directory for the file backend, or database file for the SQLite backend */
+  path?: string;
+  /** Idle time in minutes before a session expires (defaults to 60) */
+  ttlMinutes?: number;
+}
+
+/**
+ * A named what-if variant of a session
+ * Compares the session's selected options under its own constraints, leaving the session untouched
+ */
+export interface Scenario {
+  /** Unique scenario identifier */
+  id: string;
+  /** Display name, unique within the session */
+  name: string;
+  /** Scenario the constraints were copied from; absent when forked from the session itself */
+  parentId?: string;
+  /** Constraints this scenario is evaluated with */
+  constraints: UserConstraints;
+  /** Evaluations of this scenario, oldest first */
+  evaluationHistory: EvaluationResult[];
+  /** Scenario creation timestamp */
+  createdAt: Date;
+  /** When the scenario was last changed */
+  updatedAt?: Date;
+}
+
+/**
+ * Outcome of one scenario in a scenario comparison
+ */
+export interface ScenarioOutcome {
+  /** Scenario ID */
+  id: string;
+  /** Scenario name */
+  name: string;
+  /** Constraints the scenario was evaluated with */
+  constraints: UserConstraints;
+  /** Recommended option, or null when the session has too few options to evaluate */
+  recommendedOption: string | null;
+  /** Confidence in the recommendation (0-1) */
+  confidence: number | null;
+}
+
+/**
+ * How one option fares across scenarios
+ */
+export interface ScenarioOptionComparison {
+  /** Option name */
+  option: string;
+  /** Rank in each scenario, keyed by scenario ID; null when the option was not ranked there */
+  ranks: Record<string, number | null>;
+  /** Normalized score (0-100) in each scenario, keyed by scenario ID */
+  scores: Record<string, number | null>;
+  /** Difference between the highest and lowest score across scenarios */
+  scoreSpread: number;
+}
+
+/**
+ * A constraint that is set differently in at least two scenarios
+ */
+export interface ScenarioConstraintDifference {
+  /** Constraint path, e.g. "budget" or "priorities.cost" */
+  field: string;
+  /** Display value in each scenario, keyed by scenario ID */
+  values: Record<string, string>;
+}
+
+/**
+ * Side-by-side comparison of several scenarios, evaluated against the session's current options
+ */
+export interface ScenarioComparison {
+  /** Compared scenarios, in the order requested */
+  scenarios: ScenarioOutcome[];
+  /** Per-option ranks and scores, best average rank first */
+  options: ScenarioOptionComparison[];
+  /** Constraints that differ between the scenarios */
+  constraintDifferences: ScenarioConstraintDifference[];
+  /** Whether the scenarios disagree on the recommended option */
+  recommendationChanges: boolean;
+  /** Plain-language summary of the differences */
+  summary: string[];
 }
\ No newline at end of file
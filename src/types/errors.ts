@@ -0,0 +1,182 @@
+/**
+ * Error types for the Technical Referee Tool
+ * Lets callers distinguish validation failures from unexpected runtime errors
+ */
+
+import { ValidationError } from './interfaces';
+import { EliminatedOption } from './core';
+
+/**
+ * Base error for all failures raised by the Technical Referee
+ */
+export class TechnicalRefereeError extends Error {
+  /** Error code for programmatic handling */
+  readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'TechnicalRefereeError';
+    this.code = code;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when input fails validation
+ * Carries the structured validation errors and warnings that caused the failure
+ */
+export class RefereeValidationError extends TechnicalRefereeError {
+  /** Individual validation errors */
+  readonly errors: ValidationError[];
+  /** Non-blocking warnings collected during validation */
+  readonly warnings: string[];
+
+  constructor(message: string, code: string, errors: ValidationError[], warnings: string[] = []) {
+    super(message, code);
+    this.name = 'RefereeValidationError';
+    this.errors = errors;
+    this.warnings = warnings;
+  }
+}
+
+/**
+ * Raised when the technical options supplied for comparison are invalid
+ */
+export class InvalidOptionsError extends RefereeValidationError {
+  constructor(errors: ValidationError[], warnings: string[] = [], message?: string) {
+    super(
+      message || `Invalid options: ${errors.map(e => e.message).join(', ')}`,
+      'INVALID_OPTIONS',
+      errors,
+      warnings
+    );
+    this.name = 'InvalidOptionsError';
+  }
+}
+
+/**
+ * Raised when the user constraints supplied for comparison are invalid
+ */
+export class InvalidConstraintsError extends RefereeValidationError {
+  constructor(errors: ValidationError[], warnings: string[] = []) {
+    super(
+      `Invalid constraints: ${errors.map(e => e.message).join(', ')}`,
+      'INVALID_CONSTRAINTS',
+      errors,
+      warnings
+    );
+    this.name = 'InvalidConstraintsError';
+  }
+}
+
+/**
+ * Raised when hard constraints eliminate every option, leaving nothing to recommend
+ */
+export class AllOptionsEliminatedError extends RefereeValidationError {
+  /** Eliminated options with the reasons they were vetoed */
+  readonly eliminated: EliminatedOption[];
+
+  constructor(eliminated: EliminatedOption[]) {
+    super(
+      'Every option was eliminated by hard constraints',
+      'ALL_OPTIONS_ELIMINATED',
+      eliminated.map(({ option, reasons }) => ({
+        field: 'options',
+        message: `${option.name} eliminated: ${reasons.map(r => r.message).join('; ')}`,
+        code: 'OPTION_ELIMINATED',
+      }))
+    );
+    this.name = 'AllOptionsEliminatedError';
+    this.eliminated = eliminated;
+  }
+}
+
+/**
+ * Raised when a knowledge pack cannot be parsed or fails validation
+ */
+export class InvalidKnowledgePackError extends RefereeValidationError {
+  /** File or label the pack was loaded from */
+  readonly source: string;
+
+  constructor(source: string, errors: ValidationError[], warnings: string[] = []) {
+    super(
+      `Invalid knowledge pack ${source}: ${errors.map(e => e.message).join(', ')}`,
+      'INVALID_KNOWLEDGE_PACK',
+      errors,
+      warnings
+    );
+    this.name = 'InvalidKnowledgePackError';
+    this.source = source;
+  }
+}
+
+/**
+ * Raised when a rule expression cannot be parsed or fails type-checking
+ */
+export class RuleExpressionError extends RefereeValidationError {
+  /** Expression that failed */
+  readonly expression: string;
+
+  constructor(expression: string, errors: ValidationError[]) {
+    super(
+      `Invalid rule expression "${expression}": ${errors.map(e => e.message).join(', ')}`,
+      'INVALID_RULE_EXPRESSION',
+      errors
+    );
+    this.name = 'RuleExpressionError';
+    this.expression = expression;
+  }
+}
+
+/**
+ * Raised when an operation targets a session that does not exist or has expired
+ */
+export class SessionNotFoundError extends TechnicalRefereeError {
+  /** Session that was requested */
+  readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`, 'SESSION_NOT_FOUND');
+    this.name = 'SessionNotFoundError';
+    this.sessionId = sessionId;
+  }
+}
+
+/**
+ * Raised when a session store cannot be opened, read or written
+ */
+export class SessionStoreError extends TechnicalRefereeError {
+  constructor(message: string) {
+    super(message, 'SESSION_STORE_ERROR');
+    this.name = 'SessionStoreError';
+  }
+}
+
+/**
+ * Raised when an operation targets a scenario that does not exist in the session
+ */
+export class ScenarioNotFoundError extends TechnicalRefereeError {
+  /** Scenario that was requested */
+  readonly scenarioId: string;
+
+  constructor(scenarioId: string) {
+    super(`Scenario not found: ${scenarioId}`, 'SCENARIO_NOT_FOUND');
+    this.name = 'ScenarioNotFoundError';
+    this.scenarioId = scenarioId;
+  }
+}
+
+/**
+ * Raised when a scenario cannot be created or compared, e.g. because its name is taken
+ */
+export class InvalidScenarioError extends RefereeValidationError {
+  constructor(errors: ValidationError[], warnings: string[] = []) {
+    super(
+      `Invalid scenario: ${errors.map(e => e.message).join(', ')}`,
+      'INVALID_SCENARIO',
+      errors,
+      warnings
+    );
+    this.name = 'InvalidScenarioError';
+  }
+}
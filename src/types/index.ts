@@ -12,6 +12,9 @@ export * from './knowledge';
 // Interface definitions
 export * from './interfaces';
 
+// Error types
+export * from './errors';
+
 // Re-export commonly used types for convenience
 export type {
   UserConstraints,
@@ -33,6 +36,8 @@ export type {
   ValidationResult,
   ConstraintUpdateResult,
   ConstraintModification,
+  ConstraintModificationOperation,
+  TechnicalRefereeConfig,
 } from './interfaces';
 
 export type {
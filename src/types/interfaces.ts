@@ -9,7 +9,13 @@ import {
   TechnicalOption, 
   EvaluationResult, 
   ComparisonOutput,
-  UserSession 
+  UserSession,
+  SimulationOptions,
+  AggregationMethod,
+  PairwiseComparison,
+  AggregationComparison,
+  SessionStoreBackend,
+  SessionStoreConfig
 } from './core';
 
 /**
@@ -58,6 +64,34 @@ export interface ComparisonEngine {
    * @returns Validation result
    */
   validateOptionCount(options: TechnicalOption[]): ValidationResult;
+
+  /**
+   * Select the aggregation strategy used to rank options
+   * @param strategy - MCDA aggregation strategy
+   */
+  setAggregationStrategy(strategy: AggregationStrategy): void;
+
+  /**
+   * Rank the same options with several aggregation methods for side-by-side comparison
+   * @param options - Technical options to evaluate
+   * @param constraints - User constraints and priorities
+   * @param strategies - Strategies to compare
+   * @returns Rankings per method and per option
+   */
+  compareAggregationMethods(
+    options: TechnicalOption[],
+    constraints: UserConstraints,
+    strategies?: AggregationStrategy[]
+  ): AggregationComparison;
+
+  /**
+   * Narrow any number of candidates in one category to a shortlist and evaluate the finalists
+   * @param options - Candidate options
+   * @param constraints - User constraints and priorities
+   * @param size - Number of finalists to keep
+   * @returns Evaluation of the finalists with the shortlist attached
+   */
+  evaluateShortlist(options: TechnicalOption[], constraints: UserConstraints, size?: number): EvaluationResult;
 }
 
 /**
@@ -134,6 +168,65 @@ export interface SessionManager {
    * @returns Session if found, null otherwise
    */
   getSession(sessionId: string): UserSession | null;
+
+  /**
+   * Persist every change made to a session
+   * @param session - Session to save
+   * @returns Saved session
+   */
+  saveSession(session: UserSession): UserSession;
+
+  /**
+   * Delete a session
+   * @param sessionId - Session to delete
+   * @returns Whether the session existed
+   */
+  deleteSession(sessionId: string): boolean;
+
+  /**
+   * Delete sessions that have been idle for longer than the TTL
+   * @returns Number of sessions removed
+   */
+  cleanupExpiredSessions(): number;
+}
+
+/**
+ * Interface for session storage backends
+ * Stores hold sessions as-is; expiry is decided by the session manager
+ */
+export interface SessionStore {
+  /** Backend implemented by this store */
+  readonly backend: SessionStoreBackend;
+
+  /**
+   * Read a session
+   * @param sessionId - Session ID
+   * @returns Stored session, or null if there is none
+   */
+  get(sessionId: string): UserSession | null;
+
+  /**
+   * Insert or replace a session
+   * @param session - Session to store
+   */
+  set(session: UserSession): void;
+
+  /**
+   * Remove a session
+   * @param sessionId - Session ID
+   * @returns Whether the session existed
+   */
+  delete(sessionId: string): boolean;
+
+  /**
+   * Read every stored session
+   */
+  list(): UserSession[];
+
+  /**
+   * Release any file handles held by the store
+   */
+  close(): void;
 }
 
 /**
@@ -187,6 +280,28 @@ export interface ConstraintUpdateManager {
    */
   getModificationHistory(sessionId: string): ConstraintModification[];
 
+  /**
+   * Revert the most recent change that has not been undone and re-evaluate
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  undo(sessionId: string): Promise<ConstraintUpdateResult>;
+
+  /**
+   * Re-apply the most recently undone change and re-evaluate
+   * @param sessionId - Session to update
+   * @returns Updated evaluation result
+   */
+  redo(sessionId: string): Promise<ConstraintUpdateResult>;
+
+  /**
+   * Return the constraints to how they were at a point in the modification history and re-evaluate
+   * @param sessionId - Session to update
+   * @param target - History index to restore the state right after, or a moment in time
+   * @returns Updated evaluation result
+   */
+  restoreTo(sessionId: string, target: number | Date): Promise<ConstraintUpdateResult>;
+
   /**
    * Validate constraint updates before applying
    * @param currentConstraints - Current constraint values
@@ -228,8 +343,18 @@ export interface ConstraintModification {
   newValues: UserConstraintUpdates;
   /** Reason for the modification (if provided) */
   reason?: string;
+  /** How the modification was made (defaults to update) */
+  operation?: ConstraintModificationOperation;
+  /** History index of the modification an undo or redo reverted or re-applied */
+  targetIndex?: number;
 }
 
+/**
+ * How a constraint modification was made
+ * Undo, redo and restore are recorded in the history like any other change
+ */
+export type ConstraintModificationOperation = 'update' | 'undo' | 'redo' | 'restore';
+
 /**
  * Configuration for the Technical Referee system
  */
@@ -242,4 +367,36 @@ export interface TechnicalRefereeConfig {
   defaultPriorities: UserConstraints['priorities'];
   /** Confidence threshold for recommendations */
   confidenceThreshold: number;
+  /** Overrides for the Monte Carlo uncertainty simulation */
+  simulation?: Partial<SimulationOptions>;
+  /** Aggregation method used to rank options (defaults to weighted sum) */
+  aggregationMethod?: AggregationMethod;
+  /** Pairwise judgments that set the criterion weights when the aggregation method is AHP */
+  ahpJudgments?: PairwiseComparison[];
+  /** Number of finalists kept in shortlist mode (defaults to maxOptions) */
+  shortlistSize?: number;
+  /** Knowledge pack files or directories to load on startup, lowest precedence first */
+  knowledgePacks?: string[];
+  /** Where web sessions are stored and how long they live (defaults to in-memory, 60 minutes) */
+  sessions?: SessionStoreConfig;
+}
+
+/**
+ * Interface for MCDA aggregation strategies
+ * Turns per-criterion scores into a single score per option
+ */
+export interface AggregationStrategy {
+  /** Method implemented by this strategy */
+  readonly method: AggregationMethod;
+
+  /** Whether the strategy weights criteria by its own judgments, so the user's priorities do not affect rankings */
+  readonly ignoresPriorities?: boolean;
+
+  /**
+   * Aggregate criterion scores into one score per option
+   * @param criteriaScores - Criterion scores (0-100, higher is better) for each option
+   * @param weights - Weight of each criterion
+   * @returns Aggregated scores (0-100, higher is better) in the same order as the options
+   */
+  aggregate(criteriaScores: Record<string, number>[], weights: Record<string, number>): number[];
 }
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Defines structures for domain-specific evaluation criteria and scoring logic
  */
 
-import { TechnicalOption } from './core';
+import { TechnicalOption, MustHaveConstraint, ScoreContribution } from './core';
 
 /**
  * Domain-specific knowledge for a technology category
@@ -25,8 +25,8 @@ export interface EvaluationCriteria {
   name: string;
   /** Base weight for this criterion */
   weight: number;
-  /** Function to score an option on this criterion */
-  scoringFunction: (option: TechnicalOption) => number;
+  /** Function to score an option on this criterion, optionally recording where the points came from */
+  scoringFunction: (option: TechnicalOption, contributions?: ScoreContribution[]) => number;
   /** Description of what this criterion measures */
   description: string;
 }
@@ -43,6 +43,8 @@ export interface ScoringRule {
   scoreAdjustment: number;
   /** Criteria this rule affects */
   affectedCriteria: string[];
+  /** Source of the condition when it is written in the rule expression language */
+  expression?: string;
 }
 
 /**
@@ -111,6 +113,247 @@ export interface DatabaseData {
   performanceRating: number;
 }
 
+/**
+ * Frontend framework specific data structure
+ */
+export interface FrontendFrameworkData {
+  /** Framework name */
+  name: string;
+  /** Primary rendering model (hybrid = server rendering with client hydration) */
+  renderingModel: 'spa' | 'ssr' | 'hybrid';
+  /** Minified and gzipped runtime size in kilobytes */
+  bundleSizeKb: number;
+  /** Runtime performance rating (1-10) */
+  performanceRating: number;
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+  /** Community size (GitHub stars) */
+  communitySize: number;
+  /** Available third-party packages and component libraries */
+  ecosystemSize: number;
+  /** TypeScript support level */
+  typescriptSupport: 'native' | 'good' | 'partial';
+  /** Organization steering the project ('community' when independently governed) */
+  corporateBacking: string;
+}
+
+/**
+ * Message queue and streaming platform specific data structure
+ */
+export interface MessagingPlatformData {
+  /** Platform name */
+  name: string;
+  /** Strongest delivery guarantee the platform offers */
+  deliveryGuarantee: 'at-most-once' | 'at-least-once' | 'exactly-once';
+  /** Ordering guarantee (partitioned = ordered within a partition, key or queue) */
+  ordering: 'none' | 'partitioned' | 'strict';
+  /** Sustained throughput of a typical production cluster in messages per second */
+  throughputMsgsPerSec: number;
+  /** How long messages are kept (until-consumed = removed once acknowledged) */
+  retention: 'until-consumed' | 'bounded' | 'unlimited';
+  /** How the platform is run */
+  hosting: 'managed' | 'self-hosted' | 'both';
+  /** Whether the broker is open source */
+  openSource: boolean;
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+  /** Community size (GitHub stars, Stack Overflow questions, etc.) */
+  communitySize: number;
+}
+
+/**
+ * Container orchestration and deployment platform specific data structure
+ */
+export interface OrchestrationPlatformData {
+  /** Platform name */
+  name: string;
+  /** Ongoing effort to run, upgrade, and secure the platform itself */
+  operationalOverhead: 'low' | 'medium' | 'high';
+  /** How capacity follows load (serverless = per-request scaling down to zero) */
+  autoscaling: 'manual' | 'horizontal' | 'serverless';
+  /** Where workloads can run (anywhere = any cloud or on-premises) */
+  portability: 'single-cloud' | 'multi-cloud' | 'anywhere';
+  /** Breadth of third-party tooling, operators, and integrations (1-10) */
+  ecosystemRating: number;
+  /** Managed services that run the platform for you */
+  managedOfferings: string[];
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Observability stack (metrics, logging, tracing) specific data structure
+ */
+export interface ObservabilityStackData {
+  /** Stack name */
+  name: string;
+  /** How usage is billed */
+  pricingModel: 'open-source' | 'per-host' | 'per-gb';
+  /** List price in USD per host per month or per GB ingested (0 for open source) */
+  unitPriceUsd: number;
+  /** OpenTelemetry support (native = OpenTelemetry is the primary ingestion path) */
+  openTelemetrySupport: 'native' | 'compatible' | 'none';
+  /** Whether full functionality needs the vendor's own agent */
+  proprietaryAgent: boolean;
+  /** Default data retention in days (0 = limited only by your own storage) */
+  retentionLimitDays: number;
+  /** Effort to run the backend yourself (none for hosted services) */
+  selfHostingBurden: 'none' | 'low' | 'medium' | 'high';
+  /** Telemetry signals covered */
+  signals: Array<'metrics' | 'logs' | 'traces'>;
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+}
+
+/**
+ * One tier of monthly-active-user pricing
+ * Each tier prices the users above the previous tier's limit, so tiers must be in ascending order
+ */
+export interface MauPricingTier {
+  /** Highest monthly active user count covered by this tier (omitted for the last, open-ended tier) */
+  upToMau?: number;
+  /** Price in USD per monthly active user within this tier (0 for a free tier) */
+  pricePerMauUsd: number;
+}
+
+/**
+ * Authentication and identity provider specific data structure
+ */
+export interface IdentityProviderData {
+  /** Provider name */
+  name: string;
+  /** Standard protocols supported */
+  protocols: Array<'oidc' | 'saml' | 'scim' | 'ldap'>;
+  /** Monthly-active-user pricing tiers (a single free tier for self-hosted software) */
+  mauPricing: MauPricingTier[];
+  /** Whether the provider can be run on your own infrastructure */
+  selfHostable: boolean;
+  /** Compliance certifications held by the hosted service */
+  complianceCertifications: string[];
+  /** Tooling to move users in and out (import-export = password hashes can be exported) */
+  migrationTooling: 'none' | 'import-only' | 'import-export';
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Cache and in-memory data store specific data structure
+ */
+export interface CacheStoreData {
+  /** Store name */
+  name: string;
+  /** Data model (data-grid = distributed objects and compute, usually embedded in the JVM) */
+  dataModel: 'key-value' | 'data-structures' | 'data-grid';
+  /** Supported eviction policies */
+  evictionPolicies: Array<'lru' | 'lfu' | 'ttl' | 'random' | 'fifo'>;
+  /** How data survives a restart */
+  persistence: 'none' | 'snapshot' | 'append-only-log';
+  /** How the store scales out */
+  clustering: 'none' | 'client-sharding' | 'native';
+  /** Typical p99 read latency in milliseconds */
+  p99LatencyMs: number;
+  /** Memory efficiency rating (1-10, higher = less overhead per key) */
+  memoryEfficiency: number;
+  /** Whether a single node uses every CPU core */
+  multiThreaded: boolean;
+  /** License of the server */
+  license: 'permissive' | 'copyleft' | 'source-available' | 'proprietary';
+  /** Whether the license changed in the last few years */
+  licenseChangedRecently: boolean;
+  /** Managed services that run the store for you */
+  managedOfferings: string[];
+  /** Learning curve difficulty */
+  learningCurve: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Type of a metadata field, used to type-check rule expressions
+ */
+export type MetadataFieldType =
+  | { type: 'number' }
+  | { type: 'boolean' }
+  | { type: 'string'; values?: string[] }
+  | { type: 'list' };
+
+/**
+ * Metadata fields available for a technology category
+ */
+export type MetadataSchema = Record<string, MetadataFieldType>;
+
+/**
+ * Comparison operators of the rule expression language
+ */
+export type RuleComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in';
+
+/**
+ * Parsed rule expression
+ * Positions are character offsets into the source, used in error messages
+ */
+export type RuleExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean; position: number }
+  | { kind: 'list'; items: RuleExpressionNode[]; position: number }
+  | { kind: 'field'; path: string[]; position: number }
+  | { kind: 'not'; operand: RuleExpressionNode; position: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: RuleExpressionNode; right: RuleExpressionNode; position: number }
+  | { kind: 'comparison'; operator: RuleComparisonOperator; left: RuleExpressionNode; right: RuleExpressionNode; position: number };
+
+/**
+ * Condition of a declarative scoring rule, matched against option metadata
+ * Uses the same operators as must-have constraints
+ */
+export type RuleCondition = Pick<MustHaveConstraint, 'field' | 'operator' | 'value'>;
+
+/**
+ * Scoring rule expressed as data so it can live in a knowledge pack
+ */
+export interface DeclarativeScoringRule {
+  /** Name of the rule (a pack rule replaces a built-in rule of the same name and category) */
+  name: string;
+  /** Technology category the rule applies to */
+  category: TechnicalOption['category'];
+  /** Conditions that must all be met for the rule to apply (use either this or expression) */
+  when?: RuleCondition[];
+  /** Condition in the rule expression language, e.g. "metadata.marketShare > 30" */
+  expression?: string;
+  /** Score adjustment when the conditions are met */
+  scoreAdjustment: number;
+  /** Criteria this rule affects */
+  affectedCriteria: string[];
+}
+
+/**
+ * Knowledge pack loaded from a JSON or YAML file
+ * Lets teams maintain their own catalog of approved technologies outside the code
+ */
+export interface KnowledgePack {
+  /** Pack name, used in override reports */
+  name: string;
+  /** Optional pack version */
+  version?: string;
+  /** Technologies with metadata in the shape expected for their category */
+  technologies?: TechnicalOption[];
+  /** Additional technology names recognized per category */
+  knownTechnologies?: Partial<Record<TechnicalOption['category'], string[]>>;
+  /** Declarative scoring rules */
+  scoringRules?: DeclarativeScoringRule[];
+}
+
+/**
+ * Result of merging knowledge packs in precedence order
+ */
+export interface MergedKnowledgePack {
+  /** Names of the merged packs, lowest precedence first */
+  packs: string[];
+  /** Technologies after later packs replaced earlier definitions */
+  technologies: TechnicalOption[];
+  /** Union of recognized technology names per category (lowercase) */
+  knownTechnologies: Partial<Record<TechnicalOption['category'], string[]>>;
+  /** Scoring rules after later packs replaced earlier definitions */
+  scoringRules: DeclarativeScoringRule[];
+  /** Human-readable record of every definition a later pack replaced */
+  overrides: string[];
+}
+
 /**
  * Standard evaluation criteria names used across all domains
  */
@@ -0,0 +1,480 @@
+/**
+ * Tests for the HTTP server
+ * Exercises routing, status codes and the node:http listener
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleHTTPServer, TechnicalRefereeWebServer } from '../server';
+import { SessionManager } from '../../components/SessionManager';
+import { KnowledgeBase } from '../../components/KnowledgeBase';
+import { ComparisonEngine } from '../../components/ComparisonEngine';
+import { createAggregationStrategy } from '../../components/AggregationStrategies';
+import { SqliteSessionStore } from '../../components/SessionStores';
+import { ConstraintUpdateManagerImpl } from '../../components/ConstraintUpdateManager';
+import { InvalidConstraintsError, SessionNotFoundError } from '../../types';
+
+describe('SimpleHTTPServer', () => {
+  describe('handleRequest', () => {
+    let server: SimpleHTTPServer;
+
+    beforeEach(() => {
+      server = new SimpleHTTPServer(0);
+    });
+
+    it('should serve index.html with an HTML content type', async () => {
+      const response = await server.handleRequest('GET', '/');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.contentType).toBe('text/html; charset=utf-8');
+      expect(String(response.body)).toContain('<html');
+    });
+
+    it('should serve stylesheets with a CSS content type', async () => {
+      const response = await server.handleRequest('GET', '/styles.css');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.contentType).toBe('text/css; charset=utf-8');
+    });
+
+    it('should serve the client script with a JavaScript content type', async () => {
+      const response = await server.handleRequest('GET', '/app.js');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.contentType).toBe('application/javascript; charset=utf-8');
+      expect(String(response.body)).toContain('/api/update/priorities');
+    });
+
+    it('should return 404 for unknown files and API routes', async () => {
+      expect((await server.handleRequest('GET', '/missing.html')).statusCode).toBe(404);
+      expect((await server.handleRequest('GET', '/api/unknown')).statusCode).toBe(404);
+    });
+
+    it('should return 400 for malformed percent-encoding', async () => {
+      const response = await server.handleRequest('GET', '/api/scenarios/%E0%A4%A');
+
+      expect(response.statusCode).toBe(400);
+      expect((response.body as any).code).toBe('INVALID_URL');
+    });
+
+    it('should refuse to serve files outside the web directory', async () => {
+      expect((await server.handleRequest('GET', '/%2e%2e/index.ts')).statusCode).toBe(404);
+      expect((await server.handleRequest('GET', '/server.ts')).statusCode).toBe(404);
+    });
+
+    it('should only serve the web UI assets', async () => {
+      expect((await server.handleRequest('GET', '/server.js')).statusCode).toBe(404);
+      expect((await server.handleRequest('GET', '/__tests__/server.test.ts')).statusCode).toBe(404);
+      expect((await server.handleRequest('GET', '/constructor')).statusCode).toBe(404);
+    });
+
+    it('should return 405 with an Allow header for unsupported methods', async () => {
+      const response = await server.handleRequest('DELETE', '/api/collect/budget');
+
+      expect(response.statusCode).toBe(405);
+      expect(response.headers?.Allow).toBe('POST');
+    });
+
+    it('should return 400 when the session ID is missing', async () => {
+      const response = await server.handleRequest('POST', '/api/collect/budget', { data: { budget: 'low' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.body).toMatchObject({ success: false, code: 'SESSION_ID_REQUIRED' });
+    });
+
+    it('should return 404 for unknown sessions', async () => {
+      const response = await server.handleRequest('POST', '/api/collect/budget', {
+        sessionId: 'does-not-exist',
+        data: { budget: 'low' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 400 for invalid collection input', async () => {
+      const { body } = await server.handleRequest('POST', '/api/session');
+      const sessionId = (body as { sessionId: string }).sessionId;
+
+      const response = await server.handleRequest('POST', '/api/collect/budget', {
+        sessionId,
+        data: { budget: 'unlimited' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.body).toMatchObject({ success: false });
+    });
+
+    it('should accept the session ID from the query string', async () => {
+      const { body } = await server.handleRequest('POST', '/api/session');
+      const sessionId = (body as { sessionId: string }).sessionId;
+
+      const collect = await server.handleRequest('POST', `/api/collect/budget?sessionId=${sessionId}`, {
+        data: { budget: 'low' },
+      });
+      const history = await server.handleRequest('GET', `/api/history?sessionId=${sessionId}`);
+
+      expect(collect.statusCode).toBe(200);
+      expect(history.statusCode).toBe(200);
+      expect(history.body).toMatchObject({ success: true, history: [] });
+    });
+  });
+
+  describe('comparison endpoints', () => {
+    let server: SimpleHTTPServer;
+    let sessionId: string;
+
+    const collectAll = async () => {
+      const steps: Array<[string, unknown]> = [
+        ['budget', { budget: 'medium' }],
+        ['scale', { users: 5000, traffic: 'medium' }],
+        ['team', { skillLevel: 'mixed', experience: ['python'] }],
+        ['timeline', { timeline: 'short' }],
+        ['priorities', { cost: 4, performance: 3, easeOfUse: 5, scalability: 3, vendorLockIn: 2 }],
+      ];
+      for (const [step, data] of steps) {
+        const response = await server.handleRequest('POST', `/api/collect/${step}`, { sessionId, data });
+        expect(response.statusCode).toBe(200);
+      }
+    };
+
+    beforeEach(async () => {
+      server = new SimpleHTTPServer(0);
+      const { body } = await server.handleRequest('POST', '/api/session');
+      sessionId = (body as { sessionId: string }).sessionId;
+    });
+
+    it('should list known technologies filtered by category', async () => {
+      const response = await server.handleRequest('GET', '/api/options?category=database');
+      const options = (response.body as { options: Array<{ name: string; category: string }> }).options;
+
+      expect(response.statusCode).toBe(200);
+      expect(options.map(o => o.name)).toEqual(expect.arrayContaining(['PostgreSQL', 'MongoDB']));
+      expect(options.every(o => o.category === 'database')).toBe(true);
+    });
+
+    it('should attach known and custom options to a session', async () => {
+      const response = await server.handleRequest('POST', '/api/options', {
+        sessionId,
+        options: ['PostgreSQL', { name: 'CockroachDB', category: 'database', metadata: { performanceRating: 7 } }],
+      });
+
+      expect(response.statusCode).toBe(200);
+      const selected = (response.body as { selectedOptions: Array<{ name: string; metadata: any }> }).selectedOptions;
+      expect(selected.map(o => o.name)).toEqual(['PostgreSQL', 'CockroachDB']);
+      expect(selected[0]?.metadata.acidCompliance).toBe(true);
+    });
+
+    it('should reject unknown names and too many options', async () => {
+      const unknown = await server.handleRequest('POST', '/api/options', { sessionId, options: ['NotADatabase', 'MySQL'] });
+      expect(unknown.statusCode).toBe(400);
+      expect(unknown.body).toMatchObject({ errors: [{ code: 'OPTION_UNKNOWN' }] });
+
+      const tooMany = await server.handleRequest('POST', '/api/options', {
+        sessionId,
+        options: ['PostgreSQL', 'MySQL', 'MongoDB', { name: 'SQLite', category: 'database' }],
+      });
+      expect(tooMany.statusCode).toBe(400);
+      expect(tooMany.body).toMatchObject({ errors: [{ code: 'OPTIONS_TOO_MANY' }] });
+    });
+
+    it('should require complete constraints before evaluating', async () => {
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MySQL'] });
+      const response = await server.handleRequest('POST', '/api/evaluate', { sessionId });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.body).toMatchObject({ errors: [{ code: 'COLLECTION_INCOMPLETE' }] });
+    });
+
+    it('should evaluate the session and return the rendered comparison', async () => {
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['Node.js', 'Django', 'Spring Boot'] });
+
+      const response = await server.handleRequest('POST', '/api/evaluate', { sessionId });
+      const body = response.body as any;
+
+      expect(response.statusCode).toBe(200);
+      expect(body.evaluationResult.rankings).toHaveLength(3);
+      expect(body.comparison.comparisonTable.rows).toHaveLength(3);
+      expect(body.comparison.finalRecommendation.recommendedOption.name)
+        .toBe(body.evaluationResult.rankings[0].option.name);
+
+      const results = await server.handleRequest('GET', `/api/results/${sessionId}`);
+      expect(results.statusCode).toBe(200);
+      expect((results.body as any).evaluationCount).toBe(1);
+    });
+
+    it('should return the option validation warnings with the evaluation', async () => {
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', {
+        sessionId,
+        options: ['PostgreSQL', { name: 'CockroachDB', category: 'database', metadata: { performanceRating: 7 } }],
+      });
+
+      const response = await server.handleRequest('POST', '/api/evaluate', { sessionId });
+      const body = response.body as any;
+
+      expect(response.statusCode).toBe(200);
+      expect(body.warnings.length).toBeGreaterThan(0);
+      expect(body.warnings).toEqual(body.evaluationResult.warnings);
+      expect(body.warnings.every((w: string) => w.startsWith('Option CockroachDB metadata issue'))).toBe(true);
+    });
+
+    it('should export the latest results as Markdown and HTML reports', async () => {
+      const before = await server.handleRequest('GET', `/api/export/markdown?sessionId=${sessionId}`);
+      expect(before.statusCode).toBe(400);
+      expect(before.body).toMatchObject({ errors: [{ code: 'EVALUATION_NOT_FOUND' }] });
+
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+      await server.handleRequest('POST', '/api/evaluate', { sessionId });
+
+      const markdown = await server.handleRequest('GET', `/api/export/markdown?sessionId=${sessionId}`);
+      expect(markdown.statusCode).toBe(200);
+      expect(markdown.contentType).toBe('text/markdown; charset=utf-8');
+      expect(markdown.headers?.['Content-Disposition']).toBe('inline; filename="comparison-report.md"');
+      expect(String(markdown.body)).toContain('## Recommendation');
+
+      const html = await server.handleRequest('GET', `/api/export/html?sessionId=${sessionId}`);
+      expect(html.contentType).toBe('text/html; charset=utf-8');
+      expect(String(html.body)).toContain('<!DOCTYPE html>');
+
+      expect((await server.handleRequest('GET', `/api/export/pdf?sessionId=${sessionId}`)).statusCode).toBe(404);
+    });
+
+    it('should re-evaluate when priorities are updated after selecting options', async () => {
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+
+      const response = await server.handleRequest('POST', '/api/update/priorities', {
+        sessionId,
+        priorities: { cost: 1, performance: 1, easeOfUse: 1, scalability: 5, vendorLockIn: 1 },
+      });
+      const body = response.body as any;
+
+      expect(response.statusCode).toBe(200);
+      expect(body.evaluationResult).not.toBeNull();
+      expect(body.comparison.comparisonTable.rows).toHaveLength(2);
+    });
+
+    it('should map errors thrown by an update to a status by their class', async () => {
+      const update = jest.spyOn(ConstraintUpdateManagerImpl.prototype, 'updateConstraints');
+      try {
+        update.mockRejectedValueOnce(new InvalidConstraintsError([
+          { field: 'budget', message: 'Budget is not valid', code: 'INVALID_BUDGET' }
+        ]));
+        const invalid = await server.handleRequest('POST', '/api/update/constraints', { sessionId, updates: { budget: 'low' } });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body).toMatchObject({ success: false, errors: [{ code: 'INVALID_BUDGET' }] });
+
+        update.mockRejectedValueOnce(new SessionNotFoundError(sessionId));
+        const missing = await server.handleRequest('POST', '/api/update/constraints', { sessionId, updates: { budget: 'low' } });
+        expect(missing.statusCode).toBe(404);
+        expect(missing.body).toMatchObject({ success: false, code: 'SESSION_NOT_FOUND' });
+      } finally {
+        update.mockRestore();
+      }
+    });
+
+    it('should undo, redo and restore priority changes', async () => {
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+      const nothing = await server.handleRequest('POST', '/api/update/undo', { sessionId });
+      expect(nothing.statusCode).toBe(400);
+      expect(nothing.body).toMatchObject({ errors: [{ code: 'NOTHING_TO_UNDO' }] });
+
+      const priorities = { cost: 1, performance: 1, easeOfUse: 1, scalability: 5, vendorLockIn: 1 };
+      const updated = await server.handleRequest('POST', '/api/update/priorities', { sessionId, priorities });
+      expect(updated.body).toMatchObject({ canUndo: true, canRedo: false });
+
+      const undone = await server.handleRequest('POST', '/api/update/undo', { sessionId });
+      expect(undone.statusCode).toBe(200);
+      expect((undone.body as any).updatedConstraints.priorities.scalability).not.toBe(5);
+      expect((undone.body as any).comparison.comparisonTable.rows).toHaveLength(2);
+      expect(undone.body).toMatchObject({ canUndo: false, canRedo: true });
+
+      const redone = await server.handleRequest('POST', '/api/update/redo', { sessionId });
+      expect((redone.body as any).updatedConstraints.priorities).toEqual(priorities);
+
+      const restored = await server.handleRequest('POST', '/api/update/restore', { sessionId, timestamp: '2000-01-01T00:00:00Z' });
+      expect(restored.statusCode).toBe(200);
+      expect((restored.body as any).updatedConstraints.priorities.scalability).not.toBe(5);
+
+      const missing = await server.handleRequest('POST', '/api/update/restore', { sessionId });
+      expect(missing.body).toMatchObject({ errors: [{ code: 'RESTORE_POINT_REQUIRED' }] });
+
+      const history = await server.handleRequest('GET', `/api/history?sessionId=${sessionId}`);
+      expect((history.body as any).history.map((entry: { operation: string }) => entry.operation))
+        .toEqual(['update', 'undo', 'redo', 'restore']);
+      expect(history.body).toMatchObject({ canUndo: true, canRedo: false });
+    });
+
+    it('should fork, compare and delete what-if scenarios', async () => {
+      const early = await server.handleRequest('POST', '/api/scenarios', { sessionId, name: 'Too early' });
+      expect(early.statusCode).toBe(400);
+
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+
+      const startup = await server.handleRequest('POST', '/api/scenarios', {
+        sessionId,
+        name: 'Startup',
+        updates: { budget: 'low' },
+      });
+      const startupId = (startup.body as any).scenario.id;
+      expect(startup.statusCode).toBe(200);
+      expect((startup.body as any).comparison.comparisonTable.rows).toHaveLength(2);
+
+      const enterprise = await server.handleRequest('POST', '/api/scenarios', {
+        sessionId,
+        name: 'Enterprise',
+        updates: { budget: 'high' },
+      });
+      const enterpriseId = (enterprise.body as any).scenario.id;
+      await server.handleRequest('POST', `/api/scenarios/${enterpriseId}`, {
+        sessionId,
+        updates: { scale: { users: 1000000 } },
+      });
+
+      const compare = await server.handleRequest('GET', `/api/scenarios/compare?sessionId=${sessionId}`);
+      const comparison = (compare.body as any).comparison;
+      expect(compare.statusCode).toBe(200);
+      expect(comparison.scenarios.map((scenario: any) => scenario.name)).toEqual(['Startup', 'Enterprise']);
+      expect(comparison.constraintDifferences.map((difference: any) => difference.field)).toEqual(['budget', 'scale.users']);
+
+      const deleted = await server.handleRequest('DELETE', `/api/scenarios/${startupId}?sessionId=${sessionId}`);
+      expect(deleted.statusCode).toBe(200);
+      expect((await server.handleRequest('DELETE', `/api/scenarios/${startupId}?sessionId=${sessionId}`)).statusCode).toBe(404);
+
+      const list = await server.handleRequest('GET', `/api/scenarios?sessionId=${sessionId}`);
+      expect((list.body as any).scenarios.map((scenario: any) => scenario.name)).toEqual(['Enterprise']);
+      expect((await server.handleRequest('GET', `/api/scenarios/compare?sessionId=${sessionId}`)).statusCode).toBe(400);
+    });
+
+    it('should run evaluations, updates and scenarios through the injected engine', async () => {
+      const knowledgeBase = new KnowledgeBase();
+      const engine = new ComparisonEngine(knowledgeBase);
+      engine.setAggregationStrategy(createAggregationStrategy('topsis'));
+      server = new SimpleHTTPServer(0, 'localhost', new TechnicalRefereeWebServer(knowledgeBase, undefined, engine));
+      sessionId = ((await server.handleRequest('POST', '/api/session')).body as { sessionId: string }).sessionId;
+      await collectAll();
+      await server.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+
+      const evaluated = await server.handleRequest('POST', '/api/evaluate', { sessionId });
+      const updated = await server.handleRequest('POST', '/api/update/constraints', { sessionId, updates: { budget: 'low' } });
+      const forked = await server.handleRequest('POST', '/api/scenarios', { sessionId, name: 'Startup' });
+
+      expect((evaluated.body as any).evaluationResult.aggregationMethod).toBe('topsis');
+      expect((updated.body as any).evaluationResult.aggregationMethod).toBe('topsis');
+      expect((forked.body as any).scenario.evaluationHistory[0].aggregationMethod).toBe('topsis');
+    });
+  });
+
+  describe('session persistence', () => {
+    let directory: string;
+    let sessionManagers: SessionManager[];
+
+    const startServer = () => {
+      const sessionManager = new SessionManager(new SqliteSessionStore(path.join(directory, 'sessions.db')));
+      sessionManagers.push(sessionManager);
+      return new SimpleHTTPServer(0, 'localhost', new TechnicalRefereeWebServer(undefined, sessionManager));
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'web-sessions-'));
+      sessionManagers = [];
+    });
+
+    afterEach(() => {
+      sessionManagers.forEach(sessionManager => sessionManager.close());
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should resume collection, selection and history after a restart', async () => {
+      const first = startServer();
+      const { body } = await first.handleRequest('POST', '/api/session');
+      const { sessionId } = body as { sessionId: string };
+      await first.handleRequest('POST', '/api/collect/budget', { sessionId, data: { budget: 'medium' } });
+      await first.handleRequest('POST', '/api/collect/scale', { sessionId, data: { users: 5000, traffic: 'medium' } });
+
+      const second = startServer();
+      await second.handleRequest('POST', '/api/collect/team', { sessionId, data: { skillLevel: 'mixed', experience: [] } });
+      await second.handleRequest('POST', '/api/collect/timeline', { sessionId, data: { timeline: 'short' } });
+      const priorities = await second.handleRequest('POST', '/api/collect/priorities', {
+        sessionId,
+        data: { cost: 4, performance: 3, easeOfUse: 5, scalability: 3, vendorLockIn: 2 },
+      });
+      expect(priorities.body).toMatchObject({ success: true, currentStep: 'complete', constraints: { budget: 'medium' } });
+      await second.handleRequest('POST', '/api/options', { sessionId, options: ['PostgreSQL', 'MongoDB'] });
+      await second.handleRequest('POST', '/api/update/constraints', { sessionId, updates: { budget: 'low' } });
+
+      const third = startServer();
+      const results = await third.handleRequest('GET', `/api/results/${sessionId}`);
+      const history = await third.handleRequest('GET', `/api/history/${sessionId}`);
+
+      expect(results.statusCode).toBe(200);
+      expect((results.body as any).constraints.budget).toBe('low');
+      expect((results.body as any).selectedOptions.map((o: { name: string }) => o.name)).toEqual(['PostgreSQL', 'MongoDB']);
+      expect((history.body as any).history.map((h: { modifiedFields: string[] }) => h.modifiedFields)).toEqual([['budget']]);
+    });
+
+    it('should remove expired sessions during cleanup', () => {
+      const sessionManager = new SessionManager(undefined, 1);
+      const server = new TechnicalRefereeWebServer(undefined, sessionManager);
+      const sessionId = server.createSession();
+      const session = sessionManager.getSession(sessionId)!;
+      session.updatedAt = new Date(Date.now() - 2 * 60 * 1000);
+
+      expect(server.cleanupSessions()).toBe(1);
+      expect(server.getSession(sessionId)).toBeNull();
+    });
+  });
+
+  describe('listener', () => {
+    let server: SimpleHTTPServer;
+
+    beforeEach(async () => {
+      server = new SimpleHTTPServer(0);
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should answer JSON API requests over HTTP', async () => {
+      const baseUrl = `http://localhost:${server.getPort()}`;
+
+      const sessionResponse = await fetch(`${baseUrl}/api/session`, { method: 'POST' });
+      expect(sessionResponse.status).toBe(201);
+      const { sessionId } = await sessionResponse.json() as { sessionId: string };
+
+      const budgetResponse = await fetch(`${baseUrl}/api/collect/budget`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, data: { budget: 'medium' } }),
+      });
+
+      expect(budgetResponse.status).toBe(200);
+      expect(budgetResponse.headers.get('content-type')).toContain('application/json');
+      expect(await budgetResponse.json()).toMatchObject({ success: true, currentStep: 'scale' });
+    });
+
+    it('should reject malformed JSON bodies with 400', async () => {
+      const response = await fetch(`http://localhost:${server.getPort()}/api/collect/budget`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{not json',
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'INVALID_JSON' });
+    });
+
+    it('should stop listening after stop()', async () => {
+      expect(server.isListening()).toBe(true);
+      await server.stop();
+      expect(server.isListening()).toBe(false);
+    });
+  });
+});
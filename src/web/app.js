@@ -0,0 +1,630 @@
+/**
+ * Technical Referee Tool - browser client
+ * Drives the constraint collection wizard, option selection and comparison results
+ */
+
+(function () {
+    'use strict';
+
+    var STEPS = ['budget', 'scale', 'team', 'timeline', 'priorities'];
+    var PRIORITY_KEYS = ['cost', 'performance', 'easeOfUse', 'scalability', 'vendorLockIn'];
+    var PRIORITY_LABELS = {
+        cost: 'Cost Optimization',
+        performance: 'Performance',
+        easeOfUse: 'Ease of Use',
+        scalability: 'Scalability',
+        vendorLockIn: 'Avoid Vendor Lock-in'
+    };
+    var LEVEL_LABELS = ['Very Low', 'Low', 'Medium', 'High', 'Very High'];
+    var CATEGORY_LABELS = {
+        cloud: 'Cloud Providers',
+        backend: 'Backend Frameworks',
+        database: 'Databases',
+        frontend: 'Frontend Frameworks',
+        messaging: 'Messaging Platforms',
+        orchestration: 'Orchestration Platforms',
+        observability: 'Observability Stacks',
+        identity: 'Identity Providers',
+        cache: 'Caches'
+    };
+
+    var state = {
+        sessionId: null,
+        currentStep: 'budget',
+        constraints: null,
+        catalog: [],
+        priorityUpdateTimer: null
+    };
+
+    // ---------------------------------------------------------------------
+    // API helpers
+    // ---------------------------------------------------------------------
+
+    function api(method, url, body) {
+        var init = { method: method, headers: {} };
+        if (body !== undefined) {
+            init.headers['Content-Type'] = 'application/json';
+            init.body = JSON.stringify(body);
+        }
+        return fetch(url, init).then(function (response) {
+            return response.json().catch(function () { return {}; }).then(function (data) {
+                if (!response.ok) {
+                    var error = new Error(data.error || 'Request failed with status ' + response.status);
+                    error.details = data;
+                    throw error;
+                }
+                return data;
+            });
+        });
+    }
+
+    function ensureSession() {
+        if (state.sessionId) {
+            return Promise.resolve(state.sessionId);
+        }
+        return api('POST', '/api/session').then(function (data) {
+            state.sessionId = data.sessionId;
+            return state.sessionId;
+        });
+    }
+
+    // ---------------------------------------------------------------------
+    // Rendering helpers
+    // ---------------------------------------------------------------------
+
+    function escapeHtml(value) {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    /**
+     * Render the lightweight markdown used by the output generator (bold and line breaks)
+     */
+    function renderMarkdown(text) {
+        return escapeHtml(text)
+            .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+            .replace(/\n/g, '<br>');
+    }
+
+    function showPanel(id) {
+        var panels = document.querySelectorAll('.constraint-form, .results-container');
+        Array.prototype.forEach.call(panels, function (panel) {
+            panel.classList.toggle('active', panel.id === id);
+        });
+        clearMessages();
+    }
+
+    function updateProgress(step) {
+        var index = STEPS.indexOf(step);
+        var completed = index === -1 ? STEPS.length : index;
+        document.getElementById('progressFill').style.width = ((completed + 1) / (STEPS.length + 1) * 100) + '%';
+
+        var indicators = document.querySelectorAll('#stepIndicator .step');
+        Array.prototype.forEach.call(indicators, function (indicator) {
+            var stepIndex = STEPS.indexOf(indicator.getAttribute('data-step'));
+            indicator.classList.toggle('active', stepIndex === index);
+            indicator.classList.toggle('completed', stepIndex < completed && stepIndex !== index);
+        });
+    }
+
+    function showStep(step) {
+        state.currentStep = step;
+        showPanel(step + 'Form');
+        updateProgress(step);
+    }
+
+    function clearMessages() {
+        var container = document.getElementById('errorContainer');
+        container.innerHTML = '';
+        container.classList.remove('active');
+    }
+
+    function showMessages(errors, warnings) {
+        var container = document.getElementById('errorContainer');
+        var html = '';
+        (errors || []).forEach(function (error) {
+            html += '<div class="error-message">' + escapeHtml(error.message || error) + '</div>';
+        });
+        (warnings || []).forEach(function (warning) {
+            html += '<div class="warning-message">' + escapeHtml(warning) + '</div>';
+        });
+        container.innerHTML = html;
+        container.classList.toggle('active', html.length > 0);
+    }
+
+    function showRequestError(error) {
+        var details = error.details || {};
+        showMessages(details.errors && details.errors.length ? details.errors : [error.message], details.warnings);
+    }
+
+    // ---------------------------------------------------------------------
+    // Constraint collection wizard
+    // ---------------------------------------------------------------------
+
+    function readForm(step, form) {
+        switch (step) {
+            case 'budget':
+                return { budget: form.budget.value };
+            case 'scale':
+                return { users: Number(form.users.value), traffic: form.traffic.value };
+            case 'team':
+                return {
+                    skillLevel: form.skillLevel.value,
+                    experience: form.experience.value.split(',')
+                        .map(function (item) { return item.trim(); })
+                        .filter(function (item) { return item.length > 0; })
+                };
+            case 'timeline':
+                return { timeline: form.timeline.value };
+            case 'priorities':
+                return readPriorities(function (key) { return form[key].value; });
+            default:
+                return {};
+        }
+    }
+
+    function readPriorities(getValue) {
+        var priorities = {};
+        PRIORITY_KEYS.forEach(function (key) {
+            priorities[key] = Number(getValue(key));
+        });
+        return priorities;
+    }
+
+    function submitStep(step, form) {
+        ensureSession().then(function (sessionId) {
+            return api('POST', '/api/collect/' + step, { sessionId: sessionId, data: readForm(step, form) });
+        }).then(function (result) {
+            var nextIndex = STEPS.indexOf(step) + 1;
+            if (result.constraints) {
+                state.constraints = result.constraints;
+                showSummary();
+            } else if (nextIndex < STEPS.length) {
+                showStep(STEPS[nextIndex]);
+            }
+            if (result.warnings && result.warnings.length) {
+                showMessages([], result.warnings);
+            }
+        }).catch(showRequestError);
+    }
+
+    function showSummary() {
+        var constraints = state.constraints;
+        var html = '';
+
+        html += summarySection('Budget', capitalize(constraints.budget));
+        html += summarySection('Scale', constraints.scale.users.toLocaleString() + ' users, ' +
+            constraints.scale.traffic + ' traffic');
+        html += summarySection('Team', capitalize(constraints.team.skillLevel) + ' team' +
+            (constraints.team.experience.length ? ' experienced with ' + constraints.team.experience.join(', ') : ''));
+        html += summarySection('Timeline', capitalize(constraints.timeline));
+        html += summarySection('Priorities', PRIORITY_KEYS.map(function (key) {
+            return PRIORITY_LABELS[key] + ': ' + LEVEL_LABELS[constraints.priorities[key] - 1];
+        }).join(', '));
+
+        document.getElementById('constraintsSummary').innerHTML = html;
+        showPanel('resultsDisplay');
+        updateProgress('complete');
+    }
+
+    function summarySection(title, text) {
+        return '<div class="summary-section"><h4>' + escapeHtml(title) + '</h4><p>' + escapeHtml(text) + '</p></div>';
+    }
+
+    function capitalize(value) {
+        return String(value).charAt(0).toUpperCase() + String(value).slice(1);
+    }
+
+    function updateSliderLabel(input) {
+        var label = document.getElementById(input.id + 'Value');
+        if (label) {
+            label.textContent = LEVEL_LABELS[Number(input.value) - 1];
+        }
+    }
+
+    function analyzePriorityBalance() {
+        var form = document.getElementById('prioritiesForm');
+        var values = PRIORITY_KEYS.map(function (key) { return Number(form[key].value); });
+        var average = values.reduce(function (sum, value) { return sum + value; }, 0) / values.length;
+        var variance = values.reduce(function (sum, value) { return sum + Math.pow(value - average, 2); }, 0) / values.length;
+        var suggestions = [];
+
+        if (variance < 0.1) {
+            suggestions.push('Consider differentiating your priorities - having some priorities higher than others will lead to more targeted recommendations');
+        }
+        if (values.every(function (value) { return value >= 4; })) {
+            suggestions.push('All priorities are high - consider which 1-2 factors are most critical for your project');
+        }
+        if (values.every(function (value) { return value <= 2; })) {
+            suggestions.push('All priorities are low - consider which factors are most important for your success');
+        }
+
+        var analysis = document.getElementById('priorityAnalysis');
+        analysis.innerHTML = suggestions.length
+            ? '<h4>Suggestions</h4><ul>' + suggestions.map(function (s) { return '<li>' + escapeHtml(s) + '</li>'; }).join('') + '</ul>'
+            : '';
+        analysis.style.display = suggestions.length ? 'block' : 'none';
+    }
+
+    // ---------------------------------------------------------------------
+    // Option selection
+    // ---------------------------------------------------------------------
+
+    function loadCatalog() {
+        if (state.catalog.length) {
+            return Promise.resolve(state.catalog);
+        }
+        return api('GET', '/api/options').then(function (data) {
+            state.catalog = data.options || [];
+            var categories = [];
+            state.catalog.forEach(function (option) {
+                if (categories.indexOf(option.category) === -1) {
+                    categories.push(option.category);
+                }
+            });
+            document.getElementById('optionCategory').innerHTML = categories.map(function (category) {
+                return '<option value="' + escapeHtml(category) + '">' +
+                    escapeHtml(CATEGORY_LABELS[category] || capitalize(category)) + '</option>';
+            }).join('');
+            renderKnownOptions();
+            return state.catalog;
+        });
+    }
+
+    function renderKnownOptions() {
+        var category = document.getElementById('optionCategory').value;
+        var options = state.catalog.filter(function (option) { return option.category === category; });
+
+        document.getElementById('knownOptions').innerHTML = options.map(function (option) {
+            return '<label class="option-choice"><input type="checkbox" name="knownOption" value="' +
+                escapeHtml(option.name) + '"> ' + escapeHtml(option.name) + '</label>';
+        }).join('');
+    }
+
+    function submitOptions(form) {
+        var category = form.category.value;
+        var selections = Array.prototype.filter.call(form.querySelectorAll('input[name="knownOption"]'), function (input) {
+            return input.checked;
+        }).map(function (input) {
+            return { name: input.value, category: category };
+        });
+
+        var customName = form.customOptionName.value.trim();
+        if (customName) {
+            var metadata = {};
+            var rawMetadata = form.customOptionMetadata.value.trim();
+            if (rawMetadata) {
+                try {
+                    metadata = JSON.parse(rawMetadata);
+                } catch (error) {
+                    showMessages(['Custom option metadata must be valid JSON']);
+                    return;
+                }
+            }
+            selections.push({ name: customName, category: category, metadata: metadata });
+        }
+
+        if (selections.length < 2 || selections.length > 3) {
+            showMessages(['Select between 2 and 3 options to compare']);
+            return;
+        }
+
+        api('POST', '/api/options', { sessionId: state.sessionId, options: selections }).then(function () {
+            return api('POST', '/api/evaluate', { sessionId: state.sessionId });
+        }).then(function (result) {
+            state.constraints = result.constraints;
+            renderLivePriorities();
+            renderComparison(result.comparison);
+            document.getElementById('changesSummary').textContent = '';
+            showPanel('comparisonResults');
+            return loadHistory();
+        }).catch(showRequestError);
+    }
+
+    // ---------------------------------------------------------------------
+    // Comparison results
+    // ---------------------------------------------------------------------
+
+    function renderComparison(comparison) {
+        renderRecommendation(comparison.finalRecommendation);
+        renderComparisonTable(comparison.comparisonTable);
+        renderEliminatedOptions(comparison.eliminated || []);
+        renderProsAndCons(comparison.prosAndCons);
+        document.getElementById('tradeOffExplanation').innerHTML = renderMarkdown(comparison.tradeOffExplanation);
+        document.getElementById('scoreExplanationSection').hidden = !comparison.scoreExplanation;
+        document.getElementById('scoreExplanation').innerHTML = renderMarkdown(comparison.scoreExplanation || '');
+        renderAlternativeScenarios(comparison.alternativeScenarios);
+        renderExportLinks();
+    }
+
+    function renderExportLinks() {
+        var query = '?sessionId=' + encodeURIComponent(state.sessionId);
+        document.getElementById('exportMarkdown').href = '/api/export/markdown' + query;
+        document.getElementById('exportHtml').href = '/api/export/html' + query;
+    }
+
+    function renderRecommendation(recommendation) {
+        var confidence = Math.round(recommendation.confidence * 100);
+        var html = '';
+
+        html += '<h3>Recommendation: ' + escapeHtml(recommendation.recommendedOption.name) + '</h3>';
+        html += '<div class="confidence"><span>Confidence: ' + confidence + '%</span>' +
+            '<div class="confidence-bar"><div class="confidence-fill" style="width: ' + confidence + '%"></div></div></div>';
+        html += '<p>' + escapeHtml(recommendation.reasoning) + '</p>';
+
+        if (recommendation.keyFactors.length) {
+            html += '<h4>Key factors</h4><ul>' + recommendation.keyFactors.map(function (factor) {
+                return '<li>' + escapeHtml(factor) + '</li>';
+            }).join('') + '</ul>';
+        }
+        if (recommendation.warnings.length) {
+            html += recommendation.warnings.map(function (warning) {
+                return '<div class="warning-message">' + escapeHtml(warning) + '</div>';
+            }).join('');
+        }
+
+        document.getElementById('recommendationCard').innerHTML = html;
+    }
+
+    function renderComparisonTable(table) {
+        var html = '<thead><tr>' + table.headers.map(function (header) {
+            return '<th>' + escapeHtml(header) + '</th>';
+        }).join('') + '</tr></thead><tbody>';
+
+        table.rows.forEach(function (row) {
+            html += '<tr>' + table.headers.map(function (header) {
+                var value = row.values[header];
+                return '<td>' + escapeHtml(value === undefined ? 'N/A' : value) + '</td>';
+            }).join('') + '</tr>';
+        });
+
+        document.getElementById('comparisonTable').innerHTML = html + '</tbody>';
+    }
+
+    function renderEliminatedOptions(eliminated) {
+        document.getElementById('eliminatedSection').hidden = eliminated.length === 0;
+        document.getElementById('eliminatedOptions').innerHTML = eliminated.map(function (entry) {
+            return '<li><strong>' + escapeHtml(entry.option.name) + '</strong>: ' +
+                escapeHtml(entry.reasons.map(function (reason) { return reason.message; }).join('; ')) + '</li>';
+        }).join('');
+    }
+
+    function renderProsAndCons(prosAndCons) {
+        document.getElementById('prosConsGrid').innerHTML = prosAndCons.map(function (entry) {
+            return '<div class="pros-cons-card"><h4>' + escapeHtml(entry.option.name) + '</h4>' +
+                '<ul class="pros">' + entry.pros.map(function (pro) { return '<li>' + escapeHtml(pro) + '</li>'; }).join('') + '</ul>' +
+                '<ul class="cons">' + entry.cons.map(function (con) { return '<li>' + escapeHtml(con) + '</li>'; }).join('') + '</ul>' +
+                '</div>';
+        }).join('');
+    }
+
+    function renderAlternativeScenarios(scenarios) {
+        var list = document.getElementById('alternativeScenarios');
+        if (!scenarios.length) {
+            list.innerHTML = '<li>The recommendation holds across the scenarios we checked.</li>';
+            return;
+        }
+        list.innerHTML = scenarios.map(function (scenario) {
+            return '<li><strong>' + escapeHtml(scenario.scenario) + ':</strong> choose ' +
+                escapeHtml(scenario.recommendedOption.name) + '. ' + escapeHtml(scenario.reasoning) + '</li>';
+        }).join('');
+    }
+
+    function renderLivePriorities() {
+        var priorities = state.constraints.priorities;
+        document.getElementById('livePriorities').innerHTML = PRIORITY_KEYS.map(function (key) {
+            return '<div class="live-priority"><label for="live-' + key + '">' + escapeHtml(PRIORITY_LABELS[key]) + '</label>' +
+                '<input type="range" id="live-' + key + '" data-priority="' + key + '" min="1" max="5" value="' + priorities[key] + '">' +
+                '<span class="slider-value" id="live-' + key + 'Value">' + LEVEL_LABELS[priorities[key] - 1] + '</span></div>';
+        }).join('');
+    }
+
+    function schedulePriorityUpdate() {
+        clearTimeout(state.priorityUpdateTimer);
+        state.priorityUpdateTimer = setTimeout(submitPriorityUpdate, 250);
+    }
+
+    function submitPriorityUpdate() {
+        var priorities = readPriorities(function (key) {
+            return document.getElementById('live-' + key).value;
+        });
+
+        api('POST', '/api/update/priorities', { sessionId: state.sessionId, priorities: priorities }).then(function (result) {
+            showUpdateResult(result, false);
+        }).catch(showRequestError);
+    }
+
+    // ---------------------------------------------------------------------
+    // Undo, redo and restore
+    // ---------------------------------------------------------------------
+
+    /**
+     * Show a re-evaluated comparison after a constraint change
+     * Sliders are redrawn when the change did not come from them
+     */
+    function showUpdateResult(result, redrawSliders) {
+        state.constraints = result.updatedConstraints;
+        if (redrawSliders) {
+            renderLivePriorities();
+        }
+        if (result.comparison) {
+            renderComparison(result.comparison);
+        }
+        document.getElementById('changesSummary').textContent = (result.changesSummary || []).join('; ');
+        showMessages([], result.warnings);
+        return loadHistory();
+    }
+
+    function submitHistoryOperation(operation, body) {
+        body.sessionId = state.sessionId;
+        api('POST', '/api/update/' + operation, body).then(function (result) {
+            return showUpdateResult(result, true);
+        }).catch(showRequestError);
+    }
+
+    function loadHistory() {
+        return api('GET', '/api/history?sessionId=' + encodeURIComponent(state.sessionId)).then(function (result) {
+            document.getElementById('undoButton').disabled = !result.canUndo;
+            document.getElementById('redoButton').disabled = !result.canRedo;
+            document.getElementById('changeHistory').innerHTML = result.history.map(function (entry, index) {
+                var description = entry.reason || 'Changed ' + entry.modifiedFields.join(', ');
+                return '<li>' + escapeHtml(description) + ' <span class="history-time">' +
+                    escapeHtml(new Date(entry.timestamp).toLocaleTimeString()) + '</span>' +
+                    '<button type="button" data-restore-index="' + index + '">Restore</button></li>';
+            }).join('');
+        });
+    }
+
+    // ---------------------------------------------------------------------
+    // What-if scenarios
+    // ---------------------------------------------------------------------
+
+    function submitScenario(form) {
+        var updates = {
+            priorities: readPriorities(function (key) {
+                return document.getElementById('live-' + key).value;
+            })
+        };
+        if (form.scenarioBudget.value) {
+            updates.budget = form.scenarioBudget.value;
+        }
+
+        api('POST', '/api/scenarios', {
+            sessionId: state.sessionId,
+            name: form.scenarioName.value,
+            updates: updates
+        }).then(function (result) {
+            form.scenarioName.value = '';
+            showMessages([], result.warnings);
+            return loadScenarioComparison();
+        }).catch(showRequestError);
+    }
+
+    function loadScenarioComparison() {
+        var query = '?sessionId=' + encodeURIComponent(state.sessionId);
+        return api('GET', '/api/scenarios' + query).then(function (result) {
+            var container = document.getElementById('scenarioComparison');
+            if (result.scenarios.length < 2) {
+                container.innerHTML = result.scenarios.length
+                    ? '<p class="form-description">Saved "' + escapeHtml(result.scenarios[0].name) +
+                        '". Save another scenario to compare them.</p>'
+                    : '';
+                return;
+            }
+            return api('GET', '/api/scenarios/compare' + query).then(function (data) {
+                renderScenarioComparison(data.comparison);
+            });
+        });
+    }
+
+    function renderScenarioComparison(comparison) {
+        var scenarios = comparison.scenarios;
+        var header = '<thead><tr><th></th>' + scenarios.map(function (scenario) {
+            return '<th>' + escapeHtml(scenario.name) + '</th>';
+        }).join('') + '</tr></thead>';
+
+        var rows = '<tr><th>Recommendation</th>' + scenarios.map(function (scenario) {
+            return '<td' + (comparison.recommendationChanges ? ' class="recommendation-changed"' : '') + '>' +
+                (scenario.recommendedOption === null ? 'Not evaluated' :
+                    escapeHtml(scenario.recommendedOption) + ' (' + Math.round(scenario.confidence * 100) + '%)') + '</td>';
+        }).join('') + '</tr>';
+
+        comparison.options.forEach(function (entry) {
+            rows += '<tr><th>' + escapeHtml(entry.option) + '</th>' + scenarios.map(function (scenario) {
+                var rank = entry.ranks[scenario.id];
+                return '<td>' + (rank === null ? 'N/A' : '#' + rank + ' (' + entry.scores[scenario.id] + '/100)') + '</td>';
+            }).join('') + '</tr>';
+        });
+
+        comparison.constraintDifferences.forEach(function (difference) {
+            rows += '<tr><th>' + escapeHtml(difference.field) + '</th>' + scenarios.map(function (scenario) {
+                return '<td>' + escapeHtml(difference.values[scenario.id]) + '</td>';
+            }).join('') + '</tr>';
+        });
+
+        document.getElementById('scenarioComparison').innerHTML =
+            '<div class="table-wrapper"><table class="comparison-table">' + header + '<tbody>' + rows + '</tbody></table></div>' +
+            '<h4>What changes</h4><ul class="scenario-list">' + comparison.summary.map(function (line) {
+                return '<li>' + escapeHtml(line) + '</li>';
+            }).join('') + '</ul>';
+    }
+
+    // ---------------------------------------------------------------------
+    // Navigation (referenced from inline handlers)
+    // ---------------------------------------------------------------------
+
+    window.goBack = function () {
+        var index = STEPS.indexOf(state.currentStep);
+        if (index > 0) {
+            showStep(STEPS[index - 1]);
+        }
+    };
+
+    window.editConstraints = function () {
+        showStep('budget');
+    };
+
+    window.proceedToComparison = function () {
+        loadCatalog().then(function () {
+            showPanel('optionsForm');
+        }).catch(showRequestError);
+    };
+
+    // ---------------------------------------------------------------------
+    // Wiring
+    // ---------------------------------------------------------------------
+
+    document.addEventListener('DOMContentLoaded', function () {
+        STEPS.forEach(function (step) {
+            document.getElementById(step + 'Form').addEventListener('submit', function (event) {
+                event.preventDefault();
+                submitStep(step, event.target);
+            });
+        });
+
+        PRIORITY_KEYS.forEach(function (key) {
+            document.getElementById(key).addEventListener('input', function (event) {
+                updateSliderLabel(event.target);
+                analyzePriorityBalance();
+            });
+        });
+
+        document.getElementById('optionCategory').addEventListener('change', renderKnownOptions);
+        document.getElementById('optionsForm').addEventListener('submit', function (event) {
+            event.preventDefault();
+            submitOptions(event.target);
+        });
+
+        document.getElementById('livePriorities').addEventListener('input', function (event) {
+            if (event.target.getAttribute('data-priority')) {
+                updateSliderLabel(event.target);
+                schedulePriorityUpdate();
+            }
+        });
+
+        document.getElementById('undoButton').addEventListener('click', function () {
+            submitHistoryOperation('undo', {});
+        });
+        document.getElementById('redoButton').addEventListener('click', function () {
+            submitHistoryOperation('redo', {});
+        });
+        document.getElementById('changeHistory').addEventListener('click', function (event) {
+            var index = event.target.getAttribute('data-restore-index');
+            if (index !== null) {
+                submitHistoryOperation('restore', { index: Number(index) });
+            }
+        });
+
+        document.getElementById('scenarioForm').addEventListener('submit', function (event) {
+            event.preventDefault();
+            submitScenario(event.target);
+        });
+
+        analyzePriorityBalance();
+        updateProgress('budget');
+    });
+})();
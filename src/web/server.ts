@@ -3,11 +3,31 @@
  * Integrates with the ConstraintCollectionInterface backend
  */
 
+import * as http from 'http';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ConstraintCollectionInterface } from '../components/ConstraintCollectionInterface';
 import { ConstraintUpdateManagerImpl } from '../components/ConstraintUpdateManager';
-import { UserConstraints, UserConstraintUpdates, UserSession, ConstraintUpdateResult } from '../types';
+import { ComparisonEngine } from '../components/ComparisonEngine';
+import { OutputGenerator } from '../components/OutputGenerator';
+import { KnowledgeBase } from '../components/KnowledgeBase';
+import { SessionManager } from '../components/SessionManager';
+import { ScenarioManager, ScenarioChange } from '../components/ScenarioManager';
+import { ReportExporter, REPORT_CONTENT_TYPES, REPORT_FILE_EXTENSIONS } from '../components/ReportExporter';
+import {
+  UserConstraints,
+  UserConstraintUpdates,
+  ConstraintUpdateResult,
+  UserSession,
+  OptionSelection,
+  EvaluationResult,
+  ValidationResult,
+  ReportFormat,
+  TechnicalRefereeError,
+  RefereeValidationError,
+  SessionNotFoundError,
+  ScenarioNotFoundError,
+} from '../types';
 
 /**
  * Web server for the Technical Referee Tool
@@ -16,118 +36,85 @@ import { UserConstraints, UserConstraintUpdates, UserSession, ConstraintUpdateRe
 export class TechnicalRefereeWebServer {
   private constraintInterface: ConstraintCollectionInterface;
   private constraintUpdateManager: ConstraintUpdateManagerImpl;
-  private sessions: Map<string, ConstraintCollectionInterface> = new Map();
-  private userSessions: Map<string, UserSession> = new Map();
+  private knowledgeBase: KnowledgeBase;
+  private comparisonEngine: ComparisonEngine;
+  private outputGenerator: OutputGenerator;
+  private reportExporter: ReportExporter;
+  private sessionManager: SessionManager;
+  private scenarioManager: ScenarioManager;
 
-  constructor() {
+  /**
+   * @param knowledgeBase - Knowledge base used for scoring
+   * @param sessionManager - Where sessions are kept (defaults to in-memory)
+   * @param comparisonEngine - Configured engine shared by every evaluation (defaults to one with default settings)
+   */
+  constructor(knowledgeBase?: KnowledgeBase, sessionManager?: SessionManager, comparisonEngine?: ComparisonEngine) {
+    this.knowledgeBase = knowledgeBase || new KnowledgeBase();
+    this.sessionManager = sessionManager || new SessionManager();
+    this.comparisonEngine = comparisonEngine || new ComparisonEngine(this.knowledgeBase);
     this.constraintInterface = new ConstraintCollectionInterface();
-    this.constraintUpdateManager = new ConstraintUpdateManagerImpl();
+    this.constraintUpdateManager = new ConstraintUpdateManagerImpl(this.knowledgeBase, this.sessionManager, this.comparisonEngine);
+    this.scenarioManager = new ScenarioManager(this.knowledgeBase, this.sessionManager, this.comparisonEngine);
+    this.outputGenerator = new OutputGenerator();
+    this.reportExporter = new ReportExporter();
+  }
+
+  /**
+   * Get the session manager shared with the constraint update manager
+   */
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
   }
 
   /**
    * Create a new session for constraint collection
    */
   createSession(): string {
-    const sessionId = this.generateSessionId();
     const sessionInterface = new ConstraintCollectionInterface();
     sessionInterface.startCollection();
-    this.sessions.set(sessionId, sessionInterface);
-    
-    // Create corresponding user session for constraint updates
-    const userSession: UserSession = {
-      id: sessionId,
-      constraints: {} as UserConstraints, // Will be populated when collection completes
-      selectedOptions: [],
-      evaluationHistory: [],
-      createdAt: new Date()
-    };
-    this.userSessions.set(sessionId, userSession);
-    this.constraintUpdateManager.setSession(sessionId, userSession);
-    
-    return sessionId;
+
+    // Constraints are populated when collection completes
+    const userSession = this.sessionManager.createSession({} as UserConstraints);
+    userSession.collection = sessionInterface.getState();
+    this.sessionManager.saveSession(userSession);
+
+    return userSession.id;
   }
 
   /**
    * Get session interface
+   * Rebuilt from the stored collection progress on every call
    */
   getSession(sessionId: string): ConstraintCollectionInterface | null {
-    return this.sessions.get(sessionId) || null;
+    return this.loadCollection(sessionId)?.collection || null;
   }
 
   /**
    * Handle budget collection API endpoint
    */
   handleBudgetCollection(sessionId: string, budgetData: { budget: 'low' | 'medium' | 'high' }) {
-    const session = this.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
-
-    const result = session.collectBudget(budgetData);
-    return {
-      success: result.isValid,
-      errors: result.errors,
-      warnings: result.warnings,
-      currentStep: session.getCurrentStep(),
-      progress: session.getProgress()
-    };
+    return this.handleCollectionStep(sessionId, session => session.collectBudget(budgetData));
   }
 
   /**
    * Handle scale collection API endpoint
    */
   handleScaleCollection(sessionId: string, scaleData: { users: number; traffic: 'low' | 'medium' | 'high' }) {
-    const session = this.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
-
-    const result = session.collectScale(scaleData);
-    return {
-      success: result.isValid,
-      errors: result.errors,
-      warnings: result.warnings,
-      currentStep: session.getCurrentStep(),
-      progress: session.getProgress()
-    };
+    return this.handleCollectionStep(sessionId, session => session.collectScale(scaleData));
   }
 
   /**
    * Handle team collection API endpoint
    */
   handleTeamCollection(sessionId: string, teamData: { skillLevel: 'junior' | 'mixed' | 'senior'; experience: string[] }) {
-    const session = this.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
-
-    const result = session.collectTeam(teamData);
-    return {
-      success: result.isValid,
-      errors: result.errors,
-      warnings: result.warnings,
-      currentStep: session.getCurrentStep(),
-      progress: session.getProgress()
-    };
+    return this.handleCollectionStep(sessionId, session => session.collectTeam(teamData));
   }
 
   /**
    * Handle timeline collection API endpoint
    */
   handleTimelineCollection(sessionId: string, timelineData: { timeline: 'immediate' | 'short' | 'medium' | 'long' }) {
-    const session = this.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
-    }
-
-    const result = session.collectTimeline(timelineData);
-    return {
-      success: result.isValid,
-      errors: result.errors,
-      warnings: result.warnings,
-      currentStep: session.getCurrentStep(),
-      progress: session.getProgress()
-    };
+    return this.handleCollectionStep(sessionId, session => session.collectTimeline(timelineData));
   }
 
   /**
@@ -140,99 +127,457 @@ export class TechnicalRefereeWebServer {
     scalability: number;
     vendorLockIn: number;
   }) {
-    const session = this.getSession(sessionId);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
+    const loaded = this.loadCollection(sessionId);
+    if (!loaded) {
+      return this.sessionNotFound();
     }
 
+    const { userSession, collection: session } = loaded;
     const result = session.collectPriorities(prioritiesData);
-    
+
     // If collection is complete, update the user session with complete constraints
-    if (result.isValid) {
-      const completeConstraints = session.getCompleteConstraints();
-      if (completeConstraints) {
-        const userSession = this.userSessions.get(sessionId);
-        if (userSession) {
-          userSession.constraints = completeConstraints;
-          this.userSessions.set(sessionId, userSession);
-          this.constraintUpdateManager.setSession(sessionId, userSession);
-        }
-      }
+    const completeConstraints = result.isValid ? session.getCompleteConstraints() : null;
+    if (completeConstraints) {
+      userSession.constraints = { ...completeConstraints };
     }
-    
+    this.saveCollection(userSession, session);
+
     return {
       success: result.isValid,
       errors: result.errors,
       warnings: result.warnings,
       currentStep: session.getCurrentStep(),
       progress: session.getProgress(),
-      constraints: result.isValid ? session.getCompleteConstraints() : null
+      constraints: completeConstraints
     };
   }
 
+  /**
+   * Run one collection step against the stored progress and save the outcome
+   */
+  private handleCollectionStep(sessionId: string, collect: (session: ConstraintCollectionInterface) => ValidationResult) {
+    const loaded = this.loadCollection(sessionId);
+    if (!loaded) {
+      return this.sessionNotFound();
+    }
+
+    const { userSession, collection: session } = loaded;
+    const result = collect(session);
+    this.saveCollection(userSession, session);
+
+    return {
+      success: result.isValid,
+      errors: result.errors,
+      warnings: result.warnings,
+      currentStep: session.getCurrentStep(),
+      progress: session.getProgress()
+    };
+  }
+
+  /**
+   * Load a session together with a collection interface resumed from its saved progress
+   */
+  private loadCollection(sessionId: string): { userSession: UserSession; collection: ConstraintCollectionInterface } | null {
+    const userSession = this.sessionManager.getSession(sessionId);
+    if (!userSession) {
+      return null;
+    }
+
+    const collection = new ConstraintCollectionInterface();
+    if (userSession.collection) {
+      collection.restoreState(userSession.collection);
+    }
+    return { userSession, collection };
+  }
+
+  /**
+   * Save collection progress back to its session
+   */
+  private saveCollection(userSession: UserSession, collection: ConstraintCollectionInterface): void {
+    userSession.collection = collection.getState();
+    this.sessionManager.saveSession(userSession);
+  }
+
   /**
    * Handle constraint update API endpoint
    * Requirement 6.3: Allow re-evaluation with updated parameters
    */
   async handleConstraintUpdate(sessionId: string, constraintUpdates: UserConstraintUpdates): Promise<any> {
+    return this.runConstraintUpdate(
+      sessionId,
+      'Constraint update',
+      () => this.constraintUpdateManager.updateConstraints(sessionId, constraintUpdates)
+    );
+  }
+
+  /**
+   * Handle priority update API endpoint
+   */
+  async handlePriorityUpdate(sessionId: string, newPriorities: UserConstraints['priorities']): Promise<any> {
+    return this.runConstraintUpdate(
+      sessionId,
+      'Priority update',
+      () => this.constraintUpdateManager.updatePriorities(sessionId, newPriorities)
+    );
+  }
+
+  /**
+   * Handle undo API endpoint
+   */
+  async handleUndo(sessionId: string): Promise<any> {
+    return this.runConstraintUpdate(sessionId, 'Undo', () => this.constraintUpdateManager.undo(sessionId));
+  }
+
+  /**
+   * Handle redo API endpoint
+   */
+  async handleRedo(sessionId: string): Promise<any> {
+    return this.runConstraintUpdate(sessionId, 'Redo', () => this.constraintUpdateManager.redo(sessionId));
+  }
+
+  /**
+   * Handle restore API endpoint
+   * @param target - History index, or an ISO timestamp to restore the constraints as of that moment
+   */
+  async handleRestore(sessionId: string, target: { index?: number; timestamp?: string }): Promise<any> {
+    const point = target.timestamp !== undefined ? new Date(target.timestamp) : target.index;
+    if (point === undefined) {
+      return {
+        success: false,
+        errors: [{ field: 'index', message: 'Provide a history index or a timestamp to restore', code: 'RESTORE_POINT_REQUIRED' }],
+        warnings: []
+      };
+    }
+
+    return this.runConstraintUpdate(sessionId, 'Restore', () => this.constraintUpdateManager.restoreTo(sessionId, point));
+  }
+
+  /**
+   * Run a constraint update, rendering the re-evaluated comparison and whether undo and redo are available
+   * @param failureLabel - Operation name used when the update throws
+   */
+  private async runConstraintUpdate(
+    sessionId: string,
+    failureLabel: string,
+    update: () => Promise<ConstraintUpdateResult>
+  ): Promise<any> {
     try {
-      const result = await this.constraintUpdateManager.updateConstraints(sessionId, constraintUpdates);
-      
-      // Update the user session if successful
-      if (result.success) {
-        const userSession = this.userSessions.get(sessionId);
-        if (userSession) {
-          userSession.constraints = result.updatedConstraints;
-          this.userSessions.set(sessionId, userSession);
-        }
-      }
-      
+      const result = await update();
+
       return {
         success: result.success,
         updatedConstraints: result.updatedConstraints,
         evaluationResult: result.evaluationResult,
+        comparison: result.evaluationResult
+          ? this.outputGenerator.generateComparison(result.evaluationResult, result.updatedConstraints)
+          : null,
         errors: result.errors,
         warnings: result.warnings,
-        changesSummary: result.changesSummary
+        changesSummary: result.changesSummary,
+        ...this.constraintUpdateManager.getUndoRedoAvailability(sessionId)
       };
     } catch (error) {
+      return this.knownFailure(error) ?? {
+        success: false,
+        error: `${failureLabel} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code: error instanceof TechnicalRefereeError ? error.code : 'UPDATE_FAILED'
+      };
+    }
+  }
+
+  /**
+   * List the known technologies that can be selected by name
+   * @param category - Optional category filter
+   */
+  getAvailableOptions(category?: string) {
+    const samples = this.knowledgeBase.getSampleTechnologies();
+    const categories = category ? [category] : Object.keys(samples);
+
+    return {
+      success: true,
+      options: categories.flatMap(candidate => (samples[candidate] || []).map(option => ({
+        name: option.name,
+        category: option.category,
+        metadata: option.metadata
+      })))
+    };
+  }
+
+  /**
+   * Handle option selection API endpoint
+   * Attaches 2-3 options to the session, resolving names against the knowledge base
+   */
+  handleOptionSelection(sessionId: string, selections: OptionSelection[]) {
+    const userSession = this.sessionManager.getSession(sessionId);
+    if (!userSession) {
+      return this.sessionNotFound();
+    }
+
+    if (!Array.isArray(selections)) {
       return {
         success: false,
-        error: `Constraint update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        errors: [{ field: 'options', message: 'Options must be an array', code: 'OPTIONS_INVALID_TYPE' }],
+        warnings: []
       };
     }
+
+    const { options, errors } = this.knowledgeBase.resolveOptionSelections(selections);
+    if (errors.length > 0) {
+      return { success: false, errors, warnings: [] };
+    }
+
+    const validation = this.comparisonEngine.validateTechnicalOptions(options);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors, warnings: validation.warnings };
+    }
+
+    userSession.selectedOptions = options;
+    this.sessionManager.saveSession(userSession);
+
+    return {
+      success: true,
+      selectedOptions: options,
+      errors: [],
+      warnings: validation.warnings
+    };
   }
 
   /**
-   * Handle priority update API endpoint
+   * Handle evaluation API endpoint
+   * Runs the comparison engine against the session's constraints and selected options
    */
-  async handlePriorityUpdate(sessionId: string, newPriorities: UserConstraints['priorities']): Promise<any> {
+  handleEvaluation(sessionId: string) {
+    const userSession = this.sessionManager.getSession(sessionId);
+    if (!userSession) {
+      return this.sessionNotFound();
+    }
+
+    const constraints = this.getCompleteConstraints(sessionId);
+    if (!constraints) {
+      return {
+        success: false,
+        errors: [{
+          field: 'constraints',
+          message: 'Constraint collection is not complete',
+          code: 'COLLECTION_INCOMPLETE'
+        }],
+        warnings: []
+      };
+    }
+
+    if (userSession.selectedOptions.length === 0) {
+      return {
+        success: false,
+        errors: [{ field: 'options', message: 'No options selected for this session', code: 'OPTIONS_NOT_SELECTED' }],
+        warnings: []
+      };
+    }
+
+    // Constraint updates are applied to the user session, so prefer it over the collected form data
+    const sessionConstraints = userSession.constraints.priorities ? userSession.constraints : constraints;
+
+    let evaluationResult: EvaluationResult;
     try {
-      const result = await this.constraintUpdateManager.updatePriorities(sessionId, newPriorities);
-      
-      // Update the user session if successful
-      if (result.success) {
-        const userSession = this.userSessions.get(sessionId);
-        if (userSession) {
-          userSession.constraints = result.updatedConstraints;
-          this.userSessions.set(sessionId, userSession);
-        }
+      evaluationResult = this.comparisonEngine.evaluate(userSession.selectedOptions, sessionConstraints);
+    } catch (error) {
+      if (error instanceof RefereeValidationError) {
+        return { success: false, errors: error.errors, warnings: error.warnings };
       }
-      
+      throw error;
+    }
+
+    userSession.evaluationHistory.push(evaluationResult);
+    this.sessionManager.saveSession(userSession);
+
+    return {
+      success: true,
+      constraints: sessionConstraints,
+      evaluationResult,
+      comparison: this.outputGenerator.generateComparison(evaluationResult, sessionConstraints),
+      errors: [],
+      warnings: evaluationResult.warnings ?? []
+    };
+  }
+
+  /**
+   * Get the most recent evaluation and rendered comparison for a session
+   */
+  getLatestResults(sessionId: string) {
+    const userSession = this.sessionManager.getSession(sessionId);
+    if (!userSession) {
+      return this.sessionNotFound();
+    }
+
+    const evaluationResult = userSession.evaluationHistory[userSession.evaluationHistory.length - 1];
+    if (!evaluationResult) {
       return {
-        success: result.success,
-        updatedConstraints: result.updatedConstraints,
-        evaluationResult: result.evaluationResult,
-        errors: result.errors,
-        warnings: result.warnings,
-        changesSummary: result.changesSummary
+        success: false,
+        errors: [{ field: 'evaluation', message: 'No evaluation has been run for this session', code: 'EVALUATION_NOT_FOUND' }],
+        warnings: []
+      };
+    }
+
+    return {
+      success: true,
+      constraints: userSession.constraints,
+      selectedOptions: userSession.selectedOptions,
+      evaluationResult,
+      comparison: this.outputGenerator.generateComparison(evaluationResult, userSession.constraints),
+      evaluationCount: userSession.evaluationHistory.length,
+      errors: [],
+      warnings: []
+    };
+  }
+
+  /**
+   * Export the most recent results for a session as a report document
+   * @param sessionId - Session to export
+   * @param format - Report format
+   */
+  exportReport(sessionId: string, format: ReportFormat) {
+    const latest = this.getLatestResults(sessionId);
+    if (!latest.success || !('comparison' in latest) || !latest.comparison) {
+      return latest;
+    }
+
+    return {
+      success: true,
+      content: this.reportExporter.export(latest.comparison, latest.constraints, format),
+      contentType: REPORT_CONTENT_TYPES[format],
+      filename: `comparison-report${REPORT_FILE_EXTENSIONS[format]}`
+    };
+  }
+
+  /**
+   * Fork a what-if scenario from the session's constraints or from another scenario
+   * Requires the constraint collection to be complete
+   */
+  handleScenarioFork(sessionId: string, name: string, updates: UserConstraintUpdates = {}, fromScenarioId?: string) {
+    const userSession = this.sessionManager.getSession(sessionId);
+    if (!userSession) {
+      return this.sessionNotFound();
+    }
+
+    if (!userSession.constraints.priorities) {
+      return {
+        success: false,
+        errors: [{ field: 'constraints', message: 'Constraint collection is not complete', code: 'COLLECTION_INCOMPLETE' }],
+        warnings: []
       };
+    }
+
+    return this.runScenarioOperation(() =>
+      this.scenarioResult(this.scenarioManager.forkScenario(sessionId, name, updates, fromScenarioId))
+    );
+  }
+
+  /**
+   * Change a scenario's constraints and re-evaluate it
+   */
+  handleScenarioUpdate(sessionId: string, scenarioId: string, updates: UserConstraintUpdates) {
+    return this.runScenarioOperation(() =>
+      this.scenarioResult(this.scenarioManager.updateScenario(sessionId, scenarioId, updates))
+    );
+  }
+
+  /**
+   * List a session's scenarios
+   */
+  listScenarios(sessionId: string) {
+    return this.runScenarioOperation(() => ({
+      success: true,
+      scenarios: this.scenarioManager.listScenarios(sessionId).map(scenario => ({
+        id: scenario.id,
+        name: scenario.name,
+        parentId: scenario.parentId,
+        constraints: scenario.constraints,
+        evaluationCount: scenario.evaluationHistory.length,
+        createdAt: scenario.createdAt,
+        updatedAt: scenario.updatedAt
+      }))
+    }));
+  }
+
+  /**
+   * Delete a scenario
+   */
+  handleScenarioDelete(sessionId: string, scenarioId: string) {
+    return this.runScenarioOperation(() => {
+      if (!this.scenarioManager.deleteScenario(sessionId, scenarioId)) {
+        throw new ScenarioNotFoundError(scenarioId);
+      }
+      return { success: true, errors: [], warnings: [] };
+    });
+  }
+
+  /**
+   * Compare several scenarios side by side, evaluated against the session's current options
+   * @param scenarioIds - Scenarios to compare (defaults to all of them)
+   */
+  compareScenarios(sessionId: string, scenarioIds?: string[]) {
+    return this.runScenarioOperation(() => ({
+      success: true,
+      comparison: this.scenarioManager.compareScenarios(sessionId, scenarioIds),
+      errors: [],
+      warnings: []
+    }));
+  }
+
+  /**
+   * Render a forked or updated scenario with its latest comparison
+   */
+  private scenarioResult(change: ScenarioChange) {
+    const { scenario, evaluationResult, warnings } = change;
+    return {
+      success: true,
+      scenario,
+      comparison: evaluationResult ? this.outputGenerator.generateComparison(evaluationResult, scenario.constraints) : null,
+      errors: [],
+      warnings
+    };
+  }
+
+  /**
+   * Run a scenario operation, turning the scenario manager's errors into handler results
+   */
+  private runScenarioOperation<T>(operation: () => T) {
+    try {
+      return operation();
     } catch (error) {
+      const failure = this.knownFailure(error);
+      if (failure) {
+        return failure;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a missing session or scenario, or a validation failure, into a handler result
+   * @returns The failure result, or null when the error is not one the handlers report
+   */
+  private knownFailure(error: unknown) {
+    if (error instanceof SessionNotFoundError) {
+      return this.sessionNotFound();
+    }
+    if (error instanceof ScenarioNotFoundError) {
       return {
         success: false,
-        error: `Priority update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        errors: [{ field: 'scenarioId', message: error.message, code: error.code }],
+        warnings: []
       };
     }
+    if (error instanceof RefereeValidationError) {
+      return { success: false, errors: error.errors, warnings: error.warnings };
+    }
+    return null;
+  }
+
+  /**
+   * Result returned by handlers when the session does not exist or has expired
+   */
+  private sessionNotFound() {
+    return { success: false, error: 'Session not found', code: 'SESSION_NOT_FOUND' };
   }
 
   /**
@@ -247,8 +592,11 @@ export class TechnicalRefereeWebServer {
         modifiedFields: mod.modifiedFields,
         previousValues: mod.previousValues,
         newValues: mod.newValues,
-        reason: mod.reason
-      }))
+        reason: mod.reason,
+        operation: mod.operation || 'update',
+        targetIndex: mod.targetIndex
+      })),
+      ...this.constraintUpdateManager.getUndoRedoAvailability(sessionId)
     };
   }
 
@@ -256,9 +604,9 @@ export class TechnicalRefereeWebServer {
    * Validate constraint updates before applying
    */
   validateConstraintUpdates(sessionId: string, updates: UserConstraintUpdates): any {
-    const userSession = this.userSessions.get(sessionId);
+    const userSession = this.sessionManager.getSession(sessionId);
     if (!userSession) {
-      return { success: false, error: 'Session not found' };
+      return this.sessionNotFound();
     }
 
     const validation = this.constraintUpdateManager.validateConstraintUpdates(userSession.constraints, updates);
@@ -298,8 +646,8 @@ export class TechnicalRefereeWebServer {
    * Navigate to a specific step in the collection process
    */
   navigateToStep(sessionId: string, step: string): boolean {
-    const session = this.getSession(sessionId);
-    if (!session) {
+    const loaded = this.loadCollection(sessionId);
+    if (!loaded) {
       return false;
     }
 
@@ -318,7 +666,11 @@ export class TechnicalRefereeWebServer {
       return false;
     }
 
-    return session.goToStep(stepEnum);
+    const moved = loaded.collection.goToStep(stepEnum);
+    if (moved) {
+      this.saveCollection(loaded.userSession, loaded.collection);
+    }
+    return moved;
   }
 
   /**
@@ -336,153 +688,555 @@ export class TechnicalRefereeWebServer {
   }
 
   /**
-   * Serve static files (HTML, CSS, JS)
+   * Serve one of the web UI assets
+   * @param filePath - Asset path relative to the web directory
+   * @returns File content and type, or null when the path is not a known asset
    */
   serveStaticFile(filePath: string): { content: string; contentType: string } | null {
-    const webDir = path.join(__dirname);
-    const fullPath = path.join(webDir, filePath);
-    
-    // Security check - ensure file is within web directory
-    if (!fullPath.startsWith(webDir)) {
+    // Only the assets on the allow-list are served, so nothing else in the directory is exposed
+    const contentType = STATIC_ASSETS.get(filePath);
+    if (!contentType) {
       return null;
     }
 
     try {
-      const content = fs.readFileSync(fullPath, 'utf8');
-      const contentType = this.getContentType(filePath);
-      return { content, contentType };
+      return { content: fs.readFileSync(path.join(__dirname, filePath), 'utf8'), contentType };
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Get content type for file extension
+   * Clean up expired sessions
+   * @returns Number of sessions removed
    */
-  private getContentType(filePath: string): string {
-    const ext = path.extname(filePath).toLowerCase();
-    const contentTypes: Record<string, string> = {
-      '.html': 'text/html',
-      '.css': 'text/css',
-      '.js': 'application/javascript',
-      '.json': 'application/json'
-    };
-    return contentTypes[ext] || 'text/plain';
+  cleanupSessions(): number {
+    return this.sessionManager.cleanupExpiredSessions();
   }
+}
 
-  /**
-   * Generate unique session ID
-   */
-  private generateSessionId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
-  }
+/**
+ * Response produced by the request router
+ */
+export interface HTTPResponse {
+  /** HTTP status code */
+  statusCode: number;
+  /** Content-Type header value */
+  contentType: string;
+  /** Response body - objects are serialized as JSON */
+  body: unknown;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+}
 
-  /**
-   * Clean up expired sessions
-   */
-  cleanupSessions(): void {
-    // In a real implementation, you would track session timestamps
-    // and remove sessions that haven't been used recently
-    // For now, we'll keep all sessions
+/**
+ * Error raised while routing a request, mapped to an HTTP status code
+ */
+export class HttpError extends TechnicalRefereeError {
+  /** HTTP status code to respond with */
+  readonly statusCode: number;
+  /** Additional response headers */
+  readonly headers: Record<string, string>;
+
+  constructor(statusCode: number, message: string, code: string, headers: Record<string, string> = {}) {
+    super(message, code);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.headers = headers;
   }
 }
 
 /**
- * Simple HTTP server implementation for demonstration
- * In a real application, you would use Express.js or similar
+ * Allowed methods for each API route
+ */
+const API_ROUTES: Record<string, string[]> = {
+  session: ['GET', 'POST'],
+  collect: ['POST'],
+  update: ['POST'],
+  validate: ['POST'],
+  history: ['GET'],
+  options: ['GET', 'POST'],
+  evaluate: ['POST'],
+  results: ['GET'],
+  export: ['GET'],
+  scenarios: ['GET', 'POST', 'DELETE'],
+};
+
+/** Maximum accepted request body size in bytes */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+/** Web UI assets that may be served, with their content types */
+const STATIC_ASSETS = new Map<string, string>([
+  ['index.html', 'text/html; charset=utf-8'],
+  ['app.js', 'application/javascript; charset=utf-8'],
+  ['styles.css', 'text/css; charset=utf-8'],
+]);
+
+/** How often expired sessions are removed while the server is listening */
+const SESSION_CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * HTTP server for the Technical Referee Tool
+ * Binds the API routes and static files to a node:http listener
  */
 export class SimpleHTTPServer {
   private server: TechnicalRefereeWebServer;
   private port: number;
+  private host: string;
+  private httpServer: http.Server | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
-  constructor(port: number = 3000) {
-    this.server = new TechnicalRefereeWebServer();
+  constructor(port: number = 3000, host: string = 'localhost', server?: TechnicalRefereeWebServer) {
+    this.server = server || new TechnicalRefereeWebServer();
     this.port = port;
+    this.host = host;
+  }
+
+  /**
+   * Start listening for HTTP requests
+   * Resolves once the server is bound to its port
+   */
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      void this.dispatch(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.port, this.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.cleanupTimer = setInterval(() => this.cleanupSessions(), SESSION_CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+    console.log(`Technical Referee Tool server listening on http://${this.host}:${this.getPort()}`);
+  }
+
+  /**
+   * Stop accepting connections and wait for in-flight requests to finish
+   */
+  async stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    if (!httpServer) {
+      return;
+    }
+
+    this.httpServer = null;
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    await new Promise<void>((resolve, reject) => {
+      httpServer.close(error => (error ? reject(error) : resolve()));
+      httpServer.closeIdleConnections();
+    });
+  }
+
+  /**
+   * Whether the server is currently listening
+   */
+  isListening(): boolean {
+    return this.httpServer !== null && this.httpServer.listening;
   }
 
   /**
-   * Start the server
-   */
-  start(): void {
-    console.log(`Technical Referee Tool server starting on port ${this.port}`);
-    console.log(`Open http://localhost:${this.port} to access the constraint collection interface`);
-    
-    // In a real implementation, you would set up actual HTTP routes here
-    // This is just a demonstration of the server structure
-  }
-
-  /**
-   * Handle HTTP requests (simplified for demonstration)
-   */
-  async handleRequest(method: string, url: string, body?: any): Promise<any> {
-    // Parse URL and route to appropriate handler
-    const urlParts = url.split('/').filter(part => part);
-    
-    if (method === 'GET' && urlParts.length === 0) {
-      // Serve index.html
-      return this.server.serveStaticFile('index.html');
-    }
-    
-    if (method === 'GET' && urlParts[0] === 'api' && urlParts[1] === 'session') {
-      // Create new session
-      const sessionId = this.server.createSession();
-      return { sessionId };
-    }
-    
-    if (method === 'POST' && urlParts[0] === 'api' && urlParts[1] === 'collect') {
-      const sessionId = body.sessionId;
-      const step = urlParts[2];
-      
-      switch (step) {
-        case 'budget':
-          return this.server.handleBudgetCollection(sessionId, body.data);
-        case 'scale':
-          return this.server.handleScaleCollection(sessionId, body.data);
-        case 'team':
-          return this.server.handleTeamCollection(sessionId, body.data);
-        case 'timeline':
-          return this.server.handleTimelineCollection(sessionId, body.data);
-        case 'priorities':
-          return this.server.handlePrioritiesCollection(sessionId, body.data);
-        default:
-          return { success: false, error: 'Unknown collection step' };
+   * Get the bound port (useful when started on port 0)
+   */
+  getPort(): number {
+    const address = this.httpServer?.address();
+    if (address && typeof address === 'object') {
+      return address.port;
+    }
+    return this.port;
+  }
+
+  /**
+   * Get the underlying web server with the API handlers
+   */
+  getWebServer(): TechnicalRefereeWebServer {
+    return this.server;
+  }
+
+  /**
+   * Remove expired sessions, logging rather than crashing if the store fails
+   */
+  private cleanupSessions(): void {
+    try {
+      this.server.cleanupSessions();
+    } catch (error) {
+      console.error('Session cleanup failed:', error);
+    }
+  }
+
+  /**
+   * Read, route and answer a single node:http request
+   */
+  private async dispatch(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let response: HTTPResponse;
+
+    try {
+      const body = await this.readJsonBody(req);
+      response = await this.handleRequest(req.method || 'GET', req.url || '/', body);
+    } catch (error) {
+      response = this.errorResponse(error);
+    }
+
+    this.writeResponse(res, req.method === 'HEAD' ? { ...response, body: '' } : response);
+  }
+
+  /**
+   * Read and parse a JSON request body
+   * @returns Parsed body, or undefined when the request has no body
+   */
+  private async readJsonBody(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_SIZE) {
+        throw new HttpError(413, 'Request body too large', 'BODY_TOO_LARGE');
       }
+      chunks.push(chunk as Buffer);
     }
-    
-    // Constraint update endpoints
-    if (method === 'POST' && urlParts[0] === 'api' && urlParts[1] === 'update') {
-      const sessionId = body.sessionId;
-      const updateType = urlParts[2];
-      
-      switch (updateType) {
-        case 'constraints':
-          return await this.server.handleConstraintUpdate(sessionId, body.updates);
-        case 'priorities':
-          return await this.server.handlePriorityUpdate(sessionId, body.priorities);
-        default:
-          return { success: false, error: 'Unknown update type' };
+
+    const raw = Buffer.concat(chunks).toString('utf8').trim();
+    if (raw.length === 0) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new HttpError(400, 'Request body must be valid JSON', 'INVALID_JSON');
+    }
+  }
+
+  /**
+   * Write a routed response to the socket
+   */
+  private writeResponse(res: http.ServerResponse, response: HTTPResponse): void {
+    const payload = typeof response.body === 'string' || Buffer.isBuffer(response.body)
+      ? response.body
+      : JSON.stringify(response.body);
+
+    res.writeHead(response.statusCode, {
+      'Content-Type': response.contentType,
+      'Content-Length': Buffer.byteLength(payload),
+      ...response.headers,
+    });
+    res.end(payload);
+  }
+
+  /**
+   * Convert a thrown error into an HTTP response
+   */
+  private errorResponse(error: unknown): HTTPResponse {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        contentType: JSON_CONTENT_TYPE,
+        body: { success: false, error: error.message, code: error.code },
+        headers: error.headers,
+      };
+    }
+
+    console.error('Unhandled request error:', error);
+    return {
+      statusCode: 500,
+      contentType: JSON_CONTENT_TYPE,
+      body: { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    };
+  }
+
+  /**
+   * Route an HTTP request to the appropriate handler
+   * @param method - HTTP method
+   * @param url - Request URL including any query string
+   * @param body - Parsed JSON body
+   * @returns Response with status code, content type and body
+   */
+  async handleRequest(method: string, url: string, body?: any): Promise<HTTPResponse> {
+    try {
+      return await this.route(method.toUpperCase(), url, body);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Match the request against the API routes and static files
+   */
+  private async route(method: string, url: string, body?: any): Promise<HTTPResponse> {
+    // Parse URL and query string
+    const parsedUrl = new URL(url, 'http://localhost');
+    const query = Object.fromEntries(parsedUrl.searchParams.entries());
+    const urlParts = parsedUrl.pathname.split('/').filter(part => part).map(part => {
+      try {
+        return decodeURIComponent(part);
+      } catch {
+        throw new HttpError(400, 'Malformed URL', 'INVALID_URL');
       }
+    });
+
+    if (urlParts[0] === 'api') {
+      return this.routeApi(method, urlParts.slice(1), query, body);
+    }
+
+    if (method !== 'GET' && method !== 'HEAD') {
+      throw new HttpError(405, `Method ${method} not allowed`, 'METHOD_NOT_ALLOWED', { Allow: 'GET, HEAD' });
+    }
+
+    // Serve index.html for the root, otherwise the requested static file
+    const filePath = urlParts.length === 0 ? 'index.html' : urlParts.join('/');
+    const file = this.server.serveStaticFile(filePath);
+    if (!file) {
+      throw new HttpError(404, `Not found: ${parsedUrl.pathname}`, 'NOT_FOUND');
+    }
+
+    return { statusCode: 200, contentType: file.contentType, body: file.content };
+  }
+
+  /**
+   * Route an API request
+   */
+  private async routeApi(
+    method: string,
+    apiParts: string[],
+    query: Record<string, string>,
+    body?: any
+  ): Promise<HTTPResponse> {
+    const resource = apiParts[0] || '';
+    const allowedMethods = API_ROUTES[resource];
+
+    if (!allowedMethods) {
+      throw new HttpError(404, `Unknown API route: ${resource}`, 'NOT_FOUND');
+    }
+    if (!allowedMethods.includes(method)) {
+      throw new HttpError(405, `Method ${method} not allowed`, 'METHOD_NOT_ALLOWED', {
+        Allow: allowedMethods.join(', '),
+      });
+    }
+
+    switch (resource) {
+      case 'session': {
+        // Create new session
+        const sessionId = this.server.createSession();
+        return this.jsonResponse(201, { sessionId });
+      }
+
+      case 'collect': {
+        const sessionId = this.requireSessionId(body, query);
+        const data = this.requireField(body, 'data');
+
+        switch (apiParts[1]) {
+          case 'budget':
+            return this.resultResponse(this.server.handleBudgetCollection(sessionId, data));
+          case 'scale':
+            return this.resultResponse(this.server.handleScaleCollection(sessionId, data));
+          case 'team':
+            return this.resultResponse(this.server.handleTeamCollection(sessionId, data));
+          case 'timeline':
+            return this.resultResponse(this.server.handleTimelineCollection(sessionId, data));
+          case 'priorities':
+            return this.resultResponse(this.server.handlePrioritiesCollection(sessionId, data));
+          default:
+            throw new HttpError(404, 'Unknown collection step', 'UNKNOWN_STEP');
+        }
+      }
+
+      // Constraint update endpoints
+      case 'update': {
+        const sessionId = this.requireSessionId(body, query);
+
+        switch (apiParts[1]) {
+          case 'constraints':
+            return this.resultResponse(
+              await this.server.handleConstraintUpdate(sessionId, this.requireField(body, 'updates'))
+            );
+          case 'priorities':
+            return this.resultResponse(
+              await this.server.handlePriorityUpdate(sessionId, this.requireField(body, 'priorities'))
+            );
+          case 'undo':
+            return this.resultResponse(await this.server.handleUndo(sessionId));
+          case 'redo':
+            return this.resultResponse(await this.server.handleRedo(sessionId));
+          case 'restore':
+            return this.resultResponse(await this.server.handleRestore(sessionId, {
+              ...(typeof body?.index === 'number' && { index: body.index }),
+              ...(typeof body?.timestamp === 'string' && { timestamp: body.timestamp }),
+            }));
+          default:
+            throw new HttpError(404, 'Unknown update type', 'UNKNOWN_UPDATE_TYPE');
+        }
+      }
+
+      // Constraint validation endpoint
+      case 'validate': {
+        const sessionId = this.requireSessionId(body, query);
+        return this.resultResponse(
+          this.server.validateConstraintUpdates(sessionId, this.requireField(body, 'updates'))
+        );
+      }
+
+      // Constraint history endpoint
+      case 'history': {
+        const sessionId = apiParts[1] || query.sessionId;
+        if (!sessionId) {
+          throw new HttpError(400, 'sessionId is required', 'SESSION_ID_REQUIRED');
+        }
+        if (!this.server.getSession(sessionId)) {
+          throw new HttpError(404, 'Session not found', 'SESSION_NOT_FOUND');
+        }
+        return this.jsonResponse(200, this.server.getConstraintHistory(sessionId));
+      }
+
+      // Option catalog and selection endpoints
+      case 'options': {
+        if (method === 'GET') {
+          return this.jsonResponse(200, this.server.getAvailableOptions(query.category));
+        }
+        const sessionId = this.requireSessionId(body, query);
+        return this.resultResponse(
+          this.server.handleOptionSelection(sessionId, this.requireField(body, 'options'))
+        );
+      }
+
+      // Evaluation endpoint
+      case 'evaluate': {
+        const sessionId = this.requireSessionId(body, query);
+        return this.resultResponse(this.server.handleEvaluation(sessionId));
+      }
+
+      // Latest results endpoint
+      case 'results': {
+        const sessionId = apiParts[1] || query.sessionId;
+        if (!sessionId) {
+          throw new HttpError(400, 'sessionId is required', 'SESSION_ID_REQUIRED');
+        }
+        return this.resultResponse(this.server.getLatestResults(sessionId));
+      }
+
+      // Report export endpoint
+      case 'export': {
+        const format = apiParts[1];
+        if (format !== 'markdown' && format !== 'html') {
+          throw new HttpError(404, 'Unknown report format', 'UNKNOWN_REPORT_FORMAT');
+        }
+        const sessionId = this.requireSessionId(body, query);
+        const report = this.server.exportReport(sessionId, format);
+        if (!('content' in report)) {
+          return this.resultResponse(report);
+        }
+        return {
+          statusCode: 200,
+          contentType: report.contentType,
+          body: report.content,
+          headers: { 'Content-Disposition': `inline; filename="${report.filename}"` },
+        };
+      }
+
+      // What-if scenario endpoints
+      case 'scenarios': {
+        const sessionId = this.requireSessionId(body, query);
+        const target = apiParts[1];
+
+        if (method === 'GET') {
+          if (target === 'compare') {
+            const ids = query.ids ? query.ids.split(',').filter(id => id) : undefined;
+            return this.resultResponse(this.server.compareScenarios(sessionId, ids));
+          }
+          if (target) {
+            throw new HttpError(404, 'Unknown scenario route', 'NOT_FOUND');
+          }
+          return this.resultResponse(this.server.listScenarios(sessionId));
+        }
+
+        if (method === 'DELETE') {
+          if (!target) {
+            throw new HttpError(400, 'Scenario ID is required', 'SCENARIO_ID_REQUIRED');
+          }
+          return this.resultResponse(this.server.handleScenarioDelete(sessionId, target));
+        }
+
+        if (target) {
+          return this.resultResponse(
+            this.server.handleScenarioUpdate(sessionId, target, this.requireField(body, 'updates'))
+          );
+        }
+        if (typeof body?.name !== 'string') {
+          throw new HttpError(400, "Request body must include a string field 'name'", 'FIELD_REQUIRED');
+        }
+        const fromScenarioId = typeof body.fromScenarioId === 'string' ? body.fromScenarioId : undefined;
+        return this.resultResponse(
+          this.server.handleScenarioFork(sessionId, body.name, body.updates ?? {}, fromScenarioId)
+        );
+      }
+
+      default:
+        throw new HttpError(404, `Unknown API route: ${resource}`, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Extract the session ID from the body or query string
+   */
+  private requireSessionId(body: any, query: Record<string, string>): string {
+    const sessionId = body?.sessionId ?? query.sessionId;
+    if (typeof sessionId !== 'string' || sessionId.length === 0) {
+      throw new HttpError(400, 'sessionId is required', 'SESSION_ID_REQUIRED');
+    }
+    return sessionId;
+  }
+
+  /**
+   * Extract a required object field from the request body
+   */
+  private requireField(body: any, field: string): any {
+    const value = body?.[field];
+    if (value === undefined || value === null || typeof value !== 'object') {
+      throw new HttpError(400, `Request body must include an object field '${field}'`, 'FIELD_REQUIRED');
+    }
+    return value;
+  }
+
+  /**
+   * Build a JSON response
+   */
+  private jsonResponse(statusCode: number, body: unknown): HTTPResponse {
+    return { statusCode, contentType: JSON_CONTENT_TYPE, body };
+  }
+
+  /**
+   * Map a handler result to a status code
+   * Missing sessions and scenarios are 404 by error code, validation failures 400 and caught failures 500
+   */
+  private resultResponse(result: any): HTTPResponse {
+    const codes: unknown[] = [
+      result?.code,
+      ...(Array.isArray(result?.errors) ? result.errors.map((e: any) => e?.code) : [])
+    ];
+
+    if (codes.includes('SESSION_NOT_FOUND')) {
+      return this.jsonResponse(404, { ...result, success: false, error: 'Session not found' });
+    }
+    if (codes.includes('SCENARIO_NOT_FOUND')) {
+      return this.jsonResponse(404, result);
+    }
+    if (result?.success === false) {
+      return this.jsonResponse(Array.isArray(result.errors) ? 400 : 500, result);
     }
-    
-    // Constraint validation endpoint
-    if (method === 'POST' && urlParts[0] === 'api' && urlParts[1] === 'validate') {
-      const sessionId = body.sessionId;
-      return this.server.validateConstraintUpdates(sessionId, body.updates);
-    }
-    
-    // Constraint history endpoint
-    if (method === 'GET' && urlParts[0] === 'api' && urlParts[1] === 'history' && urlParts[2]) {
-      const sessionId = urlParts[2];
-      return this.server.getConstraintHistory(sessionId);
-    }
-    
-    // Serve static files
-    if (method === 'GET') {
-      const filePath = urlParts.join('/');
-      return this.server.serveStaticFile(filePath);
-    }
-    
-    return { error: 'Not found' };
+    return this.jsonResponse(200, result);
   }
 }
 